@@ -0,0 +1,243 @@
+import { useRef, useState } from 'react';
+import { FileSpreadsheet, Loader2 } from 'lucide-react';
+import type { QROptions, QRTemplateType } from '../../types/qr';
+import { templateDefinitions } from '../../types/qr';
+import { useLanguage } from '../../i18n';
+import {
+  parseBatchFile,
+  getTemplateFields,
+  autoMapColumns,
+  generateBatchZip,
+  type BatchTable,
+  type ColumnMapping,
+} from '../../utils/batch';
+import { downloadBlob, type ExportFormat } from '../../utils/qrExport';
+import './BatchExport.css';
+
+interface BatchExportProps {
+  // Current styling and template, used as the starting point for every row
+  options: QROptions;
+}
+
+const EXPORT_FORMATS: ExportFormat[] = ['png', 'svg', 'pdf'];
+
+// Outcome of the last batch run
+type BatchStatus =
+  | { state: 'idle' | 'parseFailed' }
+  | { state: 'generating'; done: number; total: number }
+  | { state: 'done'; exported: number; skipped: number[] }
+  | { state: 'failed' };
+
+export default function BatchExport({ options }: BatchExportProps) {
+  const { t } = useLanguage();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<BatchTable | null>(null);
+  const [templateType, setTemplateType] = useState<QRTemplateType>(options.templateType);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [fileNamePattern, setFileNamePattern] = useState('qr-code-{#}');
+  const [formats, setFormats] = useState<ExportFormat[]>(['png']);
+  const [status, setStatus] = useState<BatchStatus>({ state: 'idle' });
+
+  const fields = getTemplateFields(templateType);
+  const isGenerating = status.state === 'generating';
+
+  const loadFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const parsed = parseBatchFile(file.name, reader.result as string);
+      setFileName(file.name);
+      setTable(parsed);
+      setStatus({ state: parsed ? 'idle' : 'parseFailed' });
+      if (parsed) {
+        setMapping(autoMapColumns(fields, parsed.columns));
+        // Default file names from the first column, which usually identifies the row
+        setFileNamePattern(`{${parsed.columns[0]}}`);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) loadFile(file);
+    e.target.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) loadFile(file);
+  };
+
+  const handleTemplateChange = (type: QRTemplateType) => {
+    setTemplateType(type);
+    if (table) setMapping(autoMapColumns(getTemplateFields(type), table.columns));
+  };
+
+  const toggleFormat = (format: ExportFormat) => {
+    setFormats((prev) => (prev.includes(format)
+      ? prev.filter((f) => f !== format)
+      : EXPORT_FORMATS.filter((f) => f === format || prev.includes(f))));
+  };
+
+  const generate = async () => {
+    if (!table) return;
+    setStatus({ state: 'generating', done: 0, total: table.rows.length });
+    try {
+      const result = await generateBatchZip({
+        type: templateType,
+        table,
+        mapping,
+        options,
+        formats,
+        fileNamePattern,
+        onProgress: (done, total) => setStatus({ state: 'generating', done, total }),
+      });
+      if (result.exported > 0) downloadBlob(result.zip, `${fileName.replace(/\.[^.]+$/, '') || 'qr-codes'}.zip`);
+      setStatus({ state: 'done', exported: result.exported, skipped: result.skipped });
+    } catch (err) {
+      console.error('Failed to generate batch:', err);
+      setStatus({ state: 'failed' });
+    }
+  };
+
+  return (
+    <div className="batch-export">
+      <div className="option-group">
+        <div
+          className={`image-drop-zone ${isDragging ? 'dragging' : ''}`}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ' ') {
+              e.preventDefault();
+              fileInputRef.current?.click();
+            }
+          }}
+          role="button"
+          tabIndex={0}
+          aria-label={t.qrOptions.batch.dropZone}
+        >
+          <FileSpreadsheet size={24} />
+          <span>{table ? fileName : t.qrOptions.batch.dropZone}</span>
+          <input
+            type="file"
+            ref={fileInputRef}
+            accept=".csv,.tsv,.txt,.json,text/csv,application/json"
+            onChange={handleFileChange}
+            aria-label={t.qrOptions.batch.dropZone}
+          />
+        </div>
+        {table && (
+          <p className="option-hint">
+            {t.qrOptions.batch.loaded
+              .replace('{rows}', String(table.rows.length))
+              .replace('{columns}', String(table.columns.length))}
+          </p>
+        )}
+        {status.state === 'parseFailed' && (
+          <p className="option-hint error" role="alert">{t.qrOptions.batch.parseFailed}</p>
+        )}
+      </div>
+
+      {table && (
+        <>
+          <div className="option-group">
+            <label htmlFor="batchTemplate">{t.qrOptions.batch.template}</label>
+            <select
+              id="batchTemplate"
+              value={templateType}
+              onChange={(e) => handleTemplateChange(e.target.value as QRTemplateType)}
+            >
+              {templateDefinitions.map((def) => (
+                <option key={def.type} value={def.type}>
+                  {t.qrDataInput.templates[def.type]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="option-group">
+            <label>{t.qrOptions.batch.mapping}</label>
+            <div className="batch-mapping">
+              {fields.map((field) => (
+                <div key={field} className="batch-mapping-row">
+                  <label htmlFor={`batchField-${field}`}>{field}</label>
+                  <select
+                    id={`batchField-${field}`}
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => setMapping((prev) => ({ ...prev, [field]: e.target.value }))}
+                  >
+                    <option value="">{t.qrOptions.batch.unmapped}</option>
+                    {table.columns.map((column) => (
+                      <option key={column} value={column}>{column}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="option-group">
+            <label htmlFor="batchFileName">{t.qrOptions.batch.fileName}</label>
+            <input
+              type="text"
+              id="batchFileName"
+              value={fileNamePattern}
+              onChange={(e) => setFileNamePattern(e.target.value)}
+            />
+            <p className="option-hint">{t.qrOptions.batch.fileNameHint}</p>
+          </div>
+
+          <div className="option-group">
+            <label>{t.qrOptions.batch.formats}</label>
+            <div className="batch-formats">
+              {EXPORT_FORMATS.map((format) => (
+                <label key={format} className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={formats.includes(format)}
+                    onChange={() => toggleFormat(format)}
+                  />
+                  {format.toUpperCase()}
+                </label>
+              ))}
+            </div>
+            {formats.includes('pdf') && <p className="option-hint">{t.qrOptions.batch.pdfLayout}</p>}
+          </div>
+
+          <div className="option-group">
+            <button
+              className="btn btn-small batch-generate-btn"
+              onClick={generate}
+              disabled={isGenerating || formats.length === 0 || table.rows.length === 0}
+            >
+              {isGenerating && <Loader2 size={14} className="spin" />}
+              {isGenerating
+                ? t.qrOptions.batch.generating
+                    .replace('{done}', String(status.done))
+                    .replace('{total}', String(status.total))
+                : t.qrOptions.batch.generate.replace('{count}', String(table.rows.length))}
+            </button>
+            {status.state === 'done' && (
+              <p className="option-hint" role="status">
+                {t.qrOptions.batch.done.replace('{count}', String(status.exported))}
+                {status.skipped.length > 0 && ` ${t.qrOptions.batch.skipped.replace('{rows}', status.skipped.join(', '))}`}
+              </p>
+            )}
+            {status.state === 'failed' && (
+              <p className="option-hint error" role="alert">{t.qrOptions.batch.failed}</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { AlertTriangle } from 'lucide-react';
+import type { QROptions } from '../../types/qr';
+import { useLanguage } from '../../i18n';
+import { type QRAnalysis, MIN_MODULE_SIZE, getMinimumPrintSize } from '../../utils/qrAnalysis';
+import { formatLength, getPrintCodeSize, getPrintSpec } from '../../utils/printLayout';
+import './CapacityMeter.css';
+
+interface CapacityMeterProps {
+  analysis: QRAnalysis;
+  options: QROptions;
+}
+
+// Meter turns amber, then red, as the payload nears the largest version
+const WARNING_SHARE = 0.75;
+const FULL_SHARE = 0.95;
+
+// Live capacity of the code: version, encoding mode and the room left
+export default function CapacityMeter({ analysis, options }: CapacityMeterProps) {
+  const { t } = useLanguage();
+  const { version, moduleCount, mode, segments } = analysis;
+  if (version === null || moduleCount === null) return null;
+
+  const used = segments.reduce((sum, segment) => sum + segment.characters, 0);
+  const share = used / analysis.maxCharacters;
+  const level = share >= FULL_SHARE ? 'full' : share >= WARNING_SHARE ? 'warning' : 'ok';
+  const unit = t.qrPreview.capacity.units[mode];
+
+  // Lengths in the unit of the size control, or of the print layout when sizes are in pixels
+  const lengthUnit = options.output.unit === 'px' ? options.print.unit : options.output.unit;
+  const minimumSize = getMinimumPrintSize(moduleCount, options.quietZone);
+  const printSize = getPrintCodeSize(getPrintSpec(options), options.print.caption.trim() !== '');
+
+  return (
+    <div className="capacity-meter" role="status">
+      <div className="capacity-meter-header">
+        <span>
+          {t.qrPreview.capacity.version
+            .replace('{version}', String(version))
+            .replace(/\{modules\}/g, String(moduleCount))}
+        </span>
+        <span>{t.qrPreview.capacity.modes[mode]}</span>
+      </div>
+      <div
+        className={`capacity-meter-bar ${level}`}
+        role="meter"
+        aria-label={t.qrPreview.capacity.label}
+        aria-valuemin={0}
+        aria-valuemax={analysis.maxCharacters}
+        aria-valuenow={used}
+      >
+        <div className="capacity-meter-fill" style={{ width: `${Math.min(100, share * 100)}%` }} />
+      </div>
+      <p className="capacity-meter-details">
+        {t.qrPreview.capacity.usage
+          .replace('{used}', used.toLocaleString())
+          .replace('{max}', analysis.maxCharacters.toLocaleString())
+          .replace('{unit}', unit)
+          .replace('{percent}', String(Math.round(share * 100)))}
+        {' '}
+        {version < 40
+          ? t.qrPreview.capacity.nextVersion
+            .replace('{count}', analysis.remainingInVersion.toLocaleString())
+            .replace('{unit}', unit)
+            .replace('{version}', String(version + 1))
+          : t.qrPreview.capacity.lastVersion}
+      </p>
+      <p className={`capacity-meter-details ${printSize < minimumSize ? 'capacity-meter-warning' : ''}`}>
+        {printSize < minimumSize && <AlertTriangle size={14} />}
+        {(printSize < minimumSize ? t.qrPreview.capacity.printTooSmall : t.qrPreview.capacity.minPrintSize)
+          .replace('{min}', formatLength(minimumSize, lengthUnit))
+          .replace('{size}', formatLength(printSize, lengthUnit))
+          .replace('{module}', String(MIN_MODULE_SIZE))}
+      </p>
+    </div>
+  );
+}
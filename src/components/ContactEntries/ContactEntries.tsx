@@ -0,0 +1,77 @@
+import { Fragment } from 'react';
+import { Plus, X } from 'lucide-react';
+import type { VCardEntry, VCardEntryType } from '../../types/qr';
+import { useLanguage } from '../../i18n';
+import './ContactEntries.css';
+
+interface ContactEntriesProps {
+  id: string;
+  label: string;
+  addLabel: string;
+  inputType: 'tel' | 'email';
+  types: VCardEntryType[];
+  entries: VCardEntry[];
+  // Validation message of each entry, if any
+  errors: (string | undefined)[];
+  onChange: (entries: VCardEntry[]) => void;
+}
+
+// Repeatable typed values of a contact card, such as its phone numbers
+export default function ContactEntries({ id, label, addLabel, inputType, types, entries, errors, onChange }: ContactEntriesProps) {
+  const { t } = useLanguage();
+
+  const updateEntry = (index: number, updates: Partial<VCardEntry>) => {
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, ...updates } : entry)));
+  };
+
+  // New rows take the first type not used yet
+  const addEntry = () => {
+    const type = types.find((candidate) => !entries.some((entry) => entry.type === candidate)) ?? types[0];
+    onChange([...entries, { type, value: '' }]);
+  };
+
+  return (
+    <div className="form-group">
+      <label htmlFor={`${id}-0`}>{label}</label>
+      {entries.map((entry, index) => (
+        <Fragment key={index}>
+          <div className="contact-entry">
+            <select
+              value={entry.type}
+              aria-label={t.qrDataInput.form.entryType}
+              onChange={(e) => updateEntry(index, { type: e.target.value as VCardEntryType })}
+            >
+              {types.map((type) => (
+                <option key={type} value={type}>{t.qrDataInput.form.entryTypes[type]}</option>
+              ))}
+            </select>
+            <input
+              type={inputType}
+              id={`${id}-${index}`}
+              value={entry.value}
+              aria-invalid={!!errors[index]}
+              aria-describedby={errors[index] ? `${id}-${index}Error` : undefined}
+              onChange={(e) => updateEntry(index, { value: e.target.value })}
+            />
+            <button
+              type="button"
+              className="btn-icon"
+              onClick={() => onChange(entries.filter((_, i) => i !== index))}
+              title={t.qrDataInput.form.removeEntry}
+              aria-label={t.qrDataInput.form.removeEntry}
+            >
+              <X size={14} />
+            </button>
+          </div>
+          {errors[index] && (
+            <span id={`${id}-${index}Error`} className="form-hint error" role="alert">{errors[index]}</span>
+          )}
+        </Fragment>
+      ))}
+      <button type="button" className="btn btn-small contact-entry-add" onClick={addEntry}>
+        <Plus size={14} />
+        {addLabel}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { AlertTriangle } from 'lucide-react';
+import type { FrameFont, FrameIcon, FrameSettings, FrameStyle } from '../../types/qr';
+import { frameFonts, frameIcons, frameStyles } from '../../types/qr';
+import { useLanguage } from '../../i18n';
+import { relativeLuminance } from '../../utils/designLint';
+
+interface FrameOptionsProps {
+  frame: FrameSettings;
+  onChange: (updates: Partial<FrameSettings>) => void;
+}
+
+// Longer captions shrink until they no longer read from a distance
+const MAX_CAPTION_LENGTH = 40;
+// WCAG contrast for large bold text
+const MIN_CAPTION_CONTRAST = 3;
+
+const contrastRatio = (a: string, b: string) => {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+// Frame around the code, with the call-to-action caption and its icon
+export default function FrameOptions({ frame, onChange }: FrameOptionsProps) {
+  const { t } = useLanguage();
+  const readableTextColor = contrastRatio(frame.color, '#ffffff') >= contrastRatio(frame.color, '#000000')
+    ? '#ffffff' : '#000000';
+
+  return (
+    <div className="frame-options">
+      <div className="option-group">
+        <label htmlFor="frameStyle">{t.qrOptions.frame.style}</label>
+        <select id="frameStyle" value={frame.style} onChange={(e) => onChange({ style: e.target.value as FrameStyle })}>
+          {frameStyles.map((style) => (
+            <option key={style} value={style}>{t.qrOptions.frame.styles[style]}</option>
+          ))}
+        </select>
+        <p className="option-hint">{t.qrOptions.frame.hint}</p>
+      </div>
+
+      {frame.style !== 'none' && (
+        <>
+          <div className="option-group">
+            <label htmlFor="frameCaption">{t.qrOptions.frame.caption}</label>
+            <input
+              type="text"
+              id="frameCaption"
+              value={frame.caption}
+              maxLength={MAX_CAPTION_LENGTH}
+              onChange={(e) => onChange({ caption: e.target.value })}
+            />
+          </div>
+
+          <div className="option-group">
+            <label htmlFor="frameFont">{t.qrOptions.frame.font}</label>
+            <select id="frameFont" value={frame.font} onChange={(e) => onChange({ font: e.target.value as FrameFont })}>
+              {frameFonts.map((font) => (
+                <option key={font} value={font}>{t.qrOptions.frame.fonts[font]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="option-group">
+            <label htmlFor="frameIcon">{t.qrOptions.frame.icon}</label>
+            <select id="frameIcon" value={frame.icon} onChange={(e) => onChange({ icon: e.target.value as FrameIcon })}>
+              {frameIcons.map((icon) => (
+                <option key={icon} value={icon}>{t.qrOptions.frame.icons[icon]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="option-group">
+            <label htmlFor="frameColor">{t.qrOptions.frame.color}</label>
+            <input type="color" id="frameColor" value={frame.color} onChange={(e) => onChange({ color: e.target.value })} />
+          </div>
+
+          <div className="option-group">
+            <label htmlFor="frameTextColor">{t.qrOptions.frame.textColor}</label>
+            <input
+              type="color"
+              id="frameTextColor"
+              value={frame.textColor}
+              onChange={(e) => onChange({ textColor: e.target.value })}
+            />
+          </div>
+
+          {contrastRatio(frame.color, frame.textColor) < MIN_CAPTION_CONTRAST && (
+            <div className="lint-warning" role="status">
+              <AlertTriangle size={16} />
+              <span className="lint-warning-message">{t.qrOptions.frame.lowContrast}</span>
+              <button className="btn btn-small lint-fix-btn" onClick={() => onChange({ textColor: readableTextColor })}>
+                {t.qrOptions.lint.fix}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
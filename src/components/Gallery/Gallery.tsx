@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { Search, FolderOpen, Copy, Trash2 } from 'lucide-react';
+import type { QROptions, TemplateCategory } from '../../types/qr';
+import { templateDefinitions } from '../../types/qr';
+import { useLanguage } from '../../i18n';
+import {
+  listGalleryEntries,
+  deleteGalleryEntries,
+  duplicateGalleryEntry,
+  readGalleryEntry,
+  type GalleryEntry,
+} from '../../utils/gallery';
+import './Gallery.css';
+
+interface GalleryProps {
+  // Changes whenever an entry was added elsewhere, to reload the list
+  revision: number;
+  onOpen: (options: QROptions) => void;
+}
+
+const categories: TemplateCategory[] = ['all', 'links', 'contact', 'social', 'payment'];
+
+const getCategory = (entry: GalleryEntry) =>
+  templateDefinitions.find((def) => def.type === entry.templateType)?.category;
+
+export default function Gallery({ revision, onOpen }: GalleryProps) {
+  const { t, language } = useLanguage();
+  const [entries, setEntries] = useState<GalleryEntry[]>([]);
+  const [reloads, setReloads] = useState(0);
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<TemplateCategory>('all');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    listGalleryEntries()
+      .then((list) => {
+        if (cancelled) return;
+        setEntries(list);
+        setFailed(false);
+        // Drop selections of entries that no longer exist
+        setSelected((prev) => prev.filter((id) => list.some((entry) => entry.id === id)));
+      })
+      .catch((err) => {
+        console.error('Failed to load gallery:', err);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [revision, reloads]);
+
+  // Run a change, then reload the list
+  const change = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error('Failed to update gallery:', err);
+      setFailed(true);
+    }
+    setReloads((n) => n + 1);
+  };
+
+  const search = query.trim().toLowerCase();
+  const visible = entries.filter((entry) =>
+    (category === 'all' || getCategory(entry) === category)
+    && (!search
+      || entry.payload.toLowerCase().includes(search)
+      || t.qrDataInput.templates[entry.templateType].toLowerCase().includes(search)));
+  const allVisibleSelected = visible.length > 0 && visible.every((entry) => selected.includes(entry.id));
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]));
+  };
+
+  const toggleAllVisible = () => {
+    const ids = visible.map((entry) => entry.id);
+    setSelected((prev) => (allVisibleSelected
+      ? prev.filter((id) => !ids.includes(id))
+      : [...new Set([...prev, ...ids])]));
+  };
+
+  const openEntry = (entry: GalleryEntry) => {
+    const project = readGalleryEntry(entry);
+    if (project.ok) onOpen(project.options);
+    else setFailed(true);
+  };
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleString(language, { dateStyle: 'medium', timeStyle: 'short' });
+
+  return (
+    <div className="gallery">
+      <div className="option-group gallery-filters">
+        <div className="gallery-search">
+          <Search size={14} />
+          <input
+            type="text"
+            value={query}
+            placeholder={t.qrOptions.gallery.search}
+            aria-label={t.qrOptions.gallery.search}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+        <select
+          value={category}
+          aria-label={t.qrOptions.gallery.category}
+          onChange={(e) => setCategory(e.target.value as TemplateCategory)}
+        >
+          {categories.map((c) => (
+            <option key={c} value={c}>{t.qrDataInput.categories[c]}</option>
+          ))}
+        </select>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="option-hint">{t.qrOptions.gallery.empty}</p>
+      ) : (
+        <>
+          <div className="gallery-bulk">
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={allVisibleSelected}
+                onChange={toggleAllVisible}
+                disabled={visible.length === 0}
+              />
+              {t.qrOptions.gallery.selectAll}
+            </label>
+            <button
+              className="btn btn-small btn-danger"
+              onClick={() => change(() => deleteGalleryEntries(selected))}
+              disabled={selected.length === 0}
+            >
+              <Trash2 size={14} />
+              {t.qrOptions.gallery.deleteSelected.replace('{count}', String(selected.length))}
+            </button>
+          </div>
+
+          {visible.length === 0 && <p className="option-hint">{t.qrOptions.gallery.noMatches}</p>}
+          <ul className="gallery-list">
+            {visible.map((entry) => (
+              <li key={entry.id} className={`gallery-entry ${selected.includes(entry.id) ? 'selected' : ''}`}>
+                <input
+                  type="checkbox"
+                  checked={selected.includes(entry.id)}
+                  onChange={() => toggleSelected(entry.id)}
+                  aria-label={t.qrOptions.gallery.select}
+                />
+                <img src={entry.thumbnail} alt="" className="gallery-thumbnail" />
+                <div className="gallery-entry-details">
+                  <span className="gallery-entry-template">{t.qrDataInput.templates[entry.templateType]}</span>
+                  <span className="gallery-entry-payload" title={entry.payload}>{entry.payload}</span>
+                  <span className="gallery-entry-date">{formatDate(entry.createdAt)}</span>
+                </div>
+                <div className="gallery-entry-actions">
+                  <button
+                    className="btn-icon"
+                    onClick={() => openEntry(entry)}
+                    title={t.qrOptions.gallery.open}
+                    aria-label={t.qrOptions.gallery.open}
+                  >
+                    <FolderOpen size={14} />
+                  </button>
+                  <button
+                    className="btn-icon"
+                    onClick={() => change(() => duplicateGalleryEntry(entry))}
+                    title={t.qrOptions.gallery.duplicate}
+                    aria-label={t.qrOptions.gallery.duplicate}
+                  >
+                    <Copy size={14} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {failed && <p className="option-hint error" role="alert">{t.qrOptions.gallery.failed}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import { useRef, useState } from 'react';
+import type { GradientType } from 'qr-code-styling';
+import { Plus, X } from 'lucide-react';
+import type { GradientConfig } from '../../types/qr';
+import { gradientTypes } from '../../types/qr';
+import { useLanguage } from '../../i18n';
+import './GradientEditor.css';
+
+interface GradientEditorProps {
+  // Prefix of the control ids
+  id: string;
+  gradient: GradientConfig;
+  onChange: (updates: Partial<GradientConfig>) => void;
+}
+
+type ColorStop = GradientConfig['colorStops'][number];
+
+const MIN_STOPS = 2;
+// Arrow keys move the selected stop by 1%, or 10% with Shift
+const KEY_STEP = 0.01;
+
+const clampOffset = (offset: number) => Math.round(Math.max(0, Math.min(1, offset)) * 100) / 100;
+
+const sortStops = (stops: ColorStop[]) => [...stops].sort((a, b) => a.offset - b.offset);
+
+const toRgb = (hex: string) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+
+// Colour the gradient shows at an offset, to seed a new stop
+const colorAt = (stops: ColorStop[], offset: number): string => {
+  const sorted = sortStops(stops);
+  const after = sorted.find((stop) => stop.offset >= offset) ?? sorted[sorted.length - 1];
+  const before = [...sorted].reverse().find((stop) => stop.offset <= offset) ?? sorted[0];
+  if (after.offset === before.offset) return after.color;
+  const share = (offset - before.offset) / (after.offset - before.offset);
+  const [from, to] = [toRgb(before.color), toRgb(after.color)];
+  return `#${from.map((c, i) => Math.round(c + (to[i] - c) * share).toString(16).padStart(2, '0')).join('')}`;
+};
+
+const gradientCss = (gradient: GradientConfig) =>
+  `linear-gradient(to right, ${sortStops(gradient.colorStops)
+    .map((stop) => `${stop.color} ${stop.offset * 100}%`)
+    .join(', ')})`;
+
+// Colour stops on a bar: click the bar to add a stop, drag a handle to move it
+export default function GradientEditor({ id, gradient, onChange }: GradientEditorProps) {
+  const { t } = useLanguage();
+  const barRef = useRef<HTMLDivElement>(null);
+  const [selected, setSelected] = useState(0);
+  const { colorStops } = gradient;
+  const current = Math.min(selected, colorStops.length - 1);
+  const stop = colorStops[current];
+
+  const updateStop = (index: number, updates: Partial<ColorStop>) => {
+    onChange({ colorStops: colorStops.map((s, i) => (i === index ? { ...s, ...updates } : s)) });
+  };
+
+  const addStop = (offset: number) => {
+    onChange({ colorStops: [...colorStops, { offset, color: colorAt(colorStops, offset) }] });
+    setSelected(colorStops.length);
+  };
+
+  // The new stop goes halfway into the widest gap
+  const addStopInGap = () => {
+    const sorted = sortStops(colorStops);
+    let gap = { start: 0, size: -1 };
+    sorted.slice(1).forEach((s, i) => {
+      if (s.offset - sorted[i].offset > gap.size) gap = { start: sorted[i].offset, size: s.offset - sorted[i].offset };
+    });
+    addStop(clampOffset(gap.start + gap.size / 2));
+  };
+
+  const removeStop = (index: number) => {
+    if (colorStops.length <= MIN_STOPS) return;
+    onChange({ colorStops: colorStops.filter((_, i) => i !== index) });
+    setSelected(0);
+  };
+
+  const offsetAt = (clientX: number) => {
+    const rect = barRef.current?.getBoundingClientRect();
+    return rect && rect.width > 0 ? clampOffset((clientX - rect.left) / rect.width) : 0;
+  };
+
+  const handleKeyDown = (index: number) => (e: React.KeyboardEvent) => {
+    const step = e.shiftKey ? KEY_STEP * 10 : KEY_STEP;
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      updateStop(index, { offset: clampOffset(colorStops[index].offset - step) });
+    } else if (e.key === 'ArrowRight' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      updateStop(index, { offset: clampOffset(colorStops[index].offset + step) });
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      removeStop(index);
+    }
+  };
+
+  return (
+    <div className="gradient-options gradient-editor">
+      <div
+        ref={barRef}
+        className="gradient-bar"
+        style={{ background: gradientCss(gradient) }}
+        onPointerDown={(e) => addStop(offsetAt(e.clientX))}
+        title={t.qrOptions.gradient.addStopHint}
+      >
+        {colorStops.map((s, index) => (
+          <button
+            key={index}
+            type="button"
+            className={`gradient-stop ${index === current ? 'selected' : ''}`}
+            style={{ left: `${s.offset * 100}%`, background: s.color }}
+            aria-label={t.qrOptions.gradient.stop
+              .replace('{number}', String(index + 1))
+              .replace('{offset}', String(Math.round(s.offset * 100)))}
+            aria-pressed={index === current}
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              setSelected(index);
+              e.currentTarget.setPointerCapture(e.pointerId);
+            }}
+            onPointerMove={(e) => {
+              if (e.currentTarget.hasPointerCapture(e.pointerId)) updateStop(index, { offset: offsetAt(e.clientX) });
+            }}
+            onKeyDown={handleKeyDown(index)}
+          />
+        ))}
+      </div>
+
+      <div className="gradient-stop-controls">
+        <input
+          type="color"
+          id={`${id}StopColor`}
+          value={stop.color}
+          onChange={(e) => updateStop(current, { color: e.target.value })}
+          aria-label={t.qrOptions.gradient.stopColor}
+        />
+        <label htmlFor={`${id}StopOffset`}>{t.qrOptions.gradient.position}</label>
+        <input
+          type="number"
+          id={`${id}StopOffset`}
+          min={0}
+          max={100}
+          value={Math.round(stop.offset * 100)}
+          onChange={(e) => updateStop(current, { offset: clampOffset(Number(e.target.value) / 100) })}
+        />
+        <span>%</span>
+        <button
+          type="button"
+          className="btn-icon"
+          onClick={() => removeStop(current)}
+          disabled={colorStops.length <= MIN_STOPS}
+          aria-label={t.qrOptions.gradient.removeStop}
+          title={t.qrOptions.gradient.removeStop}
+        >
+          <X size={16} />
+        </button>
+        <button type="button" className="btn btn-small" onClick={addStopInGap}>
+          <Plus size={14} />
+          {t.qrOptions.gradient.addStop}
+        </button>
+      </div>
+
+      <div className="gradient-settings">
+        <div className="option-group">
+          <label htmlFor={`${id}Type`}>{t.qrOptions.gradient.type}</label>
+          <select
+            id={`${id}Type`}
+            value={gradient.type}
+            onChange={(e) => onChange({ type: e.target.value as GradientType })}
+          >
+            {gradientTypes.map((type) => (
+              <option key={type} value={type}>{t.qrOptions.gradient.types[type]}</option>
+            ))}
+          </select>
+        </div>
+        {gradient.type === 'linear' && (
+          <div className="option-group">
+            <label htmlFor={`${id}Rotation`}>{t.qrOptions.gradient.rotation}: {gradient.rotation}°</label>
+            <input
+              type="range"
+              id={`${id}Rotation`}
+              min="0"
+              max="360"
+              value={gradient.rotation}
+              onChange={(e) => onChange({ rotation: Number(e.target.value) })}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
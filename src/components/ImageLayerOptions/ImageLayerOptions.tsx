@@ -0,0 +1,113 @@
+import { useRef, useState } from 'react';
+import { Upload } from 'lucide-react';
+import type { ImageFit, ImageLayer } from '../../types/qr';
+import { imageFits } from '../../types/qr';
+import { useLanguage } from '../../i18n';
+import { readImageLayer } from '../../utils/imageLayers';
+
+interface ImageLayerOptionsProps {
+  // Prefix of the control ids
+  id: string;
+  label: string;
+  hint: string;
+  layer: ImageLayer;
+  // Opacity of the veil keeping the layer in contrast, and whether it lightens or darkens
+  overlay: number;
+  overlayTone: 'light' | 'dark';
+  onChange: (updates: Partial<ImageLayer>) => void;
+}
+
+// Photo or texture for the background or the modules, with its fit and opacity
+export default function ImageLayerOptions({ id, label, hint, layer, overlay, overlayTone, onChange }: ImageLayerOptionsProps) {
+  const { t } = useLanguage();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !file.type.startsWith('image/')) return;
+    try {
+      onChange(await readImageLayer(file));
+      setLoadFailed(false);
+    } catch (err) {
+      console.error('Failed to load image layer:', err);
+      setLoadFailed(true);
+    }
+  };
+
+  return (
+    <div className="option-group">
+      <label htmlFor={`${id}Upload`}>{label}</label>
+      <p className="option-hint">{hint}</p>
+      {layer.src ? (
+        <div className="image-preview-container">
+          <img src={layer.src} alt={label} className="image-preview" />
+          <button
+            onClick={() => onChange({ src: '' })}
+            className="btn btn-small btn-danger"
+            aria-label={t.qrOptions.imageLayer.remove}
+          >
+            ✕
+          </button>
+        </div>
+      ) : (
+        <button className="btn btn-small" onClick={() => inputRef.current?.click()}>
+          <Upload size={14} />
+          {t.qrOptions.imageLayer.choose}
+        </button>
+      )}
+      <input type="file" id={`${id}Upload`} ref={inputRef} accept="image/*" onChange={handleUpload} hidden />
+      {loadFailed && <p className="option-hint error" role="alert">{t.qrOptions.imageLayer.loadFailed}</p>}
+
+      {layer.src && (
+        <div className="gradient-options">
+          <div className="option-group">
+            <label htmlFor={`${id}Fit`}>{t.qrOptions.imageLayer.fit}</label>
+            <select id={`${id}Fit`} value={layer.fit} onChange={(e) => onChange({ fit: e.target.value as ImageFit })}>
+              {imageFits.map((fit) => (
+                <option key={fit} value={fit}>{t.qrOptions.imageLayer.fits[fit]}</option>
+              ))}
+            </select>
+          </div>
+          {layer.fit === 'tile' && (
+            <div className="option-group">
+              <label htmlFor={`${id}TileSize`}>
+                {t.qrOptions.imageLayer.tileSize}: {Math.round(layer.tileSize * 100)}%
+              </label>
+              <input
+                type="range"
+                id={`${id}TileSize`}
+                min={0.05}
+                max={1}
+                step={0.05}
+                value={layer.tileSize}
+                onChange={(e) => onChange({ tileSize: Number(e.target.value) })}
+              />
+            </div>
+          )}
+          <div className="option-group">
+            <label htmlFor={`${id}Opacity`}>
+              {t.qrOptions.imageLayer.opacity}: {Math.round(layer.opacity * 100)}%
+            </label>
+            <input
+              type="range"
+              id={`${id}Opacity`}
+              min={0.05}
+              max={1}
+              step={0.05}
+              value={layer.opacity}
+              onChange={(e) => onChange({ opacity: Number(e.target.value) })}
+            />
+          </div>
+          {overlay > 0 && (
+            <p className="option-hint">
+              {(overlayTone === 'light' ? t.qrOptions.imageLayer.lightOverlay : t.qrOptions.imageLayer.darkOverlay)
+                .replace('{percent}', String(Math.round(overlay * 100)))}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { AlertTriangle } from 'lucide-react';
+import type { QROptions, SizeUnit } from '../../types/qr';
+import { sizeUnits } from '../../types/qr';
+import { useLanguage } from '../../i18n';
+import { formatLength, getOutputSize, toMillimetres, toPixels } from '../../utils/printLayout';
+import { getMarginPixels } from '../../utils/qrStyling';
+
+type OutputFields = Pick<QROptions, 'data' | 'errorCorrectionLevel' | 'size' | 'quietZone' | 'output'>;
+
+interface OutputOptionsProps {
+  options: OutputFields;
+  onChange: (updates: Partial<OutputFields>) => void;
+}
+
+const DPI_OPTIONS = [72, 96, 150, 300, 600];
+
+// Slider range of the size in each unit
+const SIZE_RANGES: Record<SizeUnit, [number, number, number]> = {
+  px: [100, 2000, 10],
+  mm: [10, 150, 1],
+  in: [0.5, 6, 0.125],
+};
+
+// ISO/IEC 18004 asks for a quiet zone of at least 4 modules
+const MIN_QUIET_ZONE = 4;
+const MAX_QUIET_ZONE = 10;
+
+export default function OutputOptions({ options, onChange }: OutputOptionsProps) {
+  const { t } = useLanguage();
+  const { unit, dpi } = options.output;
+  const physicalSize = getOutputSize(options);
+  const range = SIZE_RANGES[unit];
+  // Resolutions from imported projects stay selectable
+  const dpiOptions = DPI_OPTIONS.includes(dpi) ? DPI_OPTIONS : [...DPI_OPTIONS, dpi].sort((a, b) => a - b);
+
+  const formatSize = () => (unit === 'px' ? `${options.size} px` : formatLength(physicalSize, unit));
+
+  // Slider values are in the chosen unit, stored sizes in pixels
+  const sizeValue = unit === 'px' ? options.size : physicalSize / toMillimetres(1, unit);
+  const setSize = (value: number) => {
+    onChange({ size: unit === 'px' ? value : toPixels(toMillimetres(value, unit), dpi) });
+  };
+
+  // Physical sizes stay put when the resolution changes; pixel sizes keep their pixels
+  const setDpi = (newDpi: number) => {
+    onChange({
+      output: { ...options.output, dpi: newDpi },
+      ...(unit !== 'px' && { size: toPixels(physicalSize, newDpi) }),
+    });
+  };
+
+  return (
+    <div className="output-options">
+      <div className="option-group">
+        <label htmlFor="outputUnit">{t.qrOptions.output.unit}</label>
+        <select
+          id="outputUnit"
+          value={unit}
+          onChange={(e) => onChange({ output: { ...options.output, unit: e.target.value as SizeUnit } })}
+        >
+          {sizeUnits.map((sizeUnit) => (
+            <option key={sizeUnit} value={sizeUnit}>{t.qrOptions.output.units[sizeUnit]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="option-group">
+        <label htmlFor="outputDpi">{t.qrOptions.output.dpi}</label>
+        <select id="outputDpi" value={dpi} onChange={(e) => setDpi(Number(e.target.value))}>
+          {dpiOptions.map((option) => (
+            <option key={option} value={option}>{option} DPI</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="option-group">
+        <label htmlFor="outputSize">{t.qrOptions.output.size}: {formatSize()}</label>
+        <input
+          type="range"
+          id="outputSize"
+          min={range[0]}
+          max={range[1]}
+          step={range[2]}
+          value={sizeValue}
+          onChange={(e) => setSize(Number(e.target.value))}
+        />
+        <p className="option-hint">
+          {t.qrOptions.output.sizeHint
+            .replace(/\{pixels\}/g, String(options.size))
+            .replace('{size}', formatLength(physicalSize, unit === 'in' ? 'in' : 'mm'))
+            .replace('{dpi}', String(dpi))}
+        </p>
+      </div>
+
+      <div className="option-group">
+        <label htmlFor="outputQuietZone">
+          {t.qrOptions.output.quietZone}: {t.qrOptions.output.modules.replace('{count}', String(options.quietZone))}
+        </label>
+        <input
+          type="range"
+          id="outputQuietZone"
+          min={0}
+          max={MAX_QUIET_ZONE}
+          step={1}
+          value={options.quietZone}
+          onChange={(e) => onChange({ quietZone: Number(e.target.value) })}
+        />
+        <p className="option-hint">
+          {t.qrOptions.output.quietZoneHint.replace('{pixels}', String(getMarginPixels(options)))}
+        </p>
+        {options.quietZone < MIN_QUIET_ZONE && (
+          <div className="lint-warning" role="status">
+            <AlertTriangle size={16} />
+            <span className="lint-warning-message">
+              {t.qrOptions.output.quietZoneTooSmall.replace('{min}', String(MIN_QUIET_ZONE))}
+            </span>
+            <button className="btn btn-small lint-fix-btn" onClick={() => onChange({ quietZone: MIN_QUIET_ZONE })}>
+              {t.qrOptions.lint.fix}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
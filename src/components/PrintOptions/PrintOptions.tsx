@@ -0,0 +1,128 @@
+import type { PrintSettings, PrintLayoutId, PageSizeId, PrintUnit } from '../../types/qr';
+import { useLanguage } from '../../i18n';
+import {
+  PRINT_LAYOUTS,
+  formatLength as formatPrintLength,
+  getCellsPerPage,
+  getPrintCodeSize,
+  isLabelSheet,
+  toPixels,
+  type PrintSpec,
+} from '../../utils/printLayout';
+
+interface PrintOptionsProps {
+  // Print settings with the code size and resolution of the Size & Output section
+  settings: PrintSpec;
+  onChange: (updates: Partial<PrintSettings>) => void;
+}
+
+// Slider ranges in millimetres; inches move in fractions of an inch
+const SLIDER_RANGES: Record<PrintUnit, { bleed: [number, number, number] }> = {
+  mm: { bleed: [0, 5, 0.5] },
+  in: { bleed: [0, 25.4 / 32 * 6, 25.4 / 32] },
+};
+
+export default function PrintOptions({ settings, onChange }: PrintOptionsProps) {
+  const { t } = useLanguage();
+  const hasCaption = settings.caption.trim() !== '';
+  const ranges = SLIDER_RANGES[settings.unit];
+
+  const formatLength = (mm: number) => formatPrintLength(mm, settings.unit);
+
+  const codeSize = getPrintCodeSize(settings, hasCaption);
+  const pixels = toPixels(codeSize, settings.dpi);
+
+  return (
+    <div className="print-options">
+      <div className="option-group">
+        <label htmlFor="printLayout">{t.qrOptions.print.layout}</label>
+        <select
+          id="printLayout"
+          value={settings.layout}
+          onChange={(e) => onChange({ layout: e.target.value as PrintLayoutId })}
+        >
+          {PRINT_LAYOUTS.map((layout) => (
+            <option key={layout} value={layout}>{t.qrOptions.print.layouts[layout]}</option>
+          ))}
+        </select>
+        {settings.layout !== 'single' && (
+          <p className="option-hint">
+            {t.qrOptions.print.perPage.replace('{count}', String(getCellsPerPage(settings, hasCaption)))}
+          </p>
+        )}
+      </div>
+
+      {settings.layout === 'grid' && (
+        <div className="option-group">
+          <label htmlFor="printPageSize">{t.qrOptions.print.pageSize}</label>
+          <select
+            id="printPageSize"
+            value={settings.pageSize}
+            onChange={(e) => onChange({ pageSize: e.target.value as PageSizeId })}
+          >
+            <option value="a4">A4</option>
+            <option value="letter">Letter</option>
+          </select>
+        </div>
+      )}
+
+      <div className="option-group">
+        <label htmlFor="printUnit">{t.qrOptions.print.unit}</label>
+        <select
+          id="printUnit"
+          value={settings.unit}
+          onChange={(e) => onChange({ unit: e.target.value as PrintUnit })}
+        >
+          <option value="mm">{t.qrOptions.print.millimetres}</option>
+          <option value="in">{t.qrOptions.print.inches}</option>
+        </select>
+        <p className="option-hint">
+          {t.qrOptions.print.resolution
+            .replace('{size}', formatLength(codeSize))
+            .replace(/\{pixels\}/g, String(pixels))}
+          {' '}
+          {t.qrOptions.print.sizeFromOutput}
+        </p>
+      </div>
+
+
+      <div className="option-group">
+        <label htmlFor="printBleed">{t.qrOptions.print.bleed}: {formatLength(settings.bleed)}</label>
+        <input
+          type="range"
+          id="printBleed"
+          min={ranges.bleed[0]}
+          max={ranges.bleed[1]}
+          step={ranges.bleed[2]}
+          value={settings.bleed}
+          onChange={(e) => onChange({ bleed: Number(e.target.value) })}
+        />
+        {settings.bleed > 0 && isLabelSheet(settings.layout) && (
+          <p className="option-hint">{t.qrOptions.print.labelBleed}</p>
+        )}
+      </div>
+
+      <div className="option-group">
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={settings.cropMarks}
+            onChange={(e) => onChange({ cropMarks: e.target.checked })}
+          />
+          {t.qrOptions.print.cropMarks}
+        </label>
+      </div>
+
+      <div className="option-group">
+        <label htmlFor="printCaption">{t.qrOptions.print.caption}</label>
+        <input
+          type="text"
+          id="printCaption"
+          value={settings.caption}
+          onChange={(e) => onChange({ caption: e.target.value })}
+        />
+        <p className="option-hint">{t.qrOptions.print.captionHint}</p>
+      </div>
+    </div>
+  );
+}
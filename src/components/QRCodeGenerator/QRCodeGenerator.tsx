@@ -1,30 +1,35 @@
 import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
-import type { QROptions, GradientConfig, ColorPreset, QRTemplateType } from '../../types/qr';
-import { defaultQROptions, STORAGE_KEY } from '../../types/qr';
+import type { QROptions, GradientConfig, GradientTarget, ColorPreset, StyleOptions, QRTemplateType, QRTemplateData } from '../../types/qr';
+import { defaultQROptions, STORAGE_KEY, getRequiredErrorCorrectionLevel, getDefaultTemplateDataMap, getLastStop } from '../../types/qr';
 import QRDataInput from '../QRDataInput/QRDataInput';
 import QRPreview from '../QRPreview/QRPreview';
 import QROptionsPanel from '../QROptions/QROptions';
+import { checkLogo } from '../../utils/logoCoverage';
+import { generateQRString } from '../../utils/qrPayload';
+import { parseQRPayload } from '../../utils/parseQR';
+import { validateTemplateData } from '../../utils/validation';
+import { parseProject, createProject } from '../../utils/project';
+import { hasPermalink, readPermalink } from '../../utils/permalink';
+import { addGalleryEntry } from '../../utils/gallery';
 import './QRCodeGenerator.css';
 
 const MAX_HISTORY = 50;
 
-// Load saved options from localStorage
+// Select a template and fill its form, keeping the payload in step with the form
+const withTemplateData = (options: QROptions, type: QRTemplateType, data: QRTemplateData): QROptions => ({
+  ...options,
+  templateType: type,
+  templateData: { ...options.templateData, [type]: data },
+  data: generateQRString(type, data),
+});
+
+// Load saved options from localStorage, migrated to the current version
 const loadSavedOptions = (): QROptions => {
   try {
     const saved = localStorage.getItem(STORAGE_KEY);
     if (saved) {
-      const parsed = JSON.parse(saved);
-      // Migrate old imageSize if outside new range (0.1-0.3)
-      if (parsed.imageSize !== undefined) {
-        // If it was in pixels (>1), convert back to percentage
-        if (parsed.imageSize > 1) {
-          parsed.imageSize = parsed.imageSize / 300;
-        }
-        // Clamp to valid range (10%-30%)
-        parsed.imageSize = Math.max(0.1, Math.min(0.3, parsed.imageSize));
-      }
-      // Merge with defaults to ensure new fields are included
-      return { ...defaultQROptions, ...parsed };
+      const project = parseProject(saved);
+      if (project.ok) return project.options;
     }
   } catch {
     console.warn('Failed to load saved QR settings');
@@ -37,9 +42,24 @@ export default function QRCodeGenerator() {
   const [debouncedData, setDebouncedData] = useState(options.data);
   const [history, setHistory] = useState<QROptions[]>([loadSavedOptions()]);
   const [historyIndex, setHistoryIndex] = useState(0);
+  const [galleryRevision, setGalleryRevision] = useState(0);
   const isUndoRedoRef = useRef(false);
   const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
+  // A shared link takes precedence over the saved settings
+  useEffect(() => {
+    if (!hasPermalink(window.location.hash)) return;
+    readPermalink(window.location.hash).then((project) => {
+      if (project?.ok) {
+        setOptions(project.options);
+      } else {
+        console.warn('Failed to read the design from the link');
+      }
+      // Reloads use the saved settings from now on, which hold the shared design
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    });
+  }, []);
+
   // Debounce data changes for QR generation
   useEffect(() => {
     // Clear existing timer
@@ -63,7 +83,7 @@ export default function QRCodeGenerator() {
   // Save options to localStorage whenever they change
   useEffect(() => {
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(createProject(options)));
     } catch {
       console.warn('Failed to save QR settings');
     }
@@ -120,77 +140,55 @@ export default function QRCodeGenerator() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [undo, redo]);
 
-  // Update template type
+  // Update template type, encoding the form data kept for it
   const updateTemplateType = (type: QRTemplateType) => {
-    setOptions((prev) => ({ ...prev, templateType: type }));
+    setOptions((prev) => ({
+      ...withTemplateData(prev, type, prev.templateData[type]),
+      // Some payment standards mandate a specific error correction level
+      errorCorrectionLevel: getRequiredErrorCorrectionLevel(type) ?? prev.errorCorrectionLevel,
+    }));
   };
 
   // Update data from template forms
-  const updateData = (data: string) => {
-    setOptions((prev) => ({ ...prev, data }));
+  const updateTemplateData = (type: QRTemplateType, data: QRTemplateData) => {
+    setOptions((prev) => withTemplateData(prev, type, data));
   };
 
   // Update a single option
   const updateOption = <K extends keyof QROptions>(key: K, value: QROptions[K]) => {
     setOptions((prev) => {
-      const newOptions = { ...prev, [key]: value };
-
-      // If size changes, ensure margin doesn't exceed 15% of new size
-      if (key === 'size') {
-        const maxMargin = Math.floor((value as number) * 0.15);
-        if (newOptions.margin > maxMargin) {
-          newOptions.margin = maxMargin;
-        }
+      // Keep the error correction level mandated by the current template
+      if (key === 'errorCorrectionLevel' && getRequiredErrorCorrectionLevel(prev.templateType)) {
+        return prev;
       }
 
-      return newOptions;
+      return { ...prev, [key]: value };
     });
   };
 
-  // Update gradient options
-  const updateGradient = (updates: Partial<GradientConfig>) => {
+  // Apply several option changes as one history step
+  const updateOptions = (updates: Partial<QROptions>) => {
+    setOptions((prev) => ({ ...prev, ...updates }));
+  };
+
+  // Update the gradient of a part of the code. Enabling it ends on the current solid colour,
+  // disabling it keeps the colour of the last stop.
+  const updateGradient = (target: GradientTarget, updates: Partial<GradientConfig>) => {
     setOptions((prev) => {
-      // If enabling gradient, use current dot color as end color
-      if (updates.enabled === true && !prev.dotGradient.enabled) {
-        return {
-          ...prev,
-          dotGradient: {
-            ...prev.dotGradient,
-            ...updates,
-            colorStops: [
-              prev.dotGradient.colorStops[0], // Keep start color
-              { ...prev.dotGradient.colorStops[1], color: prev.dotColor }, // Use dot color as end
-            ],
-          },
-        };
+      const colorKey = `${target}Color` as const;
+      const gradientKey = `${target}Gradient` as const;
+      const gradient = { ...prev[gradientKey], ...updates };
+      if (updates.enabled === true && !prev[gradientKey].enabled) {
+        const last = gradient.colorStops.indexOf(getLastStop(gradient));
+        gradient.colorStops = gradient.colorStops.map((stop, i) => (i === last ? { ...stop, color: prev[colorKey] } : stop));
       }
-      // If disabling gradient, use end color as new dot color
-      if (updates.enabled === false && prev.dotGradient.enabled) {
-        return {
-          ...prev,
-          dotColor: prev.dotGradient.colorStops[1].color, // End color becomes dot color
-          dotGradient: { ...prev.dotGradient, ...updates },
-        };
+      if (updates.enabled === false && prev[gradientKey].enabled) {
+        return { ...prev, [colorKey]: getLastStop(gradient).color, [gradientKey]: gradient };
       }
-      return {
-        ...prev,
-        dotGradient: { ...prev.dotGradient, ...updates },
-      };
+      return { ...prev, [gradientKey]: gradient };
     });
   };
 
-  const updateGradientColor = (index: number, color: string) => {
-    setOptions((prev) => ({
-      ...prev,
-      dotGradient: {
-        ...prev.dotGradient,
-        colorStops: prev.dotGradient.colorStops.map((stop, i) =>
-          i === index ? { ...stop, color } : stop
-        ),
-      },
-    }));
-  };
-
   const applyPreset = (preset: ColorPreset) => {
     setOptions((prev) => ({
       ...prev,
@@ -200,46 +198,99 @@ export default function QRCodeGenerator() {
       backgroundColor: preset.backgroundColor,
       transparentBackground: false,
       dotGradient: { ...prev.dotGradient, enabled: false },
+      cornerSquareGradient: { ...prev.cornerSquareGradient, enabled: false },
+      cornerDotGradient: { ...prev.cornerDotGradient, enabled: false },
+      backgroundGradient: { ...prev.backgroundGradient, enabled: false },
+    }));
+  };
+
+  // Apply a saved style, keeping the error correction level mandated by the current template
+  const applyStylePreset = (style: StyleOptions) => {
+    setOptions((prev) => ({
+      ...prev,
+      ...style,
+      errorCorrectionLevel: getRequiredErrorCorrectionLevel(prev.templateType) ?? style.errorCorrectionLevel,
     }));
   };
 
   const resetToDefault = useCallback(() => {
-    setOptions(defaultQROptions);
+    setOptions({ ...defaultQROptions, templateData: getDefaultTemplateDataMap() });
     setDebouncedData(defaultQROptions.data); // Also reset debounced data immediately
   }, []);
 
-  // Create options with debounced data for QR preview
+  // Detect the template of a pasted or decoded payload and fill its form
+  const importPayload = useCallback((payload: string) => {
+    const parsed = parseQRPayload(payload);
+    if (!parsed) return null;
+    setOptions((prev) => ({
+      ...withTemplateData(prev, parsed.type, parsed.data),
+      errorCorrectionLevel: getRequiredErrorCorrectionLevel(parsed.type) ?? prev.errorCorrectionLevel,
+    }));
+    return parsed.type;
+  }, []);
+
+  // Keep exported and pinned codes in the gallery
+  const addToGallery = useCallback(() => {
+    addGalleryEntry(options)
+      .then(() => setGalleryRevision((n) => n + 1))
+      .catch((err) => console.error('Failed to add to gallery:', err));
+  }, [options]);
+
+  // Error correction a center logo needs; QR-bills show the Swiss cross instead of a logo
+  const logoCheck = useMemo(() => (
+    options.image && options.templateType !== 'swissqr'
+      ? checkLogo(debouncedData || ' ', options.errorCorrectionLevel, options.imageSize,
+          !!getRequiredErrorCorrectionLevel(options.templateType))
+      : null
+  ), [debouncedData, options.image, options.templateType, options.errorCorrectionLevel, options.imageSize]);
+
+  // Checked on every edit rather than with the preview, as some invalid fields leave the payload unchanged
+  const fieldErrorCount = useMemo(
+    () => Object.keys(validateTemplateData(options.templateType, options.templateData[options.templateType])).length,
+    [options.templateType, options.templateData],
+  );
+
+  // Create options with debounced data for QR preview, rendered at the level the logo needs
   const previewOptions = useMemo(() => ({
     ...options,
     data: debouncedData,
+    errorCorrectionLevel: logoCheck?.level ?? options.errorCorrectionLevel,
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }), [debouncedData, options.size, options.margin, options.errorCorrectionLevel,
-       options.dotType, options.dotColor, options.dotGradient.enabled,
-       options.dotGradient.type, options.dotGradient.rotation, options.dotGradient.colorStops,
-       options.cornerSquareType, options.cornerSquareColor,
-       options.cornerDotType, options.cornerDotColor,
-       options.backgroundColor, options.transparentBackground,
-       options.image, options.imageSize, options.imageMargin]);
+  }), [debouncedData, options.size, options.quietZone, options.output, options.errorCorrectionLevel, logoCheck?.level,
+       options.dotType, options.dotColor, options.dotGradient,
+       options.cornerSquareType, options.cornerSquareColor, options.cornerSquareGradient,
+       options.cornerDotType, options.cornerDotColor, options.cornerDotGradient,
+       options.backgroundColor, options.backgroundGradient, options.transparentBackground,
+       options.backgroundImage, options.moduleImage, options.contrastOverlay,
+       options.image, options.imageSize, options.imageMargin, options.frame, options.print,
+       options.templateType]);
 
   return (
     <div className="qr-generator">
       <QRDataInput
         templateType={options.templateType}
+        templateData={options.templateData}
         onTemplateChange={updateTemplateType}
-        onDataChange={updateData}
+        onTemplateDataChange={updateTemplateData}
+        onImportPayload={importPayload}
       />
-      <QRPreview options={previewOptions} />
+      <QRPreview options={previewOptions} fieldErrorCount={fieldErrorCount} onAddToGallery={addToGallery} />
       <QROptionsPanel
         options={options}
         onUpdateOption={updateOption}
+        onUpdateOptions={updateOptions}
         onUpdateGradient={updateGradient}
-        onUpdateGradientColor={updateGradientColor}
         onApplyPreset={applyPreset}
+        onApplyStylePreset={applyStylePreset}
         onUndo={undo}
         onRedo={redo}
         canUndo={canUndo}
         canRedo={canRedo}
         onResetToDefault={resetToDefault}
+        onImportPayload={importPayload}
+        onImportProject={setOptions}
+        galleryRevision={galleryRevision}
+        logoCheck={logoCheck}
       />
     </div>
   );
@@ -1,53 +1,51 @@
-import { useState, useRef, useEffect } from 'react';
+import { Fragment, useState, useRef, useEffect } from 'react';
 import type {
   QRTemplateType,
   TemplateCategory,
-  URLData,
-  VCardData,
-  WiFiData,
-  EmailData,
-  SMSData,
-  CalendarData,
-  LocationData,
-  PhoneData,
-  WhatsAppData,
-  TelegramData,
-  SocialMediaData,
-  PayPalData,
-  BitcoinData,
-  QRTemplateData
+  EPCData,
+  SwissQRData,
+  SwissQRAddress,
+  PayNowData,
+  PromptPayData,
+  QRTemplateData,
+  TemplateDataMap,
+  CalendarRepeat,
+  CalendarRepeatEnd,
+  CalendarFormat,
+  VCardFormat
 } from '../../types/qr';
 import {
   Link, Contact, Wifi, Mail, MessageSquare, Calendar, MapPin, Phone,
   Instagram, Twitter, Linkedin, Youtube, Facebook,
-  MessageCircle, Send, DollarSign, Bitcoin, Video, ChevronDown, Ghost
+  MessageCircle, Send, DollarSign, Bitcoin, Video, ChevronDown, Ghost, Landmark, Receipt,
+  Zap, Wallet, Banknote, IndianRupee, ClipboardPaste, Plus, X
 } from 'lucide-react';
-import {
-  defaultURLData,
-  defaultVCardData,
-  defaultWiFiData,
-  defaultEmailData,
-  defaultSMSData,
-  getDefaultCalendarData,
-  defaultLocationData,
-  defaultPhoneData,
-  defaultWhatsAppData,
-  defaultTelegramData,
-  defaultSocialMediaData,
-  defaultPayPalData,
-  defaultBitcoinData,
-  templateDefinitions,
-} from '../../types/qr';
+import { EPC_LIMITS, PIX_LIMITS, SWISS_QR_LIMITS, templateDefinitions } from '../../types/qr';
+import { getPixDescriptionLimit } from '../../utils/emvco';
+import { formatSwissReference, groupSwissReference, isQRIBAN } from '../../utils/swissQR';
+import { getTimeZones } from '../../utils/timeZone';
+import { createContactPhoto } from '../../utils/vCard';
+import { validateTemplateData } from '../../utils/validation';
 import { useLanguage } from '../../i18n';
 import CountryCodeSelect from '../CountryCodeSelect/CountryCodeSelect';
+import ContactEntries from '../ContactEntries/ContactEntries';
 import './QRDataInput.css';
 
 interface QRDataInputProps {
   templateType: QRTemplateType;
+  templateData: TemplateDataMap;
   onTemplateChange: (type: QRTemplateType) => void;
-  onDataChange: (data: string) => void;
+  onTemplateDataChange: (type: QRTemplateType, data: QRTemplateData) => void;
+  // Returns the detected template, or null when the payload is not recognized
+  onImportPayload: (payload: string) => QRTemplateType | null;
 }
 
+// IANA zones offered for calendar events
+const timeZones = getTimeZones();
+
+// Reminder presets, in minutes before the event
+const reminderOptions = ['0', '5', '15', '30', '60', '1440'];
+
 // Categories for dropdown grouping
 const displayCategories: TemplateCategory[] = ['links', 'contact', 'social', 'payment'];
 
@@ -72,263 +70,113 @@ const templateIcons: Record<QRTemplateType, React.ElementType> = {
   snapchat: Ghost,
   paypal: DollarSign,
   bitcoin: Bitcoin,
+  epc: Landmark,
+  swissqr: Receipt,
+  pix: Zap,
+  paynow: Wallet,
+  promptpay: Banknote,
+  upi: IndianRupee,
 };
 
-// Helper functions to convert template data to QR string
-const generateQRString = (type: QRTemplateType, data: QRTemplateData): string => {
-  switch (type) {
-    case 'url':
-      return (data as URLData).url || '';
-
-    case 'vcard': {
-      const vcard = data as VCardData;
-      const lines = [
-        'BEGIN:VCARD',
-        'VERSION:3.0',
-        vcard.firstName || vcard.lastName ? `N:${vcard.lastName};${vcard.firstName};;;` : '',
-        vcard.firstName || vcard.lastName ? `FN:${vcard.firstName} ${vcard.lastName}`.trim() : '',
-        vcard.organization ? `ORG:${vcard.organization}` : '',
-        vcard.title ? `TITLE:${vcard.title}` : '',
-        vcard.phone ? `TEL:${vcard.phone}` : '',
-        vcard.email ? `EMAIL:${vcard.email}` : '',
-        vcard.website ? `URL:${vcard.website}` : '',
-        (vcard.address || vcard.city || vcard.state || vcard.zip || vcard.country)
-          ? `ADR:;;${vcard.address};${vcard.city};${vcard.state};${vcard.zip};${vcard.country}`
-          : '',
-        'END:VCARD',
-      ].filter(line => line);
-      return lines.join('\n');
-    }
-
-    case 'wifi': {
-      const wifi = data as WiFiData;
-      if (!wifi.ssid) return '';
-      return `WIFI:T:${wifi.encryption};S:${wifi.ssid};P:${wifi.password};H:${wifi.hidden ? 'true' : 'false'};;`;
-    }
-
-    case 'email': {
-      const email = data as EmailData;
-      if (!email.email) return '';
-      return `mailto:${email.email}?subject=${encodeURIComponent(email.subject)}&body=${encodeURIComponent(email.body)}`;
-    }
-
-    case 'sms': {
-      const sms = data as SMSData;
-      if (!sms.phone) return '';
-      const fullPhone = `${sms.countryCode}${sms.phone.replace(/[^0-9]/g, '')}`;
-      return `sms:${fullPhone}${sms.message ? `?body=${encodeURIComponent(sms.message)}` : ''}`;
-    }
-
-    case 'phone': {
-      const phone = data as PhoneData;
-      if (!phone.phone) return '';
-      const fullPhone = `${phone.countryCode}${phone.phone.replace(/[^0-9]/g, '')}`;
-      return `tel:${fullPhone}`;
-    }
-
-    case 'calendar': {
-      const cal = data as CalendarData;
-      if (!cal.title) return '';
-
-      // Format datetime-local (YYYY-MM-DDTHH:MM) to iCalendar format (YYYYMMDDTHHMMSS)
-      const formatDateTime = (date: string) => {
-        if (!date) return '';
-        // Remove dashes, colons, and add seconds
-        return date.replace(/-/g, '').replace('T', 'T').replace(':', '') + '00';
-      };
-
-      // Format date only (YYYY-MM-DD) to iCalendar date format (YYYYMMDD)
-      const formatDateOnly = (date: string) => {
-        if (!date) return '';
-        // Extract just the date part and remove dashes
-        return date.split('T')[0].replace(/-/g, '');
-      };
-
-      // For all-day events, DTEND is exclusive, so add 1 day to end date
-      const getNextDay = (date: string) => {
-        if (!date) return '';
-        const dateOnly = date.split('T')[0];
-        const nextDay = new Date(dateOnly);
-        nextDay.setDate(nextDay.getDate() + 1);
-        return nextDay.toISOString().split('T')[0].replace(/-/g, '');
-      };
-
-      const lines = [
-        'BEGIN:VCALENDAR',
-        'VERSION:2.0',
-        'BEGIN:VEVENT',
-        `SUMMARY:${cal.title}`,
-      ];
-
-      if (cal.location) lines.push(`LOCATION:${cal.location}`);
-      if (cal.description) lines.push(`DESCRIPTION:${cal.description}`);
-
-      if (cal.allDay) {
-        // All-day event uses VALUE=DATE format
-        // DTEND is exclusive in iCalendar, so add 1 day
-        if (cal.startDate) lines.push(`DTSTART;VALUE=DATE:${formatDateOnly(cal.startDate)}`);
-        if (cal.endDate) lines.push(`DTEND;VALUE=DATE:${getNextDay(cal.endDate)}`);
-      } else {
-        // Timed event uses full datetime
-        if (cal.startDate) lines.push(`DTSTART:${formatDateTime(cal.startDate)}`);
-        if (cal.endDate) lines.push(`DTEND:${formatDateTime(cal.endDate)}`);
-      }
-
-      lines.push('END:VEVENT', 'END:VCALENDAR');
-
-      return lines.join('\n');
-    }
-
-    case 'location': {
-      const loc = data as LocationData;
-      if (!loc.latitude || !loc.longitude) return '';
-      return `geo:${loc.latitude},${loc.longitude}${loc.label ? `?q=${encodeURIComponent(loc.label)}` : ''}`;
-    }
-
-    case 'whatsapp': {
-      const wa = data as WhatsAppData;
-      if (!wa.phone) return '';
-      // Combine country code and phone, remove all non-digits
-      const fullPhone = `${wa.countryCode}${wa.phone}`.replace(/[^0-9]/g, '');
-      return `https://wa.me/${fullPhone}${wa.message ? `?text=${encodeURIComponent(wa.message)}` : ''}`;
-    }
-
-    case 'telegram': {
-      const tg = data as TelegramData;
-      if (!tg.username) return '';
-      const username = tg.username.replace('@', '');
-      // Use t.me link with ?text parameter for prefilled message
-      if (tg.message) {
-        return `https://t.me/${username}?text=${encodeURIComponent(tg.message)}`;
-      }
-      return `https://t.me/${username}`;
-    }
-
-    case 'instagram': {
-      const ig = data as SocialMediaData;
-      if (!ig.username) return '';
-      return `https://instagram.com/${ig.username.replace('@', '')}`;
-    }
+export default function QRDataInput({
+  templateType,
+  templateData,
+  onTemplateChange,
+  onTemplateDataChange,
+  onImportPayload,
+}: QRDataInputProps) {
+  const { t } = useLanguage();
 
-    case 'twitter': {
-      const tw = data as SocialMediaData;
-      if (!tw.username) return '';
-      return `https://twitter.com/${tw.username.replace('@', '')}`;
-    }
+  // Form data of every template, held in the options so it is saved and undoable
+  const {
+    url: urlData,
+    vcard: vcardData,
+    wifi: wifiData,
+    email: emailData,
+    sms: smsData,
+    calendar: calendarData,
+    location: locationData,
+    phone: phoneData,
+    whatsapp: whatsappData,
+    telegram: telegramData,
+    instagram: instagramData,
+    twitter: twitterData,
+    linkedin: linkedinData,
+    tiktok: tiktokData,
+    youtube: youtubeData,
+    facebook: facebookData,
+    snapchat: snapchatData,
+    paypal: paypalData,
+    bitcoin: bitcoinData,
+    epc: epcData,
+    swissqr: swissQRData,
+    pix: pixData,
+    paynow: payNowData,
+    promptpay: promptPayData,
+    upi: upiData,
+  } = templateData;
 
-    case 'linkedin': {
-      const li = data as SocialMediaData;
-      if (!li.username) return '';
-      return `https://linkedin.com/in/${li.username}`;
-    }
+  // The payload is regenerated from the form together with it
+  const updateData = (type: QRTemplateType, data: QRTemplateData) => {
+    onTemplateDataChange(type, data);
+  };
 
-    case 'tiktok': {
-      const tt = data as SocialMediaData;
-      if (!tt.username) return '';
-      return `https://tiktok.com/@${tt.username.replace('@', '')}`;
-    }
+  const errors = validateTemplateData(templateType, templateData[templateType]);
 
-    case 'youtube': {
-      const yt = data as SocialMediaData;
-      if (!yt.username) return '';
-      return `https://youtube.com/@${yt.username.replace('@', '')}`;
-    }
+  // Mark an invalid field and link it to its message for screen readers
+  const invalidProps = (field: string, id: string) => (errors[field]
+    ? { 'aria-invalid': true, 'aria-describedby': `${id}Error` }
+    : {});
 
-    case 'facebook': {
-      const fb = data as SocialMediaData;
-      if (!fb.username) return '';
-      return `https://facebook.com/${fb.username}`;
-    }
+  const getErrorMessage = (field: string) => {
+    const error = errors[field];
+    return error && t.qrDataInput.validation[error];
+  };
 
-    case 'snapchat': {
-      const sc = data as SocialMediaData;
-      if (!sc.username) return '';
-      return `https://snapchat.com/add/${sc.username}`;
-    }
+  const renderFieldError = (field: string, id: string) => {
+    const message = getErrorMessage(field);
+    return message && <span id={`${id}Error`} className="form-hint error" role="alert">{message}</span>;
+  };
 
-    case 'paypal': {
-      const pp = data as PayPalData;
-      if (!pp.username) return '';
-      let url = `https://paypal.me/${pp.username}`;
-      if (pp.amount) {
-        url += `/${pp.amount}${pp.currency ? pp.currency : ''}`;
-      }
-      return url;
-    }
+  // Contact photos are shrunk before they are stored in the card
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const [photoError, setPhotoError] = useState(false);
 
-    case 'bitcoin': {
-      const btc = data as BitcoinData;
-      if (!btc.address) return '';
-      let url = `bitcoin:${btc.address}`;
-      const params: string[] = [];
-      if (btc.amount) params.push(`amount=${btc.amount}`);
-      if (btc.label) params.push(`label=${encodeURIComponent(btc.label)}`);
-      if (params.length > 0) url += `?${params.join('&')}`;
-      return url;
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const photo = await createContactPhoto(file);
+      setPhotoError(false);
+      updateData('vcard', { ...vcardData, photo });
+    } catch (err) {
+      console.error('Failed to read photo:', err);
+      setPhotoError(true);
     }
-
-    default:
-      return '';
-  }
-};
-
-export default function QRDataInput({ templateType, onTemplateChange, onDataChange }: QRDataInputProps) {
-  const { t } = useLanguage();
-
-  // Template data states
-  const [urlData, setUrlData] = useState<URLData>(defaultURLData);
-  const [vcardData, setVcardData] = useState<VCardData>(defaultVCardData);
-  const [wifiData, setWifiData] = useState<WiFiData>(defaultWiFiData);
-  const [emailData, setEmailData] = useState<EmailData>(defaultEmailData);
-  const [smsData, setSmsData] = useState<SMSData>(defaultSMSData);
-  const [calendarData, setCalendarData] = useState<CalendarData>(getDefaultCalendarData);
-  const [locationData, setLocationData] = useState<LocationData>(defaultLocationData);
-  const [phoneData, setPhoneData] = useState<PhoneData>(defaultPhoneData);
-  const [whatsappData, setWhatsappData] = useState<WhatsAppData>(defaultWhatsAppData);
-  const [telegramData, setTelegramData] = useState<TelegramData>(defaultTelegramData);
-  const [instagramData, setInstagramData] = useState<SocialMediaData>(defaultSocialMediaData);
-  const [twitterData, setTwitterData] = useState<SocialMediaData>(defaultSocialMediaData);
-  const [linkedinData, setLinkedinData] = useState<SocialMediaData>(defaultSocialMediaData);
-  const [tiktokData, setTiktokData] = useState<SocialMediaData>(defaultSocialMediaData);
-  const [youtubeData, setYoutubeData] = useState<SocialMediaData>(defaultSocialMediaData);
-  const [facebookData, setFacebookData] = useState<SocialMediaData>(defaultSocialMediaData);
-  const [snapchatData, setSnapchatData] = useState<SocialMediaData>(defaultSocialMediaData);
-  const [paypalData, setPaypalData] = useState<PayPalData>(defaultPayPalData);
-  const [bitcoinData, setBitcoinData] = useState<BitcoinData>(defaultBitcoinData);
-
-  const updateData = (type: QRTemplateType, data: QRTemplateData) => {
-    const qrString = generateQRString(type, data);
-    onDataChange(qrString);
   };
 
-  const getDataForType = (type: QRTemplateType): QRTemplateData => {
-    switch (type) {
-      case 'url': return urlData;
-      case 'vcard': return vcardData;
-      case 'wifi': return wifiData;
-      case 'email': return emailData;
-      case 'sms': return smsData;
-      case 'calendar': return calendarData;
-      case 'location': return locationData;
-      case 'phone': return phoneData;
-      case 'whatsapp': return whatsappData;
-      case 'telegram': return telegramData;
-      case 'instagram': return instagramData;
-      case 'twitter': return twitterData;
-      case 'linkedin': return linkedinData;
-      case 'tiktok': return tiktokData;
-      case 'youtube': return youtubeData;
-      case 'facebook': return facebookData;
-      case 'snapchat': return snapchatData;
-      case 'paypal': return paypalData;
-      case 'bitcoin': return bitcoinData;
-      default: return urlData;
-    }
+  const formatReminder = (minutes: number) => {
+    const { form } = t.qrDataInput;
+    if (minutes === 0) return form.reminderAtStart;
+    if (minutes % 1440 === 0) return form.reminderDays.replace('{count}', String(minutes / 1440));
+    if (minutes % 60 === 0) return form.reminderHours.replace('{count}', String(minutes / 60));
+    return form.reminderMinutes.replace('{count}', String(minutes));
   };
 
-  const handleTemplateChange = (type: QRTemplateType) => {
-    onTemplateChange(type);
-    updateData(type, getDataForType(type));
+  // Paste an existing payload to detect its template and fill the form
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [importError, setImportError] = useState(false);
+
+  const handleImport = () => {
+    if (!onImportPayload(importText)) {
+      setImportError(true);
+      return;
+    }
+    setImportText('');
+    setImportError(false);
+    setIsImportOpen(false);
   };
 
   const renderForm = () => {
@@ -341,14 +189,15 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
               <input
                 type="url"
                 id="url"
+                {...invalidProps('url', 'url')}
                 value={urlData.url}
                 onChange={(e) => {
                   const newData = { ...urlData, url: e.target.value };
-                  setUrlData(newData);
                   updateData('url', newData);
                 }}
                 placeholder={t.qrDataInput.form.urlPlaceholder}
               />
+              {renderFieldError('url', 'url')}
             </div>
           </div>
         );
@@ -365,7 +214,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                   value={vcardData.firstName}
                   onChange={(e) => {
                     const newData = { ...vcardData, firstName: e.target.value };
-                    setVcardData(newData);
                     updateData('vcard', newData);
                   }}
                 />
@@ -378,7 +226,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                   value={vcardData.lastName}
                   onChange={(e) => {
                     const newData = { ...vcardData, lastName: e.target.value };
-                    setVcardData(newData);
                     updateData('vcard', newData);
                   }}
                 />
@@ -392,7 +239,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={vcardData.organization}
                 onChange={(e) => {
                   const newData = { ...vcardData, organization: e.target.value };
-                  setVcardData(newData);
                   updateData('vcard', newData);
                 }}
               />
@@ -405,51 +251,43 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={vcardData.title}
                 onChange={(e) => {
                   const newData = { ...vcardData, title: e.target.value };
-                  setVcardData(newData);
                   updateData('vcard', newData);
                 }}
               />
             </div>
-            <div className="form-row">
-              <div className="form-group">
-                <label htmlFor="phone">{t.qrDataInput.form.phone}</label>
-                <input
-                  type="tel"
-                  id="phone"
-                  value={vcardData.phone}
-                  onChange={(e) => {
-                    const newData = { ...vcardData, phone: e.target.value };
-                    setVcardData(newData);
-                    updateData('vcard', newData);
-                  }}
-                />
-              </div>
-              <div className="form-group">
-                <label htmlFor="vcardEmail">{t.qrDataInput.form.email}</label>
-                <input
-                  type="email"
-                  id="vcardEmail"
-                  value={vcardData.email}
-                  onChange={(e) => {
-                    const newData = { ...vcardData, email: e.target.value };
-                    setVcardData(newData);
-                    updateData('vcard', newData);
-                  }}
-                />
-              </div>
-            </div>
+            <ContactEntries
+              id="vcardPhone"
+              label={t.qrDataInput.form.phones}
+              addLabel={t.qrDataInput.form.addPhone}
+              inputType="tel"
+              types={['cell', 'work', 'home']}
+              entries={vcardData.phones}
+              errors={vcardData.phones.map((_, i) => getErrorMessage(`phones.${i}`))}
+              onChange={(phones) => updateData('vcard', { ...vcardData, phones })}
+            />
+            <ContactEntries
+              id="vcardEmail"
+              label={t.qrDataInput.form.emails}
+              addLabel={t.qrDataInput.form.addEmail}
+              inputType="email"
+              types={['work', 'home']}
+              entries={vcardData.emails}
+              errors={vcardData.emails.map((_, i) => getErrorMessage(`emails.${i}`))}
+              onChange={(emails) => updateData('vcard', { ...vcardData, emails })}
+            />
             <div className="form-group">
               <label htmlFor="website">{t.qrDataInput.form.website}</label>
               <input
                 type="url"
                 id="website"
+                {...invalidProps('website', 'website')}
                 value={vcardData.website}
                 onChange={(e) => {
                   const newData = { ...vcardData, website: e.target.value };
-                  setVcardData(newData);
                   updateData('vcard', newData);
                 }}
               />
+              {renderFieldError('website', 'website')}
             </div>
             <div className="form-group">
               <label htmlFor="address">{t.qrDataInput.form.address}</label>
@@ -459,7 +297,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={vcardData.address}
                 onChange={(e) => {
                   const newData = { ...vcardData, address: e.target.value };
-                  setVcardData(newData);
                   updateData('vcard', newData);
                 }}
               />
@@ -473,7 +310,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                   value={vcardData.city}
                   onChange={(e) => {
                     const newData = { ...vcardData, city: e.target.value };
-                    setVcardData(newData);
                     updateData('vcard', newData);
                   }}
                 />
@@ -486,7 +322,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                   value={vcardData.state}
                   onChange={(e) => {
                     const newData = { ...vcardData, state: e.target.value };
-                    setVcardData(newData);
                     updateData('vcard', newData);
                   }}
                 />
@@ -501,7 +336,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                   value={vcardData.zip}
                   onChange={(e) => {
                     const newData = { ...vcardData, zip: e.target.value };
-                    setVcardData(newData);
                     updateData('vcard', newData);
                   }}
                 />
@@ -514,12 +348,124 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                   value={vcardData.country}
                   onChange={(e) => {
                     const newData = { ...vcardData, country: e.target.value };
-                    setVcardData(newData);
                     updateData('vcard', newData);
                   }}
                 />
               </div>
             </div>
+            <div className="form-group">
+              <label htmlFor="birthday">{t.qrDataInput.form.birthday}</label>
+              <input
+                type="date"
+                id="birthday"
+                max="9999-12-31"
+                value={vcardData.birthday}
+                onChange={(e) => {
+                  const newData = { ...vcardData, birthday: e.target.value };
+                  updateData('vcard', newData);
+                }}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="vcardNote">{t.qrDataInput.form.notes}</label>
+              <textarea
+                id="vcardNote"
+                value={vcardData.note}
+                onChange={(e) => {
+                  const newData = { ...vcardData, note: e.target.value };
+                  updateData('vcard', newData);
+                }}
+                rows={2}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="socialProfile-0">{t.qrDataInput.form.socialProfiles}</label>
+              {vcardData.socialProfiles.map((url, index) => (
+                <Fragment key={index}>
+                  <div className="contact-entry">
+                    <input
+                      type="url"
+                      id={`socialProfile-${index}`}
+                      {...invalidProps(`socialProfiles.${index}`, `socialProfile-${index}`)}
+                      value={url}
+                      onChange={(e) => {
+                        const socialProfiles = vcardData.socialProfiles.map((u, i) => (i === index ? e.target.value : u));
+                        updateData('vcard', { ...vcardData, socialProfiles });
+                      }}
+                      placeholder={t.qrDataInput.form.socialProfilePlaceholder}
+                    />
+                    <button
+                      type="button"
+                      className="btn-icon"
+                      onClick={() => {
+                        const socialProfiles = vcardData.socialProfiles.filter((_, i) => i !== index);
+                        updateData('vcard', { ...vcardData, socialProfiles });
+                      }}
+                      title={t.qrDataInput.form.removeEntry}
+                      aria-label={t.qrDataInput.form.removeEntry}
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                  {renderFieldError(`socialProfiles.${index}`, `socialProfile-${index}`)}
+                </Fragment>
+              ))}
+              <button
+                type="button"
+                className="btn btn-small contact-entry-add"
+                onClick={() => updateData('vcard', { ...vcardData, socialProfiles: [...vcardData.socialProfiles, ''] })}
+              >
+                <Plus size={14} />
+                {t.qrDataInput.form.addSocialProfile}
+              </button>
+            </div>
+            <div className="form-group">
+              <label>{t.qrDataInput.form.photo}</label>
+              <div className="contact-photo">
+                {vcardData.photo && <img src={vcardData.photo} alt="" className="contact-photo-preview" />}
+                <button type="button" className="btn btn-small" onClick={() => photoInputRef.current?.click()}>
+                  {t.qrDataInput.form.choosePhoto}
+                </button>
+                {vcardData.photo && (
+                  <button
+                    type="button"
+                    className="btn btn-small btn-danger"
+                    onClick={() => updateData('vcard', { ...vcardData, photo: '' })}
+                  >
+                    {t.qrDataInput.form.removePhoto}
+                  </button>
+                )}
+                <input
+                  ref={photoInputRef}
+                  type="file"
+                  accept="image/*"
+                  hidden
+                  onChange={handlePhotoChange}
+                />
+              </div>
+              {photoError && <span className="form-hint error">{t.qrDataInput.form.photoError}</span>}
+              {vcardData.photo && vcardData.format !== 'mecard' && (
+                <span className="form-hint">
+                  {t.qrDataInput.form.photoHint.replace('{size}', (vcardData.photo.length / 1024).toFixed(1))}
+                </span>
+              )}
+            </div>
+            <div className="form-group">
+              <label htmlFor="vcardFormat">{t.qrDataInput.form.cardFormat}</label>
+              <select
+                id="vcardFormat"
+                value={vcardData.format}
+                onChange={(e) => {
+                  const newData = { ...vcardData, format: e.target.value as VCardFormat };
+                  updateData('vcard', newData);
+                }}
+              >
+                <option value="vcard3">{t.qrDataInput.form.cardFormats.vcard3}</option>
+                <option value="vcard4">{t.qrDataInput.form.cardFormats.vcard4}</option>
+                <option value="mecard">{t.qrDataInput.form.cardFormats.mecard}</option>
+              </select>
+              {vcardData.format === 'mecard' && <span className="form-hint">{t.qrDataInput.form.meCardHint}</span>}
+            </div>
           </div>
         );
 
@@ -534,7 +480,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={wifiData.ssid}
                 onChange={(e) => {
                   const newData = { ...wifiData, ssid: e.target.value };
-                  setWifiData(newData);
                   updateData('wifi', newData);
                 }}
                 placeholder={t.qrDataInput.form.networkNamePlaceholder}
@@ -548,7 +493,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={wifiData.password}
                 onChange={(e) => {
                   const newData = { ...wifiData, password: e.target.value };
-                  setWifiData(newData);
                   updateData('wifi', newData);
                 }}
               />
@@ -560,7 +504,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={wifiData.encryption}
                 onChange={(e) => {
                   const newData = { ...wifiData, encryption: e.target.value as 'WPA' | 'WEP' | 'nopass' };
-                  setWifiData(newData);
                   updateData('wifi', newData);
                 }}
               >
@@ -576,7 +519,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                   checked={wifiData.hidden}
                   onChange={(e) => {
                     const newData = { ...wifiData, hidden: e.target.checked };
-                    setWifiData(newData);
                     updateData('wifi', newData);
                   }}
                 />
@@ -594,14 +536,15 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
               <input
                 type="email"
                 id="emailAddress"
+                {...invalidProps('email', 'emailAddress')}
                 value={emailData.email}
                 onChange={(e) => {
                   const newData = { ...emailData, email: e.target.value };
-                  setEmailData(newData);
                   updateData('email', newData);
                 }}
                 placeholder={t.qrDataInput.form.emailPlaceholder}
               />
+              {renderFieldError('email', 'emailAddress')}
             </div>
             <div className="form-group">
               <label htmlFor="subject">{t.qrDataInput.form.subject}</label>
@@ -611,7 +554,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={emailData.subject}
                 onChange={(e) => {
                   const newData = { ...emailData, subject: e.target.value };
-                  setEmailData(newData);
                   updateData('email', newData);
                 }}
               />
@@ -623,7 +565,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={emailData.body}
                 onChange={(e) => {
                   const newData = { ...emailData, body: e.target.value };
-                  setEmailData(newData);
                   updateData('email', newData);
                 }}
                 rows={4}
@@ -643,7 +584,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                     value={smsData.countryCode}
                     onChange={(value) => {
                       const newData = { ...smsData, countryCode: value };
-                      setSmsData(newData);
                       updateData('sms', newData);
                     }}
                   />
@@ -651,16 +591,17 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 <input
                   type="tel"
                   id="smsPhone"
+                  {...invalidProps('phone', 'smsPhone')}
                   className="phone-number-input"
                   value={smsData.phone}
                   onChange={(e) => {
                     const newData = { ...smsData, phone: e.target.value };
-                    setSmsData(newData);
                     updateData('sms', newData);
                   }}
                   placeholder={t.qrDataInput.form.phonePlaceholder}
                 />
               </div>
+              {renderFieldError('phone', 'smsPhone')}
             </div>
             <div className="form-group">
               <label htmlFor="message">{t.qrDataInput.form.message}</label>
@@ -669,7 +610,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={smsData.message}
                 onChange={(e) => {
                   const newData = { ...smsData, message: e.target.value };
-                  setSmsData(newData);
                   updateData('sms', newData);
                 }}
                 rows={4}
@@ -689,7 +629,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                     value={phoneData.countryCode}
                     onChange={(value) => {
                       const newData = { ...phoneData, countryCode: value };
-                      setPhoneData(newData);
                       updateData('phone', newData);
                     }}
                   />
@@ -697,16 +636,17 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 <input
                   type="tel"
                   id="phoneNumber"
+                  {...invalidProps('phone', 'phoneNumber')}
                   className="phone-number-input"
                   value={phoneData.phone}
                   onChange={(e) => {
                     const newData = { ...phoneData, phone: e.target.value };
-                    setPhoneData(newData);
                     updateData('phone', newData);
                   }}
                   placeholder={t.qrDataInput.form.phonePlaceholder}
                 />
               </div>
+              {renderFieldError('phone', 'phoneNumber')}
             </div>
           </div>
         );
@@ -722,7 +662,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={calendarData.title}
                 onChange={(e) => {
                   const newData = { ...calendarData, title: e.target.value };
-                  setCalendarData(newData);
                   updateData('calendar', newData);
                 }}
                 placeholder={t.qrDataInput.form.eventTitlePlaceholder}
@@ -736,7 +675,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={calendarData.location}
                 onChange={(e) => {
                   const newData = { ...calendarData, location: e.target.value };
-                  setCalendarData(newData);
                   updateData('calendar', newData);
                 }}
               />
@@ -748,7 +686,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={calendarData.description}
                 onChange={(e) => {
                   const newData = { ...calendarData, description: e.target.value };
-                  setCalendarData(newData);
                   updateData('calendar', newData);
                 }}
                 rows={3}
@@ -761,7 +698,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                   checked={calendarData.allDay}
                   onChange={(e) => {
                     const newData = { ...calendarData, allDay: e.target.checked };
-                    setCalendarData(newData);
                     updateData('calendar', newData);
                   }}
                 />
@@ -779,7 +715,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                     value={calendarData.startDate.split('T')[0] || ''}
                     onChange={(e) => {
                       const newData = { ...calendarData, startDate: e.target.value };
-                      setCalendarData(newData);
                       updateData('calendar', newData);
                     }}
                   />
@@ -789,14 +724,15 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                   <input
                     type="date"
                     id="endDateOnly"
+                    {...invalidProps('endDate', 'endDateOnly')}
                     max="9999-12-31"
                     value={calendarData.endDate.split('T')[0] || ''}
                     onChange={(e) => {
                       const newData = { ...calendarData, endDate: e.target.value };
-                      setCalendarData(newData);
                       updateData('calendar', newData);
                     }}
                   />
+                  {renderFieldError('endDate', 'endDateOnly')}
                 </div>
               </>
             ) : (
@@ -810,7 +746,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                     value={calendarData.startDate}
                     onChange={(e) => {
                       const newData = { ...calendarData, startDate: e.target.value };
-                      setCalendarData(newData);
                       updateData('calendar', newData);
                     }}
                   />
@@ -820,17 +755,193 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                   <input
                     type="datetime-local"
                     id="endDate"
+                    {...invalidProps('endDate', 'endDate')}
                     max="9999-12-31T23:59"
                     value={calendarData.endDate}
                     onChange={(e) => {
                       const newData = { ...calendarData, endDate: e.target.value };
-                      setCalendarData(newData);
                       updateData('calendar', newData);
                     }}
                   />
+                  {renderFieldError('endDate', 'endDate')}
                 </div>
               </>
             )}
+            {!calendarData.allDay && (
+              <div className="form-group">
+                <label htmlFor="eventTimeZone">{t.qrDataInput.form.timeZone}</label>
+                <select
+                  id="eventTimeZone"
+                  value={calendarData.timeZone}
+                  onChange={(e) => {
+                    const newData = { ...calendarData, timeZone: e.target.value };
+                    updateData('calendar', newData);
+                  }}
+                >
+                  {(timeZones.includes(calendarData.timeZone) ? timeZones : [calendarData.timeZone, ...timeZones])
+                    .map((zone) => <option key={zone} value={zone}>{zone}</option>)}
+                </select>
+                <label className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={calendarData.useUTC || calendarData.format === 'vevent'}
+                    disabled={calendarData.format === 'vevent'}
+                    onChange={(e) => {
+                      const newData = { ...calendarData, useUTC: e.target.checked };
+                      updateData('calendar', newData);
+                    }}
+                  />
+                  {t.qrDataInput.form.useUTC}
+                </label>
+                {calendarData.format === 'vevent' && (
+                  <span className="form-hint">{t.qrDataInput.form.veventUTCHint}</span>
+                )}
+              </div>
+            )}
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="eventRepeat">{t.qrDataInput.form.repeat}</label>
+                <select
+                  id="eventRepeat"
+                  value={calendarData.repeat}
+                  onChange={(e) => {
+                    const newData = { ...calendarData, repeat: e.target.value as CalendarRepeat };
+                    updateData('calendar', newData);
+                  }}
+                >
+                  <option value="none">{t.qrDataInput.form.repeatNone}</option>
+                  <option value="DAILY">{t.qrDataInput.form.repeatDaily}</option>
+                  <option value="WEEKLY">{t.qrDataInput.form.repeatWeekly}</option>
+                  <option value="MONTHLY">{t.qrDataInput.form.repeatMonthly}</option>
+                </select>
+              </div>
+              {calendarData.repeat !== 'none' && (
+                <div className="form-group">
+                  <label htmlFor="eventRepeatEnd">{t.qrDataInput.form.repeatEnd}</label>
+                  <select
+                    id="eventRepeatEnd"
+                    value={calendarData.repeatEnd}
+                    onChange={(e) => {
+                      const newData = { ...calendarData, repeatEnd: e.target.value as CalendarRepeatEnd };
+                      updateData('calendar', newData);
+                    }}
+                  >
+                    <option value="never">{t.qrDataInput.form.repeatNever}</option>
+                    <option value="until">{t.qrDataInput.form.repeatUntil}</option>
+                    <option value="count">{t.qrDataInput.form.repeatCount}</option>
+                  </select>
+                </div>
+              )}
+            </div>
+            {calendarData.repeat !== 'none' && calendarData.repeatEnd === 'until' && (
+              <div className="form-group">
+                <label htmlFor="eventRepeatUntil">{t.qrDataInput.form.repeatUntilDate}</label>
+                <input
+                  type="date"
+                  id="eventRepeatUntil"
+                  {...invalidProps('repeatUntil', 'eventRepeatUntil')}
+                  max="9999-12-31"
+                  value={calendarData.repeatUntil}
+                  onChange={(e) => {
+                    const newData = { ...calendarData, repeatUntil: e.target.value };
+                    updateData('calendar', newData);
+                  }}
+                />
+                {renderFieldError('repeatUntil', 'eventRepeatUntil')}
+              </div>
+            )}
+            {calendarData.repeat !== 'none' && calendarData.repeatEnd === 'count' && (
+              <div className="form-group">
+                <label htmlFor="eventRepeatCount">{t.qrDataInput.form.occurrences}</label>
+                <input
+                  type="number"
+                  id="eventRepeatCount"
+                  min="1"
+                  value={calendarData.repeatCount}
+                  onChange={(e) => {
+                    const newData = { ...calendarData, repeatCount: e.target.value };
+                    updateData('calendar', newData);
+                  }}
+                />
+              </div>
+            )}
+            <div className="form-group">
+              <label htmlFor="eventReminder">{t.qrDataInput.form.reminder}</label>
+              <select
+                id="eventReminder"
+                value={calendarData.reminder}
+                onChange={(e) => {
+                  const newData = { ...calendarData, reminder: e.target.value };
+                  updateData('calendar', newData);
+                }}
+              >
+                <option value="">{t.qrDataInput.form.reminderNone}</option>
+                {(reminderOptions.includes(calendarData.reminder) || !calendarData.reminder
+                  ? reminderOptions
+                  : [...reminderOptions, calendarData.reminder]
+                ).map((minutes) => (
+                  <option key={minutes} value={minutes}>{formatReminder(Number(minutes))}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="eventOrganizerName">{t.qrDataInput.form.organizerName}</label>
+                <input
+                  type="text"
+                  id="eventOrganizerName"
+                  value={calendarData.organizerName}
+                  onChange={(e) => {
+                    const newData = { ...calendarData, organizerName: e.target.value };
+                    updateData('calendar', newData);
+                  }}
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="eventOrganizerEmail">{t.qrDataInput.form.organizerEmail}</label>
+                <input
+                  type="email"
+                  id="eventOrganizerEmail"
+                  {...invalidProps('organizerEmail', 'eventOrganizerEmail')}
+                  value={calendarData.organizerEmail}
+                  onChange={(e) => {
+                    const newData = { ...calendarData, organizerEmail: e.target.value };
+                    updateData('calendar', newData);
+                  }}
+                  placeholder={t.qrDataInput.form.emailPlaceholder}
+                />
+                {renderFieldError('organizerEmail', 'eventOrganizerEmail')}
+              </div>
+            </div>
+            <div className="form-group">
+              <label htmlFor="eventUrl">{t.qrDataInput.form.eventUrl}</label>
+              <input
+                type="url"
+                id="eventUrl"
+                {...invalidProps('url', 'eventUrl')}
+                value={calendarData.url}
+                onChange={(e) => {
+                  const newData = { ...calendarData, url: e.target.value };
+                  updateData('calendar', newData);
+                }}
+                placeholder="https://"
+              />
+              {renderFieldError('url', 'eventUrl')}
+            </div>
+            <div className="form-group">
+              <label htmlFor="eventFormat">{t.qrDataInput.form.calendarFormat}</label>
+              <select
+                id="eventFormat"
+                value={calendarData.format}
+                onChange={(e) => {
+                  const newData = { ...calendarData, format: e.target.value as CalendarFormat };
+                  updateData('calendar', newData);
+                }}
+              >
+                <option value="vcalendar">{t.qrDataInput.form.calendarFormatFull}</option>
+                <option value="vevent">{t.qrDataInput.form.calendarFormatEvent}</option>
+              </select>
+            </div>
           </div>
         );
 
@@ -842,28 +953,30 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
               <input
                 type="text"
                 id="latitude"
+                {...invalidProps('latitude', 'latitude')}
                 value={locationData.latitude}
                 onChange={(e) => {
                   const newData = { ...locationData, latitude: e.target.value };
-                  setLocationData(newData);
                   updateData('location', newData);
                 }}
                 placeholder={t.qrDataInput.form.latitudePlaceholder}
               />
+              {renderFieldError('latitude', 'latitude')}
             </div>
             <div className="form-group">
               <label htmlFor="longitude">{t.qrDataInput.form.longitude} *</label>
               <input
                 type="text"
                 id="longitude"
+                {...invalidProps('longitude', 'longitude')}
                 value={locationData.longitude}
                 onChange={(e) => {
                   const newData = { ...locationData, longitude: e.target.value };
-                  setLocationData(newData);
                   updateData('location', newData);
                 }}
                 placeholder={t.qrDataInput.form.longitudePlaceholder}
               />
+              {renderFieldError('longitude', 'longitude')}
             </div>
             <div className="form-group">
               <label htmlFor="locationLabel">{t.qrDataInput.form.label}</label>
@@ -873,7 +986,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={locationData.label}
                 onChange={(e) => {
                   const newData = { ...locationData, label: e.target.value };
-                  setLocationData(newData);
                   updateData('location', newData);
                 }}
                 placeholder={t.qrDataInput.form.labelPlaceholder}
@@ -893,7 +1005,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                     value={whatsappData.countryCode}
                     onChange={(value) => {
                       const newData = { ...whatsappData, countryCode: value };
-                      setWhatsappData(newData);
                       updateData('whatsapp', newData);
                     }}
                   />
@@ -901,16 +1012,17 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 <input
                   type="tel"
                   id="waPhone"
+                  {...invalidProps('phone', 'waPhone')}
                   className="phone-number-input"
                   value={whatsappData.phone}
                   onChange={(e) => {
                     const newData = { ...whatsappData, phone: e.target.value };
-                    setWhatsappData(newData);
                     updateData('whatsapp', newData);
                   }}
                   placeholder={t.qrDataInput.form.phonePlaceholder}
                 />
               </div>
+              {renderFieldError('phone', 'waPhone')}
             </div>
             <div className="form-group">
               <label htmlFor="waMessage">{t.qrDataInput.form.prefilledMessage}</label>
@@ -919,7 +1031,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={whatsappData.message}
                 onChange={(e) => {
                   const newData = { ...whatsappData, message: e.target.value };
-                  setWhatsappData(newData);
                   updateData('whatsapp', newData);
                 }}
                 rows={3}
@@ -940,7 +1051,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={telegramData.username}
                 onChange={(e) => {
                   const newData = { ...telegramData, username: e.target.value };
-                  setTelegramData(newData);
                   updateData('telegram', newData);
                 }}
                 placeholder={t.qrDataInput.form.usernamePlaceholder}
@@ -953,7 +1063,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={telegramData.message}
                 onChange={(e) => {
                   const newData = { ...telegramData, message: e.target.value };
-                  setTelegramData(newData);
                   updateData('telegram', newData);
                 }}
                 placeholder="Hi! I scanned your QR code..."
@@ -974,7 +1083,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={instagramData.username}
                 onChange={(e) => {
                   const newData = { username: e.target.value };
-                  setInstagramData(newData);
                   updateData('instagram', newData);
                 }}
                 placeholder={t.qrDataInput.form.usernamePlaceholder}
@@ -994,7 +1102,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={twitterData.username}
                 onChange={(e) => {
                   const newData = { username: e.target.value };
-                  setTwitterData(newData);
                   updateData('twitter', newData);
                 }}
                 placeholder={t.qrDataInput.form.usernamePlaceholder}
@@ -1014,7 +1121,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={linkedinData.username}
                 onChange={(e) => {
                   const newData = { username: e.target.value };
-                  setLinkedinData(newData);
                   updateData('linkedin', newData);
                 }}
                 placeholder={t.qrDataInput.form.profileIdPlaceholder}
@@ -1034,7 +1140,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={tiktokData.username}
                 onChange={(e) => {
                   const newData = { username: e.target.value };
-                  setTiktokData(newData);
                   updateData('tiktok', newData);
                 }}
                 placeholder={t.qrDataInput.form.usernamePlaceholder}
@@ -1054,7 +1159,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={youtubeData.username}
                 onChange={(e) => {
                   const newData = { username: e.target.value };
-                  setYoutubeData(newData);
                   updateData('youtube', newData);
                 }}
                 placeholder={t.qrDataInput.form.channelHandlePlaceholder}
@@ -1074,7 +1178,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={facebookData.username}
                 onChange={(e) => {
                   const newData = { username: e.target.value };
-                  setFacebookData(newData);
                   updateData('facebook', newData);
                 }}
                 placeholder={t.qrDataInput.form.pageProfilePlaceholder}
@@ -1094,7 +1197,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={snapchatData.username}
                 onChange={(e) => {
                   const newData = { username: e.target.value };
-                  setSnapchatData(newData);
                   updateData('snapchat', newData);
                 }}
                 placeholder={t.qrDataInput.form.usernamePlaceholder}
@@ -1114,7 +1216,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 value={paypalData.username}
                 onChange={(e) => {
                   const newData = { ...paypalData, username: e.target.value };
-                  setPaypalData(newData);
                   updateData('paypal', newData);
                 }}
                 placeholder={t.qrDataInput.form.paypalUsernamePlaceholder}
@@ -1126,14 +1227,15 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 <input
                   type="text"
                   id="ppAmount"
+                  {...invalidProps('amount', 'ppAmount')}
                   value={paypalData.amount || ''}
                   onChange={(e) => {
                     const newData = { ...paypalData, amount: e.target.value };
-                    setPaypalData(newData);
                     updateData('paypal', newData);
                   }}
                   placeholder={t.qrDataInput.form.amountPlaceholder}
                 />
+                {renderFieldError('amount', 'ppAmount')}
               </div>
               <div className="form-group">
                 <label htmlFor="ppCurrency">{t.qrDataInput.form.currency}</label>
@@ -1142,7 +1244,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                   value={paypalData.currency || 'USD'}
                   onChange={(e) => {
                     const newData = { ...paypalData, currency: e.target.value };
-                    setPaypalData(newData);
                     updateData('paypal', newData);
                   }}
                 >
@@ -1165,14 +1266,15 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
               <input
                 type="text"
                 id="btcAddress"
+                {...invalidProps('address', 'btcAddress')}
                 value={bitcoinData.address}
                 onChange={(e) => {
                   const newData = { ...bitcoinData, address: e.target.value };
-                  setBitcoinData(newData);
                   updateData('bitcoin', newData);
                 }}
                 placeholder={t.qrDataInput.form.bitcoinAddressPlaceholder}
               />
+              {renderFieldError('address', 'btcAddress')}
             </div>
             <div className="form-row">
               <div className="form-group">
@@ -1180,14 +1282,15 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                 <input
                   type="text"
                   id="btcAmount"
+                  {...invalidProps('amount', 'btcAmount')}
                   value={bitcoinData.amount || ''}
                   onChange={(e) => {
                     const newData = { ...bitcoinData, amount: e.target.value };
-                    setBitcoinData(newData);
                     updateData('bitcoin', newData);
                   }}
                   placeholder={t.qrDataInput.form.amountPlaceholder}
                 />
+                {renderFieldError('amount', 'btcAmount')}
               </div>
               <div className="form-group">
                 <label htmlFor="btcLabel">{t.qrDataInput.form.label}</label>
@@ -1197,7 +1300,6 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
                   value={bitcoinData.label || ''}
                   onChange={(e) => {
                     const newData = { ...bitcoinData, label: e.target.value };
-                    setBitcoinData(newData);
                     updateData('bitcoin', newData);
                   }}
                   placeholder={t.qrDataInput.form.labelPlaceholder}
@@ -1207,71 +1309,738 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
           </div>
         );
 
-      default:
-        return null;
-    }
-  };
-
-  const [isDropdownOpen, setIsDropdownOpen] = useState(false);
-  const dropdownRef = useRef<HTMLDivElement>(null);
-
-  // Close dropdown when clicking outside
-  useEffect(() => {
-    const handleClickOutside = (event: MouseEvent) => {
-      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
-        setIsDropdownOpen(false);
-      }
-    };
-    document.addEventListener('mousedown', handleClickOutside);
-    return () => document.removeEventListener('mousedown', handleClickOutside);
-  }, []);
-
-  const currentTemplate = templateDefinitions.find(t => t.type === templateType);
-  const CurrentIcon = templateIcons[templateType];
-
-  return (
-    <div className="qr-data-input">
-      <h2>{t.qrDataInput.title}</h2>
-
-      {/* Custom Template Dropdown with Icons */}
-      <div className="template-dropdown-container" ref={dropdownRef}>
-        <label>{t.qrDataInput.templateType}</label>
-        <button
-          type="button"
-          className={`template-dropdown-trigger ${isDropdownOpen ? 'open' : ''}`}
-          onClick={() => setIsDropdownOpen(!isDropdownOpen)}
-          aria-haspopup="listbox"
-          aria-expanded={isDropdownOpen}
-        >
-          <span className="template-dropdown-selected">
-            <CurrentIcon size={18} />
-            <span>{currentTemplate ? t.qrDataInput.templates[currentTemplate.type] : t.qrDataInput.selectTemplate}</span>
-          </span>
-          <ChevronDown size={18} className={`dropdown-chevron ${isDropdownOpen ? 'rotated' : ''}`} />
-        </button>
-
-        {isDropdownOpen && (
-          <div className="template-dropdown-menu" role="listbox">
-            {displayCategories.map((category) => {
-              const categoryTemplates = templateDefinitions.filter(t => t.category === category);
-              if (categoryTemplates.length === 0) return null;
-              return (
-                <div key={category} className="template-dropdown-group">
-                  <div className="template-dropdown-group-label">{t.qrDataInput.categories[category]}</div>
-                  {categoryTemplates.map(({ type }) => {
-                    const Icon = templateIcons[type];
-                    return (
-                      <button
-                        key={type}
-                        type="button"
-                        className={`template-dropdown-item ${type === templateType ? 'selected' : ''}`}
-                        onClick={() => {
-                          handleTemplateChange(type);
-                          setIsDropdownOpen(false);
-                        }}
-                        role="option"
-                        aria-selected={type === templateType}
-                      >
+      case 'epc': {
+        const epcAmountInvalid = errors.amount === 'amountRange';
+        return (
+          <div className="template-form">
+            <div className="form-group">
+              <label htmlFor="epcName">{t.qrDataInput.form.beneficiaryName} *</label>
+              <input
+                type="text"
+                id="epcName"
+                maxLength={EPC_LIMITS.name}
+                value={epcData.name}
+                onChange={(e) => {
+                  const newData = { ...epcData, name: e.target.value };
+                  updateData('epc', newData);
+                }}
+                placeholder={t.qrDataInput.form.beneficiaryNamePlaceholder}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="epcIban">{t.qrDataInput.form.iban} *</label>
+              <input
+                type="text"
+                id="epcIban"
+                value={epcData.iban}
+                onChange={(e) => {
+                  // Allow grouping spaces, but cap the actual IBAN characters
+                  const value = e.target.value.toUpperCase();
+                  if (value.replace(/\s/g, '').length > EPC_LIMITS.iban) return;
+                  const newData = { ...epcData, iban: value };
+                  updateData('epc', newData);
+                }}
+                placeholder={t.qrDataInput.form.ibanPlaceholder}
+              />
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="epcBic">{t.qrDataInput.form.bic}</label>
+                <input
+                  type="text"
+                  id="epcBic"
+                  maxLength={EPC_LIMITS.bic}
+                  value={epcData.bic}
+                  onChange={(e) => {
+                    const newData = { ...epcData, bic: e.target.value.toUpperCase() };
+                    updateData('epc', newData);
+                  }}
+                  placeholder={t.qrDataInput.form.bicPlaceholder}
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="epcAmount">{t.qrDataInput.form.amountEur}</label>
+                <input
+                  type="number"
+                  id="epcAmount"
+                  min={EPC_LIMITS.minAmount}
+                  max={EPC_LIMITS.maxAmount}
+                  step="0.01"
+                  value={epcData.amount}
+                  aria-invalid={epcAmountInvalid}
+                  aria-describedby={epcAmountInvalid ? 'epcAmountHint' : undefined}
+                  onChange={(e) => {
+                    const newData = { ...epcData, amount: e.target.value };
+                    updateData('epc', newData);
+                  }}
+                  placeholder={t.qrDataInput.form.amountPlaceholder}
+                />
+                {epcAmountInvalid && (
+                  <span id="epcAmountHint" className="form-hint error">
+                    {t.qrDataInput.form.amountRange
+                      .replace('{min}', EPC_LIMITS.minAmount.toFixed(2))
+                      .replace('{max}', EPC_LIMITS.maxAmount.toLocaleString(undefined, { minimumFractionDigits: 2 }))
+                      .replace('{currency}', 'EUR')}
+                  </span>
+                )}
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="epcPurpose">{t.qrDataInput.form.purposeCode}</label>
+                <input
+                  type="text"
+                  id="epcPurpose"
+                  maxLength={EPC_LIMITS.purpose}
+                  value={epcData.purpose}
+                  onChange={(e) => {
+                    const newData = { ...epcData, purpose: e.target.value.toUpperCase().replace(/[^A-Z]/g, '') };
+                    updateData('epc', newData);
+                  }}
+                  placeholder={t.qrDataInput.form.purposeCodePlaceholder}
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="epcRemittanceType">{t.qrDataInput.form.remittanceType}</label>
+                <select
+                  id="epcRemittanceType"
+                  value={epcData.remittanceType}
+                  onChange={(e) => {
+                    const newData = { ...epcData, remittanceType: e.target.value as EPCData['remittanceType'] };
+                    updateData('epc', newData);
+                  }}
+                >
+                  <option value="unstructured">{t.qrDataInput.form.remittanceUnstructured}</option>
+                  <option value="structured">{t.qrDataInput.form.remittanceStructured}</option>
+                </select>
+              </div>
+            </div>
+            {epcData.remittanceType === 'structured' ? (
+              <div className="form-group">
+                <label htmlFor="epcReference">{t.qrDataInput.form.creditorReference}</label>
+                <input
+                  type="text"
+                  id="epcReference"
+                  maxLength={EPC_LIMITS.reference}
+                  value={epcData.reference}
+                  onChange={(e) => {
+                    const newData = { ...epcData, reference: e.target.value.toUpperCase() };
+                    updateData('epc', newData);
+                  }}
+                  placeholder={t.qrDataInput.form.creditorReferencePlaceholder}
+                />
+              </div>
+            ) : (
+              <div className="form-group">
+                <label htmlFor="epcText">
+                  {t.qrDataInput.form.remittanceInfo} ({epcData.text.length}/{EPC_LIMITS.text})
+                </label>
+                <textarea
+                  id="epcText"
+                  maxLength={EPC_LIMITS.text}
+                  value={epcData.text}
+                  onChange={(e) => {
+                    const newData = { ...epcData, text: e.target.value };
+                    updateData('epc', newData);
+                  }}
+                  placeholder={t.qrDataInput.form.remittanceInfoPlaceholder}
+                  rows={3}
+                />
+              </div>
+            )}
+          </div>
+        );
+      }
+
+      case 'swissqr': {
+        const updateSwissData = (updates: Partial<SwissQRData>) => {
+          const newData = { ...swissQRData, ...updates };
+          updateData('swissqr', newData);
+        };
+        const renderSwissAddress = (party: 'creditor' | 'debtor') => {
+          const address = swissQRData[party];
+          const updateAddress = (field: keyof SwissQRAddress, value: string) =>
+            updateSwissData({ [party]: { ...address, [field]: value } });
+          return (
+            <>
+              <div className="form-group">
+                <label htmlFor={`${party}Name`}>
+                  {t.qrDataInput.form.name}{party === 'creditor' ? ' *' : ''}
+                </label>
+                <input
+                  type="text"
+                  id={`${party}Name`}
+                  maxLength={SWISS_QR_LIMITS.name}
+                  value={address.name}
+                  onChange={(e) => updateAddress('name', e.target.value)}
+                />
+              </div>
+              <div className="form-row">
+                <div className="form-group">
+                  <label htmlFor={`${party}Street`}>{t.qrDataInput.form.street}</label>
+                  <input
+                    type="text"
+                    id={`${party}Street`}
+                    maxLength={SWISS_QR_LIMITS.street}
+                    value={address.street}
+                    onChange={(e) => updateAddress('street', e.target.value)}
+                  />
+                </div>
+                <div className="form-group">
+                  <label htmlFor={`${party}BuildingNumber`}>{t.qrDataInput.form.buildingNumber}</label>
+                  <input
+                    type="text"
+                    id={`${party}BuildingNumber`}
+                    maxLength={SWISS_QR_LIMITS.buildingNumber}
+                    value={address.buildingNumber}
+                    onChange={(e) => updateAddress('buildingNumber', e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="form-row">
+                <div className="form-group">
+                  <label htmlFor={`${party}PostalCode`}>{t.qrDataInput.form.zipCode}</label>
+                  <input
+                    type="text"
+                    id={`${party}PostalCode`}
+                    maxLength={SWISS_QR_LIMITS.postalCode}
+                    value={address.postalCode}
+                    onChange={(e) => updateAddress('postalCode', e.target.value)}
+                  />
+                </div>
+                <div className="form-group">
+                  <label htmlFor={`${party}Town`}>{t.qrDataInput.form.city}</label>
+                  <input
+                    type="text"
+                    id={`${party}Town`}
+                    maxLength={SWISS_QR_LIMITS.town}
+                    value={address.town}
+                    onChange={(e) => updateAddress('town', e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="form-group">
+                <label htmlFor={`${party}Country`}>{t.qrDataInput.form.countryCode}</label>
+                <input
+                  type="text"
+                  id={`${party}Country`}
+                  maxLength={2}
+                  value={address.country}
+                  onChange={(e) => updateAddress('country', e.target.value.toUpperCase().replace(/[^A-Z]/g, ''))}
+                  placeholder="CH"
+                />
+              </div>
+            </>
+          );
+        };
+
+        const swissAmountInvalid = errors.amount === 'amountRange';
+        const qrIban = isQRIBAN(swissQRData.iban);
+        const referenceMismatch = errors.iban === 'referenceMismatch';
+        const fullReference = !errors.reference && formatSwissReference(swissQRData.referenceType, swissQRData.reference);
+
+        return (
+          <div className="template-form">
+            <h3 className="form-section-title">{t.qrDataInput.form.payableTo}</h3>
+            <div className="form-group">
+              <label htmlFor="swissIban">{t.qrDataInput.form.iban} *</label>
+              <input
+                type="text"
+                id="swissIban"
+                value={swissQRData.iban}
+                aria-invalid={referenceMismatch}
+                aria-describedby={referenceMismatch ? 'swissIbanHint' : undefined}
+                onChange={(e) => {
+                  const value = e.target.value.toUpperCase();
+                  if (value.replace(/\s/g, '').length > 21) return;
+                  updateSwissData({ iban: value });
+                }}
+                placeholder={t.qrDataInput.form.swissIbanPlaceholder}
+              />
+              {referenceMismatch && (
+                <span id="swissIbanHint" className="form-hint error">
+                  {qrIban ? t.qrDataInput.form.qrIbanRequiresQrr : t.qrDataInput.form.qrrRequiresQrIban}
+                </span>
+              )}
+            </div>
+            {renderSwissAddress('creditor')}
+
+            <h3 className="form-section-title">{t.qrDataInput.form.paymentDetails}</h3>
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="swissAmount">{t.qrDataInput.form.amount}</label>
+                <input
+                  type="number"
+                  id="swissAmount"
+                  min={SWISS_QR_LIMITS.minAmount}
+                  max={SWISS_QR_LIMITS.maxAmount}
+                  step="0.01"
+                  value={swissQRData.amount}
+                  aria-invalid={swissAmountInvalid}
+                  aria-describedby={swissAmountInvalid ? 'swissAmountHint' : undefined}
+                  onChange={(e) => updateSwissData({ amount: e.target.value })}
+                  placeholder={t.qrDataInput.form.amountPlaceholder}
+                />
+                {swissAmountInvalid && (
+                  <span id="swissAmountHint" className="form-hint error">
+                    {t.qrDataInput.form.amountRange
+                      .replace('{min}', SWISS_QR_LIMITS.minAmount.toFixed(2))
+                      .replace('{max}', SWISS_QR_LIMITS.maxAmount.toLocaleString(undefined, { minimumFractionDigits: 2 }))
+                      .replace('{currency}', swissQRData.currency)}
+                  </span>
+                )}
+              </div>
+              <div className="form-group">
+                <label htmlFor="swissCurrency">{t.qrDataInput.form.currency}</label>
+                <select
+                  id="swissCurrency"
+                  value={swissQRData.currency}
+                  onChange={(e) => updateSwissData({ currency: e.target.value as SwissQRData['currency'] })}
+                >
+                  <option value="CHF">CHF</option>
+                  <option value="EUR">EUR</option>
+                </select>
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="swissReferenceType">{t.qrDataInput.form.referenceType}</label>
+                <select
+                  id="swissReferenceType"
+                  value={swissQRData.referenceType}
+                  onChange={(e) => updateSwissData({ referenceType: e.target.value as SwissQRData['referenceType'] })}
+                >
+                  <option value="QRR">{t.qrDataInput.form.referenceQrr}</option>
+                  <option value="SCOR">{t.qrDataInput.form.referenceScor}</option>
+                  <option value="NON">{t.qrDataInput.form.referenceNone}</option>
+                </select>
+              </div>
+              {swissQRData.referenceType !== 'NON' && (
+                <div className="form-group">
+                  <label htmlFor="swissReference">{t.qrDataInput.form.reference}</label>
+                  <input
+                    type="text"
+                    id="swissReference"
+                    value={swissQRData.reference}
+                    aria-describedby={fullReference ? 'swissReferenceHint' : undefined}
+                    {...invalidProps('reference', 'swissReference')}
+                    onChange={(e) => updateSwissData({ reference: e.target.value.toUpperCase() })}
+                    placeholder={swissQRData.referenceType === 'QRR' ? '313947143000901' : '539007547034'}
+                  />
+                  {fullReference && (
+                    <span id="swissReferenceHint" className="form-hint">
+                      {groupSwissReference(fullReference)}
+                    </span>
+                  )}
+                  {renderFieldError('reference', 'swissReference')}
+                </div>
+              )}
+            </div>
+            <div className="form-group">
+              <label htmlFor="swissMessage">
+                {t.qrDataInput.form.additionalInfo} ({swissQRData.message.length}/{SWISS_QR_LIMITS.message})
+              </label>
+              <textarea
+                id="swissMessage"
+                maxLength={SWISS_QR_LIMITS.message}
+                value={swissQRData.message}
+                onChange={(e) => updateSwissData({ message: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            <h3 className="form-section-title">{t.qrDataInput.form.payableBy}</h3>
+            {renderSwissAddress('debtor')}
+          </div>
+        );
+      }
+
+      case 'pix':
+        return (
+          <div className="template-form">
+            <div className="form-group">
+              <label htmlFor="pixKey">{t.qrDataInput.form.pixKey} *</label>
+              <input
+                type="text"
+                id="pixKey"
+                maxLength={PIX_LIMITS.key}
+                value={pixData.key}
+                {...invalidProps('key', 'pixKey')}
+                onChange={(e) => {
+                  const newData = { ...pixData, key: e.target.value };
+                  updateData('pix', newData);
+                }}
+                placeholder={t.qrDataInput.form.pixKeyPlaceholder}
+              />
+              {renderFieldError('key', 'pixKey')}
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="pixName">{t.qrDataInput.form.receiverName} *</label>
+                <input
+                  type="text"
+                  id="pixName"
+                  maxLength={25}
+                  value={pixData.name}
+                  onChange={(e) => {
+                    const newData = { ...pixData, name: e.target.value };
+                    updateData('pix', newData);
+                  }}
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="pixCity">{t.qrDataInput.form.receiverCity} *</label>
+                <input
+                  type="text"
+                  id="pixCity"
+                  maxLength={15}
+                  value={pixData.city}
+                  onChange={(e) => {
+                    const newData = { ...pixData, city: e.target.value };
+                    updateData('pix', newData);
+                  }}
+                />
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="pixAmount">{t.qrDataInput.form.amount} (BRL)</label>
+                <input
+                  type="text"
+                  id="pixAmount"
+                  inputMode="decimal"
+                  value={pixData.amount}
+                  aria-describedby="pixAmountHint"
+                  onChange={(e) => {
+                    const newData = { ...pixData, amount: e.target.value };
+                    updateData('pix', newData);
+                  }}
+                  placeholder={t.qrDataInput.form.amountPlaceholder}
+                />
+                <span id="pixAmountHint" className="form-hint">{t.qrDataInput.form.staticAmountHint}</span>
+              </div>
+              <div className="form-group">
+                <label htmlFor="pixTxid">{t.qrDataInput.form.transactionId}</label>
+                <input
+                  type="text"
+                  id="pixTxid"
+                  maxLength={25}
+                  value={pixData.txid}
+                  onChange={(e) => {
+                    const newData = { ...pixData, txid: e.target.value.replace(/[^A-Za-z0-9]/g, '') };
+                    updateData('pix', newData);
+                  }}
+                />
+              </div>
+            </div>
+            <div className="form-group">
+              <label htmlFor="pixDescription">{t.qrDataInput.form.description}</label>
+              <input
+                type="text"
+                id="pixDescription"
+                maxLength={getPixDescriptionLimit(pixData.key)}
+                value={pixData.description}
+                {...invalidProps('description', 'pixDescription')}
+                onChange={(e) => {
+                  const newData = { ...pixData, description: e.target.value };
+                  updateData('pix', newData);
+                }}
+              />
+              {renderFieldError('description', 'pixDescription')}
+            </div>
+          </div>
+        );
+
+      case 'paynow':
+        return (
+          <div className="template-form">
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="payNowProxyType">{t.qrDataInput.form.proxyType}</label>
+                <select
+                  id="payNowProxyType"
+                  value={payNowData.proxyType}
+                  onChange={(e) => {
+                    const newData = { ...payNowData, proxyType: e.target.value as PayNowData['proxyType'] };
+                    updateData('paynow', newData);
+                  }}
+                >
+                  <option value="mobile">{t.qrDataInput.form.phoneNumber}</option>
+                  <option value="uen">{t.qrDataInput.form.uen}</option>
+                </select>
+              </div>
+              <div className="form-group">
+                <label htmlFor="payNowProxy">
+                  {payNowData.proxyType === 'mobile' ? t.qrDataInput.form.phoneNumber : t.qrDataInput.form.uen} *
+                </label>
+                <input
+                  type={payNowData.proxyType === 'mobile' ? 'tel' : 'text'}
+                  id="payNowProxy"
+                  value={payNowData.proxy}
+                  onChange={(e) => {
+                    const newData = { ...payNowData, proxy: e.target.value };
+                    updateData('paynow', newData);
+                  }}
+                  placeholder={payNowData.proxyType === 'mobile' ? '+65 8123 4567' : '201403121W'}
+                />
+              </div>
+            </div>
+            <div className="form-group">
+              <label htmlFor="payNowName">{t.qrDataInput.form.receiverName} *</label>
+              <input
+                type="text"
+                id="payNowName"
+                maxLength={25}
+                value={payNowData.name}
+                onChange={(e) => {
+                  const newData = { ...payNowData, name: e.target.value };
+                  updateData('paynow', newData);
+                }}
+              />
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="payNowAmount">{t.qrDataInput.form.amount} (SGD)</label>
+                <input
+                  type="text"
+                  id="payNowAmount"
+                  inputMode="decimal"
+                  value={payNowData.amount}
+                  aria-describedby="payNowAmountHint"
+                  onChange={(e) => {
+                    const newData = { ...payNowData, amount: e.target.value };
+                    updateData('paynow', newData);
+                  }}
+                  placeholder={t.qrDataInput.form.amountPlaceholder}
+                />
+                <span id="payNowAmountHint" className="form-hint">{t.qrDataInput.form.staticAmountHint}</span>
+              </div>
+              <div className="form-group">
+                <label htmlFor="payNowExpiry">{t.qrDataInput.form.expiryDate}</label>
+                <input
+                  type="date"
+                  id="payNowExpiry"
+                  max="9999-12-31"
+                  value={payNowData.expiry}
+                  onChange={(e) => {
+                    const newData = { ...payNowData, expiry: e.target.value };
+                    updateData('paynow', newData);
+                  }}
+                />
+              </div>
+            </div>
+            <div className="form-group">
+              <label htmlFor="payNowReference">{t.qrDataInput.form.reference}</label>
+              <input
+                type="text"
+                id="payNowReference"
+                maxLength={25}
+                value={payNowData.reference}
+                onChange={(e) => {
+                  const newData = { ...payNowData, reference: e.target.value };
+                  updateData('paynow', newData);
+                }}
+              />
+            </div>
+          </div>
+        );
+
+      case 'promptpay':
+        return (
+          <div className="template-form">
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="promptPayIdType">{t.qrDataInput.form.proxyType}</label>
+                <select
+                  id="promptPayIdType"
+                  value={promptPayData.idType}
+                  onChange={(e) => {
+                    const newData = { ...promptPayData, idType: e.target.value as PromptPayData['idType'] };
+                    updateData('promptpay', newData);
+                  }}
+                >
+                  <option value="mobile">{t.qrDataInput.form.phoneNumber}</option>
+                  <option value="nationalId">{t.qrDataInput.form.nationalId}</option>
+                  <option value="ewallet">{t.qrDataInput.form.eWalletId}</option>
+                </select>
+              </div>
+              <div className="form-group">
+                <label htmlFor="promptPayId">{t.qrDataInput.form.promptPayId} *</label>
+                <input
+                  type="text"
+                  id="promptPayId"
+                  inputMode="numeric"
+                  maxLength={promptPayData.idType === 'ewallet' ? 15 : 13}
+                  value={promptPayData.id}
+                  onChange={(e) => {
+                    const newData = { ...promptPayData, id: e.target.value.replace(/\D/g, '') };
+                    updateData('promptpay', newData);
+                  }}
+                  placeholder={promptPayData.idType === 'mobile' ? '0812345678' : '1234567890123'}
+                />
+              </div>
+            </div>
+            <div className="form-group">
+              <label htmlFor="promptPayAmount">{t.qrDataInput.form.amount} (THB)</label>
+              <input
+                type="text"
+                id="promptPayAmount"
+                inputMode="decimal"
+                value={promptPayData.amount}
+                aria-describedby="promptPayAmountHint"
+                onChange={(e) => {
+                  const newData = { ...promptPayData, amount: e.target.value };
+                  updateData('promptpay', newData);
+                }}
+                placeholder={t.qrDataInput.form.amountPlaceholder}
+              />
+              <span id="promptPayAmountHint" className="form-hint">{t.qrDataInput.form.staticAmountHint}</span>
+            </div>
+          </div>
+        );
+
+      case 'upi':
+        return (
+          <div className="template-form">
+            <div className="form-group">
+              <label htmlFor="upiVpa">{t.qrDataInput.form.upiId} *</label>
+              <input
+                type="text"
+                id="upiVpa"
+                value={upiData.vpa}
+                onChange={(e) => {
+                  const newData = { ...upiData, vpa: e.target.value };
+                  updateData('upi', newData);
+                }}
+                placeholder={t.qrDataInput.form.upiIdPlaceholder}
+              />
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="upiName">{t.qrDataInput.form.receiverName}</label>
+                <input
+                  type="text"
+                  id="upiName"
+                  value={upiData.name}
+                  onChange={(e) => {
+                    const newData = { ...upiData, name: e.target.value };
+                    updateData('upi', newData);
+                  }}
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="upiAmount">{t.qrDataInput.form.amount} (INR)</label>
+                <input
+                  type="text"
+                  id="upiAmount"
+                  inputMode="decimal"
+                  value={upiData.amount}
+                  aria-describedby="upiAmountHint"
+                  onChange={(e) => {
+                    const newData = { ...upiData, amount: e.target.value };
+                    updateData('upi', newData);
+                  }}
+                  placeholder={t.qrDataInput.form.amountPlaceholder}
+                />
+                <span id="upiAmountHint" className="form-hint">{t.qrDataInput.form.staticAmountHint}</span>
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="upiNote">{t.qrDataInput.form.note}</label>
+                <input
+                  type="text"
+                  id="upiNote"
+                  maxLength={50}
+                  value={upiData.note}
+                  onChange={(e) => {
+                    const newData = { ...upiData, note: e.target.value };
+                    updateData('upi', newData);
+                  }}
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="upiReference">{t.qrDataInput.form.reference}</label>
+                <input
+                  type="text"
+                  id="upiReference"
+                  maxLength={35}
+                  value={upiData.reference}
+                  onChange={(e) => {
+                    const newData = { ...upiData, reference: e.target.value };
+                    updateData('upi', newData);
+                  }}
+                />
+              </div>
+            </div>
+          </div>
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsDropdownOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const currentTemplate = templateDefinitions.find(t => t.type === templateType);
+  const CurrentIcon = templateIcons[templateType];
+
+  return (
+    <div className="qr-data-input">
+      <h2>{t.qrDataInput.title}</h2>
+
+      {/* Custom Template Dropdown with Icons */}
+      <div className="template-dropdown-container" ref={dropdownRef}>
+        <label>{t.qrDataInput.templateType}</label>
+        <button
+          type="button"
+          className={`template-dropdown-trigger ${isDropdownOpen ? 'open' : ''}`}
+          onClick={() => setIsDropdownOpen(!isDropdownOpen)}
+          aria-haspopup="listbox"
+          aria-expanded={isDropdownOpen}
+        >
+          <span className="template-dropdown-selected">
+            <CurrentIcon size={18} />
+            <span>{currentTemplate ? t.qrDataInput.templates[currentTemplate.type] : t.qrDataInput.selectTemplate}</span>
+          </span>
+          <ChevronDown size={18} className={`dropdown-chevron ${isDropdownOpen ? 'rotated' : ''}`} />
+        </button>
+
+        {isDropdownOpen && (
+          <div className="template-dropdown-menu" role="listbox">
+            {displayCategories.map((category) => {
+              const categoryTemplates = templateDefinitions.filter(t => t.category === category);
+              if (categoryTemplates.length === 0) return null;
+              return (
+                <div key={category} className="template-dropdown-group">
+                  <div className="template-dropdown-group-label">{t.qrDataInput.categories[category]}</div>
+                  {categoryTemplates.map(({ type }) => {
+                    const Icon = templateIcons[type];
+                    return (
+                      <button
+                        key={type}
+                        type="button"
+                        className={`template-dropdown-item ${type === templateType ? 'selected' : ''}`}
+                        onClick={() => {
+                          onTemplateChange(type);
+                          setIsDropdownOpen(false);
+                        }}
+                        role="option"
+                        aria-selected={type === templateType}
+                      >
                         <Icon size={16} />
                         <span>{t.qrDataInput.templates[type]}</span>
                       </button>
@@ -1284,6 +2053,48 @@ export default function QRDataInput({ templateType, onTemplateChange, onDataChan
         )}
       </div>
 
+      {/* Reverse parser: detect the template of a pasted payload */}
+      <div className="payload-import">
+        <button
+          type="button"
+          className="payload-import-toggle"
+          onClick={() => setIsImportOpen(!isImportOpen)}
+          aria-expanded={isImportOpen}
+        >
+          <ClipboardPaste size={16} />
+          <span>{t.qrDataInput.payloadImport.title}</span>
+          <ChevronDown size={16} className={`dropdown-chevron ${isImportOpen ? 'rotated' : ''}`} />
+        </button>
+        {isImportOpen && (
+          <div className="form-group">
+            <textarea
+              id="payloadImport"
+              rows={4}
+              value={importText}
+              aria-label={t.qrDataInput.payloadImport.title}
+              aria-invalid={importError}
+              aria-describedby="payloadImportHint"
+              onChange={(e) => {
+                setImportText(e.target.value);
+                setImportError(false);
+              }}
+              placeholder={t.qrDataInput.payloadImport.placeholder}
+            />
+            <span id="payloadImportHint" className={`form-hint ${importError ? 'error' : ''}`}>
+              {importError ? t.qrDataInput.payloadImport.unrecognized : t.qrDataInput.payloadImport.hint}
+            </span>
+            <button
+              type="button"
+              className="payload-import-button"
+              onClick={handleImport}
+              disabled={!importText.trim()}
+            >
+              {t.qrDataInput.payloadImport.apply}
+            </button>
+          </div>
+        )}
+      </div>
+
       {renderForm()}
     </div>
   );
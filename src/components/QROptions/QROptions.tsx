@@ -1,25 +1,54 @@
 import { useRef, useState, useCallback } from 'react';
-import type { GradientType } from 'qr-code-styling';
-import type { QROptions as QROptionsType, GradientConfig, ColorPreset } from '../../types/qr';
-import { dotTypes, cornerSquareTypes, cornerDotTypes, gradientTypes, errorCorrectionLevels, defaultColorPresets } from '../../types/qr';
+import type { QROptions as QROptionsType, GradientConfig, GradientTarget, ColorPreset, QRTemplateType, StyleOptions } from '../../types/qr';
+import { cornerSquareTypes, cornerDotTypes, errorCorrectionLevels, defaultColorPresets, getRequiredErrorCorrectionLevel } from '../../types/qr';
+import BatchExport from '../BatchExport/BatchExport';
+import FrameOptions from '../FrameOptions/FrameOptions';
+import Gallery from '../Gallery/Gallery';
+import GradientEditor from '../GradientEditor/GradientEditor';
+import ImageLayerOptions from '../ImageLayerOptions/ImageLayerOptions';
+import OutputOptions from '../OutputOptions/OutputOptions';
+import PrintOptions from '../PrintOptions/PrintOptions';
+import StylePresets from '../StylePresets/StylePresets';
 import StylePicker, { DotStylePreview, CornerSquarePreview, CornerDotPreview } from '../StylePicker/StylePicker';
-import { Undo2, Redo2, RotateCcw, ChevronDown, Upload, ChevronsDownUp, ChevronsUpDown } from 'lucide-react';
+import { Undo2, Redo2, RotateCcw, ChevronDown, Upload, ChevronsDownUp, ChevronsUpDown, ScanLine, AlertTriangle, FileDown, FileUp, Link2 } from 'lucide-react';
 import { useLanguage } from '../../i18n';
+import { decodeQRFromImageUrl } from '../../utils/qrDecoder';
+import { lintDesign, getImageOverlays, MIN_LUMINANCE_DIFFERENCE } from '../../utils/designLint';
+import type { DesignLintIssue } from '../../utils/designLint';
+import { MIN_LOGO_SIZE, MAX_LOGO_SIZE, type LogoCheck } from '../../utils/logoCoverage';
+import { getDotTypes } from '../../utils/moduleShapes';
+import { parseProject, serializeProject, type ProjectError } from '../../utils/project';
+import { downloadBlob } from '../../utils/qrExport';
+import { getPrintSpec } from '../../utils/printLayout';
+import { createPermalink } from '../../utils/permalink';
 import './QROptions.css';
 
 interface QROptionsProps {
   options: QROptionsType;
   onUpdateOption: <K extends keyof QROptionsType>(key: K, value: QROptionsType[K]) => void;
-  onUpdateGradient: (updates: Partial<GradientConfig>) => void;
-  onUpdateGradientColor: (index: number, color: string) => void;
+  onUpdateOptions: (updates: Partial<QROptionsType>) => void;
+  onUpdateGradient: (target: GradientTarget, updates: Partial<GradientConfig>) => void;
   onApplyPreset: (preset: ColorPreset) => void;
+  onApplyStylePreset: (style: StyleOptions) => void;
   onUndo: () => void;
   onRedo: () => void;
   canUndo: boolean;
   canRedo: boolean;
   onResetToDefault: () => void;
+  onImportPayload: (payload: string) => QRTemplateType | null;
+  onImportProject: (options: QROptionsType) => void;
+  galleryRevision: number;
+  logoCheck: LogoCheck | null;
 }
 
+type DropTarget = 'logo' | 'decode';
+
+// Outcome of decoding an uploaded image
+type DecodeStatus =
+  | { state: 'idle' | 'decoding' | 'notFound' | 'failed' }
+  | { state: 'detected'; template: QRTemplateType }
+  | { state: 'unrecognized'; text: string };
+
 // Collapsible Section Component
 function Section({
   title,
@@ -50,39 +79,144 @@ function Section({
   );
 }
 
+// Solid colour of a part of the code, or a gradient in its place
+function ColorFill({
+  id,
+  label,
+  gradientLabel,
+  color,
+  gradient,
+  onColorChange,
+  onGradientChange,
+}: {
+  id: string;
+  label: string;
+  gradientLabel: string;
+  color: string;
+  gradient: GradientConfig;
+  onColorChange: (color: string) => void;
+  onGradientChange: (updates: Partial<GradientConfig>) => void;
+}) {
+  return (
+    <div className="option-group">
+      <label htmlFor={gradient.enabled ? `${id}StopColor` : id}>{label}</label>
+      <label className="checkbox-label">
+        <input
+          type="checkbox"
+          checked={gradient.enabled}
+          onChange={(e) => onGradientChange({ enabled: e.target.checked })}
+        />
+        {gradientLabel}
+      </label>
+      {gradient.enabled ? (
+        <GradientEditor id={id} gradient={gradient} onChange={onGradientChange} />
+      ) : (
+        <input type="color" id={id} value={color} onChange={(e) => onColorChange(e.target.value)} />
+      )}
+    </div>
+  );
+}
+
+// Design warnings with a one-click fix
+function LintWarnings({
+  issues,
+  getMessage,
+  fixLabel,
+  onFix,
+}: {
+  issues: DesignLintIssue[];
+  getMessage: (issue: DesignLintIssue) => string;
+  fixLabel: string;
+  onFix: (issue: DesignLintIssue) => void;
+}) {
+  if (issues.length === 0) return null;
+  return (
+    <div className="lint-warnings" role="status">
+      {issues.map((issue, index) => (
+        <div key={index} className="lint-warning">
+          <AlertTriangle size={16} />
+          <span className="lint-warning-message">{getMessage(issue)}</span>
+          <button className="btn btn-small lint-fix-btn" onClick={() => onFix(issue)}>
+            {fixLabel}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export default function QROptions({
   options,
   onUpdateOption,
+  onUpdateOptions,
   onUpdateGradient,
-  onUpdateGradientColor,
   onApplyPreset,
+  onApplyStylePreset,
   onUndo,
   onRedo,
   canUndo,
   canRedo,
   onResetToDefault,
+  onImportPayload,
+  onImportProject,
+  galleryRevision,
+  logoCheck,
 }: QROptionsProps) {
   const { t } = useLanguage();
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [isDragging, setIsDragging] = useState(false);
+  const decodeInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const [projectError, setProjectError] = useState<ProjectError | null>(null);
+  const [linkStatus, setLinkStatus] = useState<'copied' | 'copiedWithoutImages' | 'tooLong' | 'failed' | null>(null);
+  const [dragTarget, setDragTarget] = useState<DropTarget | null>(null);
+  const [decodeStatus, setDecodeStatus] = useState<DecodeStatus>({ state: 'idle' });
   const [allSectionsOpen, setAllSectionsOpen] = useState(false);
   const [sectionsState, setSectionsState] = useState({
     errorCorrection: false,
+    output: false,
     style: true,
     colors: false,
     background: false,
+    frame: false,
     logo: false,
+    imageImport: false,
+    print: false,
+    batch: false,
+    gallery: false,
   });
 
-  // Process image file
-  const processImageFile = useCallback((file: File) => {
+  // Read an image file as a data URL
+  const readImageFile = useCallback((file: File, onLoad: (dataUrl: string) => void) => {
     if (!file.type.startsWith('image/')) return;
     const reader = new FileReader();
     reader.onload = (event) => {
-      onUpdateOption('image', event.target?.result as string);
+      onLoad(event.target?.result as string);
     };
     reader.readAsDataURL(file);
-  }, [onUpdateOption]);
+  }, []);
+
+  // Process image file
+  const processImageFile = useCallback((file: File) => {
+    readImageFile(file, (dataUrl) => onUpdateOption('image', dataUrl));
+  }, [readImageFile, onUpdateOption]);
+
+  // Decode an existing QR code and hand its content to the template forms
+  const processDecodeFile = useCallback((file: File) => {
+    readImageFile(file, async (dataUrl) => {
+      setDecodeStatus({ state: 'decoding' });
+      try {
+        const result = await decodeQRFromImageUrl(dataUrl);
+        if (!result) {
+          setDecodeStatus({ state: 'notFound' });
+          return;
+        }
+        const template = onImportPayload(result.text);
+        setDecodeStatus(template ? { state: 'detected', template } : { state: 'unrecognized', text: result.text });
+      } catch {
+        setDecodeStatus({ state: 'failed' });
+      }
+    });
+  }, [readImageFile, onImportPayload]);
 
   // Handle image upload
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -92,25 +226,37 @@ export default function QROptions({
     }
   };
 
-  // Drag and drop handlers
-  const handleDragOver = useCallback((e: React.DragEvent) => {
+  const handleDecodeUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      processDecodeFile(file);
+    }
+    e.target.value = '';
+  };
+
+  // Drag and drop handlers, shared by the logo and image import drop zones
+  const handleDragOver = useCallback((target: DropTarget) => (e: React.DragEvent) => {
     e.preventDefault();
-    setIsDragging(true);
+    setDragTarget(target);
   }, []);
 
   const handleDragLeave = useCallback((e: React.DragEvent) => {
     e.preventDefault();
-    setIsDragging(false);
+    setDragTarget(null);
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = useCallback((target: DropTarget) => (e: React.DragEvent) => {
     e.preventDefault();
-    setIsDragging(false);
+    setDragTarget(null);
     const file = e.dataTransfer.files[0];
     if (file) {
-      processImageFile(file);
+      if (target === 'logo') {
+        processImageFile(file);
+      } else {
+        processDecodeFile(file);
+      }
     }
-  }, [processImageFile]);
+  }, [processImageFile, processDecodeFile]);
 
   // Clear uploaded image
   const clearImage = () => {
@@ -120,16 +266,53 @@ export default function QROptions({
     }
   };
 
+  // Save design and content as a JSON document
+  const exportProject = () => {
+    downloadBlob(new Blob([serializeProject(options)], { type: 'application/json' }), 'qr-project.json');
+  };
+
+  // Copy a link that opens the generator with this design
+  const copyLink = async () => {
+    try {
+      const link = await createPermalink(options, window.location.origin + window.location.pathname + window.location.search);
+      if (link) await navigator.clipboard.writeText(link.url);
+      setLinkStatus(!link ? 'tooLong' : link.imagesDropped ? 'copiedWithoutImages' : 'copied');
+    } catch (err) {
+      console.error('Failed to copy link:', err);
+      setLinkStatus('failed');
+    }
+    setTimeout(() => setLinkStatus(null), 4000);
+  };
+
+  const handleProjectUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const project = parseProject(reader.result as string);
+      setProjectError(project.ok ? null : project.error);
+      if (project.ok) onImportProject(project.options);
+    };
+    reader.readAsText(file);
+  };
+
   // Toggle all sections
   const toggleAllSections = () => {
     const newState = !allSectionsOpen;
     setAllSectionsOpen(newState);
     setSectionsState({
       errorCorrection: newState,
+      output: newState,
       style: newState,
       colors: newState,
       background: newState,
+      frame: newState,
       logo: newState,
+      imageImport: newState,
+      print: newState,
+      batch: newState,
+      gallery: newState,
     });
   };
 
@@ -137,6 +320,37 @@ export default function QROptions({
     setSectionsState(prev => ({ ...prev, [section]: !prev[section] }));
   };
 
+  // Error correction level fixed by the selected template's specification
+  const requiredErrorCorrection = getRequiredErrorCorrectionLevel(options.templateType);
+
+  // Colour combinations that scanners are likely to reject
+  const lintIssues = lintDesign(options);
+  const imageOverlays = getImageOverlays(options);
+
+  const getLintMessage = (issue: DesignLintIssue) => {
+    if (issue.code === 'inverted') return t.qrOptions.lint.inverted;
+    if (issue.code === 'transparentBackground') return t.qrOptions.lint.transparentLight;
+    const colorLabels = {
+      dotColor: t.qrOptions.colors.dotColor,
+      cornerSquareColor: t.qrOptions.colors.cornerSquare,
+      cornerDotColor: t.qrOptions.colors.cornerDot,
+      backgroundColor: t.qrOptions.background.backgroundColor,
+    };
+    const imageLabels = {
+      backgroundImage: t.qrOptions.background.image,
+      moduleImage: t.qrOptions.colors.moduleImage,
+    };
+    const color = 'gradient' in issue.target
+      ? t.qrOptions.colors.gradientStop
+        .replace('{color}', colorLabels[`${issue.target.gradient}Color`])
+        .replace('{number}', String(issue.target.stop + 1))
+      : 'image' in issue.target ? imageLabels[issue.target.image] : colorLabels[issue.target.option];
+    return t.qrOptions.lint.lowContrast
+      .replace('{color}', color)
+      .replace('{value}', String(Math.round((issue.difference ?? 0) * 100)))
+      .replace('{min}', String(Math.round(MIN_LUMINANCE_DIFFERENCE * 100)));
+  };
+
   return (
     <div className="qr-options-section" role="form" aria-label={t.qrOptions.title}>
       <div className="options-header">
@@ -168,6 +382,37 @@ export default function QROptions({
           >
             <Redo2 size={16} />
           </button>
+          <button
+            onClick={copyLink}
+            className="btn-icon"
+            title={t.qrOptions.project.copyLink}
+            aria-label={t.qrOptions.project.copyLink}
+          >
+            <Link2 size={16} />
+          </button>
+          <button
+            onClick={exportProject}
+            className="btn-icon"
+            title={t.qrOptions.project.export}
+            aria-label={t.qrOptions.project.export}
+          >
+            <FileDown size={16} />
+          </button>
+          <button
+            onClick={() => projectInputRef.current?.click()}
+            className="btn-icon"
+            title={t.qrOptions.project.import}
+            aria-label={t.qrOptions.project.import}
+          >
+            <FileUp size={16} />
+          </button>
+          <input
+            type="file"
+            ref={projectInputRef}
+            accept=".json,application/json"
+            onChange={handleProjectUpload}
+            hidden
+          />
           <button
             onClick={onResetToDefault}
             className="btn-icon"
@@ -179,6 +424,15 @@ export default function QROptions({
         </div>
       </div>
 
+      {linkStatus && (
+        <p className={`option-hint ${linkStatus === 'failed' || linkStatus === 'tooLong' ? 'error' : ''}`} role="status">
+          {t.qrOptions.project.link[linkStatus]}
+        </p>
+      )}
+      {projectError && (
+        <p className="option-hint error" role="alert">{t.qrOptions.project.errors[projectError]}</p>
+      )}
+
       {/* Error Correction Section */}
       <Section title={t.qrOptions.sections.errorCorrection} isOpen={sectionsState.errorCorrection} onToggle={() => toggleSection('errorCorrection')}>
         <div className="option-group">
@@ -211,21 +465,41 @@ export default function QROptions({
                 title={t.qrOptions.errorCorrection.levels[level.value as keyof typeof t.qrOptions.errorCorrection.levels]}
                 role="option"
                 aria-selected={options.errorCorrectionLevel === level.value}
+                disabled={!!requiredErrorCorrection && requiredErrorCorrection !== level.value}
                 tabIndex={options.errorCorrectionLevel === level.value ? 0 : -1}
               >
                 {level.value}
               </button>
             ))}
           </div>
+          {requiredErrorCorrection && (
+            <p className="option-hint">
+              {t.qrOptions.errorCorrection.lockedByTemplate
+                .replace('{level}', requiredErrorCorrection)
+                .replace('{template}', t.qrDataInput.templates[options.templateType])}
+            </p>
+          )}
+          {logoCheck?.raised && (
+            <p className="option-hint">
+              {t.qrOptions.errorCorrection.raisedForLogo
+                .replace('{level}', logoCheck.level)
+                .replace('{share}', String(Math.round(logoCheck.coverage.share * 100)))}
+            </p>
+          )}
         </div>
       </Section>
 
+      {/* Size & Output Section */}
+      <Section title={t.qrOptions.sections.output} isOpen={sectionsState.output} onToggle={() => toggleSection('output')}>
+        <OutputOptions options={options} onChange={onUpdateOptions} />
+      </Section>
+
       {/* Style Section */}
       <Section title={t.qrOptions.sections.style} isOpen={sectionsState.style} onToggle={() => toggleSection('style')}>
         <div className="option-group">
           <label id="dot-style-label">{t.qrOptions.style.dotStyle}</label>
           <StylePicker
-            options={dotTypes}
+            options={getDotTypes()}
             value={options.dotType}
             onChange={(type) => onUpdateOption('dotType', type)}
             PreviewComponent={DotStylePreview}
@@ -296,98 +570,56 @@ export default function QROptions({
         </div>
 
         <div className="option-group">
-          <label className="checkbox-label">
-            <input
-              type="checkbox"
-              checked={options.dotGradient.enabled}
-              onChange={(e) => onUpdateGradient({ enabled: e.target.checked })}
-            />
-            {t.qrOptions.colors.useGradient}
-          </label>
+          <label>{t.qrOptions.stylePresets.title}</label>
+          <StylePresets options={options} onApply={onApplyStylePreset} />
         </div>
 
-        {options.dotGradient.enabled ? (
-          <div className="gradient-options">
-            <div className="option-group">
-              <label htmlFor="gradientType">{t.qrOptions.colors.gradientType}</label>
-              <select
-                id="gradientType"
-                value={options.dotGradient.type}
-                onChange={(e) => onUpdateGradient({ type: e.target.value as GradientType })}
-              >
-                {gradientTypes.map((type) => (
-                  <option key={type} value={type}>
-                    {type}
-                  </option>
-                ))}
-              </select>
-            </div>
+        <ColorFill
+          id="dotColor"
+          label={t.qrOptions.colors.dotColor}
+          gradientLabel={t.qrOptions.colors.useGradient}
+          color={options.dotColor}
+          gradient={options.dotGradient}
+          onColorChange={(color) => onUpdateOption('dotColor', color)}
+          onGradientChange={(updates) => onUpdateGradient('dot', updates)}
+        />
 
-            <div className="option-group">
-              <label htmlFor="gradientRotation">{t.qrOptions.colors.rotation}: {options.dotGradient.rotation}°</label>
-              <input
-                type="range"
-                id="gradientRotation"
-                min="0"
-                max="360"
-                value={options.dotGradient.rotation}
-                onChange={(e) => onUpdateGradient({ rotation: Number(e.target.value) })}
-              />
-            </div>
+        <ColorFill
+          id="cornerSquareColor"
+          label={t.qrOptions.colors.cornerSquare}
+          gradientLabel={t.qrOptions.colors.useGradient}
+          color={options.cornerSquareColor}
+          gradient={options.cornerSquareGradient}
+          onColorChange={(color) => onUpdateOption('cornerSquareColor', color)}
+          onGradientChange={(updates) => onUpdateGradient('cornerSquare', updates)}
+        />
 
-            <div className="color-row">
-              <div className="option-group">
-                <label htmlFor="gradientColor1">{t.qrOptions.colors.startColor}</label>
-                <input
-                  type="color"
-                  id="gradientColor1"
-                  value={options.dotGradient.colorStops[0].color}
-                  onChange={(e) => onUpdateGradientColor(0, e.target.value)}
-                />
-              </div>
-              <div className="option-group">
-                <label htmlFor="gradientColor2">{t.qrOptions.colors.endColor}</label>
-                <input
-                  type="color"
-                  id="gradientColor2"
-                  value={options.dotGradient.colorStops[1].color}
-                  onChange={(e) => onUpdateGradientColor(1, e.target.value)}
-                />
-              </div>
-            </div>
-          </div>
-        ) : (
-          <div className="option-group">
-            <label htmlFor="dotColor">{t.qrOptions.colors.dotColor}</label>
-            <input
-              type="color"
-              id="dotColor"
-              value={options.dotColor}
-              onChange={(e) => onUpdateOption('dotColor', e.target.value)}
-            />
-          </div>
-        )}
+        <ColorFill
+          id="cornerDotColor"
+          label={t.qrOptions.colors.cornerDot}
+          gradientLabel={t.qrOptions.colors.useGradient}
+          color={options.cornerDotColor}
+          gradient={options.cornerDotGradient}
+          onColorChange={(color) => onUpdateOption('cornerDotColor', color)}
+          onGradientChange={(updates) => onUpdateGradient('cornerDot', updates)}
+        />
 
-        <div className="color-row">
-          <div className="option-group">
-            <label htmlFor="cornerSquareColor">{t.qrOptions.colors.cornerSquare}</label>
-            <input
-              type="color"
-              id="cornerSquareColor"
-              value={options.cornerSquareColor}
-              onChange={(e) => onUpdateOption('cornerSquareColor', e.target.value)}
-            />
-          </div>
-          <div className="option-group">
-            <label htmlFor="cornerDotColor">{t.qrOptions.colors.cornerDot}</label>
-            <input
-              type="color"
-              id="cornerDotColor"
-              value={options.cornerDotColor}
-              onChange={(e) => onUpdateOption('cornerDotColor', e.target.value)}
-            />
-          </div>
-        </div>
+        <ImageLayerOptions
+          id="moduleImage"
+          label={t.qrOptions.colors.moduleImage}
+          hint={t.qrOptions.colors.moduleImageHint}
+          layer={options.moduleImage}
+          overlay={imageOverlays.modules}
+          overlayTone="dark"
+          onChange={(updates) => onUpdateOption('moduleImage', { ...options.moduleImage, ...updates })}
+        />
+
+        <LintWarnings
+          issues={lintIssues.filter((issue) => issue.section === 'colors')}
+          getMessage={getLintMessage}
+          fixLabel={t.qrOptions.lint.fix}
+          onFix={(issue) => onUpdateOptions(issue.fix)}
+        />
       </Section>
 
       {/* Background Section */}
@@ -404,26 +636,70 @@ export default function QROptions({
         </div>
 
         {!options.transparentBackground && (
+          <ColorFill
+            id="backgroundColor"
+            label={t.qrOptions.background.backgroundColor}
+            gradientLabel={t.qrOptions.colors.useGradient}
+            color={options.backgroundColor}
+            gradient={options.backgroundGradient}
+            onColorChange={(color) => onUpdateOption('backgroundColor', color)}
+            onGradientChange={(updates) => onUpdateGradient('background', updates)}
+          />
+        )}
+
+        {!options.transparentBackground && (
+          <ImageLayerOptions
+            id="backgroundImage"
+            label={t.qrOptions.background.image}
+            hint={t.qrOptions.background.imageHint}
+            layer={options.backgroundImage}
+            overlay={imageOverlays.background}
+            overlayTone="light"
+            onChange={(updates) => onUpdateOption('backgroundImage', { ...options.backgroundImage, ...updates })}
+          />
+        )}
+
+        {((options.backgroundImage.src && !options.transparentBackground) || options.moduleImage.src) && (
           <div className="option-group">
-            <label htmlFor="backgroundColor">{t.qrOptions.background.backgroundColor}</label>
-            <input
-              type="color"
-              id="backgroundColor"
-              value={options.backgroundColor}
-              onChange={(e) => onUpdateOption('backgroundColor', e.target.value)}
-            />
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={options.contrastOverlay}
+                onChange={(e) => onUpdateOption('contrastOverlay', e.target.checked)}
+              />
+              {t.qrOptions.background.contrastOverlay}
+            </label>
+            <p className="option-hint">{t.qrOptions.background.contrastOverlayHint}</p>
           </div>
         )}
+
+        <LintWarnings
+          issues={lintIssues.filter((issue) => issue.section === 'background')}
+          getMessage={getLintMessage}
+          fixLabel={t.qrOptions.lint.fix}
+          onFix={(issue) => onUpdateOptions(issue.fix)}
+        />
+      </Section>
+
+      {/* Frame Section */}
+      <Section title={t.qrOptions.sections.frame} isOpen={sectionsState.frame} onToggle={() => toggleSection('frame')}>
+        <FrameOptions
+          frame={options.frame}
+          onChange={(updates) => onUpdateOption('frame', { ...options.frame, ...updates })}
+        />
       </Section>
 
       {/* Logo Section */}
       <Section title={t.qrOptions.sections.centerLogo} isOpen={sectionsState.logo} onToggle={() => toggleSection('logo')}>
+        {options.templateType === 'swissqr' && (
+          <p className="option-hint">{t.qrOptions.logo.replacedBySwissCross}</p>
+        )}
         <div className="option-group">
           <div
-            className={`image-drop-zone ${isDragging ? 'dragging' : ''} ${options.image ? 'has-image' : ''}`}
-            onDragOver={handleDragOver}
+            className={`image-drop-zone ${dragTarget === 'logo' ? 'dragging' : ''} ${options.image ? 'has-image' : ''}`}
+            onDragOver={handleDragOver('logo')}
             onDragLeave={handleDragLeave}
-            onDrop={handleDrop}
+            onDrop={handleDrop('logo')}
             onKeyDown={(e) => {
               if (e.key === 'Enter' || e.key === ' ') {
                 e.preventDefault();
@@ -467,12 +743,42 @@ export default function QROptions({
               <input
                 type="range"
                 id="imageSize"
-                min="0.1"
-                max="0.3"
+                min={MIN_LOGO_SIZE}
+                max={MAX_LOGO_SIZE}
                 step="0.01"
                 value={options.imageSize}
                 onChange={(e) => onUpdateOption('imageSize', Number(e.target.value))}
               />
+              {logoCheck && (
+                <p className="option-hint">
+                  {t.qrOptions.logo.coverage
+                    .replace('{share}', String(Math.round(logoCheck.coverage.share * 100)))
+                    .replace('{version}', String(logoCheck.coverage.version))
+                    .replace(/\{count\}/g, String(logoCheck.coverage.moduleCount))
+                    .replace('{budget}', String(Math.round(logoCheck.coverage.errorBudget * 100)))
+                    .replace('{level}', logoCheck.level)}
+                </p>
+              )}
+              {logoCheck && !logoCheck.safe && (
+                <div className="lint-warning" role="status">
+                  <AlertTriangle size={16} />
+                  <span className="lint-warning-message">
+                    {logoCheck.maxSafeSize !== null
+                      ? t.qrOptions.logo.tooLarge
+                          .replace('{level}', logoCheck.level)
+                          .replace('{max}', String(Math.round(logoCheck.maxSafeSize * 100)))
+                      : t.qrOptions.logo.tooLargeAtMinimum.replace('{level}', logoCheck.level)}
+                  </span>
+                  {logoCheck.maxSafeSize !== null && (
+                    <button
+                      className="btn btn-small lint-fix-btn"
+                      onClick={() => onUpdateOption('imageSize', logoCheck.maxSafeSize!)}
+                    >
+                      {t.qrOptions.lint.fix}
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
 
             <div className="option-group">
@@ -489,6 +795,78 @@ export default function QROptions({
           </>
         )}
       </Section>
+
+      {/* Image Import Section */}
+      <Section title={t.qrOptions.sections.imageImport} isOpen={sectionsState.imageImport} onToggle={() => toggleSection('imageImport')}>
+        <div className="option-group">
+          <div
+            className={`image-drop-zone ${dragTarget === 'decode' ? 'dragging' : ''}`}
+            onDragOver={handleDragOver('decode')}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop('decode')}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault();
+                decodeInputRef.current?.click();
+              }
+            }}
+            role="button"
+            tabIndex={0}
+            aria-label={t.qrOptions.imageImport.dropZone}
+          >
+            <ScanLine size={24} />
+            <span>{t.qrOptions.imageImport.dropZone}</span>
+            <input
+              type="file"
+              id="decodeUpload"
+              ref={decodeInputRef}
+              accept="image/png,image/jpeg,image/svg+xml,image/webp,image/gif"
+              onChange={handleDecodeUpload}
+              aria-label={t.qrOptions.imageImport.dropZone}
+            />
+          </div>
+        </div>
+        <div role="status" aria-live="polite">
+          {decodeStatus.state === 'decoding' && (
+            <p className="option-hint">{t.qrOptions.imageImport.decoding}</p>
+          )}
+          {decodeStatus.state === 'detected' && (
+            <p className="option-hint">
+              {t.qrOptions.imageImport.detected.replace('{template}', t.qrDataInput.templates[decodeStatus.template])}
+            </p>
+          )}
+          {decodeStatus.state === 'unrecognized' && (
+            <>
+              <p className="option-hint">{t.qrOptions.imageImport.unrecognized}</p>
+              <textarea className="decoded-text" value={decodeStatus.text} readOnly rows={3} aria-label={t.qrOptions.imageImport.decodedText} />
+            </>
+          )}
+          {decodeStatus.state === 'notFound' && (
+            <p className="option-hint error">{t.qrOptions.imageImport.notFound}</p>
+          )}
+          {decodeStatus.state === 'failed' && (
+            <p className="option-hint error">{t.qrOptions.imageImport.loadFailed}</p>
+          )}
+        </div>
+      </Section>
+
+      {/* Print Layout Section */}
+      <Section title={t.qrOptions.sections.print} isOpen={sectionsState.print} onToggle={() => toggleSection('print')}>
+        <PrintOptions
+          settings={getPrintSpec(options)}
+          onChange={(updates) => onUpdateOption('print', { ...options.print, ...updates })}
+        />
+      </Section>
+
+      {/* Batch Export Section */}
+      <Section title={t.qrOptions.sections.batch} isOpen={sectionsState.batch} onToggle={() => toggleSection('batch')}>
+        <BatchExport options={options} />
+      </Section>
+
+      {/* Gallery Section */}
+      <Section title={t.qrOptions.sections.gallery} isOpen={sectionsState.gallery} onToggle={() => toggleSection('gallery')}>
+        <Gallery revision={galleryRevision} onOpen={onImportProject} />
+      </Section>
     </div>
   );
 }
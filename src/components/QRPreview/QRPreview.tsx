@@ -1,23 +1,47 @@
-import { useEffect, useRef, useCallback, useState } from 'react';
+import { useEffect, useRef, useCallback, useState, useMemo } from 'react';
 import QRCodeStyling from 'qr-code-styling';
 import type { Options } from 'qr-code-styling';
 import { jsPDF } from 'jspdf';
 import type { QROptions } from '../../types/qr';
-import { Copy, Check, Download, AlertTriangle } from 'lucide-react';
+import { Copy, Check, Download, AlertTriangle, Receipt, ShieldCheck, ShieldAlert, ShieldX, Loader2, Pin } from 'lucide-react';
 import { useLanguage } from '../../i18n';
+import { swissCrossExtension, parseSwissQRPayload, drawSwissQRBill } from '../../utils/swissQR';
+import { verifyScannability, getScanConfidence, type ScanReport } from '../../utils/scannability';
+import { buildStylingOptions, createStylingExtension, getMarginPixels } from '../../utils/qrStyling';
+import { getImageOverlays } from '../../utils/designLint';
+import { isModuleShape } from '../../utils/moduleShapes';
+import { renderPNG, renderSVG, downloadBlob } from '../../utils/qrExport';
+import { createFrameSVG, getFrameLayout, svgToDataUrl } from '../../utils/frames';
+import { renderPrintPDF } from '../../utils/printLayout';
+import { analyzeQRData } from '../../utils/qrAnalysis';
+import { toByteString } from '../../utils/qrEncoding';
+import CapacityMeter from '../CapacityMeter/CapacityMeter';
 import './QRPreview.css';
 
 interface QRPreviewProps {
   options: QROptions;
+  // Invalid form fields, which block exports until they are fixed
+  fieldErrorCount: number;
+  // Record the code in the gallery, called on every export and when pinned
+  onAddToGallery: () => void;
 }
 
-export default function QRPreview({ options }: QRPreviewProps) {
+export default function QRPreview({ options, fieldErrorCount, onAddToGallery }: QRPreviewProps) {
   const { t } = useLanguage();
   const qrRef = useRef<HTMLDivElement>(null);
   const qrCodeRef = useRef<QRCodeStyling | null>(null);
   const [copySuccess, setCopySuccess] = useState(false);
+  const [pinSuccess, setPinSuccess] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const lastValidOptionsRef = useRef<Options | null>(null);
+  // Scan check result, tied to the options it was computed for
+  const [scan, setScan] = useState<{ options: QROptions; report: ScanReport } | null>(null);
+
+  // Version, encoding mode and remaining room of the code as the renderer encodes it
+  const analysis = useMemo(
+    () => analyzeQRData(options.data || ' ', options.errorCorrectionLevel),
+    [options.data, options.errorCorrectionLevel],
+  );
 
   // Check if data is empty
   const isDataEmpty = !options.data || options.data.trim().length === 0;
@@ -25,55 +49,57 @@ export default function QRPreview({ options }: QRPreviewProps) {
   // Check if data is valid for QR generation
   const isDataValid = !isDataEmpty && !error;
 
+  const canExport = isDataValid && fieldErrorCount === 0;
+
   // Display message (error or empty state)
   const displayError = error || (isDataEmpty ? t.qrPreview.contentRequired : null);
 
+  // QR-bills carry the Swiss cross in place of a user logo
+  const isSwissQR = options.templateType === 'swissqr';
+
   // Build QR code styling options from our state
-  const buildQROptions = useCallback((): Options => {
-    const qrOptions: Options = {
-      width: options.size,
-      height: options.size,
-      margin: options.margin,
-      data: options.data || ' ', // Use space as fallback to prevent crash
-      qrOptions: {
-        errorCorrectionLevel: options.errorCorrectionLevel,
-      },
-      dotsOptions: {
-        type: options.dotType,
-        ...(options.dotGradient.enabled
-          ? {
-              gradient: {
-                type: options.dotGradient.type,
-                rotation: options.dotGradient.rotation,
-                colorStops: options.dotGradient.colorStops,
-              },
-            }
-          : { color: options.dotColor, gradient: undefined }),
-      },
-      cornersSquareOptions: {
-        type: options.cornerSquareType,
-        color: options.cornerSquareColor,
-      },
-      cornersDotOptions: {
-        type: options.cornerDotType,
-        color: options.cornerDotColor,
+  const buildQROptions = useCallback((): Options => buildStylingOptions(options), [options]);
+
+  // SVG overlays of the module shape, the image layers and the current template, kept while they are unchanged
+  // so the renderer only redraws for them when needed
+  const imageOverlays = getImageOverlays(options);
+  const moduleShape = isModuleShape(options.dotType) ? options.dotType : null;
+  const extension = useMemo(() => createStylingExtension({
+    moduleShape,
+    swissCross: isSwissQR,
+    backgroundImage: options.backgroundImage.src && !options.transparentBackground ? options.backgroundImage : null,
+    moduleImage: options.moduleImage.src ? options.moduleImage : null,
+    imageOverlays: { background: imageOverlays.background, modules: imageOverlays.modules },
+  }), [moduleShape, isSwissQR, options.backgroundImage, options.moduleImage, options.transparentBackground,
+      imageOverlays.background, imageOverlays.modules]);
+
+  // Frame drawn behind the preview, with the code placed in its open slot
+  const frame = useMemo(() => {
+    if (options.frame.style === 'none') return null;
+    const layout = getFrameLayout(options.frame, options.size);
+    const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+    return {
+      style: {
+        aspectRatio: `${layout.width} / ${layout.height}`,
+        backgroundImage: `url("${svgToDataUrl(createFrameSVG(options.frame, options.size))}")`,
       },
-      backgroundOptions: options.transparentBackground
-        ? undefined
-        : { color: options.backgroundColor },
-      imageOptions: {
-        crossOrigin: 'anonymous',
-        margin: options.imageMargin,
-        // Convert percentage (0.1-0.3) to ratio (0.33-1.0)
-        // 10% -> 0.33, 30% -> 1.0
-        imageSize: (options.imageSize / 0.3),
+      codeStyle: {
+        left: percent(layout.code.x, layout.width),
+        top: percent(layout.code.y, layout.height),
+        width: percent(layout.code.size, layout.width),
+        height: percent(layout.code.size, layout.height),
       },
-      // Only include image if it exists
-      image: options.image || undefined,
     };
-
-    return qrOptions;
-  }, [options]);
+  }, [options.frame, options.size]);
+
+  // Apply or remove the SVG overlays
+  const syncExtensions = useCallback((qrCode: QRCodeStyling) => {
+    if (extension) {
+      if (qrCode._extension !== extension) qrCode.applyExtension(extension);
+    } else if (qrCode._extension) {
+      qrCode.deleteExtension();
+    }
+  }, [extension]);
 
   // Create or recreate QR code instance
   const createQRCode = useCallback((qrOptions: Options) => {
@@ -81,11 +107,12 @@ export default function QRPreview({ options }: QRPreviewProps) {
       qrRef.current.innerHTML = '';
     }
     qrCodeRef.current = new QRCodeStyling(qrOptions);
+    syncExtensions(qrCodeRef.current);
     if (qrRef.current) {
       qrCodeRef.current.append(qrRef.current);
     }
     lastValidOptionsRef.current = qrOptions;
-  }, []);
+  }, [syncExtensions]);
 
   // Initialize QR code once and append to DOM
   useEffect(() => {
@@ -106,15 +133,13 @@ export default function QRPreview({ options }: QRPreviewProps) {
 
     const qrOptions = buildQROptions();
 
-    // Check data length to prevent overflow error
-    // QR code version 40 max byte capacity (most content uses byte mode)
-    const dataLength = (options.data || '').length;
-    const maxLength = options.errorCorrectionLevel === 'L' ? 2953
-                    : options.errorCorrectionLevel === 'M' ? 2331
-                    : options.errorCorrectionLevel === 'Q' ? 1663
-                    : 1273; // H
-    if (dataLength > maxLength) {
-      setError(t.qrPreview.errors.contentTooLong.replace('{max}', maxLength.toLocaleString()).replace('{level}', options.errorCorrectionLevel));
+    // Payloads too long for version 40 make the renderer throw
+    const contentTooLong = t.qrPreview.errors.contentTooLong
+      .replace('{max}', analysis.maxCharacters.toLocaleString())
+      .replace('{unit}', t.qrPreview.capacity.units[analysis.mode])
+      .replace('{level}', options.errorCorrectionLevel);
+    if (analysis.version === null) {
+      setError(contentTooLong);
       return;
     }
 
@@ -122,13 +147,14 @@ export default function QRPreview({ options }: QRPreviewProps) {
 
     try {
       qrCodeRef.current.update(qrOptions);
+      syncExtensions(qrCodeRef.current);
       lastValidOptionsRef.current = qrOptions;
     } catch (err: unknown) {
       const errorMessage = err instanceof Error ? err.message : String(err);
       console.error('Failed to update QR code:', errorMessage);
 
       if (errorMessage.includes('overflow') || errorMessage.includes('length')) {
-        setError(t.qrPreview.errors.contentTooLong.replace('{max}', '').replace('{level}', options.errorCorrectionLevel));
+        setError(contentTooLong);
       } else {
         setError(t.qrPreview.errors.failedToGenerate);
       }
@@ -143,7 +169,8 @@ export default function QRPreview({ options }: QRPreviewProps) {
         }
       }
     }
-  }, [buildQROptions, createQRCode, options.data, options.errorCorrectionLevel, t.qrPreview.errors.contentTooLong, t.qrPreview.errors.failedToGenerate]);
+  }, [buildQROptions, createQRCode, syncExtensions, analysis, options.errorCorrectionLevel, t.qrPreview.errors.contentTooLong,
+      t.qrPreview.capacity.units, t.qrPreview.errors.failedToGenerate]);
 
   // Recreate QR code when image or image size changes (update doesn't handle these well)
   useEffect(() => {
@@ -158,45 +185,75 @@ export default function QRPreview({ options }: QRPreviewProps) {
     }
   }, [buildQROptions, createQRCode, options.image, options.imageSize]);
 
+  // Decode the rendered code back to verify it scans, once the preview has settled
+  useEffect(() => {
+    if (!qrCodeRef.current || isDataEmpty || error) return;
+    const qrCode = qrCodeRef.current;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const image = await qrCode.getRawData('png');
+        if (cancelled || !(image instanceof Blob)) return;
+        const report = await verifyScannability(image, options.data, getMarginPixels(options));
+        if (!cancelled) setScan({ options, report });
+      } catch (err) {
+        console.error('Failed to verify scannability:', err);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [options, isDataEmpty, error]);
+
+  const scanConfidence = scan?.options === options ? getScanConfidence(scan.report) : null;
+  const failedChecks = scan?.options === options
+    ? scan.report.failed.map((check) => t.qrPreview.scan.checks[check]).join(', ')
+    : '';
+
   // Copy to clipboard
   const copyToClipboard = async () => {
     if (!qrCodeRef.current || !isDataValid) return;
 
     try {
-      const blob = await qrCodeRef.current.getRawData('png');
-      if (blob instanceof Blob) {
-        await navigator.clipboard.write([
-          new ClipboardItem({ 'image/png': blob })
-        ]);
-        setCopySuccess(true);
-        setTimeout(() => setCopySuccess(false), 2000);
-      }
+      const blob = await renderPNG(qrCodeRef.current, options);
+      await navigator.clipboard.write([
+        new ClipboardItem({ 'image/png': blob })
+      ]);
+      setCopySuccess(true);
+      setTimeout(() => setCopySuccess(false), 2000);
     } catch (err) {
       console.error('Failed to copy:', err);
       // Fallback: try to copy as data URL
       try {
-        const blob = await qrCodeRef.current.getRawData('png');
-        if (blob instanceof Blob) {
-          const reader = new FileReader();
-          reader.onload = async () => {
-            const dataUrl = reader.result as string;
-            await navigator.clipboard.writeText(dataUrl);
-            setCopySuccess(true);
-            setTimeout(() => setCopySuccess(false), 2000);
-          };
-          reader.readAsDataURL(blob);
-        }
+        const blob = await renderPNG(qrCodeRef.current, options);
+        const reader = new FileReader();
+        reader.onload = async () => {
+          const dataUrl = reader.result as string;
+          await navigator.clipboard.writeText(dataUrl);
+          setCopySuccess(true);
+          setTimeout(() => setCopySuccess(false), 2000);
+        };
+        reader.readAsDataURL(blob);
       } catch {
         console.error('Fallback copy also failed');
       }
     }
   };
 
+  const pinToGallery = () => {
+    if (!isDataValid) return;
+    onAddToGallery();
+    setPinSuccess(true);
+    setTimeout(() => setPinSuccess(false), 2000);
+  };
+
   // Export functions
-  const downloadPNG = () => {
+  const downloadPNG = async () => {
     if (!qrCodeRef.current || !isDataValid) return;
     try {
-      qrCodeRef.current.download({ name: 'qr-code', extension: 'png' });
+      downloadBlob(await renderPNG(qrCodeRef.current, options), 'qr-code.png');
+      onAddToGallery();
     } catch (err) {
       console.error('Failed to download PNG:', err);
       setError(`${t.qrPreview.errors.failedToDownload} PNG`);
@@ -207,35 +264,8 @@ export default function QRPreview({ options }: QRPreviewProps) {
     if (!qrCodeRef.current || !isDataValid) return;
 
     try {
-      // Get raw SVG data and clean it
-      const svgData = await qrCodeRef.current.getRawData('svg');
-      if (svgData instanceof Blob) {
-        const text = await svgData.text();
-        // Create a clean SVG by parsing and re-serializing
-        const parser = new DOMParser();
-        const doc = parser.parseFromString(text, 'image/svg+xml');
-        const svg = doc.querySelector('svg');
-
-        if (svg) {
-          // Remove any unnecessary attributes or metadata
-          svg.removeAttribute('xmlns:xlink');
-
-          // Serialize back to string
-          const serializer = new XMLSerializer();
-          const cleanSvg = serializer.serializeToString(svg);
-
-          // Download
-          const blob = new Blob([cleanSvg], { type: 'image/svg+xml' });
-          const url = URL.createObjectURL(blob);
-          const link = document.createElement('a');
-          link.href = url;
-          link.download = 'qr-code.svg';
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-          URL.revokeObjectURL(url);
-        }
-      }
+      downloadBlob(await renderSVG(qrCodeRef.current, options), 'qr-code.svg');
+      onAddToGallery();
     } catch (err) {
       console.error('Failed to download SVG:', err);
       setError(`${t.qrPreview.errors.failedToDownload} SVG`);
@@ -246,24 +276,48 @@ export default function QRPreview({ options }: QRPreviewProps) {
     if (!qrCodeRef.current || !isDataValid) return;
 
     try {
-      const canvas = await qrCodeRef.current.getRawData('png');
+      // Rendered again at the print size and DPI rather than scaled from the preview
+      downloadBlob(await renderPrintPDF(options), 'qr-code.pdf');
+      onAddToGallery();
+    } catch (err) {
+      console.error('Failed to download PDF:', err);
+      setError(`${t.qrPreview.errors.failedToDownload} PDF`);
+    }
+  };
+
+  // Swiss QR-bill: payment part with receipt on a 210 x 105 mm page
+  const downloadQRBill = async () => {
+    const billData = parseSwissQRPayload(options.data);
+    if (!billData || !isDataValid) return;
+
+    try {
+      // The payment part needs a plain black-on-white code, independent of the preview styling
+      const billQRCode = new QRCodeStyling({
+        width: 1000,
+        height: 1000,
+        margin: 0,
+        data: toByteString(options.data),
+        qrOptions: { errorCorrectionLevel: 'M' },
+      });
+      billQRCode.applyExtension(swissCrossExtension);
+      const canvas = await billQRCode.getRawData('png');
       if (canvas instanceof Blob) {
         const reader = new FileReader();
         reader.onload = () => {
-          const imgData = reader.result as string;
           const pdf = new jsPDF({
-            orientation: 'portrait',
-            unit: 'px',
-            format: [options.size + 40, options.size + 40],
+            orientation: 'landscape',
+            unit: 'mm',
+            format: [210, 105],
           });
-          pdf.addImage(imgData, 'PNG', 20, 20, options.size, options.size);
-          pdf.save('qr-code.pdf');
+          drawSwissQRBill(pdf, billData, reader.result as string, t.qrPreview.swissBill);
+          pdf.save('qr-bill.pdf');
+          onAddToGallery();
         };
         reader.readAsDataURL(canvas);
       }
     } catch (err) {
-      console.error('Failed to download PDF:', err);
-      setError(`${t.qrPreview.errors.failedToDownload} PDF`);
+      console.error('Failed to download QR-bill:', err);
+      setError(`${t.qrPreview.errors.failedToDownload} ${t.qrPreview.qrBill}`);
     }
   };
 
@@ -278,22 +332,61 @@ export default function QRPreview({ options }: QRPreviewProps) {
         </div>
       )}
 
-      <div
-        className={`qr-preview ${displayError ? 'has-error' : ''}`}
-        ref={qrRef}
-        aria-live="polite"
-      />
+      <div className={`qr-preview ${displayError ? 'has-error' : ''}`} aria-live="polite">
+        <div className={`qr-frame ${frame ? 'framed' : ''}`} style={frame?.style}>
+          <div className="qr-frame-code" ref={qrRef} style={frame?.codeStyle} />
+        </div>
+      </div>
+
+      {isDataValid && (
+        <div
+          className={`scan-badge ${scanConfidence ?? 'checking'}`}
+          role="status"
+          title={failedChecks ? t.qrPreview.scan.failedChecks.replace('{checks}', failedChecks) : undefined}
+        >
+          {scanConfidence === 'high' && <ShieldCheck size={16} />}
+          {scanConfidence === 'medium' && <ShieldAlert size={16} />}
+          {scanConfidence === 'fail' && <ShieldX size={16} />}
+          {!scanConfidence && <Loader2 size={16} className="spin" />}
+          <span>{scanConfidence ? t.qrPreview.scan[scanConfidence] : t.qrPreview.scan.checking}</span>
+          {scanConfidence === 'medium' && (
+            <span className="scan-badge-details">
+              {t.qrPreview.scan.failedChecks.replace('{checks}', failedChecks)}
+            </span>
+          )}
+        </div>
+      )}
+
+      {isDataValid && (
+        <CapacityMeter analysis={analysis} options={options} />
+      )}
+
+      {isDataValid && fieldErrorCount > 0 && (
+        <div className="qr-error" role="alert">
+          <AlertTriangle size={16} />
+          <span>{t.qrPreview.fixFields.replace('{count}', String(fieldErrorCount))}</span>
+        </div>
+      )}
 
       <div className="action-buttons">
         <button
           onClick={copyToClipboard}
           className="btn btn-copy"
           aria-label={t.qrPreview.copyToClipboard}
-          disabled={!isDataValid || !!error}
+          disabled={!canExport}
         >
           {copySuccess ? <Check size={16} /> : <Copy size={16} />}
           {copySuccess ? t.qrPreview.copied : t.qrPreview.copyToClipboard}
         </button>
+        <button
+          onClick={pinToGallery}
+          className="btn btn-export btn-pin"
+          title={t.qrPreview.pinHint}
+          disabled={!canExport}
+        >
+          {pinSuccess ? <Check size={16} /> : <Pin size={16} />}
+          {pinSuccess ? t.qrPreview.pinned : t.qrPreview.pin}
+        </button>
       </div>
 
       <div className="export-buttons" role="group" aria-label={t.qrPreview.downloadAs}>
@@ -301,7 +394,7 @@ export default function QRPreview({ options }: QRPreviewProps) {
           onClick={downloadPNG}
           className="btn btn-export"
           aria-label={`${t.qrPreview.downloadAs} PNG`}
-          disabled={!isDataValid || !!error}
+          disabled={!canExport}
         >
           <Download size={16} />
           PNG
@@ -310,7 +403,7 @@ export default function QRPreview({ options }: QRPreviewProps) {
           onClick={downloadSVG}
           className="btn btn-export"
           aria-label={`${t.qrPreview.downloadAs} SVG`}
-          disabled={!isDataValid || !!error}
+          disabled={!canExport}
         >
           <Download size={16} />
           SVG
@@ -319,11 +412,22 @@ export default function QRPreview({ options }: QRPreviewProps) {
           onClick={downloadPDF}
           className="btn btn-export"
           aria-label={`${t.qrPreview.downloadAs} PDF`}
-          disabled={!isDataValid || !!error}
+          disabled={!canExport}
         >
           <Download size={16} />
           PDF
         </button>
+        {isSwissQR && (
+          <button
+            onClick={downloadQRBill}
+            className="btn btn-export"
+            aria-label={`${t.qrPreview.downloadAs} ${t.qrPreview.qrBill} (PDF)`}
+            disabled={!canExport}
+          >
+            <Receipt size={16} />
+            {t.qrPreview.qrBill}
+          </button>
+        )}
       </div>
     </div>
   );
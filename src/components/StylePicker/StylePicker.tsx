@@ -1,13 +1,42 @@
-import type { DotType, CornerSquareType, CornerDotType } from 'qr-code-styling';
+import type { CornerSquareType, CornerDotType } from 'qr-code-styling';
+import type { QRDotType } from '../../types/qr';
+import { getModuleShape, getNeighbours } from '../../utils/moduleShapes';
 
 // SVG preview components for style buttons - designed to match actual QR code rendering
 
-export const DotStylePreview = ({ type, color = "currentColor" }: { type: DotType; color?: string }) => {
+// Sample of touching modules, so shapes that join their neighbours show it
+const SHAPE_SAMPLE = [
+  [1, 1, 0, 1],
+  [0, 1, 0, 1],
+  [1, 1, 1, 1],
+  [1, 0, 1, 0],
+];
+
+export const DotStylePreview = ({ type, color = "currentColor" }: { type: QRDotType; color?: string }) => {
   const size = 24;
   const dotSize = 5;
   const gap = 2;
   const startOffset = 2;
 
+  // Shapes drawn by the app preview through the same function that renders the code
+  const shape = getModuleShape(type);
+  if (shape) {
+    const isDark = (row: number, col: number) => SHAPE_SAMPLE[row]?.[col] === 1;
+    return (
+      <svg width={size} height={size} viewBox={`0 0 ${size} ${size}`}>
+        {SHAPE_SAMPLE.map((cells, row) =>
+          cells.map((cell, col) => cell === 1 && (
+            <path
+              key={`${row}-${col}`}
+              d={shape(startOffset + col * dotSize, startOffset + row * dotSize, dotSize, getNeighbours(isDark, row, col))}
+              fill={color}
+            />
+          ))
+        )}
+      </svg>
+    );
+  }
+
   // Render a 3x3 grid of dots matching the actual style
   const renderDot = (x: number, y: number, key: string) => {
     switch (type) {
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { Plus, Pencil, ChevronUp, ChevronDown, Trash2 } from 'lucide-react';
+import type { QROptions, StyleOptions, StylePreset } from '../../types/qr';
+import { getLastStop } from '../../types/qr';
+import { useLanguage } from '../../i18n';
+import {
+  createStylePreset,
+  loadStylePresets,
+  saveStylePresets,
+  moveStylePreset,
+} from '../../utils/stylePresets';
+import './StylePresets.css';
+
+interface StylePresetsProps {
+  // Current options, saved as the style of a new preset
+  options: QROptions;
+  onApply: (style: StyleOptions) => void;
+}
+
+const getSwatch = (style: StyleOptions) => {
+  const dotColor = style.dotGradient.enabled ? getLastStop(style.dotGradient).color : style.dotColor;
+  return `linear-gradient(135deg, ${dotColor} 0%, ${style.cornerSquareColor} 100%)`;
+};
+
+export default function StylePresets({ options, onApply }: StylePresetsProps) {
+  const { t } = useLanguage();
+  const [presets, setPresets] = useState<StylePreset[]>(loadStylePresets);
+  const [newName, setNewName] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [storageFull, setStorageFull] = useState(false);
+
+  // Keep the list only once it has been stored
+  const updatePresets = (next: StylePreset[]) => {
+    const saved = saveStylePresets(next);
+    setStorageFull(!saved);
+    if (saved) setPresets(next);
+  };
+
+  const savePreset = () => {
+    if (!newName.trim()) return;
+    updatePresets([...presets, createStylePreset(newName, options)]);
+    setNewName('');
+  };
+
+  const finishRename = () => {
+    if (!editing) return;
+    const name = editing.name.trim();
+    if (name) updatePresets(presets.map((preset) => (preset.id === editing.id ? { ...preset, name } : preset)));
+    setEditing(null);
+  };
+
+  return (
+    <div className="style-presets">
+      <div className="style-presets-save">
+        <input
+          type="text"
+          value={newName}
+          placeholder={t.qrOptions.stylePresets.namePlaceholder}
+          aria-label={t.qrOptions.stylePresets.namePlaceholder}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') savePreset();
+          }}
+        />
+        <button className="btn btn-small style-presets-save-btn" onClick={savePreset} disabled={!newName.trim()}>
+          <Plus size={14} />
+          {t.qrOptions.stylePresets.save}
+        </button>
+      </div>
+
+      {presets.length === 0 ? (
+        <p className="option-hint">{t.qrOptions.stylePresets.empty}</p>
+      ) : (
+        <ul className="style-preset-list">
+          {presets.map((preset, index) => (
+            <li key={preset.id} className="style-preset">
+              <span className="style-preset-swatch" style={{ background: getSwatch(preset.style) }} aria-hidden="true" />
+              {editing?.id === preset.id ? (
+                <input
+                  type="text"
+                  className="style-preset-name-input"
+                  value={editing.name}
+                  aria-label={t.qrOptions.stylePresets.rename}
+                  autoFocus
+                  onChange={(e) => setEditing({ id: preset.id, name: e.target.value })}
+                  onBlur={finishRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') finishRename();
+                    if (e.key === 'Escape') setEditing(null);
+                  }}
+                />
+              ) : (
+                <button
+                  className="style-preset-apply"
+                  onClick={() => onApply(preset.style)}
+                  title={t.qrOptions.stylePresets.apply.replace('{name}', preset.name)}
+                >
+                  {preset.name}
+                </button>
+              )}
+              <div className="style-preset-actions">
+                <button
+                  className="btn-icon"
+                  onClick={() => setEditing({ id: preset.id, name: preset.name })}
+                  title={t.qrOptions.stylePresets.rename}
+                  aria-label={`${t.qrOptions.stylePresets.rename} ${preset.name}`}
+                >
+                  <Pencil size={14} />
+                </button>
+                <button
+                  className="btn-icon"
+                  onClick={() => updatePresets(moveStylePreset(presets, index, -1))}
+                  disabled={index === 0}
+                  title={t.qrOptions.stylePresets.moveUp}
+                  aria-label={`${t.qrOptions.stylePresets.moveUp} ${preset.name}`}
+                >
+                  <ChevronUp size={14} />
+                </button>
+                <button
+                  className="btn-icon"
+                  onClick={() => updatePresets(moveStylePreset(presets, index, 1))}
+                  disabled={index === presets.length - 1}
+                  title={t.qrOptions.stylePresets.moveDown}
+                  aria-label={`${t.qrOptions.stylePresets.moveDown} ${preset.name}`}
+                >
+                  <ChevronDown size={14} />
+                </button>
+                <button
+                  className="btn-icon"
+                  onClick={() => updatePresets(presets.filter((p) => p.id !== preset.id))}
+                  title={t.qrOptions.stylePresets.delete}
+                  aria-label={`${t.qrOptions.stylePresets.delete} ${preset.name}`}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {storageFull && (
+        <p className="option-hint error" role="alert">{t.qrOptions.stylePresets.storageFull}</p>
+      )}
+    </div>
+  );
+}
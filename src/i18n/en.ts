@@ -13,6 +13,13 @@ export const en: Translations = {
     title: 'QR Content',
     templateType: 'Template Type',
     selectTemplate: 'Select Template',
+    payloadImport: {
+      title: 'Import from payload',
+      placeholder: 'WIFI:T:WPA;S:MyNetwork;P:secret;;',
+      hint: 'Paste the raw content of an existing QR code to detect its template and fill in the form.',
+      unrecognized: 'This payload could not be recognized.',
+      apply: 'Detect and fill',
+    },
     categories: {
       all: 'All',
       links: 'Links',
@@ -40,6 +47,28 @@ export const en: Translations = {
       snapchat: 'Snapchat',
       paypal: 'PayPal',
       bitcoin: 'Bitcoin',
+      epc: 'SEPA Transfer',
+      swissqr: 'Swiss QR-bill',
+      pix: 'Pix (Brazil)',
+      paynow: 'PayNow (Singapore)',
+      promptpay: 'PromptPay (Thailand)',
+      upi: 'UPI (India)',
+    },
+    validation: {
+      invalidUrl: 'Enter a complete address, such as https://example.com',
+      unsupportedScheme: 'Only http:// and https:// addresses are supported',
+      invalidEmail: 'Enter a valid email address',
+      invalidPhone: 'Enter a valid phone number in international format, such as +39 333 123 4567',
+      latitudeRange: 'Latitude must be a number between -90 and 90',
+      longitudeRange: 'Longitude must be a number between -180 and 180',
+      invalidBitcoinAddress: 'This is not a valid Bitcoin address: check for typos',
+      invalidAmount: 'Enter a positive amount, using a dot for decimals',
+      amountRange: 'The amount is out of the allowed range',
+      referenceMismatch: 'The reference type does not match the IBAN',
+      invalidReference: 'The check digits do not match: check the reference for typos',
+      tooLong: 'Too long to fit in the payment code: shorten it',
+      endBeforeStart: 'The end is before the start',
+      untilBeforeStart: 'The last date is before the start',
     },
     form: {
       url: 'URL',
@@ -56,6 +85,34 @@ export const en: Translations = {
       state: 'State',
       zipCode: 'Zip Code',
       country: 'Country',
+      phones: 'Phone Numbers',
+      emails: 'Email Addresses',
+      addPhone: 'Add phone',
+      addEmail: 'Add email',
+      entryType: 'Type',
+      entryTypes: {
+        cell: 'Mobile',
+        work: 'Work',
+        home: 'Home',
+      },
+      removeEntry: 'Remove',
+      birthday: 'Birthday',
+      notes: 'Notes',
+      socialProfiles: 'Social Profiles',
+      socialProfilePlaceholder: 'https://linkedin.com/in/username',
+      addSocialProfile: 'Add profile',
+      photo: 'Photo',
+      choosePhoto: 'Choose photo',
+      removePhoto: 'Remove',
+      photoError: 'The image could not be read',
+      photoHint: 'The photo adds {size} KB to the code and makes it much denser',
+      cardFormat: 'Card Format',
+      cardFormats: {
+        vcard3: 'vCard 3.0 (widest support)',
+        vcard4: 'vCard 4.0',
+        mecard: 'MeCard (compact)',
+      },
+      meCardHint: 'MeCard leaves out the job title, the photo and the phone and email types',
       networkName: 'Network Name (SSID)',
       networkNamePlaceholder: 'MyWiFiNetwork',
       password: 'Password',
@@ -77,6 +134,32 @@ export const en: Translations = {
       endDate: 'End Date',
       startDateTime: 'Start Date & Time',
       endDateTime: 'End Date & Time',
+      timeZone: 'Time Zone',
+      useUTC: 'Convert times to UTC',
+      veventUTCHint: 'Event-only codes cannot include time zone rules, so times are converted to UTC',
+      repeat: 'Repeat',
+      repeatNone: 'Does not repeat',
+      repeatDaily: 'Daily',
+      repeatWeekly: 'Weekly',
+      repeatMonthly: 'Monthly',
+      repeatEnd: 'Ends',
+      repeatNever: 'Never',
+      repeatUntil: 'On date',
+      repeatCount: 'After a number of times',
+      repeatUntilDate: 'Last Date',
+      occurrences: 'Occurrences',
+      reminder: 'Reminder',
+      reminderNone: 'No reminder',
+      reminderAtStart: 'At start time',
+      reminderMinutes: '{count} min before',
+      reminderHours: '{count} h before',
+      reminderDays: '{count} day(s) before',
+      organizerName: 'Organizer Name',
+      organizerEmail: 'Organizer Email',
+      eventUrl: 'Event URL',
+      calendarFormat: 'Code Format',
+      calendarFormatFull: 'Calendar (VCALENDAR)',
+      calendarFormatEvent: 'Event only (VEVENT)',
       latitude: 'Latitude',
       latitudePlaceholder: '37.7749',
       longitude: 'Longitude',
@@ -99,6 +182,54 @@ export const en: Translations = {
       bitcoinAddress: 'Bitcoin Address',
       bitcoinAddressPlaceholder: 'bc1q...',
       amountBtc: 'Amount (BTC)',
+      beneficiaryName: 'Beneficiary Name',
+      beneficiaryNamePlaceholder: 'Company Ltd.',
+      iban: 'IBAN',
+      ibanPlaceholder: 'DE89 3704 0044 0532 0130 00',
+      bic: 'BIC (optional)',
+      bicPlaceholder: 'COBADEFFXXX',
+      amountEur: 'Amount (EUR)',
+      amountRange: 'Amount must be between {min} and {max} {currency}',
+      purposeCode: 'Purpose Code',
+      purposeCodePlaceholder: 'GDDS',
+      remittanceType: 'Remittance',
+      remittanceUnstructured: 'Free text',
+      remittanceStructured: 'Creditor reference',
+      creditorReference: 'Creditor Reference',
+      creditorReferencePlaceholder: 'RF18 5390 0754 7034',
+      remittanceInfo: 'Payment Reference',
+      remittanceInfoPlaceholder: 'Invoice 2024-001',
+      name: 'Name',
+      street: 'Street',
+      buildingNumber: 'Building No.',
+      countryCode: 'Country Code',
+      swissIbanPlaceholder: 'CH44 3199 9123 0008 8901 2',
+      qrIbanRequiresQrr: 'A QR-IBAN can only be used with a QR reference.',
+      qrrRequiresQrIban: 'A QR reference requires a QR-IBAN.',
+      payableTo: 'Account / Payable to',
+      paymentDetails: 'Payment',
+      payableBy: 'Payable by (optional)',
+      referenceType: 'Reference Type',
+      referenceQrr: 'QR reference',
+      referenceScor: 'Creditor reference (ISO 11649)',
+      referenceNone: 'No reference',
+      reference: 'Reference',
+      additionalInfo: 'Additional Information',
+      pixKey: 'Pix Key',
+      pixKeyPlaceholder: 'CPF/CNPJ, email, phone or random key',
+      receiverName: 'Receiver Name',
+      receiverCity: 'Receiver City',
+      transactionId: 'Transaction ID',
+      staticAmountHint: 'Leave empty to let the payer enter the amount',
+      proxyType: 'Identifier Type',
+      uen: 'UEN',
+      expiryDate: 'Expiry Date',
+      nationalId: 'National ID / Tax ID',
+      eWalletId: 'E-Wallet ID',
+      promptPayId: 'PromptPay ID',
+      upiId: 'UPI ID (VPA)',
+      upiIdPlaceholder: 'name@bank',
+      note: 'Note',
     },
   },
 
@@ -110,12 +241,34 @@ export const en: Translations = {
     undo: 'Undo',
     redo: 'Redo',
     resetToDefaults: 'Reset to defaults',
+    project: {
+      export: 'Export project',
+      import: 'Import project',
+      copyLink: 'Copy link to this design',
+      link: {
+        copied: 'Link copied. It opens the generator with this design and content.',
+        copiedWithoutImages: 'Link copied without the logo and image layers, which are too large to fit in a link. Export the project to share it with its images.',
+        tooLong: 'This design is too large to fit in a link. Export the project to share it.',
+        failed: 'The link could not be copied.',
+      },
+      errors: {
+        invalidJson: 'The project file is not valid JSON.',
+        notAProject: 'The file is not a QR generator project.',
+        newerVersion: 'The project was saved by a newer version of the generator. Update the page and try again.',
+      },
+    },
     sections: {
       errorCorrection: 'Error Correction',
+      output: 'Size & Output',
       style: 'Style',
       colors: 'Colors',
       background: 'Background',
+      frame: 'Frame & Caption',
       centerLogo: 'Center Logo',
+      imageImport: 'Import from Image',
+      print: 'Print Layout',
+      batch: 'Batch Export',
+      gallery: 'History',
     },
     errorCorrection: {
       level: 'Level',
@@ -125,6 +278,8 @@ export const en: Translations = {
         Q: '~25% damage recovery. Good for moderate damage resistance.',
         H: '~30% damage recovery. Best when using center logo.',
       },
+      lockedByTemplate: 'Fixed to level {level} as required by the {template} specification.',
+      raisedForLogo: 'Rendered at level {level} because the logo hides {share}% of the modules.',
     },
     style: {
       dotStyle: 'Dot Style',
@@ -133,18 +288,87 @@ export const en: Translations = {
     },
     colors: {
       quickPresets: 'Quick Presets',
-      useGradient: 'Use Gradient for Dots',
-      gradientType: 'Gradient Type',
-      rotation: 'Rotation',
-      startColor: 'Start',
-      endColor: 'End',
+      useGradient: 'Use Gradient',
+      gradientStop: '{color}, stop {number}',
       dotColor: 'Dot Color',
       cornerSquare: 'Corner Square',
       cornerDot: 'Corner Dot',
+      moduleImage: 'Module Image',
+      moduleImageHint: 'Fills the dark modules with a photo or pattern. Finder patterns keep their colours so scanners still find the code.',
+    },
+    gradient: {
+      type: 'Gradient Type',
+      types: { linear: 'Linear', radial: 'Radial' },
+      rotation: 'Rotation',
+      addStopHint: 'Click to add a colour stop',
+      stop: 'Stop {number} at {offset}%',
+      stopColor: 'Stop colour',
+      position: 'Position',
+      addStop: 'Add stop',
+      removeStop: 'Remove stop',
+    },
+    stylePresets: {
+      title: 'My Presets',
+      namePlaceholder: 'Preset name',
+      save: 'Save style',
+      empty: 'Save the current colours and gradients, shapes, logo, size, quiet zone and error correction to reuse them later.',
+      apply: 'Apply {name}',
+      rename: 'Rename',
+      moveUp: 'Move up',
+      moveDown: 'Move down',
+      delete: 'Delete',
+      storageFull: 'The presets could not be saved: browser storage is full. Try a smaller logo or delete unused presets.',
     },
     background: {
       transparent: 'Transparent Background',
       backgroundColor: 'Background Color',
+      image: 'Background Image',
+      imageHint: 'A photo or texture drawn over the background colour.',
+      contrastOverlay: 'Keep contrast automatically',
+      contrastOverlayHint: 'Lays a white veil over the background image and a dark one over the module image, only as strong as scanners need.',
+    },
+    imageLayer: {
+      choose: 'Choose image',
+      remove: 'Remove image',
+      loadFailed: 'The image could not be read. Try a PNG, JPEG or WebP file.',
+      fit: 'Fit',
+      fits: { cover: 'Cover', contain: 'Contain', tile: 'Tile' },
+      tileSize: 'Tile Size',
+      opacity: 'Opacity',
+      lightOverlay: 'A {percent}% white veil keeps the modules readable.',
+      darkOverlay: 'A {percent}% dark veil keeps the modules readable.',
+    },
+    frame: {
+      style: 'Frame',
+      styles: {
+        none: 'None',
+        box: 'Box with caption',
+        bubble: 'Speech bubble',
+        badge: 'Badge with banner',
+        phone: 'Phone',
+      },
+      hint: 'Drawn around the code in the preview and in every export, without covering the quiet zone.',
+      caption: 'Caption',
+      font: 'Font',
+      fonts: {
+        sans: 'Sans serif',
+        serif: 'Serif',
+        mono: 'Monospace',
+        rounded: 'Rounded',
+        condensed: 'Condensed',
+      },
+      icon: 'Icon',
+      icons: {
+        none: 'None',
+        scan: 'Scan',
+        phone: 'Phone',
+        menu: 'Menu',
+        link: 'Link',
+        wifi: 'Wi-Fi',
+      },
+      color: 'Frame color',
+      textColor: 'Caption color',
+      lowContrast: 'The caption is hard to read on the frame color.',
     },
     logo: {
       dropZone: 'Drag & drop or click to upload',
@@ -152,6 +376,90 @@ export const en: Translations = {
       removeLogo: 'Remove logo',
       size: 'Size',
       margin: 'Margin',
+      replacedBySwissCross: 'QR-bills always show the Swiss cross in the centre instead of a logo.',
+      coverage: 'Hides {share}% of the modules of this version {version} code ({count}×{count}) and uses up to {budget}% of the error correction at level {level}.',
+      tooLarge: 'The logo is too large to scan reliably at level {level}. Reduce it to {max}% or less.',
+      tooLargeAtMinimum: 'Even at its smallest size the logo is too large to scan reliably at level {level}. Shorten the content or remove the logo.',
+    },
+    imageImport: {
+      dropZone: 'Drop a QR code image (PNG, JPEG, SVG) or click to browse',
+      decoding: 'Decoding…',
+      detected: 'Decoded a {template} code and filled in the form.',
+      unrecognized: 'The code was decoded, but its content does not match any template:',
+      decodedText: 'Decoded text',
+      notFound: 'No QR code was found in this image.',
+      loadFailed: 'The image could not be read.',
+    },
+    lint: {
+      lowContrast: '{color} is too close to the background ({value}% luminance difference, at least {min}% recommended).',
+      inverted: 'The modules are lighter than the background. Many scanners cannot read inverted codes.',
+      transparentLight: 'With a transparent background, the light modules disappear on light pages.',
+      fix: 'Fix',
+    },
+    output: {
+      unit: 'Units',
+      units: {
+        px: 'Pixels',
+        mm: 'Millimetres',
+        in: 'Inches',
+      },
+      dpi: 'Resolution',
+      size: 'Size',
+      sizeHint: '{pixels} × {pixels} px, printing at {size} at {dpi} DPI. PNG, SVG and PDF exports keep this size.',
+      quietZone: 'Quiet zone',
+      modules: '{count} modules',
+      quietZoneHint: 'The blank border around the code, {pixels} px at the current version.',
+      quietZoneTooSmall: 'The QR code standard asks for a quiet zone of at least {min} modules. Scanners may miss codes printed close to other content.',
+    },
+    print: {
+      layout: 'Layout',
+      layouts: {
+        single: 'Single code, page cut to size',
+        grid: 'Grid of codes on a page',
+        'avery-l7160': 'Avery L7160 (A4, 21 labels)',
+        'avery-5160': 'Avery 5160 (Letter, 30 labels)',
+      },
+      perPage: '{count} codes per page',
+      pageSize: 'Page size',
+      unit: 'Units',
+      millimetres: 'Millimetres',
+      inches: 'Inches',
+      resolution: 'Codes print at {size}, rendered at {pixels} × {pixels} px.',
+      sizeFromOutput: 'Set the size and resolution under Size & Output.',
+      bleed: 'Bleed',
+      labelBleed: 'Labels are die-cut: bleed only carries the background past the label edge.',
+      cropMarks: 'Crop marks',
+      caption: 'Caption',
+      captionHint: 'Printed with every code. In batch exports, use {column} for a column value and {#} for the row number.',
+    },
+    gallery: {
+      search: 'Search content',
+      category: 'Category',
+      empty: 'Codes you export or pin appear here.',
+      noMatches: 'No codes match the search.',
+      selectAll: 'Select all',
+      select: 'Select',
+      deleteSelected: 'Delete ({count})',
+      open: 'Open in editor',
+      duplicate: 'Duplicate',
+      failed: 'The history could not be read or updated.',
+    },
+    batch: {
+      dropZone: 'Drop a CSV or JSON file or click to browse',
+      loaded: '{rows} rows, {columns} columns',
+      parseFailed: 'The file could not be read as CSV with a header row or as a JSON array of objects.',
+      template: 'Template',
+      mapping: 'Columns for each field',
+      unmapped: '— not used —',
+      fileName: 'File names',
+      fileNameHint: 'Use {column} for a column value and {#} for the row number.',
+      formats: 'Formats',
+      pdfLayout: 'PDFs follow the Print Layout section: one file per row, or a single labels.pdf for grids and label sheets.',
+      generate: 'Download ZIP ({count} codes)',
+      generating: 'Generating {done} of {total}…',
+      done: '{count} codes exported.',
+      skipped: 'Skipped rows without content or too long to encode: {rows}.',
+      failed: 'The ZIP file could not be created.',
     },
   },
 
@@ -159,11 +467,60 @@ export const en: Translations = {
   qrPreview: {
     title: 'Preview',
     contentRequired: 'Content is required',
+    fixFields: 'Fix {count} highlighted field(s) before exporting',
+    capacity: {
+      label: 'Capacity used',
+      version: 'Version {version} · {modules} × {modules} modules',
+      modes: {
+        Numeric: 'Numeric mode',
+        Alphanumeric: 'Alphanumeric mode',
+        Byte: 'Byte mode',
+      },
+      units: {
+        Numeric: 'digits',
+        Alphanumeric: 'characters',
+        Byte: 'bytes',
+      },
+      usage: '{used} of {max} {unit} ({percent}%).',
+      nextVersion: '{count} more {unit} fit before the code grows to version {version}.',
+      lastVersion: 'This is the largest version.',
+      minPrintSize: 'Print at least {min} wide to keep modules {module} mm or larger.',
+      printTooSmall: 'At the {size} print size, modules are smaller than {module} mm and phones may not read them: print at least {min} wide.',
+    },
     copyToClipboard: 'Copy to Clipboard',
     copied: 'Copied!',
+    pin: 'Pin',
+    pinned: 'Pinned',
+    pinHint: 'Keep this code in the history',
     downloadAs: 'Download as',
+    qrBill: 'QR-bill',
+    swissBill: {
+      receipt: 'Receipt',
+      paymentPart: 'Payment part',
+      account: 'Account / Payable to',
+      reference: 'Reference',
+      additionalInfo: 'Additional information',
+      payableBy: 'Payable by',
+      payableByBlank: 'Payable by (name/address)',
+      currency: 'Currency',
+      amount: 'Amount',
+      acceptancePoint: 'Acceptance point',
+    },
+    scan: {
+      checking: 'Checking scannability…',
+      high: 'Scan confidence: high',
+      medium: 'Scan confidence: medium',
+      fail: 'Scan check failed: this code cannot be decoded',
+      failedChecks: 'Did not scan when {checks}.',
+      checks: {
+        original: 'rendered as is',
+        small: 'printed small',
+        blur: 'out of focus',
+        noise: 'in poor light',
+      },
+    },
     errors: {
-      contentTooLong: 'Content is too long. Maximum {max} characters for error correction level {level}.',
+      contentTooLong: 'Content is too long. Maximum {max} {unit} for error correction level {level}.',
       failedToGenerate: 'Failed to generate QR code.',
       failedToDownload: 'Failed to download',
       failedToInitialize: 'Failed to initialize QR code',
@@ -13,6 +13,13 @@ export const it: Translations = {
     title: 'Contenuto QR',
     templateType: 'Tipo di Template',
     selectTemplate: 'Seleziona Template',
+    payloadImport: {
+      title: 'Importa da payload',
+      placeholder: 'WIFI:T:WPA;S:MiaRete;P:segreta;;',
+      hint: 'Incolla il contenuto grezzo di un QR code esistente per rilevarne il template e compilare il modulo.',
+      unrecognized: 'Impossibile riconoscere questo payload.',
+      apply: 'Rileva e compila',
+    },
     categories: {
       all: 'Tutti',
       links: 'Link',
@@ -40,6 +47,28 @@ export const it: Translations = {
       snapchat: 'Snapchat',
       paypal: 'PayPal',
       bitcoin: 'Bitcoin',
+      epc: 'Bonifico SEPA',
+      swissqr: 'QR-fattura svizzera',
+      pix: 'Pix (Brasile)',
+      paynow: 'PayNow (Singapore)',
+      promptpay: 'PromptPay (Thailandia)',
+      upi: 'UPI (India)',
+    },
+    validation: {
+      invalidUrl: 'Inserisci un indirizzo completo, ad esempio https://example.com',
+      unsupportedScheme: 'Sono supportati solo indirizzi http:// e https://',
+      invalidEmail: 'Inserisci un indirizzo email valido',
+      invalidPhone: 'Inserisci un numero di telefono valido in formato internazionale, ad esempio +39 333 123 4567',
+      latitudeRange: 'La latitudine deve essere un numero tra -90 e 90',
+      longitudeRange: 'La longitudine deve essere un numero tra -180 e 180',
+      invalidBitcoinAddress: 'Questo non è un indirizzo Bitcoin valido: controlla eventuali errori di battitura',
+      invalidAmount: 'Inserisci un importo positivo, usando il punto per i decimali',
+      amountRange: 'L\'importo è fuori dall\'intervallo consentito',
+      referenceMismatch: 'Il tipo di riferimento non corrisponde all\'IBAN',
+      invalidReference: 'Le cifre di controllo non corrispondono: verifica che il riferimento non contenga errori',
+      tooLong: 'Troppo lungo per il codice di pagamento: accorcialo',
+      endBeforeStart: 'La fine è prima dell\'inizio',
+      untilBeforeStart: 'L\'ultima data è prima dell\'inizio',
     },
     form: {
       url: 'URL',
@@ -56,6 +85,34 @@ export const it: Translations = {
       state: 'Provincia',
       zipCode: 'CAP',
       country: 'Paese',
+      phones: 'Numeri di Telefono',
+      emails: 'Indirizzi Email',
+      addPhone: 'Aggiungi telefono',
+      addEmail: 'Aggiungi email',
+      entryType: 'Tipo',
+      entryTypes: {
+        cell: 'Cellulare',
+        work: 'Lavoro',
+        home: 'Casa',
+      },
+      removeEntry: 'Rimuovi',
+      birthday: 'Compleanno',
+      notes: 'Note',
+      socialProfiles: 'Profili Social',
+      socialProfilePlaceholder: 'https://linkedin.com/in/username',
+      addSocialProfile: 'Aggiungi profilo',
+      photo: 'Foto',
+      choosePhoto: 'Scegli foto',
+      removePhoto: 'Rimuovi',
+      photoError: 'Impossibile leggere l\'immagine',
+      photoHint: 'La foto aggiunge {size} KB al codice e lo rende molto più denso',
+      cardFormat: 'Formato Biglietto',
+      cardFormats: {
+        vcard3: 'vCard 3.0 (massima compatibilità)',
+        vcard4: 'vCard 4.0',
+        mecard: 'MeCard (compatto)',
+      },
+      meCardHint: 'MeCard non include il ruolo, la foto e i tipi di telefono ed email',
       networkName: 'Nome Rete (SSID)',
       networkNamePlaceholder: 'LaMiaReteWiFi',
       password: 'Password',
@@ -77,6 +134,32 @@ export const it: Translations = {
       endDate: 'Data Fine',
       startDateTime: 'Data e Ora Inizio',
       endDateTime: 'Data e Ora Fine',
+      timeZone: 'Fuso Orario',
+      useUTC: 'Converti gli orari in UTC',
+      veventUTCHint: 'I codici con solo l\'evento non possono includere le regole del fuso orario, quindi gli orari sono convertiti in UTC',
+      repeat: 'Ripeti',
+      repeatNone: 'Non si ripete',
+      repeatDaily: 'Ogni giorno',
+      repeatWeekly: 'Ogni settimana',
+      repeatMonthly: 'Ogni mese',
+      repeatEnd: 'Termina',
+      repeatNever: 'Mai',
+      repeatUntil: 'In una data',
+      repeatCount: 'Dopo un numero di volte',
+      repeatUntilDate: 'Ultima Data',
+      occurrences: 'Ripetizioni',
+      reminder: 'Promemoria',
+      reminderNone: 'Nessun promemoria',
+      reminderAtStart: 'All\'ora di inizio',
+      reminderMinutes: '{count} min prima',
+      reminderHours: '{count} h prima',
+      reminderDays: '{count} giorno/i prima',
+      organizerName: 'Nome Organizzatore',
+      organizerEmail: 'Email Organizzatore',
+      eventUrl: 'URL Evento',
+      calendarFormat: 'Formato Codice',
+      calendarFormatFull: 'Calendario (VCALENDAR)',
+      calendarFormatEvent: 'Solo evento (VEVENT)',
       latitude: 'Latitudine',
       latitudePlaceholder: '41.9028',
       longitude: 'Longitudine',
@@ -99,6 +182,54 @@ export const it: Translations = {
       bitcoinAddress: 'Indirizzo Bitcoin',
       bitcoinAddressPlaceholder: 'bc1q...',
       amountBtc: 'Importo (BTC)',
+      beneficiaryName: 'Nome Beneficiario',
+      beneficiaryNamePlaceholder: 'Azienda S.r.l.',
+      iban: 'IBAN',
+      ibanPlaceholder: 'IT60 X054 2811 1010 0000 0123 456',
+      bic: 'BIC (opzionale)',
+      bicPlaceholder: 'BPPIITRRXXX',
+      amountEur: 'Importo (EUR)',
+      amountRange: 'L\'importo deve essere compreso tra {min} e {max} {currency}',
+      purposeCode: 'Codice Scopo',
+      purposeCodePlaceholder: 'GDDS',
+      remittanceType: 'Causale',
+      remittanceUnstructured: 'Testo libero',
+      remittanceStructured: 'Riferimento creditore',
+      creditorReference: 'Riferimento Creditore',
+      creditorReferencePlaceholder: 'RF18 5390 0754 7034',
+      remittanceInfo: 'Causale',
+      remittanceInfoPlaceholder: 'Fattura 2024-001',
+      name: 'Nome',
+      street: 'Via',
+      buildingNumber: 'Numero Civico',
+      countryCode: 'Codice Paese',
+      swissIbanPlaceholder: 'CH44 3199 9123 0008 8901 2',
+      qrIbanRequiresQrr: 'Un QR-IBAN può essere usato solo con un riferimento QR.',
+      qrrRequiresQrIban: 'Un riferimento QR richiede un QR-IBAN.',
+      payableTo: 'Conto / Pagabile a',
+      paymentDetails: 'Pagamento',
+      payableBy: 'Pagabile da (opzionale)',
+      referenceType: 'Tipo di Riferimento',
+      referenceQrr: 'Riferimento QR',
+      referenceScor: 'Riferimento creditore (ISO 11649)',
+      referenceNone: 'Nessun riferimento',
+      reference: 'Riferimento',
+      additionalInfo: 'Informazioni Supplementari',
+      pixKey: 'Chiave Pix',
+      pixKeyPlaceholder: 'CPF/CNPJ, email, telefono o chiave casuale',
+      receiverName: 'Nome Beneficiario',
+      receiverCity: 'Città Beneficiario',
+      transactionId: 'ID Transazione',
+      staticAmountHint: 'Lascia vuoto per far inserire l\'importo al pagatore',
+      proxyType: 'Tipo di Identificativo',
+      uen: 'UEN',
+      expiryDate: 'Data di Scadenza',
+      nationalId: 'Codice Identificativo / Fiscale',
+      eWalletId: 'ID E-Wallet',
+      promptPayId: 'ID PromptPay',
+      upiId: 'ID UPI (VPA)',
+      upiIdPlaceholder: 'nome@banca',
+      note: 'Nota',
     },
   },
 
@@ -110,12 +241,34 @@ export const it: Translations = {
     undo: 'Annulla',
     redo: 'Ripristina',
     resetToDefaults: 'Ripristina predefiniti',
+    project: {
+      export: 'Esporta progetto',
+      import: 'Importa progetto',
+      copyLink: 'Copia link a questo design',
+      link: {
+        copied: 'Link copiato. Apre il generatore con questo design e contenuto.',
+        copiedWithoutImages: 'Link copiato senza il logo e le immagini, troppo grandi per un link. Esporta il progetto per condividerlo con le immagini.',
+        tooLong: 'Questo design è troppo grande per un link. Esporta il progetto per condividerlo.',
+        failed: 'Impossibile copiare il link.',
+      },
+      errors: {
+        invalidJson: 'Il file del progetto non è un JSON valido.',
+        notAProject: 'Il file non è un progetto del generatore QR.',
+        newerVersion: 'Il progetto è stato salvato da una versione più recente del generatore. Aggiorna la pagina e riprova.',
+      },
+    },
     sections: {
       errorCorrection: 'Correzione Errori',
+      output: 'Dimensioni e output',
       style: 'Stile',
       colors: 'Colori',
       background: 'Sfondo',
+      frame: 'Cornice e didascalia',
       centerLogo: 'Logo Centrale',
+      imageImport: 'Importa da Immagine',
+      print: 'Layout di stampa',
+      batch: 'Esportazione in blocco',
+      gallery: 'Cronologia',
     },
     errorCorrection: {
       level: 'Livello',
@@ -125,6 +278,8 @@ export const it: Translations = {
         Q: '~25% recupero danni. Buona resistenza ai danni moderati.',
         H: '~30% recupero danni. Ideale quando si usa un logo centrale.',
       },
+      lockedByTemplate: 'Fissato al livello {level} come richiesto dalla specifica {template}.',
+      raisedForLogo: 'Generato al livello {level} perché il logo copre il {share}% dei moduli.',
     },
     style: {
       dotStyle: 'Stile Punti',
@@ -133,18 +288,87 @@ export const it: Translations = {
     },
     colors: {
       quickPresets: 'Preset Rapidi',
-      useGradient: 'Usa Gradiente per i Punti',
-      gradientType: 'Tipo Gradiente',
-      rotation: 'Rotazione',
-      startColor: 'Inizio',
-      endColor: 'Fine',
+      useGradient: 'Usa Gradiente',
+      gradientStop: '{color}, tappa {number}',
       dotColor: 'Colore Punti',
       cornerSquare: 'Quadrato Angolare',
       cornerDot: 'Punto Angolare',
+      moduleImage: 'Immagine dei Moduli',
+      moduleImageHint: 'Riempie i moduli scuri con una foto o un motivo. I riquadri angolari mantengono i loro colori, così gli scanner trovano ancora il codice.',
+    },
+    gradient: {
+      type: 'Tipo Gradiente',
+      types: { linear: 'Lineare', radial: 'Radiale' },
+      rotation: 'Rotazione',
+      addStopHint: 'Fai clic per aggiungere una tappa di colore',
+      stop: 'Tappa {number} al {offset}%',
+      stopColor: 'Colore della tappa',
+      position: 'Posizione',
+      addStop: 'Aggiungi tappa',
+      removeStop: 'Rimuovi tappa',
+    },
+    stylePresets: {
+      title: 'I miei preset',
+      namePlaceholder: 'Nome del preset',
+      save: 'Salva stile',
+      empty: 'Salva colori e gradienti, forme, logo, dimensione, zona di rispetto e correzione d\'errore attuali per riutilizzarli in seguito.',
+      apply: 'Applica {name}',
+      rename: 'Rinomina',
+      moveUp: 'Sposta su',
+      moveDown: 'Sposta giù',
+      delete: 'Elimina',
+      storageFull: 'Impossibile salvare i preset: la memoria del browser è piena. Prova un logo più piccolo o elimina i preset inutilizzati.',
     },
     background: {
       transparent: 'Sfondo Trasparente',
       backgroundColor: 'Colore Sfondo',
+      image: 'Immagine di Sfondo',
+      imageHint: 'Una foto o una texture disegnata sopra il colore di sfondo.',
+      contrastOverlay: 'Mantieni il contrasto automaticamente',
+      contrastOverlayHint: 'Stende un velo bianco sull\'immagine di sfondo e uno scuro sull\'immagine dei moduli, solo quanto serve agli scanner.',
+    },
+    imageLayer: {
+      choose: 'Scegli immagine',
+      remove: 'Rimuovi immagine',
+      loadFailed: 'Impossibile leggere l\'immagine. Prova un file PNG, JPEG o WebP.',
+      fit: 'Adattamento',
+      fits: { cover: 'Riempi', contain: 'Contieni', tile: 'Affianca' },
+      tileSize: 'Dimensione Tessera',
+      opacity: 'Opacità',
+      lightOverlay: 'Un velo bianco al {percent}% mantiene leggibili i moduli.',
+      darkOverlay: 'Un velo scuro al {percent}% mantiene leggibili i moduli.',
+    },
+    frame: {
+      style: 'Cornice',
+      styles: {
+        none: 'Nessuna',
+        box: 'Riquadro con didascalia',
+        bubble: 'Fumetto',
+        badge: 'Badge con nastro',
+        phone: 'Telefono',
+      },
+      hint: 'Disegnata attorno al codice nell\'anteprima e in ogni esportazione, senza coprire la zona di rispetto.',
+      caption: 'Didascalia',
+      font: 'Carattere',
+      fonts: {
+        sans: 'Senza grazie',
+        serif: 'Con grazie',
+        mono: 'Monospaziato',
+        rounded: 'Arrotondato',
+        condensed: 'Condensato',
+      },
+      icon: 'Icona',
+      icons: {
+        none: 'Nessuna',
+        scan: 'Scansione',
+        phone: 'Telefono',
+        menu: 'Menu',
+        link: 'Link',
+        wifi: 'Wi-Fi',
+      },
+      color: 'Colore cornice',
+      textColor: 'Colore didascalia',
+      lowContrast: 'La didascalia è poco leggibile sul colore della cornice.',
     },
     logo: {
       dropZone: 'Trascina o clicca per caricare',
@@ -152,6 +376,90 @@ export const it: Translations = {
       removeLogo: 'Rimuovi logo',
       size: 'Dimensione',
       margin: 'Margine',
+      replacedBySwissCross: 'Le QR-fatture mostrano sempre la croce svizzera al centro al posto del logo.',
+      coverage: 'Copre il {share}% dei moduli di questo codice versione {version} ({count}×{count}) e usa fino al {budget}% della correzione degli errori al livello {level}.',
+      tooLarge: 'Il logo è troppo grande per una scansione affidabile al livello {level}. Riducilo al {max}% o meno.',
+      tooLargeAtMinimum: 'Anche alla dimensione minima il logo è troppo grande per una scansione affidabile al livello {level}. Accorcia il contenuto o rimuovi il logo.',
+    },
+    imageImport: {
+      dropZone: 'Trascina un\'immagine di un QR code (PNG, JPEG, SVG) o clicca per sfogliare',
+      decoding: 'Decodifica in corso…',
+      detected: 'Decodificato un codice {template} e compilato il modulo.',
+      unrecognized: 'Il codice è stato decodificato, ma il contenuto non corrisponde a nessun template:',
+      decodedText: 'Testo decodificato',
+      notFound: 'Nessun QR code trovato in questa immagine.',
+      loadFailed: 'Impossibile leggere l\'immagine.',
+    },
+    lint: {
+      lowContrast: '{color} è troppo simile allo sfondo (differenza di luminanza del {value}%, consigliato almeno il {min}%).',
+      inverted: 'I moduli sono più chiari dello sfondo. Molti lettori non riescono a leggere i codici invertiti.',
+      transparentLight: 'Con lo sfondo trasparente, i moduli chiari scompaiono sulle pagine chiare.',
+      fix: 'Correggi',
+    },
+    output: {
+      unit: 'Unità',
+      units: {
+        px: 'Pixel',
+        mm: 'Millimetri',
+        in: 'Pollici',
+      },
+      dpi: 'Risoluzione',
+      size: 'Dimensione',
+      sizeHint: '{pixels} × {pixels} px, stampato a {size} a {dpi} DPI. Le esportazioni PNG, SVG e PDF mantengono questa dimensione.',
+      quietZone: 'Zona di rispetto',
+      modules: '{count} moduli',
+      quietZoneHint: 'Il bordo vuoto attorno al codice, {pixels} px alla versione attuale.',
+      quietZoneTooSmall: 'Lo standard dei codici QR richiede una zona di rispetto di almeno {min} moduli. Gli scanner potrebbero non leggere codici stampati vicino ad altri contenuti.',
+    },
+    print: {
+      layout: 'Layout',
+      layouts: {
+        single: 'Codice singolo, pagina rifilata',
+        grid: 'Griglia di codici su una pagina',
+        'avery-l7160': 'Avery L7160 (A4, 21 etichette)',
+        'avery-5160': 'Avery 5160 (Letter, 30 etichette)',
+      },
+      perPage: '{count} codici per pagina',
+      pageSize: 'Formato pagina',
+      unit: 'Unità',
+      millimetres: 'Millimetri',
+      inches: 'Pollici',
+      resolution: 'I codici vengono stampati a {size}, generati a {pixels} × {pixels} px.',
+      sizeFromOutput: 'Imposta dimensione e risoluzione in Dimensioni e output.',
+      bleed: 'Abbondanza',
+      labelBleed: 'Le etichette sono fustellate: l\'abbondanza estende solo lo sfondo oltre il bordo.',
+      cropMarks: 'Segni di taglio',
+      caption: 'Didascalia',
+      captionHint: 'Stampata con ogni codice. Nelle esportazioni in blocco usa {column} per il valore di una colonna e {#} per il numero di riga.',
+    },
+    gallery: {
+      search: 'Cerca nel contenuto',
+      category: 'Categoria',
+      empty: 'Qui compaiono i codici che esporti o fissi.',
+      noMatches: 'Nessun codice corrisponde alla ricerca.',
+      selectAll: 'Seleziona tutto',
+      select: 'Seleziona',
+      deleteSelected: 'Elimina ({count})',
+      open: 'Apri nell\'editor',
+      duplicate: 'Duplica',
+      failed: 'Impossibile leggere o aggiornare la cronologia.',
+    },
+    batch: {
+      dropZone: 'Trascina un file CSV o JSON o fai clic per sfogliare',
+      loaded: '{rows} righe, {columns} colonne',
+      parseFailed: 'Il file non può essere letto come CSV con riga di intestazione o come array JSON di oggetti.',
+      template: 'Modello',
+      mapping: 'Colonne per ogni campo',
+      unmapped: '— non usata —',
+      fileName: 'Nomi dei file',
+      fileNameHint: 'Usa {column} per il valore di una colonna e {#} per il numero di riga.',
+      formats: 'Formati',
+      pdfLayout: 'I PDF seguono la sezione Layout di stampa: un file per riga, oppure un unico labels.pdf per griglie e fogli di etichette.',
+      generate: 'Scarica ZIP ({count} codici)',
+      generating: 'Generazione {done} di {total}…',
+      done: '{count} codici esportati.',
+      skipped: 'Righe saltate perché vuote o troppo lunghe da codificare: {rows}.',
+      failed: 'Impossibile creare il file ZIP.',
     },
   },
 
@@ -159,11 +467,60 @@ export const it: Translations = {
   qrPreview: {
     title: 'Anteprima',
     contentRequired: 'Il contenuto è obbligatorio',
+    fixFields: 'Correggi {count} campo/i evidenziato/i prima di esportare',
+    capacity: {
+      label: 'Capacità usata',
+      version: 'Versione {version} · {modules} × {modules} moduli',
+      modes: {
+        Numeric: 'Modalità numerica',
+        Alphanumeric: 'Modalità alfanumerica',
+        Byte: 'Modalità byte',
+      },
+      units: {
+        Numeric: 'cifre',
+        Alphanumeric: 'caratteri',
+        Byte: 'byte',
+      },
+      usage: '{used} di {max} {unit} ({percent}%).',
+      nextVersion: 'Altri {count} {unit} entrano prima che il codice passi alla versione {version}.',
+      lastVersion: 'Questa è la versione più grande.',
+      minPrintSize: 'Stampa con un lato di almeno {min} per avere moduli di {module} mm o più.',
+      printTooSmall: 'Con la dimensione di stampa di {size} i moduli sono più piccoli di {module} mm e i telefoni potrebbero non leggerli: stampa con un lato di almeno {min}.',
+    },
     copyToClipboard: 'Copia negli Appunti',
     copied: 'Copiato!',
+    pin: 'Fissa',
+    pinned: 'Fissato',
+    pinHint: 'Conserva questo codice nella cronologia',
     downloadAs: 'Scarica come',
+    qrBill: 'QR-fattura',
+    swissBill: {
+      receipt: 'Ricevuta',
+      paymentPart: 'Sezione pagamento',
+      account: 'Conto / Pagabile a',
+      reference: 'Riferimento',
+      additionalInfo: 'Informazioni supplementari',
+      payableBy: 'Pagabile da',
+      payableByBlank: 'Pagabile da (nome/indirizzo)',
+      currency: 'Valuta',
+      amount: 'Importo',
+      acceptancePoint: 'Punto di accettazione',
+    },
+    scan: {
+      checking: 'Verifica della leggibilità…',
+      high: 'Affidabilità di scansione: alta',
+      medium: 'Affidabilità di scansione: media',
+      fail: 'Verifica fallita: questo codice non può essere decodificato',
+      failedChecks: 'Non leggibile quando {checks}.',
+      checks: {
+        original: 'visualizzato così com\'è',
+        small: 'stampato piccolo',
+        blur: 'fuori fuoco',
+        noise: 'in scarsa illuminazione',
+      },
+    },
     errors: {
-      contentTooLong: 'Contenuto troppo lungo. Massimo {max} caratteri per il livello di correzione errori {level}.',
+      contentTooLong: 'Contenuto troppo lungo. Massimo {max} {unit} per il livello di correzione errori {level}.',
       failedToGenerate: 'Impossibile generare il codice QR.',
       failedToDownload: 'Impossibile scaricare',
       failedToInitialize: 'Impossibile inizializzare il codice QR',
@@ -13,6 +13,13 @@ export const ro: Translations = {
     title: 'Conținut QR',
     templateType: 'Tip Șablon',
     selectTemplate: 'Selectează Șablon',
+    payloadImport: {
+      title: 'Importă din payload',
+      placeholder: 'WIFI:T:WPA;S:ReteauaMea;P:secret;;',
+      hint: 'Lipiți conținutul brut al unui cod QR existent pentru a-i detecta șablonul și a completa formularul.',
+      unrecognized: 'Acest payload nu a putut fi recunoscut.',
+      apply: 'Detectează și completează',
+    },
     categories: {
       all: 'Toate',
       links: 'Link-uri',
@@ -40,6 +47,28 @@ export const ro: Translations = {
       snapchat: 'Snapchat',
       paypal: 'PayPal',
       bitcoin: 'Bitcoin',
+      epc: 'Transfer SEPA',
+      swissqr: 'Factură QR elvețiană',
+      pix: 'Pix (Brazilia)',
+      paynow: 'PayNow (Singapore)',
+      promptpay: 'PromptPay (Thailanda)',
+      upi: 'UPI (India)',
+    },
+    validation: {
+      invalidUrl: 'Introduceți o adresă completă, de exemplu https://example.com',
+      unsupportedScheme: 'Sunt acceptate doar adrese http:// și https://',
+      invalidEmail: 'Introduceți o adresă de email validă',
+      invalidPhone: 'Introduceți un număr de telefon valid în format internațional, de exemplu +40 712 345 678',
+      latitudeRange: 'Latitudinea trebuie să fie un număr între -90 și 90',
+      longitudeRange: 'Longitudinea trebuie să fie un număr între -180 și 180',
+      invalidBitcoinAddress: 'Aceasta nu este o adresă Bitcoin validă: verificați greșelile de tastare',
+      invalidAmount: 'Introduceți o sumă pozitivă, folosind punctul pentru zecimale',
+      amountRange: 'Suma este în afara intervalului permis',
+      referenceMismatch: 'Tipul referinței nu corespunde IBAN-ului',
+      invalidReference: 'Cifrele de control nu corespund: verificați referința pentru greșeli de tastare',
+      tooLong: 'Prea lung pentru codul de plată: scurtați-l',
+      endBeforeStart: 'Sfârșitul este înainte de început',
+      untilBeforeStart: 'Ultima dată este înainte de început',
     },
     form: {
       url: 'URL',
@@ -56,6 +85,34 @@ export const ro: Translations = {
       state: 'Județ',
       zipCode: 'Cod Poștal',
       country: 'Țară',
+      phones: 'Numere de Telefon',
+      emails: 'Adrese de Email',
+      addPhone: 'Adaugă telefon',
+      addEmail: 'Adaugă email',
+      entryType: 'Tip',
+      entryTypes: {
+        cell: 'Mobil',
+        work: 'Serviciu',
+        home: 'Acasă',
+      },
+      removeEntry: 'Elimină',
+      birthday: 'Zi de Naștere',
+      notes: 'Note',
+      socialProfiles: 'Profiluri Sociale',
+      socialProfilePlaceholder: 'https://linkedin.com/in/username',
+      addSocialProfile: 'Adaugă profil',
+      photo: 'Fotografie',
+      choosePhoto: 'Alege fotografia',
+      removePhoto: 'Elimină',
+      photoError: 'Imaginea nu a putut fi citită',
+      photoHint: 'Fotografia adaugă {size} KB la cod și îl face mult mai dens',
+      cardFormat: 'Formatul Cărții de Vizită',
+      cardFormats: {
+        vcard3: 'vCard 3.0 (cea mai largă compatibilitate)',
+        vcard4: 'vCard 4.0',
+        mecard: 'MeCard (compact)',
+      },
+      meCardHint: 'MeCard omite funcția, fotografia și tipurile de telefon și email',
       networkName: 'Nume Rețea (SSID)',
       networkNamePlaceholder: 'ReteaMeaWiFi',
       password: 'Parolă',
@@ -77,6 +134,32 @@ export const ro: Translations = {
       endDate: 'Data Încheierii',
       startDateTime: 'Data și Ora Începerii',
       endDateTime: 'Data și Ora Încheierii',
+      timeZone: 'Fus Orar',
+      useUTC: 'Convertește orele în UTC',
+      veventUTCHint: 'Codurile doar cu evenimentul nu pot include regulile fusului orar, așa că orele sunt convertite în UTC',
+      repeat: 'Repetare',
+      repeatNone: 'Nu se repetă',
+      repeatDaily: 'Zilnic',
+      repeatWeekly: 'Săptămânal',
+      repeatMonthly: 'Lunar',
+      repeatEnd: 'Se încheie',
+      repeatNever: 'Niciodată',
+      repeatUntil: 'La o dată',
+      repeatCount: 'După un număr de repetări',
+      repeatUntilDate: 'Ultima Dată',
+      occurrences: 'Repetări',
+      reminder: 'Memento',
+      reminderNone: 'Fără memento',
+      reminderAtStart: 'La ora de începere',
+      reminderMinutes: 'Cu {count} min înainte',
+      reminderHours: 'Cu {count} h înainte',
+      reminderDays: 'Cu {count} zi(le) înainte',
+      organizerName: 'Numele Organizatorului',
+      organizerEmail: 'Emailul Organizatorului',
+      eventUrl: 'URL Eveniment',
+      calendarFormat: 'Formatul Codului',
+      calendarFormatFull: 'Calendar (VCALENDAR)',
+      calendarFormatEvent: 'Doar eveniment (VEVENT)',
       latitude: 'Latitudine',
       latitudePlaceholder: '44.4268',
       longitude: 'Longitudine',
@@ -99,6 +182,54 @@ export const ro: Translations = {
       bitcoinAddress: 'Adresă Bitcoin',
       bitcoinAddressPlaceholder: 'bc1q...',
       amountBtc: 'Sumă (BTC)',
+      beneficiaryName: 'Nume Beneficiar',
+      beneficiaryNamePlaceholder: 'Companie S.R.L.',
+      iban: 'IBAN',
+      ibanPlaceholder: 'RO49 AAAA 1B31 0075 9384 0000',
+      bic: 'BIC (opțional)',
+      bicPlaceholder: 'RNCBROBUXXX',
+      amountEur: 'Sumă (EUR)',
+      amountRange: 'Suma trebuie să fie între {min} și {max} {currency}',
+      purposeCode: 'Cod Scop',
+      purposeCodePlaceholder: 'GDDS',
+      remittanceType: 'Detalii plată',
+      remittanceUnstructured: 'Text liber',
+      remittanceStructured: 'Referință creditor',
+      creditorReference: 'Referință Creditor',
+      creditorReferencePlaceholder: 'RF18 5390 0754 7034',
+      remittanceInfo: 'Detalii Plată',
+      remittanceInfoPlaceholder: 'Factura 2024-001',
+      name: 'Nume',
+      street: 'Stradă',
+      buildingNumber: 'Număr',
+      countryCode: 'Cod Țară',
+      swissIbanPlaceholder: 'CH44 3199 9123 0008 8901 2',
+      qrIbanRequiresQrr: 'Un QR-IBAN poate fi folosit doar cu o referință QR.',
+      qrrRequiresQrIban: 'O referință QR necesită un QR-IBAN.',
+      payableTo: 'Cont / Plătibil către',
+      paymentDetails: 'Plată',
+      payableBy: 'Plătibil de (opțional)',
+      referenceType: 'Tip Referință',
+      referenceQrr: 'Referință QR',
+      referenceScor: 'Referință creditor (ISO 11649)',
+      referenceNone: 'Fără referință',
+      reference: 'Referință',
+      additionalInfo: 'Informații Suplimentare',
+      pixKey: 'Cheie Pix',
+      pixKeyPlaceholder: 'CPF/CNPJ, email, telefon sau cheie aleatorie',
+      receiverName: 'Nume Beneficiar',
+      receiverCity: 'Oraș Beneficiar',
+      transactionId: 'ID Tranzacție',
+      staticAmountHint: 'Lăsați gol pentru ca plătitorul să introducă suma',
+      proxyType: 'Tip Identificator',
+      uen: 'UEN',
+      expiryDate: 'Data Expirării',
+      nationalId: 'Cod de Identificare / Fiscal',
+      eWalletId: 'ID Portofel Electronic',
+      promptPayId: 'ID PromptPay',
+      upiId: 'ID UPI (VPA)',
+      upiIdPlaceholder: 'nume@banca',
+      note: 'Notă',
     },
   },
 
@@ -110,12 +241,34 @@ export const ro: Translations = {
     undo: 'Anulează',
     redo: 'Refă',
     resetToDefaults: 'Resetează la implicit',
+    project: {
+      export: 'Exportă proiectul',
+      import: 'Importă proiect',
+      copyLink: 'Copiază linkul către acest design',
+      link: {
+        copied: 'Link copiat. Deschide generatorul cu acest design și conținut.',
+        copiedWithoutImages: 'Link copiat fără logo și imagini, care sunt prea mari pentru un link. Exportă proiectul pentru a-l partaja cu imaginile.',
+        tooLong: 'Acest design este prea mare pentru un link. Exportă proiectul pentru a-l partaja.',
+        failed: 'Linkul nu a putut fi copiat.',
+      },
+      errors: {
+        invalidJson: 'Fișierul proiectului nu este un JSON valid.',
+        notAProject: 'Fișierul nu este un proiect al generatorului QR.',
+        newerVersion: 'Proiectul a fost salvat de o versiune mai nouă a generatorului. Reîncarcă pagina și încearcă din nou.',
+      },
+    },
     sections: {
       errorCorrection: 'Corecție Erori',
+      output: 'Dimensiune și export',
       style: 'Stil',
       colors: 'Culori',
       background: 'Fundal',
+      frame: 'Ramă și text',
       centerLogo: 'Logo Central',
+      imageImport: 'Importă din Imagine',
+      print: 'Aspect tipărire',
+      batch: 'Export în lot',
+      gallery: 'Istoric',
     },
     errorCorrection: {
       level: 'Nivel',
@@ -125,6 +278,8 @@ export const ro: Translations = {
         Q: '~25% recuperare daune. Bună rezistență la daune moderate.',
         H: '~30% recuperare daune. Ideal când se folosește un logo central.',
       },
+      lockedByTemplate: 'Fixat la nivelul {level} conform specificației {template}.',
+      raisedForLogo: 'Generat la nivelul {level} deoarece logo-ul acoperă {share}% din module.',
     },
     style: {
       dotStyle: 'Stil Puncte',
@@ -133,18 +288,87 @@ export const ro: Translations = {
     },
     colors: {
       quickPresets: 'Presetări Rapide',
-      useGradient: 'Folosește Gradient pentru Puncte',
-      gradientType: 'Tip Gradient',
-      rotation: 'Rotație',
-      startColor: 'Început',
-      endColor: 'Sfârșit',
+      useGradient: 'Folosește Gradient',
+      gradientStop: '{color}, oprirea {number}',
       dotColor: 'Culoare Puncte',
       cornerSquare: 'Pătratul colțului',
       cornerDot: 'Punctul colțului',
+      moduleImage: 'Imagine Module',
+      moduleImageHint: 'Umple modulele închise cu o fotografie sau un model. Pătratele din colțuri își păstrează culorile, astfel încât scanerele găsesc în continuare codul.',
+    },
+    gradient: {
+      type: 'Tip Gradient',
+      types: { linear: 'Liniar', radial: 'Radial' },
+      rotation: 'Rotație',
+      addStopHint: 'Fă clic pentru a adăuga o oprire de culoare',
+      stop: 'Oprirea {number} la {offset}%',
+      stopColor: 'Culoarea opririi',
+      position: 'Poziție',
+      addStop: 'Adaugă oprire',
+      removeStop: 'Elimină oprirea',
+    },
+    stylePresets: {
+      title: 'Presetările mele',
+      namePlaceholder: 'Nume presetare',
+      save: 'Salvează stilul',
+      empty: 'Salvează culorile și gradienții, formele, logo-ul, dimensiunea, zona liniștită și corecția erorilor actuale pentru a le refolosi.',
+      apply: 'Aplică {name}',
+      rename: 'Redenumește',
+      moveUp: 'Mută în sus',
+      moveDown: 'Mută în jos',
+      delete: 'Șterge',
+      storageFull: 'Presetările nu au putut fi salvate: spațiul de stocare al browserului este plin. Încearcă un logo mai mic sau șterge presetările nefolosite.',
     },
     background: {
       transparent: 'Fundal Transparent',
       backgroundColor: 'Culoare Fundal',
+      image: 'Imagine de Fundal',
+      imageHint: 'O fotografie sau o textură desenată peste culoarea de fundal.',
+      contrastOverlay: 'Păstrează contrastul automat',
+      contrastOverlayHint: 'Așază un văl alb peste imaginea de fundal și unul închis peste imaginea modulelor, doar cât au nevoie scanerele.',
+    },
+    imageLayer: {
+      choose: 'Alege imaginea',
+      remove: 'Elimină imaginea',
+      loadFailed: 'Imaginea nu a putut fi citită. Încearcă un fișier PNG, JPEG sau WebP.',
+      fit: 'Încadrare',
+      fits: { cover: 'Acoperă', contain: 'Încadrează', tile: 'Repetă' },
+      tileSize: 'Dimensiune Dală',
+      opacity: 'Opacitate',
+      lightOverlay: 'Un văl alb de {percent}% păstrează modulele lizibile.',
+      darkOverlay: 'Un văl închis de {percent}% păstrează modulele lizibile.',
+    },
+    frame: {
+      style: 'Ramă',
+      styles: {
+        none: 'Fără',
+        box: 'Chenar cu text',
+        bubble: 'Balon de dialog',
+        badge: 'Insignă cu banderolă',
+        phone: 'Telefon',
+      },
+      hint: 'Desenată în jurul codului în previzualizare și în fiecare export, fără a acoperi zona liberă.',
+      caption: 'Text',
+      font: 'Font',
+      fonts: {
+        sans: 'Fără serife',
+        serif: 'Cu serife',
+        mono: 'Monospațiat',
+        rounded: 'Rotunjit',
+        condensed: 'Condensat',
+      },
+      icon: 'Pictogramă',
+      icons: {
+        none: 'Fără',
+        scan: 'Scanare',
+        phone: 'Telefon',
+        menu: 'Meniu',
+        link: 'Link',
+        wifi: 'Wi-Fi',
+      },
+      color: 'Culoarea ramei',
+      textColor: 'Culoarea textului',
+      lowContrast: 'Textul se citește greu pe culoarea ramei.',
     },
     logo: {
       dropZone: 'Trage sau click pentru încărcare',
@@ -152,6 +376,90 @@ export const ro: Translations = {
       removeLogo: 'Elimină logo',
       size: 'Dimensiune',
       margin: 'Margine',
+      replacedBySwissCross: 'Facturile QR afișează întotdeauna crucea elvețiană în centru în locul logo-ului.',
+      coverage: 'Acoperă {share}% din modulele acestui cod versiunea {version} ({count}×{count}) și folosește până la {budget}% din corecția erorilor la nivelul {level}.',
+      tooLarge: 'Logo-ul este prea mare pentru o scanare sigură la nivelul {level}. Reduceți-l la {max}% sau mai puțin.',
+      tooLargeAtMinimum: 'Chiar și la dimensiunea minimă, logo-ul este prea mare pentru o scanare sigură la nivelul {level}. Scurtați conținutul sau eliminați logo-ul.',
+    },
+    imageImport: {
+      dropZone: 'Plasați o imagine cu un cod QR (PNG, JPEG, SVG) sau faceți clic pentru a naviga',
+      decoding: 'Se decodează…',
+      detected: 'Am decodat un cod {template} și am completat formularul.',
+      unrecognized: 'Codul a fost decodat, dar conținutul nu corespunde niciunui șablon:',
+      decodedText: 'Text decodat',
+      notFound: 'Nu a fost găsit niciun cod QR în această imagine.',
+      loadFailed: 'Imaginea nu a putut fi citită.',
+    },
+    lint: {
+      lowContrast: '{color} este prea apropiată de fundal (diferență de luminanță {value}%, recomandat cel puțin {min}%).',
+      inverted: 'Modulele sunt mai deschise decât fundalul. Multe scanere nu pot citi coduri inversate.',
+      transparentLight: 'Cu fundal transparent, modulele deschise dispar pe paginile deschise.',
+      fix: 'Corectează',
+    },
+    output: {
+      unit: 'Unități',
+      units: {
+        px: 'Pixeli',
+        mm: 'Milimetri',
+        in: 'Inci',
+      },
+      dpi: 'Rezoluție',
+      size: 'Dimensiune',
+      sizeHint: '{pixels} × {pixels} px, tipărit la {size} la {dpi} DPI. Exporturile PNG, SVG și PDF păstrează această dimensiune.',
+      quietZone: 'Zonă liniștită',
+      modules: '{count} module',
+      quietZoneHint: 'Marginea goală din jurul codului, {pixels} px la versiunea curentă.',
+      quietZoneTooSmall: 'Standardul codurilor QR cere o zonă liniștită de cel puțin {min} module. Scanerele pot rata codurile tipărite aproape de alt conținut.',
+    },
+    print: {
+      layout: 'Aspect',
+      layouts: {
+        single: 'Un singur cod, pagină tăiată la dimensiune',
+        grid: 'Grilă de coduri pe o pagină',
+        'avery-l7160': 'Avery L7160 (A4, 21 etichete)',
+        'avery-5160': 'Avery 5160 (Letter, 30 etichete)',
+      },
+      perPage: '{count} coduri pe pagină',
+      pageSize: 'Dimensiune pagină',
+      unit: 'Unități',
+      millimetres: 'Milimetri',
+      inches: 'Inci',
+      resolution: 'Codurile se tipăresc la {size}, randate la {pixels} × {pixels} px.',
+      sizeFromOutput: 'Setați dimensiunea și rezoluția în Dimensiune și export.',
+      bleed: 'Bleed',
+      labelBleed: 'Etichetele sunt decupate: bleed-ul doar extinde fundalul dincolo de marginea etichetei.',
+      cropMarks: 'Semne de tăiere',
+      caption: 'Legendă',
+      captionHint: 'Se tipărește cu fiecare cod. La exportul în lot, folosește {column} pentru valoarea unei coloane și {#} pentru numărul rândului.',
+    },
+    gallery: {
+      search: 'Caută în conținut',
+      category: 'Categorie',
+      empty: 'Codurile pe care le exporți sau le fixezi apar aici.',
+      noMatches: 'Niciun cod nu corespunde căutării.',
+      selectAll: 'Selectează tot',
+      select: 'Selectează',
+      deleteSelected: 'Șterge ({count})',
+      open: 'Deschide în editor',
+      duplicate: 'Duplică',
+      failed: 'Istoricul nu a putut fi citit sau actualizat.',
+    },
+    batch: {
+      dropZone: 'Trageți un fișier CSV sau JSON sau faceți clic pentru a căuta',
+      loaded: '{rows} rânduri, {columns} coloane',
+      parseFailed: 'Fișierul nu a putut fi citit ca CSV cu rând de antet sau ca matrice JSON de obiecte.',
+      template: 'Șablon',
+      mapping: 'Coloane pentru fiecare câmp',
+      unmapped: '— nefolosită —',
+      fileName: 'Nume de fișiere',
+      fileNameHint: 'Folosiți {column} pentru valoarea unei coloane și {#} pentru numărul rândului.',
+      formats: 'Formate',
+      pdfLayout: 'PDF-urile urmează secțiunea Aspect tipărire: un fișier pe rând sau un singur labels.pdf pentru grile și coli de etichete.',
+      generate: 'Descarcă ZIP ({count} coduri)',
+      generating: 'Se generează {done} din {total}…',
+      done: '{count} coduri exportate.',
+      skipped: 'Rânduri omise, fără conținut sau prea lungi pentru codificare: {rows}.',
+      failed: 'Fișierul ZIP nu a putut fi creat.',
     },
   },
 
@@ -159,11 +467,61 @@ export const ro: Translations = {
   qrPreview: {
     title: 'Previzualizare',
     contentRequired: 'Conținut obligatoriu',
+    fixFields: 'Corectați {count} câmp(uri) evidențiat(e) înainte de export',
+    capacity: {
+      label: 'Capacitate folosită',
+      version: 'Versiunea {version} · {modules} × {modules} module',
+      modes: {
+        Numeric: 'Mod numeric',
+        Alphanumeric: 'Mod alfanumeric',
+        Byte: 'Mod octet',
+      },
+      units: {
+        Numeric: 'cifre',
+        Alphanumeric: 'caractere',
+        Byte: 'octeți',
+      },
+      usage: '{used} din {max} {unit} ({percent}%).',
+      nextVersion: 'Mai încap {count} {unit} înainte ca codul să treacă la versiunea {version}.',
+      lastVersion: 'Aceasta este cea mai mare versiune.',
+      minPrintSize: 'Tipăriți cu latura de cel puțin {min} pentru module de {module} mm sau mai mari.',
+      printTooSmall: 'La dimensiunea de tipărire de {size}, modulele sunt mai mici de {module} mm și telefoanele s-ar putea să nu le citească: tipăriți cu latura de cel puțin {min}.',
+    },
     copyToClipboard: 'Copiază în Clipboard',
     copied: 'Copiat!',
+    pin: 'Fixează',
+    pinned: 'Fixat',
+    pinHint: 'Păstrează acest cod în istoric',
     downloadAs: 'Descarcă ca',
+    qrBill: 'Factură QR',
+    // Romanian is not permitted on QR-bills, so the payment part falls back to English
+    swissBill: {
+      receipt: 'Receipt',
+      paymentPart: 'Payment part',
+      account: 'Account / Payable to',
+      reference: 'Reference',
+      additionalInfo: 'Additional information',
+      payableBy: 'Payable by',
+      payableByBlank: 'Payable by (name/address)',
+      currency: 'Currency',
+      amount: 'Amount',
+      acceptancePoint: 'Acceptance point',
+    },
+    scan: {
+      checking: 'Se verifică lizibilitatea…',
+      high: 'Încredere la scanare: ridicată',
+      medium: 'Încredere la scanare: medie',
+      fail: 'Verificare eșuată: acest cod nu poate fi decodat',
+      failedChecks: 'Nu a putut fi scanat când este {checks}.',
+      checks: {
+        original: 'afișat ca atare',
+        small: 'tipărit mic',
+        blur: 'nefocalizat',
+        noise: 'în lumină slabă',
+      },
+    },
     errors: {
-      contentTooLong: 'Conținutul este prea lung. Maximum {max} caractere pentru nivelul de corecție erori {level}.',
+      contentTooLong: 'Conținutul este prea lung. Maximum {max} {unit} pentru nivelul de corecție erori {level}.',
       failedToGenerate: 'Nu s-a putut genera codul QR.',
       failedToDownload: 'Nu s-a putut descărca',
       failedToInitialize: 'Nu s-a putut inițializa codul QR',
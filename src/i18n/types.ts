@@ -13,6 +13,14 @@ export interface Translations {
     title: string;
     templateType: string;
     selectTemplate: string;
+    // Reverse parser for existing payloads
+    payloadImport: {
+      title: string;
+      placeholder: string;
+      hint: string;
+      unrecognized: string;
+      apply: string;
+    };
     // Categories
     categories: {
       all: string;
@@ -42,8 +50,30 @@ export interface Translations {
       snapchat: string;
       paypal: string;
       bitcoin: string;
+      epc: string;
+      swissqr: string;
+      pix: string;
+      paynow: string;
+      promptpay: string;
+      upi: string;
     };
     // Form labels
+    validation: {
+      invalidUrl: string;
+      unsupportedScheme: string;
+      invalidEmail: string;
+      invalidPhone: string;
+      latitudeRange: string;
+      longitudeRange: string;
+      invalidBitcoinAddress: string;
+      invalidAmount: string;
+      amountRange: string;
+      referenceMismatch: string;
+      invalidReference: string;
+      tooLong: string;
+      endBeforeStart: string;
+      untilBeforeStart: string;
+    };
     form: {
       url: string;
       urlPlaceholder: string;
@@ -59,6 +89,34 @@ export interface Translations {
       state: string;
       zipCode: string;
       country: string;
+      phones: string;
+      emails: string;
+      addPhone: string;
+      addEmail: string;
+      entryType: string;
+      entryTypes: {
+        cell: string;
+        work: string;
+        home: string;
+      };
+      removeEntry: string;
+      birthday: string;
+      notes: string;
+      socialProfiles: string;
+      socialProfilePlaceholder: string;
+      addSocialProfile: string;
+      photo: string;
+      choosePhoto: string;
+      removePhoto: string;
+      photoError: string;
+      photoHint: string;
+      cardFormat: string;
+      cardFormats: {
+        vcard3: string;
+        vcard4: string;
+        mecard: string;
+      };
+      meCardHint: string;
       networkName: string;
       networkNamePlaceholder: string;
       password: string;
@@ -80,6 +138,32 @@ export interface Translations {
       endDate: string;
       startDateTime: string;
       endDateTime: string;
+      timeZone: string;
+      useUTC: string;
+      veventUTCHint: string;
+      repeat: string;
+      repeatNone: string;
+      repeatDaily: string;
+      repeatWeekly: string;
+      repeatMonthly: string;
+      repeatEnd: string;
+      repeatNever: string;
+      repeatUntil: string;
+      repeatCount: string;
+      repeatUntilDate: string;
+      occurrences: string;
+      reminder: string;
+      reminderNone: string;
+      reminderAtStart: string;
+      reminderMinutes: string;
+      reminderHours: string;
+      reminderDays: string;
+      organizerName: string;
+      organizerEmail: string;
+      eventUrl: string;
+      calendarFormat: string;
+      calendarFormatFull: string;
+      calendarFormatEvent: string;
       latitude: string;
       latitudePlaceholder: string;
       longitude: string;
@@ -102,6 +186,54 @@ export interface Translations {
       bitcoinAddress: string;
       bitcoinAddressPlaceholder: string;
       amountBtc: string;
+      beneficiaryName: string;
+      beneficiaryNamePlaceholder: string;
+      iban: string;
+      ibanPlaceholder: string;
+      bic: string;
+      bicPlaceholder: string;
+      amountEur: string;
+      amountRange: string;
+      purposeCode: string;
+      purposeCodePlaceholder: string;
+      remittanceType: string;
+      remittanceUnstructured: string;
+      remittanceStructured: string;
+      creditorReference: string;
+      creditorReferencePlaceholder: string;
+      remittanceInfo: string;
+      remittanceInfoPlaceholder: string;
+      name: string;
+      street: string;
+      buildingNumber: string;
+      countryCode: string;
+      swissIbanPlaceholder: string;
+      qrIbanRequiresQrr: string;
+      qrrRequiresQrIban: string;
+      payableTo: string;
+      paymentDetails: string;
+      payableBy: string;
+      referenceType: string;
+      referenceQrr: string;
+      referenceScor: string;
+      referenceNone: string;
+      reference: string;
+      additionalInfo: string;
+      pixKey: string;
+      pixKeyPlaceholder: string;
+      receiverName: string;
+      receiverCity: string;
+      transactionId: string;
+      staticAmountHint: string;
+      proxyType: string;
+      uen: string;
+      expiryDate: string;
+      nationalId: string;
+      eWalletId: string;
+      promptPayId: string;
+      upiId: string;
+      upiIdPlaceholder: string;
+      note: string;
     };
   };
 
@@ -113,13 +245,36 @@ export interface Translations {
     undo: string;
     redo: string;
     resetToDefaults: string;
+    // Design and content saved as a JSON document
+    project: {
+      export: string;
+      import: string;
+      copyLink: string;
+      link: {
+        copied: string;
+        copiedWithoutImages: string;
+        tooLong: string;
+        failed: string;
+      };
+      errors: {
+        invalidJson: string;
+        notAProject: string;
+        newerVersion: string;
+      };
+    };
     // Sections
     sections: {
       errorCorrection: string;
+      output: string;
       style: string;
       colors: string;
       background: string;
+      frame: string;
       centerLogo: string;
+      imageImport: string;
+      print: string;
+      batch: string;
+      gallery: string;
     };
     // Error Correction
     errorCorrection: {
@@ -130,6 +285,8 @@ export interface Translations {
         Q: string;
         H: string;
       };
+      lockedByTemplate: string;
+      raisedForLogo: string;
     };
     // Style
     style: {
@@ -141,18 +298,73 @@ export interface Translations {
     colors: {
       quickPresets: string;
       useGradient: string;
-      gradientType: string;
-      rotation: string;
-      startColor: string;
-      endColor: string;
+      // Lint label of a gradient stop, e.g. "Dot Color, stop 2"
+      gradientStop: string;
       dotColor: string;
       cornerSquare: string;
       cornerDot: string;
+      moduleImage: string;
+      moduleImageHint: string;
+    };
+    // Multi-stop gradient editor
+    gradient: {
+      type: string;
+      types: Record<'linear' | 'radial', string>;
+      rotation: string;
+      addStopHint: string;
+      stop: string;
+      stopColor: string;
+      position: string;
+      addStop: string;
+      removeStop: string;
+    };
+    // Saved complete styles
+    stylePresets: {
+      title: string;
+      namePlaceholder: string;
+      save: string;
+      empty: string;
+      apply: string;
+      rename: string;
+      moveUp: string;
+      moveDown: string;
+      delete: string;
+      storageFull: string;
     };
     // Background
     background: {
       transparent: string;
       backgroundColor: string;
+      image: string;
+      imageHint: string;
+      contrastOverlay: string;
+      contrastOverlayHint: string;
+    };
+    // Photo or texture layers
+    imageLayer: {
+      choose: string;
+      remove: string;
+      loadFailed: string;
+      fit: string;
+      fits: Record<'cover' | 'contain' | 'tile', string>;
+      tileSize: string;
+      opacity: string;
+      lightOverlay: string;
+      darkOverlay: string;
+    };
+    // Frame around the code
+    frame: {
+      style: string;
+      styles: Record<'none' | 'box' | 'bubble' | 'badge' | 'phone', string>;
+      hint: string;
+      caption: string;
+      font: string;
+      fonts: Record<'sans' | 'serif' | 'mono' | 'rounded' | 'condensed', string>;
+      icon: string;
+      icons: Record<'none' | 'scan' | 'phone' | 'menu' | 'link' | 'wifi', string>;
+      color: string;
+      textColor: string;
+      lowContrast: string;
     };
     // Logo
     logo: {
@@ -161,6 +373,94 @@ export interface Translations {
       removeLogo: string;
       size: string;
       margin: string;
+      replacedBySwissCross: string;
+      coverage: string;
+      tooLarge: string;
+      tooLargeAtMinimum: string;
+    };
+    // Decoding existing QR codes from images
+    imageImport: {
+      dropZone: string;
+      decoding: string;
+      detected: string;
+      unrecognized: string;
+      decodedText: string;
+      notFound: string;
+      loadFailed: string;
+    };
+    lint: {
+      lowContrast: string;
+      inverted: string;
+      transparentLight: string;
+      fix: string;
+    };
+    // Physical size and page layout of PDF exports
+    output: {
+      unit: string;
+      units: {
+        px: string;
+        mm: string;
+        in: string;
+      };
+      dpi: string;
+      size: string;
+      sizeHint: string;
+      quietZone: string;
+      modules: string;
+      quietZoneHint: string;
+      quietZoneTooSmall: string;
+    };
+    print: {
+      layout: string;
+      layouts: {
+        single: string;
+        grid: string;
+        'avery-l7160': string;
+        'avery-5160': string;
+      };
+      perPage: string;
+      pageSize: string;
+      unit: string;
+      millimetres: string;
+      inches: string;
+      resolution: string;
+      sizeFromOutput: string;
+      bleed: string;
+      labelBleed: string;
+      cropMarks: string;
+      caption: string;
+      captionHint: string;
+    };
+    // Exported and pinned codes kept in the browser
+    gallery: {
+      search: string;
+      category: string;
+      empty: string;
+      noMatches: string;
+      selectAll: string;
+      select: string;
+      deleteSelected: string;
+      open: string;
+      duplicate: string;
+      failed: string;
+    };
+    // Generating one code per row of a CSV or JSON file
+    batch: {
+      dropZone: string;
+      loaded: string;
+      parseFailed: string;
+      template: string;
+      mapping: string;
+      unmapped: string;
+      fileName: string;
+      fileNameHint: string;
+      formats: string;
+      pdfLayout: string;
+      generate: string;
+      generating: string;
+      done: string;
+      skipped: string;
+      failed: string;
     };
   };
 
@@ -168,9 +468,60 @@ export interface Translations {
   qrPreview: {
     title: string;
     contentRequired: string;
+    fixFields: string;
+    capacity: {
+      label: string;
+      version: string;
+      modes: {
+        Numeric: string;
+        Alphanumeric: string;
+        Byte: string;
+      };
+      units: {
+        Numeric: string;
+        Alphanumeric: string;
+        Byte: string;
+      };
+      usage: string;
+      nextVersion: string;
+      lastVersion: string;
+      minPrintSize: string;
+      printTooSmall: string;
+    };
     copyToClipboard: string;
     copied: string;
+    pin: string;
+    pinned: string;
+    pinHint: string;
     downloadAs: string;
+    qrBill: string;
+    // Swiss QR-bill payment part (only DE/FR/IT/EN are permitted by the standard)
+    swissBill: {
+      receipt: string;
+      paymentPart: string;
+      account: string;
+      reference: string;
+      additionalInfo: string;
+      payableBy: string;
+      payableByBlank: string;
+      currency: string;
+      amount: string;
+      acceptancePoint: string;
+    };
+    // Scannability verification of the rendered code
+    scan: {
+      checking: string;
+      high: string;
+      medium: string;
+      fail: string;
+      failedChecks: string;
+      checks: {
+        original: string;
+        small: string;
+        blur: string;
+        noise: string;
+      };
+    };
     errors: {
       contentTooLong: string;
       failedToGenerate: string;
@@ -1,5 +1,6 @@
 import type { DotType, CornerSquareType, CornerDotType, GradientType, ErrorCorrectionLevel } from 'qr-code-styling';
 import { getCountries, getCountryCallingCode, type CountryCode } from 'libphonenumber-js';
+import type { ModuleShapeType } from '../utils/moduleShapes';
 
 // Template Categories
 export type TemplateCategory = 'all' | 'links' | 'contact' | 'social' | 'payment';
@@ -15,7 +16,7 @@ export type QRTemplateType =
   // Social
   | 'instagram' | 'twitter' | 'linkedin' | 'tiktok' | 'youtube' | 'facebook' | 'snapchat'
   // Payment
-  | 'paypal' | 'bitcoin'
+  | 'paypal' | 'bitcoin' | 'epc' | 'swissqr' | 'pix' | 'paynow' | 'promptpay' | 'upi'
   // Utilities
   | 'wifi' | 'calendar' | 'location';
 
@@ -23,19 +24,35 @@ export interface URLData {
   url: string;
 }
 
+export type VCardEntryType = 'cell' | 'work' | 'home';
+
+// A typed phone number or email address
+export interface VCardEntry {
+  type: VCardEntryType;
+  value: string;
+}
+
+// vCard 3.0 is read by every scanner, 4.0 by current ones; MeCard is the most compact
+export type VCardFormat = 'vcard3' | 'vcard4' | 'mecard';
+
 export interface VCardData {
   firstName: string;
   lastName: string;
   organization: string;
   title: string;
-  phone: string;
-  email: string;
+  phones: VCardEntry[];
+  emails: VCardEntry[];
   website: string;
   address: string;
   city: string;
   state: string;
   zip: string;
   country: string;
+  birthday: string; // YYYY-MM-DD
+  note: string;
+  socialProfiles: string[]; // Profile URLs
+  photo: string; // Data URL of a small JPEG, or a link
+  format: VCardFormat;
 }
 
 export interface WiFiData {
@@ -57,13 +74,29 @@ export interface SMSData {
   message: string;
 }
 
+export type CalendarRepeat = 'none' | 'DAILY' | 'WEEKLY' | 'MONTHLY';
+export type CalendarRepeatEnd = 'never' | 'until' | 'count';
+// A full VCALENDAR object, or a bare VEVENT for scanners that expect only the event
+export type CalendarFormat = 'vcalendar' | 'vevent';
+
 export interface CalendarData {
   title: string;
   location: string;
   description: string;
-  startDate: string; // ISO format
-  endDate: string; // ISO format
+  startDate: string; // ISO format, wall time in timeZone
+  endDate: string; // ISO format, wall time in timeZone
   allDay: boolean;
+  timeZone: string; // IANA time zone
+  useUTC: boolean; // Convert the times to UTC instead of writing a TZID and VTIMEZONE
+  repeat: CalendarRepeat;
+  repeatEnd: CalendarRepeatEnd;
+  repeatUntil: string; // YYYY-MM-DD, last day of the recurrence
+  repeatCount: string;
+  reminder: string; // Minutes before the start, empty for no reminder
+  organizerName: string;
+  organizerEmail: string;
+  url: string;
+  format: CalendarFormat;
 }
 
 export interface LocationData {
@@ -110,70 +143,253 @@ export interface BitcoinData {
   label?: string;
 }
 
+// SEPA Credit Transfer Data (EPC069-12 "GiroCode")
+export interface EPCData {
+  name: string; // Beneficiary name, max 70 chars
+  iban: string;
+  bic: string; // Optional in EEA (version 002)
+  amount: string; // EUR, 0.01 - 999999999.99
+  purpose: string; // 4-letter ISO 20022 purpose code
+  remittanceType: 'structured' | 'unstructured';
+  reference: string; // Structured creditor reference, max 35 chars
+  text: string; // Unstructured remittance, max 140 chars
+}
+
+// EPC069-12 field limits
+export const EPC_LIMITS = {
+  name: 70,
+  iban: 34,
+  bic: 11,
+  purpose: 4,
+  reference: 35,
+  text: 140,
+  minAmount: 0.01,
+  maxAmount: 999999999.99,
+} as const;
+
+// Swiss QR-bill structured address (address type "S")
+export interface SwissQRAddress {
+  name: string;
+  street: string;
+  buildingNumber: string;
+  postalCode: string;
+  town: string;
+  country: string; // ISO 3166-1 alpha-2
+}
+
+// Swiss QR-bill Data (Swiss Payments Code, version 2.0)
+export interface SwissQRData {
+  iban: string; // QR-IBAN for QRR references, regular IBAN otherwise
+  creditor: SwissQRAddress;
+  amount: string; // Empty for an open amount
+  currency: 'CHF' | 'EUR';
+  debtor: SwissQRAddress; // Optional, left blank when unknown
+  referenceType: 'QRR' | 'SCOR' | 'NON';
+  reference: string; // Entered without check digits, completed on output
+  message: string; // Unstructured message, max 140 chars
+}
+
+// Swiss Implementation Guidelines field limits
+export const SWISS_QR_LIMITS = {
+  name: 70,
+  street: 70,
+  buildingNumber: 16,
+  postalCode: 16,
+  town: 35,
+  qrReference: 26, // Without the mod-10 check digit
+  creditorReference: 21, // Without the RF prefix and check digits
+  message: 140,
+  minAmount: 0.01,
+  maxAmount: 999999999.99,
+} as const;
+
+// EMVCo merchant-presented payments: an empty amount yields a reusable static code. PayNow and
+// PromptPay codes with a fixed amount are dynamic (single transaction); Pix codes always stay static
+
+// Brazil Pix Data (BR Code)
+export interface PixData {
+  key: string; // Pix key: CPF/CNPJ, phone, email or random key
+  name: string; // Receiver name, max 25 chars
+  city: string; // Receiver city, max 15 chars
+  amount: string; // BRL
+  txid: string; // Transaction ID, alphanumeric, max 25 chars
+  description: string;
+}
+
+// Pix field limits: the key and description share the 99-character merchant account template
+export const PIX_LIMITS = {
+  key: 77,
+  accountInformation: 99,
+} as const;
+
+// Singapore PayNow Data
+export interface PayNowData {
+  proxyType: 'mobile' | 'uen';
+  proxy: string; // Mobile number with country code, or company UEN
+  name: string; // Merchant name, max 25 chars
+  amount: string; // SGD
+  reference: string; // Bill number shown to the payer
+  expiry: string; // YYYY-MM-DD, optional
+}
+
+// Thailand PromptPay Data
+export interface PromptPayData {
+  idType: 'mobile' | 'nationalId' | 'ewallet';
+  id: string;
+  amount: string; // THB
+}
+
+// India UPI Data (upi://pay deep link)
+export interface UPIData {
+  vpa: string; // Virtual payment address, e.g. name@bank
+  name: string;
+  amount: string; // INR
+  note: string;
+  reference: string;
+}
+
 export type QRTemplateData =
   | URLData | VCardData | WiFiData | EmailData | SMSData | CalendarData | LocationData
-  | PhoneData | WhatsAppData | TelegramData | SocialMediaData | PayPalData | BitcoinData;
+  | PhoneData | WhatsAppData | TelegramData | SocialMediaData | PayPalData | BitcoinData
+  | EPCData | SwissQRData | PixData | PayNowData | PromptPayData | UPIData;
+
+// Form data of every template, kept so switching templates does not lose input
+export interface TemplateDataMap {
+  url: URLData;
+  vcard: VCardData;
+  email: EmailData;
+  sms: SMSData;
+  phone: PhoneData;
+  whatsapp: WhatsAppData;
+  telegram: TelegramData;
+  instagram: SocialMediaData;
+  twitter: SocialMediaData;
+  linkedin: SocialMediaData;
+  tiktok: SocialMediaData;
+  youtube: SocialMediaData;
+  facebook: SocialMediaData;
+  snapchat: SocialMediaData;
+  paypal: PayPalData;
+  bitcoin: BitcoinData;
+  epc: EPCData;
+  swissqr: SwissQRData;
+  pix: PixData;
+  paynow: PayNowData;
+  promptpay: PromptPayData;
+  upi: UPIData;
+  wifi: WiFiData;
+  calendar: CalendarData;
+  location: LocationData;
+}
 
 export interface GradientConfig {
   enabled: boolean;
   type: GradientType;
+  // Offsets from 0 to 1, in any order
   colorStops: { offset: number; color: string }[];
-  rotation: number;
+  rotation: number; // Degrees
+}
+
+// Parts of the code that take either a solid colour or a gradient,
+// stored as `${target}Color` and `${target}Gradient`
+export type GradientTarget = 'dot' | 'cornerSquare' | 'cornerDot' | 'background';
+
+// Dots are drawn by the renderer, or by the app for the module shapes in utils/moduleShapes
+export type QRDotType = DotType | ModuleShapeType;
+
+// How an image layer fills its area: cropped to cover it, letterboxed inside it, or repeated
+export type ImageFit = 'cover' | 'contain' | 'tile';
+
+// Photo or texture drawn behind the code or inside its dark modules
+export interface ImageLayer {
+  src: string; // Data URL, empty when the layer is off
+  width: number; // Pixel size of the image, for its aspect ratio
+  height: number;
+  // Luminance (0-1) of the darkest and lightest parts, ignoring the outer 5% at each end
+  darkLuminance: number;
+  lightLuminance: number;
+  fit: ImageFit;
+  tileSize: number; // Tile width as a share of the code edge
+  opacity: number; // 0-1
+}
+
+// Frame drawn around the code, with a call-to-action caption
+export type FrameStyle = 'none' | 'box' | 'bubble' | 'badge' | 'phone';
+export type FrameFont = 'sans' | 'serif' | 'mono' | 'rounded' | 'condensed';
+export type FrameIcon = 'none' | 'scan' | 'phone' | 'menu' | 'link' | 'wifi';
+
+export interface FrameSettings {
+  style: FrameStyle;
+  caption: string;
+  font: FrameFont;
+  color: string; // Frame, banner and bubble fill
+  textColor: string; // Caption and icon
+  icon: FrameIcon;
+}
+
+// Size of the exported code: pixels relate to physical lengths through the DPI
+export type SizeUnit = 'px' | 'mm' | 'in';
+
+export const sizeUnits: SizeUnit[] = ['px', 'mm', 'in'];
+
+export interface OutputSettings {
+  unit: SizeUnit; // Unit the size is shown and entered in
+  dpi: number; // Pixels per inch of PNG exports and print rasters
+}
+
+// Print layout for PDF exports; lengths are stored in millimetres
+export type PrintUnit = 'mm' | 'in';
+export type PageSizeId = 'a4' | 'letter';
+export type PrintLayoutId = 'single' | 'grid' | 'avery-l7160' | 'avery-5160';
+
+export interface PrintSettings {
+  layout: PrintLayoutId;
+  pageSize: PageSizeId; // Page of the grid layout; label sheets fix their own
+  unit: PrintUnit; // Unit lengths are shown in
+  bleed: number;
+  cropMarks: boolean;
+  caption: string;
 }
 
 export interface QROptions {
   data: string;
   templateType: QRTemplateType;
+  templateData: TemplateDataMap;
+  // Edge in pixels, quiet zone included
   size: number;
-  margin: number;
+  // Quiet zone around the code, in modules
+  quietZone: number;
+  output: OutputSettings;
   // Error correction
   errorCorrectionLevel: ErrorCorrectionLevel;
   // Dot options
   dotColor: string;
   dotGradient: GradientConfig;
-  dotType: DotType;
+  dotType: QRDotType;
   // Corner square options
   cornerSquareColor: string;
+  cornerSquareGradient: GradientConfig;
   cornerSquareType: CornerSquareType;
   // Corner dot options
   cornerDotColor: string;
+  cornerDotGradient: GradientConfig;
   cornerDotType: CornerDotType;
   // Background options
   backgroundColor: string;
+  backgroundGradient: GradientConfig;
   transparentBackground: boolean;
+  // Image layers, and the white and black veils that keep them in contrast
+  backgroundImage: ImageLayer;
+  moduleImage: ImageLayer;
+  contrastOverlay: boolean;
   // Image options
   image: string;
   imageSize: number;
   imageMargin: number;
+  frame: FrameSettings;
+  // Print layout
+  print: PrintSettings;
 }
-export const defaultQROptions: QROptions = {
-  data: '',
-  templateType: 'url',
-  size: 300,
-  margin: 10,
-  errorCorrectionLevel: 'M',
-  dotColor: '#000000',
-  dotGradient: {
-    enabled: false,
-    type: 'linear',
-    colorStops: [
-      { offset: 0, color: '#000000' },
-      { offset: 1, color: '#4a90d9' },
-    ],
-    rotation: 0,
-  },
-  dotType: 'square',
-  cornerSquareColor: '#000000',
-  cornerSquareType: 'square',
-  cornerDotColor: '#000000',
-  cornerDotType: 'square',
-  backgroundColor: '#ffffff',
-  transparentBackground: false,
-  image: '',
-  imageSize: 0.2,
-  imageMargin: 5,
-};
-
 // Default template data
 export const defaultURLData: URLData = {
   url: '',
@@ -184,14 +400,19 @@ export const defaultVCardData: VCardData = {
   lastName: '',
   organization: '',
   title: '',
-  phone: '',
-  email: '',
+  phones: [{ type: 'cell', value: '' }, { type: 'work', value: '' }],
+  emails: [{ type: 'work', value: '' }],
   website: '',
   address: '',
   city: '',
   state: '',
   zip: '',
   country: '',
+  birthday: '',
+  note: '',
+  socialProfiles: [],
+  photo: '',
+  format: 'vcard3',
 };
 
 export const defaultWiFiData: WiFiData = {
@@ -216,16 +437,19 @@ export const defaultSMSData: SMSData = {
 // Helper to get current datetime in format for datetime-local input
 const getCurrentDateTime = (): string => {
   const now = new Date();
-  // Format: YYYY-MM-DDTHH:MM
-  return now.toISOString().slice(0, 16);
+  // Format: YYYY-MM-DDTHH:MM, in local time like the datetime-local inputs
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
 };
 
 // Helper to get datetime 1 hour from now
 const getOneHourLater = (): string => {
   const later = new Date(Date.now() + 60 * 60 * 1000);
-  return later.toISOString().slice(0, 16);
+  return new Date(later.getTime() - later.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
 };
 
+// IANA time zone of the browser
+export const getLocalTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
 export const getDefaultCalendarData = (): CalendarData => ({
   title: '',
   location: '',
@@ -233,6 +457,17 @@ export const getDefaultCalendarData = (): CalendarData => ({
   startDate: getCurrentDateTime(),
   endDate: getOneHourLater(),
   allDay: false,
+  timeZone: getLocalTimeZone(),
+  useUTC: false,
+  repeat: 'none',
+  repeatEnd: 'never',
+  repeatUntil: '',
+  repeatCount: '10',
+  reminder: '',
+  organizerName: '',
+  organizerEmail: '',
+  url: '',
+  format: 'vcalendar',
 });
 
 export const defaultLocationData: LocationData = {
@@ -273,12 +508,195 @@ export const defaultBitcoinData: BitcoinData = {
   label: '',
 };
 
+export const defaultEPCData: EPCData = {
+  name: '',
+  iban: '',
+  bic: '',
+  amount: '',
+  purpose: '',
+  remittanceType: 'unstructured',
+  reference: '',
+  text: '',
+};
+
+const emptySwissQRAddress: SwissQRAddress = {
+  name: '',
+  street: '',
+  buildingNumber: '',
+  postalCode: '',
+  town: '',
+  country: 'CH',
+};
+
+export const defaultSwissQRData: SwissQRData = {
+  iban: '',
+  creditor: emptySwissQRAddress,
+  amount: '',
+  currency: 'CHF',
+  debtor: emptySwissQRAddress,
+  referenceType: 'NON',
+  reference: '',
+  message: '',
+};
+
+export const defaultPixData: PixData = {
+  key: '',
+  name: '',
+  city: '',
+  amount: '',
+  txid: '',
+  description: '',
+};
+
+export const defaultPayNowData: PayNowData = {
+  proxyType: 'mobile',
+  proxy: '',
+  name: '',
+  amount: '',
+  reference: '',
+  expiry: '',
+};
+
+export const defaultPromptPayData: PromptPayData = {
+  idType: 'mobile',
+  id: '',
+  amount: '',
+};
+
+export const defaultUPIData: UPIData = {
+  vpa: '',
+  name: '',
+  amount: '',
+  note: '',
+  reference: '',
+};
+
+export const getDefaultTemplateDataMap = (): TemplateDataMap => ({
+  url: defaultURLData,
+  vcard: defaultVCardData,
+  email: defaultEmailData,
+  sms: defaultSMSData,
+  phone: defaultPhoneData,
+  whatsapp: defaultWhatsAppData,
+  telegram: defaultTelegramData,
+  instagram: defaultSocialMediaData,
+  twitter: defaultSocialMediaData,
+  linkedin: defaultSocialMediaData,
+  tiktok: defaultSocialMediaData,
+  youtube: defaultSocialMediaData,
+  facebook: defaultSocialMediaData,
+  snapchat: defaultSocialMediaData,
+  paypal: defaultPayPalData,
+  bitcoin: defaultBitcoinData,
+  epc: defaultEPCData,
+  swissqr: defaultSwissQRData,
+  pix: defaultPixData,
+  paynow: defaultPayNowData,
+  promptpay: defaultPromptPayData,
+  upi: defaultUPIData,
+  wifi: defaultWiFiData,
+  calendar: getDefaultCalendarData(),
+  location: defaultLocationData,
+});
+
+export const defaultImageLayer: ImageLayer = {
+  src: '',
+  width: 0,
+  height: 0,
+  darkLuminance: 0,
+  lightLuminance: 1,
+  fit: 'cover',
+  tileSize: 0.25,
+  opacity: 1,
+};
+
+export const defaultQROptions: QROptions = {
+  data: '',
+  templateType: 'url',
+  templateData: getDefaultTemplateDataMap(),
+  size: 300,
+  quietZone: 4,
+  output: {
+    unit: 'px',
+    dpi: 300,
+  },
+  errorCorrectionLevel: 'M',
+  dotColor: '#000000',
+  dotGradient: {
+    enabled: false,
+    type: 'linear',
+    colorStops: [
+      { offset: 0, color: '#000000' },
+      { offset: 1, color: '#4a90d9' },
+    ],
+    rotation: 0,
+  },
+  dotType: 'square',
+  cornerSquareColor: '#000000',
+  cornerSquareGradient: {
+    enabled: false,
+    type: 'linear',
+    colorStops: [
+      { offset: 0, color: '#000000' },
+      { offset: 1, color: '#4a90d9' },
+    ],
+    rotation: 0,
+  },
+  cornerSquareType: 'square',
+  cornerDotColor: '#000000',
+  cornerDotGradient: {
+    enabled: false,
+    type: 'linear',
+    colorStops: [
+      { offset: 0, color: '#000000' },
+      { offset: 1, color: '#4a90d9' },
+    ],
+    rotation: 0,
+  },
+  cornerDotType: 'square',
+  backgroundColor: '#ffffff',
+  backgroundGradient: {
+    enabled: false,
+    type: 'linear',
+    colorStops: [
+      { offset: 0, color: '#ffffff' },
+      { offset: 1, color: '#e8f0fb' },
+    ],
+    rotation: 0,
+  },
+  transparentBackground: false,
+  backgroundImage: defaultImageLayer,
+  moduleImage: defaultImageLayer,
+  contrastOverlay: true,
+  image: '',
+  imageSize: 0.2,
+  imageMargin: 5,
+  frame: {
+    style: 'none',
+    caption: 'Scan me',
+    font: 'sans',
+    color: '#000000',
+    textColor: '#ffffff',
+    icon: 'scan',
+  },
+  print: {
+    layout: 'single',
+    pageSize: 'a4',
+    unit: 'mm',
+    bleed: 0,
+    cropMarks: false,
+    caption: '',
+  },
+};
+
 // Template definition with categories
 export interface TemplateDefinition {
   type: QRTemplateType;
   label: string;
   category: TemplateCategory;
   description: string;
+  // Error correction level mandated by the payload specification, if any
+  errorCorrectionLevel?: ErrorCorrectionLevel;
 }
 
 export const templateDefinitions: TemplateDefinition[] = [
@@ -302,18 +720,37 @@ export const templateDefinitions: TemplateDefinition[] = [
   // Payment
   { type: 'paypal', label: 'PayPal', category: 'payment', description: 'PayPal payment' },
   { type: 'bitcoin', label: 'Bitcoin', category: 'payment', description: 'Bitcoin address' },
+  { type: 'epc', label: 'SEPA Transfer', category: 'payment', description: 'SEPA credit transfer (GiroCode)', errorCorrectionLevel: 'M' },
+  { type: 'swissqr', label: 'Swiss QR-bill', category: 'payment', description: 'Swiss QR-bill payment part', errorCorrectionLevel: 'M' },
+  { type: 'pix', label: 'Pix', category: 'payment', description: 'Brazil Pix (BR Code)' },
+  { type: 'paynow', label: 'PayNow', category: 'payment', description: 'Singapore PayNow' },
+  { type: 'promptpay', label: 'PromptPay', category: 'payment', description: 'Thailand PromptPay' },
+  { type: 'upi', label: 'UPI', category: 'payment', description: 'India UPI payment' },
   // Utilities (shown in 'all' or could add 'utilities' category)
   { type: 'wifi', label: 'WiFi', category: 'links', description: 'WiFi credentials' },
   { type: 'calendar', label: 'Event', category: 'links', description: 'Calendar event' },
   { type: 'location', label: 'Location', category: 'links', description: 'Geo location' },
 ];
 
+// Error correction level mandated by a template's payload specification, if any
+export const getRequiredErrorCorrectionLevel = (type: QRTemplateType): ErrorCorrectionLevel | undefined =>
+  templateDefinitions.find((def) => def.type === type)?.errorCorrectionLevel;
+
 
 
 export const dotTypes: DotType[] = ['square', 'rounded', 'dots', 'classy', 'classy-rounded', 'extra-rounded'];
 export const cornerSquareTypes: CornerSquareType[] = ['square', 'rounded', 'dots', 'classy', 'classy-rounded', 'extra-rounded', 'dot'];
 export const cornerDotTypes: CornerDotType[] = ['square', 'rounded', 'dots', 'classy', 'classy-rounded', 'extra-rounded', 'dot'];
 export const gradientTypes: GradientType[] = ['linear', 'radial'];
+export const gradientTargets: GradientTarget[] = ['dot', 'cornerSquare', 'cornerDot', 'background'];
+export const imageFits: ImageFit[] = ['cover', 'contain', 'tile'];
+export const frameStyles: FrameStyle[] = ['none', 'box', 'bubble', 'badge', 'phone'];
+export const frameFonts: FrameFont[] = ['sans', 'serif', 'mono', 'rounded', 'condensed'];
+export const frameIcons: FrameIcon[] = ['none', 'scan', 'phone', 'menu', 'link', 'wifi'];
+
+// Stop at the end of a gradient, whatever the order of the stops
+export const getLastStop = (gradient: GradientConfig) =>
+  gradient.colorStops.reduce((last, stop) => (stop.offset >= last.offset ? stop : last));
 export const errorCorrectionLevels: { value: ErrorCorrectionLevel; label: string; description: string }[] = [
   { value: 'L', label: 'Low (L)', description: '~7% damage recovery. Best for clean environments.' },
   { value: 'M', label: 'Medium (M)', description: '~15% damage recovery. Good balance of size and reliability.' },
@@ -367,3 +804,22 @@ export const defaultColorPresets: ColorPreset[] = [
   { name: 'Purple', dotColor: '#7b2cbf', cornerSquareColor: '#5a189a', cornerDotColor: '#3c096c', backgroundColor: '#e0aaff' },
   { name: 'Monochrome', dotColor: '#333333', cornerSquareColor: '#1a1a1a', cornerDotColor: '#000000', backgroundColor: '#f5f5f5' },
 ];
+
+// Options that make up the visual style, as saved in user presets
+export const STYLE_OPTION_KEYS = [
+  'size', 'quietZone', 'errorCorrectionLevel',
+  'dotColor', 'dotGradient', 'dotType',
+  'cornerSquareColor', 'cornerSquareGradient', 'cornerSquareType', 'cornerDotColor', 'cornerDotGradient', 'cornerDotType',
+  'backgroundColor', 'backgroundGradient', 'transparentBackground',
+  'backgroundImage', 'moduleImage', 'contrastOverlay',
+  'image', 'imageSize', 'imageMargin', 'frame',
+] as const satisfies readonly (keyof QROptions)[];
+
+export type StyleOptions = Pick<QROptions, typeof STYLE_OPTION_KEYS[number]>;
+
+// User preset, stored under PRESETS_KEY
+export interface StylePreset {
+  id: string;
+  name: string;
+  style: StyleOptions;
+}
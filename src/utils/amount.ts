@@ -0,0 +1,14 @@
+// Amounts as typed or pasted from spreadsheets in any locale: "1234.5", "1,50", "1.234,56",
+// "1,234.56" or "1 234,56". The decimal separator is the last comma or dot followed by one
+// or two digits; any other separator must group thousands.
+export const parseDecimalAmount = (value: string): number => {
+  const compact = value.trim().replace(/[\s'’]/g, '');
+  const match = /^([1-9]\d{0,2}([.,])\d{3}(?:\2\d{3})*|\d+)(?:[.,](\d{1,2}))?$/.exec(compact);
+  if (!match) return NaN;
+  const [, whole, groupSeparator, decimals] = match;
+  // The same character cannot both group thousands and mark the decimals
+  if (groupSeparator && decimals !== undefined && compact[compact.length - decimals.length - 1] === groupSeparator) {
+    return NaN;
+  }
+  return Number(`${whole.replace(/[.,]/g, '')}.${decimals ?? '0'}`);
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { parseBatchFile, parseCSV } from './batch';
+
+describe('parseCSV', () => {
+  it('keeps delimiters, doubled quotes and line breaks inside quoted fields', () => {
+    const table = parseCSV('name,note\n"Rossi, Mario","Says ""hi""\nsecond line"\nBianchi,plain\n');
+    expect(table).toEqual({
+      columns: ['name', 'note'],
+      rows: [
+        { name: 'Rossi, Mario', note: 'Says "hi"\nsecond line' },
+        { name: 'Bianchi', note: 'plain' },
+      ],
+    });
+  });
+
+  it('reads CRLF line endings, a byte order mark and semicolon delimiters', () => {
+    const table = parseCSV('\uFEFFssid;password\r\n"Cafe;Guest";secret\r\n\r\nOffice;"a\r\nb"\r\n');
+    expect(table).toEqual({
+      columns: ['ssid', 'password'],
+      rows: [
+        { ssid: 'Cafe;Guest', password: 'secret' },
+        { ssid: 'Office', password: 'a\r\nb' },
+      ],
+    });
+  });
+
+  it('fills missing trailing fields and needs a header and a row', () => {
+    expect(parseCSV('a,b,c\n1')?.rows).toEqual([{ a: '1', b: '', c: '' }]);
+    expect(parseCSV('a,b,c\n')).toBeNull();
+  });
+
+  it('tells JSON from CSV', () => {
+    expect(parseBatchFile('rows.csv', '[{"url":"https://example.com","tags":["a","b"]}]')?.rows)
+      .toEqual([{ url: 'https://example.com', tags: 'a, b' }]);
+  });
+});
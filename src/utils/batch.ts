@@ -0,0 +1,261 @@
+import type { QROptions, QRTemplateType, QRTemplateData } from '../types/qr';
+import { getRequiredErrorCorrectionLevel } from '../types/qr';
+import { generateQRString, getDefaultTemplateData } from './qrPayload';
+import { checkLogo } from './logoCoverage';
+import { createStyledQRCode } from './qrStyling';
+import { renderExport, type ExportFormat } from './qrExport';
+import { createPrintPDF, getPrintColors, getPrintSpec, renderPrintCode, type PrintCell } from './printLayout';
+import { createZip, type ZipEntry } from './zip';
+
+// Rows of an uploaded spreadsheet, keyed by column name
+export interface BatchTable {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+// Template field (dotted path for nested fields) -> column, empty when unmapped
+export type ColumnMapping = Record<string, string>;
+
+// Guess the delimiter from the header line: spreadsheets in many locales export with semicolons
+const detectDelimiter = (text: string) => {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  return [',', ';', '\t'].reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length ? candidate : best);
+};
+
+// RFC 4180 records: quoted fields may contain delimiters, doubled quotes and line breaks
+const parseCSVRecords = (text: string, delimiter: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  // Skip blank lines
+  return records.filter((r) => r.some((value) => value.trim() !== ''));
+};
+
+export const parseCSV = (text: string): BatchTable | null => {
+  const records = parseCSVRecords(text.replace(/^\uFEFF/, ''), detectDelimiter(text));
+  if (records.length < 2) return null;
+  const columns = records[0].map((column) => column.trim());
+  const rows = records.slice(1).map((record) =>
+    Object.fromEntries(columns.map((column, i) => [column, (record[i] ?? '').trim()])));
+  return { columns, rows };
+};
+
+// Nested objects become dotted column names, e.g. creditor.name
+const flattenRecord = (value: Record<string, unknown>, prefix = ''): Record<string, string> =>
+  Object.entries(value).reduce<Record<string, string>>((result, [key, item]) => {
+    if (item && typeof item === 'object' && !Array.isArray(item)) {
+      Object.assign(result, flattenRecord(item as Record<string, unknown>, `${prefix}${key}.`));
+    } else if (item !== null && item !== undefined) {
+      result[`${prefix}${key}`] = Array.isArray(item) ? item.join(', ') : String(item);
+    }
+    return result;
+  }, {});
+
+// An array of objects, or an object holding one under any key
+export const parseJSON = (text: string): BatchTable | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const list = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === 'object' ? Object.values(parsed).find(Array.isArray) : undefined;
+  if (!list) return null;
+  const rows = list
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object' && !Array.isArray(item))
+    .map((item) => flattenRecord(item));
+  if (rows.length === 0) return null;
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  return { columns, rows };
+};
+
+export const parseBatchFile = (fileName: string, text: string): BatchTable | null =>
+  /\.json$/i.test(fileName) || /^\s*[[{]/.test(text) ? parseJSON(text) : parseCSV(text);
+
+// Fields of a template's form data, nested ones as dotted paths
+export const getTemplateFields = (type: QRTemplateType): string[] =>
+  Object.keys(flattenRecord(getDefaultTemplateData(type) as unknown as Record<string, unknown>));
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Match columns to fields by name, ignoring case, spaces and punctuation
+export const autoMapColumns = (fields: string[], columns: string[]): ColumnMapping =>
+  Object.fromEntries(fields.map((field) => [
+    field,
+    columns.find((column) => normalizeName(column) === normalizeName(field)) ?? '',
+  ]));
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x', 'on'];
+
+// A list field takes its values from one cell, separated by commas or semicolons.
+// Typed entries, such as vCard phones, keep the types of the defaults in order.
+const toList = (defaults: unknown[], cell: string): unknown[] =>
+  cell.split(/[,;]/).map((item) => item.trim()).filter(Boolean).map((item, i) => {
+    const entry = defaults[Math.min(i, defaults.length - 1)];
+    return entry && typeof entry === 'object' ? { ...entry, value: item } : item;
+  });
+
+// Overwrite the mapped fields of the template defaults with the row values
+const applyRow = (defaults: unknown, row: Record<string, string>, mapping: ColumnMapping, prefix = ''): unknown =>
+  Object.fromEntries(Object.entries(defaults as Record<string, unknown>).map(([key, value]) => {
+    const path = `${prefix}${key}`;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return [key, applyRow(value, row, mapping, `${path}.`)];
+    }
+    const column = mapping[path];
+    if (!column || row[column] === undefined) return [key, value];
+    const cell = row[column];
+    if (Array.isArray(value)) return [key, toList(value, cell)];
+    return [key, typeof value === 'boolean' ? TRUE_VALUES.includes(cell.toLowerCase()) : cell];
+  }));
+
+export const getRowTemplateData = (type: QRTemplateType, row: Record<string, string>, mapping: ColumnMapping) =>
+  applyRow(getDefaultTemplateData(type), row, mapping) as QRTemplateData;
+
+export const getRowPayload = (type: QRTemplateType, row: Record<string, string>, mapping: ColumnMapping) =>
+  generateQRString(type, getRowTemplateData(type, row, mapping));
+
+// Replace {column} placeholders and {#} (the row number)
+export const fillPattern = (pattern: string, row: Record<string, string>, index: number) =>
+  pattern
+    .replace(/\{#\}/g, String(index + 1))
+    .replace(/\{([^}]+)\}/g, (_, column: string) => row[column.trim()] ?? '');
+
+// Fill the pattern, keeping the name safe for any file system
+export const formatFileName = (pattern: string, row: Record<string, string>, index: number) => {
+  const name = [...fillPattern(pattern, row, index)]
+    .map((char) => (char < ' ' ? ' ' : char))
+    .join('')
+    .replace(/[\\/:*?"<>|]+/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+/, '');
+  return name || `qr-code-${index + 1}`;
+};
+
+// Append -2, -3... to names already used in the archive
+export const uniqueFileNames = (names: string[]): string[] => {
+  const used = new Set<string>();
+  return names.map((name) => {
+    let candidate = name;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) candidate = `${name}-${n}`;
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+};
+
+export interface BatchRequest {
+  type: QRTemplateType;
+  table: BatchTable;
+  mapping: ColumnMapping;
+  // Styling shared by every code
+  options: QROptions;
+  formats: ExportFormat[];
+  fileNamePattern: string;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface BatchResult {
+  zip: Blob;
+  exported: number;
+  // Row numbers (1-based) without content or too long to encode
+  skipped: number[];
+}
+
+// File holding every code when PDFs are laid out on sheets
+export const LABEL_SHEET_FILE_NAME = 'labels.pdf';
+
+// Render every row with the shared styling and pack the files into a ZIP archive.
+// PDFs follow the print layout: one per row, or every row on shared sheets.
+export const generateBatchZip = async ({
+  type, table, mapping, options, formats, fileNamePattern, onProgress,
+}: BatchRequest): Promise<BatchResult> => {
+  const entries: ZipEntry[] = [];
+  const skipped: number[] = [];
+  const names = uniqueFileNames(table.rows.map((row, index) => formatFileName(fileNamePattern, row, index)));
+  const requiredLevel = getRequiredErrorCorrectionLevel(type);
+  const captions = table.rows.map((row, index) => fillPattern(options.print.caption, row, index).trim());
+  const sheetCells: PrintCell[] = [];
+  const onSheets = formats.includes('pdf') && options.print.layout !== 'single';
+  // Codes on shared sheets all leave room for a caption if any has one
+  const sheetHasCaption = captions.some(Boolean);
+
+  for (const [index, row] of table.rows.entries()) {
+    onProgress?.(index, table.rows.length);
+    try {
+      const data = getRowPayload(type, row, mapping);
+      if (!data.trim()) {
+        skipped.push(index + 1);
+        continue;
+      }
+      const level = requiredLevel ?? options.errorCorrectionLevel;
+      // Each row gets the error correction its own logo coverage needs
+      const logo = options.image && type !== 'swissqr' ? checkLogo(data, level, options.imageSize, !!requiredLevel) : null;
+      const rowOptions: QROptions = {
+        ...options,
+        data,
+        templateType: type,
+        errorCorrectionLevel: logo?.level ?? level,
+      };
+      const qrCode = createStyledQRCode(rowOptions);
+      const files: ZipEntry[] = [];
+      for (const format of formats) {
+        if (format === 'pdf') continue;
+        const blob = await renderExport(qrCode, format, rowOptions);
+        files.push({ name: `${names[index]}.${format}`, data: new Uint8Array(await blob.arrayBuffer()) });
+      }
+      if (onSheets) {
+        sheetCells.push({ image: await renderPrintCode(rowOptions, sheetHasCaption), caption: captions[index] });
+      } else if (formats.includes('pdf')) {
+        const image = await renderPrintCode(rowOptions, !!captions[index]);
+        const pdf = createPrintPDF(getPrintSpec(options), [{ image, caption: captions[index] }], getPrintColors(options));
+        files.push({ name: `${names[index]}.pdf`, data: new Uint8Array(pdf.output('arraybuffer')) });
+      }
+      entries.push(...files);
+    } catch (err) {
+      console.error(`Failed to render batch row ${index + 1}:`, err);
+      skipped.push(index + 1);
+    }
+  }
+  if (sheetCells.length > 0) {
+    const pdf = createPrintPDF(getPrintSpec(options), sheetCells, getPrintColors(options));
+    entries.push({ name: LABEL_SHEET_FILE_NAME, data: new Uint8Array(pdf.output('arraybuffer')) });
+  }
+  onProgress?.(table.rows.length, table.rows.length);
+
+  return { zip: createZip(entries), exported: table.rows.length - skipped.length, skipped };
+};
@@ -0,0 +1,153 @@
+// Checksum validation of Bitcoin addresses: legacy base58check (P2PKH, P2SH)
+// and segwit bech32 (BIP173, version 0) / bech32m (BIP350, version 1+)
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+// Version bytes of P2PKH and P2SH on mainnet and testnet
+const BASE58_VERSIONS = [0x00, 0x05, 0x6f, 0xc4];
+const SEGWIT_PREFIXES = ['bc', 'tb'];
+
+const BECH32_CONSTANT = 1;
+const BECH32M_CONSTANT = 0x2bc830a3;
+
+// SHA-256 round constants: fractional parts of the cube roots of the first 64 primes
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+// Synchronous SHA-256, so addresses can be checked while typing (WebCrypto is async only)
+const sha256 = (data: Uint8Array): Uint8Array => {
+  const hash = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  // Pad with 0x80, zeros and the bit length to a multiple of 64 bytes
+  const length = Math.ceil((data.length + 9) / 64) * 64;
+  const padded = new Uint8Array(length);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  new DataView(padded.buffer).setUint32(length - 4, data.length * 8);
+
+  const view = new DataView(padded.buffer);
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const t1 = h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i];
+      const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+      [h, g, f, e, d, c, b, a] = [g, f, e, (d + t1) >>> 0, c, b, a, (t1 + t2) >>> 0];
+    }
+    [a, b, c, d, e, f, g, h].forEach((value, i) => {
+      hash[i] += value;
+    });
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  hash.forEach((value, i) => digestView.setUint32(i * 4, value));
+  return digest;
+};
+
+const decodeBase58 = (text: string): Uint8Array | null => {
+  const bytes: number[] = [];
+  for (const char of text) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) return null;
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  // Each leading "1" stands for a zero byte
+  for (let i = 0; i < text.length && text[i] === '1'; i++) bytes.push(0);
+  return new Uint8Array(bytes.reverse());
+};
+
+const isValidBase58Address = (address: string) => {
+  const bytes = decodeBase58(address);
+  if (!bytes || bytes.length !== 25 || !BASE58_VERSIONS.includes(bytes[0])) return false;
+  const checksum = sha256(sha256(bytes.subarray(0, 21)));
+  return checksum.subarray(0, 4).every((byte, i) => byte === bytes[21 + i]);
+};
+
+const bech32Polymod = (values: number[]) => {
+  const generator = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    generator.forEach((g, i) => {
+      if ((top >>> i) & 1) checksum ^= g;
+    });
+  }
+  return checksum >>> 0;
+};
+
+const expandPrefix = (prefix: string) => [
+  ...Array.from(prefix, (char) => char.charCodeAt(0) >> 5),
+  0,
+  ...Array.from(prefix, (char) => char.charCodeAt(0) & 31),
+];
+
+// Regroup 5-bit words into bytes, rejecting non-zero or overlong padding
+const fromWords = (words: number[]): number[] | null => {
+  let accumulator = 0;
+  let bits = 0;
+  const bytes: number[] = [];
+  for (const word of words) {
+    accumulator = (accumulator << 5) | word;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((accumulator >> bits) & 0xff);
+    }
+  }
+  if (bits >= 5 || (accumulator & ((1 << bits) - 1))) return null;
+  return bytes;
+};
+
+const isValidSegwitAddress = (address: string) => {
+  // Either all lower or all upper case
+  if (address !== address.toLowerCase() && address !== address.toUpperCase()) return false;
+  const lower = address.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (address.length > 90 || separator < 1 || lower.length - separator - 1 < 6) return false;
+  const prefix = lower.slice(0, separator);
+  if (!SEGWIT_PREFIXES.includes(prefix)) return false;
+
+  const values = Array.from(lower.slice(separator + 1), (char) => BECH32_CHARSET.indexOf(char));
+  if (values.includes(-1)) return false;
+  const version = values[0];
+  const constant = bech32Polymod([...expandPrefix(prefix), ...values]);
+  // Version 0 programs use bech32, later versions bech32m
+  if (constant !== (version === 0 ? BECH32_CONSTANT : BECH32M_CONSTANT)) return false;
+
+  const program = fromWords(values.slice(1, -6));
+  if (!program || version > 16 || program.length < 2 || program.length > 40) return false;
+  return version !== 0 || program.length === 20 || program.length === 32;
+};
+
+export const isValidBitcoinAddress = (address: string): boolean => {
+  const trimmed = address.trim();
+  return /^(bc|tb)1/i.test(trimmed) ? isValidSegwitAddress(trimmed) : isValidBase58Address(trimmed);
+};
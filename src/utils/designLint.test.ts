@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { QROptions } from '../types/qr';
+import { defaultQROptions } from '../types/qr';
+import { getImageOverlays, lintDesign, MIN_LUMINANCE_DIFFERENCE, relativeLuminance } from './designLint';
+
+const lightModules = (color: string) => ({ dotColor: color, cornerSquareColor: color, cornerDotColor: color });
+
+const design = (options: Partial<QROptions>): QROptions => ({ ...defaultQROptions, ...options });
+
+const codes = (options: Partial<QROptions>) => lintDesign(design(options)).map((issue) => issue.code);
+
+// Apply the fix of every issue reported, as a user clicking each fix button would
+const applyFixes = (options: QROptions) =>
+  lintDesign(options).reduce((fixed, issue) => ({ ...fixed, ...issue.fix }), options);
+
+const contrast = (background: string, foreground: string) => relativeLuminance(background) - relativeLuminance(foreground);
+
+const imageLayer = (luminance: Partial<QROptions['moduleImage']>) =>
+  ({ ...defaultQROptions.moduleImage, src: 'data:image/png;base64,', width: 1, height: 1, opacity: 1, ...luminance });
+
+describe('design lint', () => {
+  it('accepts dark modules on a transparent background', () => {
+    expect(codes({ transparentBackground: true })).toEqual([]);
+  });
+
+  it('keeps checking contrast when the background is transparent', () => {
+    expect(codes({ transparentBackground: true, ...lightModules('#eeeeee') }))
+      .toEqual(['transparentBackground', 'lowContrast', 'lowContrast', 'lowContrast']);
+    expect(codes({ transparentBackground: true, ...lightModules('#ffffff'), backgroundColor: '#000000' }))
+      .toEqual(['transparentBackground', 'inverted']);
+  });
+
+  it('darkens a colour too close to the background until it contrasts enough', () => {
+    const fixed = applyFixes(design({ dotColor: '#9999cc' }));
+    expect(lintDesign(fixed)).toEqual([]);
+    expect(contrast(fixed.backgroundColor, fixed.dotColor)).toBeGreaterThanOrEqual(MIN_LUMINANCE_DIFFERENCE);
+    expect(fixed.backgroundColor).toBe('#ffffff');
+  });
+
+  it('darkens a gradient stop too close to the background', () => {
+    const dotGradient = {
+      ...defaultQROptions.dotGradient,
+      enabled: true,
+      colorStops: [{ offset: 0, color: '#000000' }, { offset: 1, color: '#c0c0c0' }],
+    };
+    const fixed = applyFixes(design({ dotGradient }));
+    expect(lintDesign(fixed)).toEqual([]);
+    expect(contrast(fixed.backgroundColor, fixed.dotGradient.colorStops[1].color))
+      .toBeGreaterThanOrEqual(MIN_LUMINANCE_DIFFERENCE);
+  });
+
+  it('lightens a background too dark for any darker module colour', () => {
+    const fixed = applyFixes(design({ backgroundColor: '#606060' }));
+    expect(lintDesign(fixed)).toEqual([]);
+    expect(fixed.dotColor).toBe('#000000');
+    expect(contrast(fixed.backgroundColor, fixed.dotColor)).toBeGreaterThanOrEqual(MIN_LUMINANCE_DIFFERENCE);
+  });
+
+  it('swaps inverted colours', () => {
+    const fixed = applyFixes(design({ ...lightModules('#f0f0f0'), backgroundColor: '#101010' }));
+    expect(lintDesign(fixed)).toEqual([]);
+    expect(fixed).toMatchObject({ backgroundColor: '#f0f0f0', dotColor: '#101010' });
+  });
+
+  it('gives light modules on a transparent background an opaque one that contrasts', () => {
+    const fixed = applyFixes(design({ transparentBackground: true, ...lightModules('#dddddd') }));
+    expect(lintDesign(fixed)).toEqual([]);
+    expect(fixed.transparentBackground).toBe(false);
+  });
+
+  it('veils image layers too close to the colours around them', () => {
+    const options = design({
+      contrastOverlay: false,
+      backgroundImage: imageLayer({ darkLuminance: 0.1, lightLuminance: 0.9 }),
+      moduleImage: imageLayer({ darkLuminance: 0.2, lightLuminance: 0.95 }),
+    });
+    expect(lintDesign(options).map((issue) => issue.target)).toEqual([{ image: 'moduleImage' }, { image: 'backgroundImage' }]);
+    const fixed = applyFixes(options);
+    expect(lintDesign(fixed)).toEqual([]);
+    const overlays = getImageOverlays(fixed);
+    expect(overlays.background).toBeGreaterThan(0);
+    expect(overlays.modules).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,262 @@
+import type { QROptions, GradientTarget } from '../types/qr';
+
+// Scanners need dark modules on a light background with enough reflectance difference.
+// ISO/IEC 15415 grades symbol contrast below 40% as failing for most readers.
+export const MIN_LUMINANCE_DIFFERENCE = 0.4;
+
+export type DesignLintCode = 'lowContrast' | 'inverted' | 'transparentBackground';
+
+type ForegroundTarget = Exclude<GradientTarget, 'background'>;
+
+// Colour a warning is about; gradient stops are identified by their index
+type ColorTarget =
+  | { option: 'dotColor' | 'cornerSquareColor' | 'cornerDotColor' | 'backgroundColor' }
+  | { gradient: ForegroundTarget; stop: number };
+
+export type DesignLintTarget = ColorTarget | { image: 'backgroundImage' | 'moduleImage' };
+
+export interface DesignLintIssue {
+  code: DesignLintCode;
+  section: 'colors' | 'background';
+  target: DesignLintTarget;
+  // Luminance difference between the colour and the background (0-1)
+  difference?: number;
+  // Option changes that resolve the issue
+  fix: Partial<QROptions>;
+}
+
+interface ForegroundColor {
+  target: ColorTarget;
+  color: string;
+}
+
+const parseHex = (hex: string): [number, number, number] => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map((c) => c + c).join('') : value.padEnd(6, '0');
+  return [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16) / 255) as [number, number, number];
+};
+
+const toLinear = (channel: number) =>
+  channel <= 0.04045 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+
+const toSrgb = (linear: number) =>
+  linear <= 0.0031308 ? 12.92 * linear : 1.055 * linear ** (1 / 2.4) - 0.055;
+
+const toHex = (linear: number[]) =>
+  `#${linear.map((v) => Math.round(Math.max(0, Math.min(1, toSrgb(v))) * 255).toString(16).padStart(2, '0')).join('')}`;
+
+// WCAG relative luminance (0 = black, 1 = white)
+export const relativeLuminance = (hex: string): number => {
+  const [r, g, b] = parseHex(hex).map(toLinear);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+// Luminance of a layer drawn at an opacity over another; browsers blend in sRGB
+const mixLuminance = (top: number, bottom: number, opacity: number) =>
+  toLinear(opacity * toSrgb(top) + (1 - opacity) * toSrgb(bottom));
+
+// Opacity of a white (1) or black (0) veil that brings a luminance to the target, at most fully opaque
+const veilOpacity = (luminance: number, target: number, veil: 0 | 1) => {
+  const from = toSrgb(luminance);
+  const to = toSrgb(Math.max(0, Math.min(1, target)));
+  if (veil === 1 ? from >= to : from <= to) return 0;
+  return Math.min(1, (to - from) / (veil - from));
+};
+
+// Scale a colour in linear light to reach a target luminance, keeping its hue
+const withLuminance = (hex: string, target: number): string => {
+  const linear = parseHex(hex).map(toLinear);
+  const current = relativeLuminance(hex);
+  if (target <= current) {
+    return toHex(linear.map((v) => (current > 0 ? v * (target / current) : 0)));
+  }
+  // Lighten by mixing towards white
+  const t = current < 1 ? (target - current) / (1 - current) : 0;
+  return toHex(linear.map((v) => v + t * (1 - v)));
+};
+
+// Margin added to fixes so rounding to 8-bit colours still clears the threshold
+const FIX_MARGIN = 0.02;
+
+const foregroundTargets: ForegroundTarget[] = ['dot', 'cornerSquare', 'cornerDot'];
+
+// Every stop of an enabled gradient counts, since any of them may sit behind a module
+const getForegroundColors = (options: QROptions): ForegroundColor[] =>
+  foregroundTargets.flatMap((part): ForegroundColor[] => {
+    const gradient = options[`${part}Gradient`];
+    return gradient.enabled
+      ? gradient.colorStops.map((stop, index) => ({ target: { gradient: part, stop: index }, color: stop.color }))
+      : [{ target: { option: `${part}Color` }, color: options[`${part}Color`] }];
+  });
+
+const getBackgroundColors = (options: QROptions): string[] =>
+  options.backgroundGradient.enabled
+    ? options.backgroundGradient.colorStops.map((stop) => stop.color)
+    : [options.backgroundColor];
+
+// Option changes that set one foreground colour
+const setForeground = (options: QROptions, target: ColorTarget, color: string): Partial<QROptions> => {
+  if ('gradient' in target) {
+    const gradient = options[`${target.gradient}Gradient`];
+    return {
+      [`${target.gradient}Gradient`]: {
+        ...gradient,
+        colorStops: gradient.colorStops.map((stop, i) => (i === target.stop ? { ...stop, color } : stop)),
+      },
+    };
+  }
+  return { [target.option]: color };
+};
+
+// Option changes that lift the background to at least the given luminance
+const lightenBackground = (options: QROptions, luminance: number): Partial<QROptions> => {
+  const lighten = (color: string) => (relativeLuminance(color) < luminance ? withLuminance(color, luminance) : color);
+  if (options.backgroundGradient.enabled) {
+    return {
+      backgroundGradient: {
+        ...options.backgroundGradient,
+        colorStops: options.backgroundGradient.colorStops.map((stop) => ({ ...stop, color: lighten(stop.color) })),
+      },
+    };
+  }
+  return { backgroundColor: lighten(options.backgroundColor) };
+};
+
+// Modules may land on any part of the background, so the module image is checked against its darkest colour;
+// a transparent code is assumed to be printed on white
+const getSolidBackgroundLuminance = (options: QROptions) =>
+  options.transparentBackground ? 1 : Math.min(...getBackgroundColors(options).map(relativeLuminance));
+
+// The lightest part of the module image over the dot colour, and the darkest part of the background image
+// over the background colour, before any veil
+const getModuleImageLuminance = (options: QROptions) => {
+  const dotColors = options.dotGradient.enabled ? options.dotGradient.colorStops.map((stop) => stop.color) : [options.dotColor];
+  const dotLuminance = Math.max(...dotColors.map(relativeLuminance));
+  return mixLuminance(options.moduleImage.lightLuminance, dotLuminance, options.moduleImage.opacity);
+};
+
+const getBackgroundImageLuminance = (options: QROptions) =>
+  mixLuminance(options.backgroundImage.darkLuminance, getSolidBackgroundLuminance(options), options.backgroundImage.opacity);
+
+// With both layers, the module image keeps to mid-grey so the background image is not washed out to white
+const SHARED_MODULE_LUMINANCE = 0.18;
+
+export interface ImageOverlays {
+  // Opacity of the white veil over the background image and of the black veil over the module image
+  background: number;
+  modules: number;
+}
+
+// Veils that keep the image layers in contrast: the module image is darkened against the background colour,
+// then the background image is lightened against every foreground, module image included
+export const getImageOverlays = (options: QROptions): ImageOverlays => {
+  const hasBackgroundImage = !!options.backgroundImage.src && !options.transparentBackground;
+  if (!options.contrastOverlay || (!hasBackgroundImage && !options.moduleImage.src)) return { background: 0, modules: 0 };
+
+  const moduleImage = getModuleImageLuminance(options);
+  const moduleTarget = getSolidBackgroundLuminance(options) - MIN_LUMINANCE_DIFFERENCE - FIX_MARGIN;
+  const modules = options.moduleImage.src
+    ? veilOpacity(moduleImage, hasBackgroundImage ? Math.min(moduleTarget, SHARED_MODULE_LUMINANCE) : moduleTarget, 0)
+    : 0;
+  const foreground = Math.max(
+    ...getForegroundColors(options).map(({ color }) => relativeLuminance(color)),
+    options.moduleImage.src ? mixLuminance(0, moduleImage, modules) : 0,
+  );
+  const background = hasBackgroundImage
+    ? veilOpacity(getBackgroundImageLuminance(options), foreground + MIN_LUMINANCE_DIFFERENCE + FIX_MARGIN, 1)
+    : 0;
+  return { background, modules };
+};
+
+// Image layers too close to the colours they sit on or under, fixed by turning the veils on
+const lintImageLayers = (options: QROptions, foreground: number): DesignLintIssue[] => {
+  if (options.contrastOverlay) return [];
+  const issues: DesignLintIssue[] = [];
+  const moduleImage = getModuleImageLuminance(options);
+  if (options.moduleImage.src) {
+    const difference = getSolidBackgroundLuminance(options) - moduleImage;
+    if (difference < MIN_LUMINANCE_DIFFERENCE) {
+      issues.push({
+        code: 'lowContrast',
+        section: 'colors',
+        target: { image: 'moduleImage' },
+        difference: Math.max(0, difference),
+        fix: { contrastOverlay: true },
+      });
+    }
+  }
+  if (options.backgroundImage.src) {
+    const difference = getBackgroundImageLuminance(options) - Math.max(foreground, options.moduleImage.src ? moduleImage : 0);
+    if (difference < MIN_LUMINANCE_DIFFERENCE) {
+      issues.push({
+        code: 'lowContrast',
+        section: 'background',
+        target: { image: 'backgroundImage' },
+        difference: Math.max(0, difference),
+        fix: { contrastOverlay: true },
+      });
+    }
+  }
+  return issues;
+};
+
+// Inspect the colours of a design for combinations that scanners are likely to reject
+export const lintDesign = (options: QROptions): DesignLintIssue[] => {
+  const foregrounds = getForegroundColors(options);
+  const luminances = foregrounds.map(({ color }) => relativeLuminance(color));
+  const averageForeground = luminances.reduce((sum, l) => sum + l, 0) / luminances.length;
+
+  // Light modules behind a transparent code vanish on the light pages most codes are printed on
+  const issues: DesignLintIssue[] = [];
+  if (options.transparentBackground && averageForeground > 0.5) {
+    issues.push({
+      code: 'transparentBackground',
+      section: 'background',
+      target: { option: 'backgroundColor' },
+      fix: { transparentBackground: false, backgroundColor: '#ffffff' },
+    });
+  }
+
+  // A module may land on any part of a background gradient, so contrast is checked against its darkest stop
+  const backgrounds = getBackgroundColors(options);
+  const backgroundLuminances = backgrounds.map(relativeLuminance);
+  const background = Math.min(...backgroundLuminances);
+  const averageBackground = backgroundLuminances.reduce((sum, l) => sum + l, 0) / backgroundLuminances.length;
+
+  // Light modules on a dark background: swap foreground and background, dropping the gradients
+  if (averageForeground > averageBackground) {
+    const lightest = foregrounds[luminances.indexOf(Math.max(...luminances))].color;
+    const darkest = backgrounds[backgroundLuminances.indexOf(background)];
+    return [...issues, {
+      code: 'inverted',
+      section: 'background',
+      target: { option: 'backgroundColor' },
+      fix: {
+        backgroundColor: lightest,
+        backgroundGradient: { ...options.backgroundGradient, enabled: false },
+        dotColor: darkest,
+        dotGradient: { ...options.dotGradient, enabled: false },
+        cornerSquareColor: darkest,
+        cornerSquareGradient: { ...options.cornerSquareGradient, enabled: false },
+        cornerDotColor: darkest,
+        cornerDotGradient: { ...options.cornerDotGradient, enabled: false },
+      },
+    }];
+  }
+
+  // Darken the offending colour when possible, otherwise lighten the background
+  // enough for every foreground colour at once
+  const darkened = background - MIN_LUMINANCE_DIFFERENCE - FIX_MARGIN;
+  const lightened = Math.max(...luminances) + MIN_LUMINANCE_DIFFERENCE + FIX_MARGIN;
+
+  issues.push(...lintImageLayers(options, Math.max(...luminances)));
+  foregrounds.forEach(({ target, color }, i) => {
+    const difference = background - luminances[i];
+    if (difference >= MIN_LUMINANCE_DIFFERENCE) return;
+    const fix = darkened >= 0
+      ? setForeground(options, target, withLuminance(color, darkened))
+      : lightenBackground(options, Math.min(1, lightened));
+    issues.push({ code: 'lowContrast', section: 'colors', target, difference: Math.max(0, difference), fix });
+  });
+  return issues;
+};
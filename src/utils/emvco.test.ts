@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { defaultPixData } from '../types/qr';
+import { validateTemplateData } from './validation';
+import { generateQRString } from './qrPayload';
+import { parseQRPayload } from './parseQR';
+import {
+  decodeTLV,
+  generatePixPayload,
+  generatePromptPayPayload,
+  getPixDescriptionLimit,
+  parseEMVPayload,
+  parsePixPayload,
+  parsePromptPayPayload,
+} from './emvco';
+
+describe('EMVCo payloads', () => {
+  it.each(['0812345678', '66812345678', '0066812345678', '+66 81 234 5678'])(
+    'sends the PromptPay mobile number %s as 0066 and nine digits',
+    (id) => {
+      const payload = generatePromptPayPayload({ idType: 'mobile', id, amount: '' });
+      expect(decodeTLV(parseEMVPayload(payload)?.['29'] ?? '')?.['01']).toBe('0066812345678');
+      expect(parsePromptPayPayload(payload)?.id).toBe('0812345678');
+    },
+  );
+
+  it('keeps Pix codes with an amount static', () => {
+    const pix = { key: 'user@example.com', name: 'Ana', city: 'Rio', amount: '10', txid: '', description: '' };
+    expect(parseEMVPayload(generatePixPayload(pix))).toMatchObject({ '01': '11', '54': '10.00' });
+  });
+
+  it('marks PromptPay codes with an amount as dynamic', () => {
+    const payload = generatePromptPayPayload({ idType: 'mobile', id: '0812345678', amount: '50' });
+    expect(parseEMVPayload(payload)).toMatchObject({ '01': '12', '54': '50.00' });
+  });
+
+  it('reports Pix keys and descriptions that overflow the account template instead of throwing', () => {
+    const key = `${'a'.repeat(65)}@example.com`;
+    const pix = { ...defaultPixData, key, name: 'Ana', city: 'Rio', description: 'Invoice 42' };
+    expect(getPixDescriptionLimit(key)).toBe(0);
+    expect(generatePixPayload(pix)).toBe('');
+    expect(validateTemplateData('pix', pix)).toEqual({ description: 'tooLong' });
+    expect(validateTemplateData('pix', { ...pix, key: `a${key}` })).toMatchObject({ key: 'tooLong' });
+  });
+
+  it('fits a Pix description in the room the key leaves', () => {
+    const key = 'ana@example.com';
+    const pix = { ...defaultPixData, key, name: 'Ana', city: 'Rio', description: 'x'.repeat(getPixDescriptionLimit(key)) };
+    expect(decodeTLV(parseEMVPayload(generatePixPayload(pix))?.['26'] ?? '')).not.toBeNull();
+    expect(parsePixPayload(generatePixPayload(pix))).toMatchObject({ key, description: pix.description });
+    expect(validateTemplateData('pix', pix)).toEqual({});
+  });
+
+  it('encodes the UPI payee address like the other parameters', () => {
+    const upi = { vpa: 'shop&co@bank', name: 'Shop & Co', amount: '', note: '', reference: '' };
+    const payload = generateQRString('upi', upi);
+    expect(payload).toBe('upi://pay?pa=shop%26co%40bank&pn=Shop%20%26%20Co&cu=INR');
+    expect(parseQRPayload(payload)).toEqual({ type: 'upi', data: upi });
+  });
+});
@@ -0,0 +1,230 @@
+import type { PixData, PayNowData, PromptPayData } from '../types/qr';
+import { PIX_LIMITS } from '../types/qr';
+
+// A TLV data object: two-digit ID, two-digit length, value (or nested template)
+export interface EMVField {
+  id: string;
+  value: string | EMVField[];
+}
+
+// Root data object IDs from the EMVCo Merchant-Presented Mode specification
+export const EMV_ID = {
+  payloadFormat: '00',
+  pointOfInitiation: '01',
+  merchantCategoryCode: '52',
+  currency: '53',
+  amount: '54',
+  countryCode: '58',
+  merchantName: '59',
+  merchantCity: '60',
+  additionalData: '62',
+  crc: '63',
+} as const;
+
+// Point of initiation: static codes are reusable, dynamic ones are meant for a single payment
+const POINT_OF_INITIATION = { static: '11', dynamic: '12' } as const;
+
+// Encode fields as ID + zero-padded length + value, skipping empty values
+export const encodeTLV = (fields: EMVField[]): string =>
+  fields
+    .map(({ id, value }) => {
+      const encoded = typeof value === 'string' ? value : encodeTLV(value);
+      if (!encoded) return '';
+      if (encoded.length > 99) throw new Error(`EMV field ${id} exceeds 99 characters`);
+      return `${id}${String(encoded.length).padStart(2, '0')}${encoded}`;
+    })
+    .join('');
+
+// CRC-16/CCITT-FALSE (polynomial 0x1021, initial value 0xFFFF), as four uppercase hex digits
+export const crc16ccitt = (data: string): string => {
+  let crc = 0xffff;
+  for (const byte of new TextEncoder().encode(data)) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+    }
+    crc &= 0xffff;
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+// Prepend the payload format indicator and append the CRC, which covers its own ID and length
+export const buildEMVPayload = (fields: EMVField[]): string => {
+  const body = encodeTLV([{ id: EMV_ID.payloadFormat, value: '01' }, ...fields]) + `${EMV_ID.crc}04`;
+  return body + crc16ccitt(body);
+};
+
+// Merchant name and city are restricted to plain ASCII
+const toAscii = (value: string, maxLength: number) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7e]/g, '').trim().slice(0, maxLength);
+
+// Amount with up to two decimals, or empty when missing or not positive
+export const formatEMVAmount = (amount: string): string => {
+  const value = parseFloat(amount.replace(',', '.'));
+  return value > 0 ? value.toFixed(2) : '';
+};
+
+// PayNow and PromptPay mark codes with a fixed amount as single payments
+const pointOfInitiation = (amount: string) =>
+  amount ? POINT_OF_INITIATION.dynamic : POINT_OF_INITIATION.static;
+
+const PIX_GUI = 'br.gov.bcb.pix';
+
+// Characters left for the Pix description once the GUI and the key, each with its ID and length, are in
+export const getPixDescriptionLimit = (key: string) =>
+  Math.max(0, PIX_LIMITS.accountInformation - (4 + PIX_GUI.length) - (4 + key.trim().length) - 4);
+
+// Brazil Pix (BR Code)
+export const generatePixPayload = (data: PixData): string => {
+  const key = data.key.trim();
+  if (!key || !data.name.trim() || !data.city.trim()) return '';
+  // Too long for the account template: validation reports it
+  if (key.length > PIX_LIMITS.key || data.description.trim().length > getPixDescriptionLimit(key)) return '';
+  const amount = formatEMVAmount(data.amount);
+  // Dynamic Pix codes point to a payment URL, so a code holding the key stays static, amount or not
+  return buildEMVPayload([
+    { id: EMV_ID.pointOfInitiation, value: POINT_OF_INITIATION.static },
+    {
+      id: '26',
+      value: [
+        { id: '00', value: PIX_GUI },
+        { id: '01', value: key },
+        { id: '02', value: data.description.trim() },
+      ],
+    },
+    { id: EMV_ID.merchantCategoryCode, value: '0000' },
+    { id: EMV_ID.currency, value: '986' },
+    { id: EMV_ID.amount, value: amount },
+    { id: EMV_ID.countryCode, value: 'BR' },
+    { id: EMV_ID.merchantName, value: toAscii(data.name, 25) },
+    { id: EMV_ID.merchantCity, value: toAscii(data.city, 15) },
+    // Transaction ID is mandatory, "***" when the receiver does not use one
+    { id: EMV_ID.additionalData, value: [{ id: '05', value: data.txid.replace(/[^A-Za-z0-9]/g, '').slice(0, 25) || '***' }] },
+  ]);
+};
+
+// Singapore PayNow
+export const generatePayNowPayload = (data: PayNowData): string => {
+  const proxy = data.proxyType === 'mobile'
+    ? `+${data.proxy.replace(/\D/g, '')}`
+    : data.proxy.replace(/\s/g, '').toUpperCase();
+  if (proxy === '+' || !proxy || !data.name.trim()) return '';
+  const amount = formatEMVAmount(data.amount);
+  return buildEMVPayload([
+    { id: EMV_ID.pointOfInitiation, value: pointOfInitiation(amount) },
+    {
+      id: '26',
+      value: [
+        { id: '00', value: 'SG.PAYNOW' },
+        { id: '01', value: data.proxyType === 'mobile' ? '0' : '2' },
+        { id: '02', value: proxy },
+        // Payers may only edit the amount of static codes
+        { id: '03', value: amount ? '0' : '1' },
+        { id: '04', value: data.expiry.replace(/-/g, '') },
+      ],
+    },
+    { id: EMV_ID.merchantCategoryCode, value: '0000' },
+    { id: EMV_ID.currency, value: '702' },
+    { id: EMV_ID.amount, value: amount },
+    { id: EMV_ID.countryCode, value: 'SG' },
+    { id: EMV_ID.merchantName, value: toAscii(data.name, 25) },
+    { id: EMV_ID.merchantCity, value: 'Singapore' },
+    { id: EMV_ID.additionalData, value: [{ id: '01', value: toAscii(data.reference, 25) }] },
+  ]);
+};
+
+// Thailand PromptPay (credit transfer, Bank of Thailand AID)
+export const generatePromptPayPayload = (data: PromptPayData): string => {
+  const digits = data.id.replace(/\D/g, '');
+  if (!digits) return '';
+  // Mobile numbers are sent as 0066 followed by the number without its country code or leading zero
+  const target = data.idType === 'mobile'
+    ? `0066${digits.replace(/^(0066|66|0)/, '')}`.padStart(13, '0')
+    : digits;
+  const targetId = { mobile: '01', nationalId: '02', ewallet: '03' }[data.idType];
+  const amount = formatEMVAmount(data.amount);
+  return buildEMVPayload([
+    { id: EMV_ID.pointOfInitiation, value: pointOfInitiation(amount) },
+    {
+      id: '29',
+      value: [
+        { id: '00', value: 'A000000677010111' },
+        { id: targetId, value: target },
+      ],
+    },
+    { id: EMV_ID.currency, value: '764' },
+    { id: EMV_ID.amount, value: amount },
+    { id: EMV_ID.countryCode, value: 'TH' },
+  ]);
+};
+
+// Decode one level of TLV fields into an ID → value map, or null when malformed
+export const decodeTLV = (data: string): Record<string, string> | null => {
+  const fields: Record<string, string> = {};
+  let pos = 0;
+  while (pos < data.length) {
+    const id = data.slice(pos, pos + 2);
+    const length = Number(data.slice(pos + 2, pos + 4));
+    if (!/^\d{2}$/.test(id) || !Number.isInteger(length) || pos + 4 + length > data.length) return null;
+    fields[id] = data.slice(pos + 4, pos + 4 + length);
+    pos += 4 + length;
+  }
+  return fields;
+};
+
+// Decode a complete payload, checking the format indicator and the trailing CRC
+export const parseEMVPayload = (payload: string): Record<string, string> | null => {
+  const data = payload.trim();
+  if (!data.startsWith('000201') || !/6304[0-9A-Fa-f]{4}$/.test(data)) return null;
+  if (crc16ccitt(data.slice(0, -4)) !== data.slice(-4).toUpperCase()) return null;
+  return decodeTLV(data);
+};
+
+// Amounts are reloaded without trailing zero decimals
+const parseEMVAmount = (amount?: string) => (amount ? String(parseFloat(amount)) : '');
+
+export const parsePixPayload = (payload: string): PixData | null => {
+  const fields = parseEMVPayload(payload);
+  const account = fields?.['26'] && decodeTLV(fields['26']);
+  if (!fields || !account || account['00']?.toLowerCase() !== 'br.gov.bcb.pix' || !account['01']) return null;
+  const txid = (fields['62'] && decodeTLV(fields['62'])?.['05']) || '';
+  return {
+    key: account['01'],
+    name: fields['59'] || '',
+    city: fields['60'] || '',
+    amount: parseEMVAmount(fields['54']),
+    txid: txid === '***' ? '' : txid,
+    description: account['02'] || '',
+  };
+};
+
+export const parsePayNowPayload = (payload: string): PayNowData | null => {
+  const fields = parseEMVPayload(payload);
+  const account = fields?.['26'] && decodeTLV(fields['26']);
+  if (!fields || !account || account['00'] !== 'SG.PAYNOW' || !account['02']) return null;
+  const expiry = account['04'] || '';
+  return {
+    proxyType: account['01'] === '2' ? 'uen' : 'mobile',
+    proxy: account['02'],
+    name: fields['59'] || '',
+    amount: parseEMVAmount(fields['54']),
+    reference: (fields['62'] && decodeTLV(fields['62'])?.['01']) || '',
+    expiry: /^\d{8}$/.test(expiry) ? `${expiry.slice(0, 4)}-${expiry.slice(4, 6)}-${expiry.slice(6)}` : '',
+  };
+};
+
+export const parsePromptPayPayload = (payload: string): PromptPayData | null => {
+  const fields = parseEMVPayload(payload);
+  const account = fields?.['29'] && decodeTLV(fields['29']);
+  if (!fields || !account || account['00'] !== 'A000000677010111') return null;
+  const [targetId, target] = Object.entries(account).find(([id]) => id !== '00') || [];
+  if (!targetId || !target) return null;
+  const idTypes: Record<string, PromptPayData['idType']> = { '01': 'mobile', '02': 'nationalId', '03': 'ewallet' };
+  const idType = idTypes[targetId];
+  if (!idType) return null;
+  return {
+    idType,
+    id: idType === 'mobile' ? `0${target.replace(/^0*66/, '')}` : target,
+    amount: parseEMVAmount(fields['54']),
+  };
+};
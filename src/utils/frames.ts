@@ -0,0 +1,240 @@
+import type { FrameFont, FrameIcon, FrameSettings } from '../types/qr';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Fonts every browser and vector editor can draw, since exported SVGs cannot carry web fonts
+const FONT_STACKS: Record<FrameFont, string> = {
+  sans: 'Helvetica, Arial, sans-serif',
+  serif: 'Georgia, "Times New Roman", serif',
+  mono: '"Courier New", Courier, monospace',
+  rounded: '"Arial Rounded MT Bold", "Trebuchet MS", sans-serif',
+  condensed: 'Impact, "Arial Narrow", sans-serif',
+};
+
+// Icon outlines on a 24-unit grid, from the Lucide set the interface uses
+const ICONS: Record<Exclude<FrameIcon, 'none'>, string[]> = {
+  scan: ['M3 7V5a2 2 0 0 1 2-2h2', 'M17 3h2a2 2 0 0 1 2 2v2', 'M21 17v2a2 2 0 0 1-2 2h-2', 'M7 21H5a2 2 0 0 1-2-2v-2', 'M7 12h10'],
+  phone: ['M7 2h10a2 2 0 0 1 2 2v16a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2z', 'M12 18h.01'],
+  menu: ['M3 2v7c0 1.1.9 2 2 2h4a2 2 0 0 0 2-2V2', 'M7 2v20', 'M21 15V2a5 5 0 0 0-5 5v6c0 1.1.9 2 2 2h3Zm0 0v7'],
+  link: [
+    'M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71',
+    'M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71',
+  ],
+  wifi: ['M12 20h.01', 'M2 8.82a15 15 0 0 1 20 0', 'M5 12.859a10 10 0 0 1 14 0', 'M8.5 16.429a5 5 0 0 1 7 0'],
+};
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FrameLayout {
+  width: number;
+  height: number;
+  // Where the code goes, quiet zone included
+  code: { x: number; y: number; size: number };
+}
+
+// Frame parts, in hundredths of the code edge
+const BORDER = 4;
+const RADIUS = 5;
+const BAND = 20;
+const MAX_FONT = 9;
+const BUBBLE_TAIL = 6;
+const BUBBLE_GAP = 2;
+const RIBBON_OVERHANG = 5;
+const PHONE_SIDE = 5;
+const PHONE_TOP = 14;
+const PHONE_BOTTOM = BAND + 8;
+
+// Sizes of one frame for a code edge, rounded to whole pixels
+const getMetrics = (codeSize: number) => {
+  const unit = (hundredths: number) => Math.round((codeSize * hundredths) / 100);
+  return {
+    border: unit(BORDER),
+    radius: unit(RADIUS),
+    band: unit(BAND),
+    tail: unit(BUBBLE_TAIL),
+    gap: unit(BUBBLE_GAP),
+    overhang: unit(RIBBON_OVERHANG),
+    // The badge banner starts halfway through the bottom border
+    bannerOffset: unit(BORDER / 2),
+    side: unit(PHONE_SIDE),
+    top: unit(PHONE_TOP),
+    bottom: unit(PHONE_BOTTOM),
+    unit,
+  };
+};
+
+// Outer size of the framed code and the position of the code inside it
+export const getFrameLayout = (frame: Pick<FrameSettings, 'style'>, codeSize: number): FrameLayout => {
+  const m = getMetrics(codeSize);
+  const boxed = codeSize + 2 * m.border;
+  switch (frame.style) {
+    case 'box':
+      return { width: boxed, height: boxed + m.band, code: { x: m.border, y: m.border, size: codeSize } };
+    case 'bubble':
+      return {
+        width: boxed,
+        height: m.band + m.tail + m.gap + boxed,
+        code: { x: m.border, y: m.band + m.tail + m.gap + m.border, size: codeSize },
+      };
+    case 'badge':
+      return {
+        width: boxed + 2 * m.overhang,
+        height: m.border + codeSize + m.bannerOffset + m.band + m.overhang,
+        code: { x: m.overhang + m.border, y: m.border, size: codeSize },
+      };
+    case 'phone':
+      return { width: codeSize + 2 * m.side, height: m.top + codeSize + m.bottom, code: { x: m.side, y: m.top, size: codeSize } };
+    default:
+      return { width: codeSize, height: codeSize, code: { x: 0, y: 0, size: codeSize } };
+  }
+};
+
+const roundedRect = ({ x, y, width, height }: Box, r: number) => {
+  const radius = Math.min(r, width / 2, height / 2);
+  return `M${x + radius} ${y}h${width - 2 * radius}a${radius} ${radius} 0 0 1 ${radius} ${radius}`
+    + `v${height - 2 * radius}a${radius} ${radius} 0 0 1 ${-radius} ${radius}`
+    + `h${-(width - 2 * radius)}a${radius} ${radius} 0 0 1 ${-radius} ${-radius}`
+    + `v${-(height - 2 * radius)}a${radius} ${radius} 0 0 1 ${radius} ${-radius}z`;
+};
+
+const rect = ({ x, y, width, height }: Box) => `M${x} ${y}h${width}v${height}h${-width}z`;
+
+// Caption width at a font size of 1px, measured the way the browser will draw it
+const measureCaption = (caption: string, font: FrameFont) => {
+  const context = document.createElement('canvas').getContext('2d');
+  if (!context) return caption.length * 0.6;
+  context.font = `700 100px ${FONT_STACKS[font]}`;
+  return context.measureText(caption).width / 100;
+};
+
+const createElement = (doc: Document, name: string, attributes: Record<string, string | number>) => {
+  const element = doc.createElementNS(SVG_NS, name);
+  Object.entries(attributes).forEach(([key, value]) => element.setAttribute(key, String(value)));
+  return element;
+};
+
+// Icon and caption centred in a band, shrunk to fit its width
+const createCaption = (doc: Document, frame: FrameSettings, band: Box, maxFont: number) => {
+  const group = createElement(doc, 'g', {});
+  const caption = frame.caption.trim();
+  const hasIcon = frame.icon !== 'none';
+  if (!caption && !hasIcon) return group;
+
+  const padding = band.height * 0.3;
+  const textWidth = measureCaption(caption, frame.font);
+  // Icon and gap in font sizes
+  const iconWidth = hasIcon ? (caption ? 1.6 : 1.2) : 0;
+  const fontSize = Math.min(maxFont, band.height * 0.5, (band.width - 2 * padding) / Math.max(textWidth + iconWidth, 0.01));
+  const total = (textWidth + iconWidth) * fontSize;
+  const left = band.x + (band.width - total) / 2;
+  const middle = band.y + band.height / 2;
+
+  if (hasIcon) {
+    const iconSize = fontSize * 1.2;
+    const icon = createElement(doc, 'g', {
+      transform: `translate(${left} ${middle - iconSize / 2}) scale(${iconSize / 24})`,
+      fill: 'none',
+      stroke: frame.textColor,
+      'stroke-width': 2,
+      'stroke-linecap': 'round',
+      'stroke-linejoin': 'round',
+    });
+    ICONS[frame.icon as Exclude<FrameIcon, 'none'>].forEach((d) => icon.appendChild(createElement(doc, 'path', { d })));
+    group.appendChild(icon);
+  }
+
+  if (caption) {
+    const text = createElement(doc, 'text', {
+      x: left + iconWidth * fontSize,
+      y: middle,
+      'dominant-baseline': 'central',
+      'font-family': FONT_STACKS[frame.font],
+      'font-size': fontSize,
+      'font-weight': 700,
+      fill: frame.textColor,
+    });
+    text.appendChild(doc.createTextNode(caption));
+    group.appendChild(text);
+  }
+  return group;
+};
+
+// Frame shapes, with the code area left open so transparent codes stay transparent
+const drawFrame = (doc: Document, svg: Element, frame: FrameSettings, layout: FrameLayout) => {
+  const m = getMetrics(layout.code.size);
+  const { code } = layout;
+  const hole = rect({ x: code.x, y: code.y, width: code.size, height: code.size });
+  const path = (d: string, attributes: Record<string, string | number> = {}) =>
+    svg.appendChild(createElement(doc, 'path', { d, fill: frame.color, 'fill-rule': 'evenodd', ...attributes }));
+  const maxFont = m.unit(MAX_FONT);
+
+  switch (frame.style) {
+    case 'box': {
+      path(roundedRect({ x: 0, y: 0, width: layout.width, height: layout.height }, m.radius) + hole);
+      const band = { x: code.x, y: code.y + code.size, width: code.size, height: m.band };
+      svg.appendChild(createCaption(doc, frame, band, maxFont));
+      break;
+    }
+    case 'bubble': {
+      const bubble = { x: 0, y: 0, width: layout.width, height: m.band };
+      const middle = layout.width / 2;
+      path(roundedRect(bubble, m.band / 2)
+        + `M${middle - m.tail} ${m.band - 1}L${middle + m.tail} ${m.band - 1}L${middle} ${m.band + m.tail}z`, { 'fill-rule': 'nonzero' });
+      const boxY = m.band + m.tail + m.gap;
+      path(roundedRect({ x: 0, y: boxY, width: layout.width, height: layout.height - boxY }, m.radius) + hole);
+      svg.appendChild(createCaption(doc, frame, bubble, maxFont));
+      break;
+    }
+    case 'badge': {
+      const bannerY = code.y + code.size + m.bannerOffset;
+      // Ribbon ends folding behind the card
+      path(`M0 ${bannerY + m.band}h${m.overhang}v${m.overhang}z`, { opacity: 0.6 });
+      path(`M${layout.width} ${bannerY + m.band}h${-m.overhang}v${m.overhang}z`, { opacity: 0.6 });
+      path(roundedRect({ x: m.overhang, y: 0, width: code.size + 2 * m.border, height: bannerY + m.band / 2 }, m.radius) + hole);
+      const banner = { x: 0, y: bannerY, width: layout.width, height: m.band };
+      path(roundedRect(banner, m.radius / 2));
+      svg.appendChild(createCaption(doc, frame, banner, maxFont));
+      break;
+    }
+    case 'phone': {
+      path(roundedRect({ x: 0, y: 0, width: layout.width, height: layout.height }, m.unit(12)) + hole);
+      const detail = { fill: frame.textColor, opacity: 0.6 };
+      const speaker = { x: layout.width / 2 - m.unit(10), y: (m.top - m.unit(3)) / 2, width: m.unit(20), height: m.unit(3) };
+      path(roundedRect(speaker, speaker.height / 2), detail);
+      const homeBar = { x: layout.width / 2 - m.unit(12), y: layout.height - m.unit(4), width: m.unit(24), height: m.unit(1.5) };
+      path(roundedRect(homeBar, homeBar.height / 2), detail);
+      const band = { x: code.x, y: code.y + code.size + m.unit(2), width: code.size, height: m.band };
+      svg.appendChild(createCaption(doc, frame, band, maxFont));
+      break;
+    }
+  }
+};
+
+// Standalone SVG of the frame for a code edge in pixels, with the code nested in its place when given
+export const createFrameSVG = (frame: FrameSettings, codeSize: number, code?: SVGSVGElement): SVGSVGElement => {
+  const layout = getFrameLayout(frame, codeSize);
+  const doc = code?.ownerDocument ?? document;
+  const svg = createElement(doc, 'svg', {
+    width: layout.width,
+    height: layout.height,
+    viewBox: `0 0 ${layout.width} ${layout.height}`,
+  }) as SVGSVGElement;
+  drawFrame(doc, svg, frame, layout);
+  if (code) {
+    // The code keeps its own viewBox, so it scales into the slot
+    code.setAttribute('x', String(layout.code.x));
+    code.setAttribute('y', String(layout.code.y));
+    code.setAttribute('width', String(layout.code.size));
+    code.setAttribute('height', String(layout.code.size));
+    svg.appendChild(code);
+  }
+  return svg;
+};
+
+export const svgToDataUrl = (svg: SVGSVGElement) =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(svg))}`;
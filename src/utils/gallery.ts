@@ -0,0 +1,98 @@
+import type { QROptions, QRTemplateType } from '../types/qr';
+import { createProject, readProject, type QRProject, type ProjectResult } from './project';
+import { createStyledQRCode } from './qrStyling';
+import { renderPNG, blobToDataUrl } from './qrExport';
+
+// Codes the user exported or pinned, kept in IndexedDB so entries with large logos fit
+const DB_NAME = 'qr-generator';
+const DB_VERSION = 1;
+const STORE_NAME = 'gallery';
+
+const THUMBNAIL_SIZE = 96;
+
+export interface GalleryEntry {
+  id: string;
+  createdAt: number; // Milliseconds since the epoch
+  templateType: QRTemplateType;
+  payload: string;
+  thumbnail: string; // PNG data URL
+  project: QRProject;
+}
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run one request in its own transaction and close the connection afterwards
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Newest first
+export const listGalleryEntries = async (): Promise<GalleryEntry[]> => {
+  const entries = await withStore<GalleryEntry[]>('readonly', (store) => store.getAll());
+  return (entries ?? []).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+const putGalleryEntry = (entry: GalleryEntry) => withStore('readwrite', (store) => store.put(entry));
+
+export const deleteGalleryEntries = (ids: string[]) =>
+  withStore('readwrite', (store) => {
+    ids.forEach((id) => store.delete(id));
+  });
+
+const createEntryId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const createThumbnail = async (options: QROptions) => {
+  const scale = THUMBNAIL_SIZE / options.size;
+  const qrCode = createStyledQRCode({
+    ...options,
+    size: THUMBNAIL_SIZE,
+    imageMargin: Math.round(options.imageMargin * scale),
+  });
+  return blobToDataUrl(await renderPNG(qrCode));
+};
+
+// Store the current code; saving the same design again only moves it to the top
+export const addGalleryEntry = async (options: QROptions): Promise<void> => {
+  const [latest] = await listGalleryEntries();
+  const project = createProject(options);
+  if (latest && JSON.stringify(latest.project.options) === JSON.stringify(project.options)) {
+    await putGalleryEntry({ ...latest, createdAt: Date.now() });
+    return;
+  }
+  await putGalleryEntry({
+    id: createEntryId(),
+    createdAt: Date.now(),
+    templateType: options.templateType,
+    payload: options.data,
+    thumbnail: await createThumbnail(options),
+    project,
+  });
+};
+
+export const duplicateGalleryEntry = (entry: GalleryEntry) =>
+  putGalleryEntry({ ...entry, id: createEntryId(), createdAt: Date.now() });
+
+// Options of an entry, migrated if it was stored by an older version
+export const readGalleryEntry = (entry: GalleryEntry): ProjectResult => readProject(entry.project);
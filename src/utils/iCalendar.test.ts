@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { CalendarData } from '../types/qr';
+import { getDefaultCalendarData } from '../types/qr';
+import { generateCalendarPayload, parseCalendarPayload } from './iCalendar';
+
+const event: CalendarData = {
+  ...getDefaultCalendarData(),
+  title: 'Launch; Q3, Milan',
+  location: 'Via Roma 1, Milano; Sala A',
+  description: `Agenda:\n- welcome, coffee; intro\n- ${'a long agenda item that goes on '.repeat(4)}`,
+  startDate: '2026-07-01T09:30',
+  endDate: '2026-07-01T11:00',
+  timeZone: 'Europe/Rome',
+  organizerName: 'Rossi, Anna',
+  organizerEmail: 'anna@example.com',
+  url: 'https://example.com/launch',
+};
+
+const textFields = (data: CalendarData) => ({
+  title: data.title,
+  location: data.location,
+  description: data.description,
+  organizerName: data.organizerName,
+  organizerEmail: data.organizerEmail,
+  url: data.url,
+});
+
+describe('iCalendar payloads', () => {
+  it('round-trips escaped and folded text with a time zone', () => {
+    const payload = generateCalendarPayload(event);
+    payload.split('\r\n').forEach((line) => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+    expect(payload).toContain(String.raw`SUMMARY:Launch\; Q3\, Milan`);
+    expect(parseCalendarPayload(payload)).toEqual(event);
+  });
+
+  // UTC times come back in the zone of the reader, so only the text and the instants are compared
+  it.each([
+    ['VCALENDAR in UTC', { format: 'vcalendar', useUTC: true }],
+    ['bare VEVENT', { format: 'vevent', useUTC: true }],
+  ] as const)('round-trips escaped and folded text in a %s', (_, variant) => {
+    const data = { ...event, ...variant };
+    const payload = generateCalendarPayload(data);
+    payload.split('\r\n').forEach((line) => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+    expect(payload).toContain('DTSTART:20260701T073000Z');
+    expect(payload).toContain('DTEND:20260701T090000Z');
+    expect(parseCalendarPayload(payload)).toMatchObject({ ...textFields(data), format: data.format, useUTC: true });
+  });
+
+  it('round-trips all-day events, whose end date is exclusive in the payload', () => {
+    const data: CalendarData = { ...event, allDay: true, startDate: '2026-07-01', endDate: '2026-07-03' };
+    const payload = generateCalendarPayload(data);
+    expect(payload).toContain('DTEND;VALUE=DATE:20260704');
+    expect(parseCalendarPayload(payload)).toMatchObject({
+      ...textFields(data),
+      allDay: true,
+      startDate: data.startDate,
+      endDate: data.endDate,
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import type { CalendarData, CalendarRepeat } from '../types/qr';
+import { getDefaultCalendarData, getLocalTimeZone } from '../types/qr';
+import {
+  escapeContentText,
+  unescapeContentText,
+  joinContentLines,
+  parseContentLines,
+  quoteParameterValue,
+  type ContentLine,
+} from './payloadEscaping';
+import {
+  getTimeZoneOffset,
+  getTimeZoneTransitions,
+  isTimeZone,
+  zonedToUtc,
+  utcToZoned,
+} from './timeZone';
+
+const PRODUCT_ID = '-//QR Code Builder//EN';
+const MINUTE = 60 * 1000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const REPEATS: CalendarRepeat[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+
+// "YYYY-MM-DD" (or the date part of a date-time) to YYYYMMDD
+const formatDate = (date: string) => date.split('T')[0].replace(/-/g, '');
+
+// "YYYY-MM-DDTHH:MM" to YYYYMMDDTHHMMSS
+const formatWallTime = (wallTime: string) => `${wallTime.replace(/[-:]/g, '')}00`;
+
+const formatUtc = (date: Date) => `${date.toISOString().replace(/[-:]/g, '').slice(0, 15)}Z`;
+
+// DTEND of all-day events is exclusive, the form holds the last day
+const getNextDay = (date: string) => {
+  const nextDay = new Date(`${date.split('T')[0]}T00:00:00Z`);
+  nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+  return nextDay.toISOString().slice(0, 10).replace(/-/g, '');
+};
+
+// Minutes east of UTC to +HHMM
+const formatOffset = (minutes: number) => {
+  const abs = Math.abs(minutes);
+  return `${minutes < 0 ? '-' : '+'}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+};
+
+// Reminder minutes before the start to a TRIGGER duration
+const formatTrigger = (minutes: number) => {
+  if (minutes === 0) return 'PT0M';
+  if (minutes % 1440 === 0) return `-P${minutes / 1440}D`;
+  if (minutes % 60 === 0) return `-PT${minutes / 60}H`;
+  return `-PT${minutes}M`;
+};
+
+// Weekday rule of a date, e.g. "-1SU" for the last Sunday of its month
+const getMonthlyWeekday = (date: Date) => {
+  const day = date.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  return `${day + 7 > daysInMonth ? -1 : Math.ceil(day / 7)}${WEEKDAYS[date.getUTCDay()]}`;
+};
+
+// Zone rules around the event. Zones that change twice a year get yearly rules, so
+// recurring events stay correct; anything else only covers the year of the event.
+const createVTimezone = (timeZone: string, year: number): string[] => {
+  const transitions = getTimeZoneTransitions(timeZone, year);
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  if (transitions.length === 0) {
+    const offset = formatOffset(getTimeZoneOffset(timeZone, Date.UTC(year, 0, 1)));
+    lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD');
+  }
+  for (const transition of transitions) {
+    const component = transition.offsetTo > transition.offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+    // Onsets are written in the local time in effect before the change
+    const onset = new Date(transition.at + transition.offsetFrom * MINUTE);
+    lines.push(
+      `BEGIN:${component}`,
+      `DTSTART:${formatWallTime(onset.toISOString().slice(0, 16))}`,
+      transitions.length === 2
+        ? `RRULE:FREQ=YEARLY;BYMONTH=${onset.getUTCMonth() + 1};BYDAY=${getMonthlyWeekday(onset)}`
+        : '',
+      `TZOFFSETFROM:${formatOffset(transition.offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(transition.offsetTo)}`,
+      `END:${component}`,
+    );
+  }
+  lines.push('END:VTIMEZONE');
+  return lines.filter((line) => line);
+};
+
+export const generateCalendarPayload = (cal: CalendarData): string => {
+  if (!cal.title) return '';
+  const timeZone = isTimeZone(cal.timeZone) ? cal.timeZone : getLocalTimeZone();
+  // A bare VEVENT cannot carry its VTIMEZONE, so its times are always converted to UTC
+  const useUTC = cal.useUTC || cal.format === 'vevent';
+
+  const formatDateTime = (name: string, wallTime: string) => {
+    if (useUTC) {
+      const date = zonedToUtc(wallTime, timeZone);
+      return date ? `${name}:${formatUtc(date)}` : '';
+    }
+    return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(wallTime) ? `${name};TZID=${timeZone}:${formatWallTime(wallTime)}` : '';
+  };
+
+  const event = ['BEGIN:VEVENT', `SUMMARY:${escapeContentText(cal.title)}`];
+  if (cal.location) event.push(`LOCATION:${escapeContentText(cal.location)}`);
+  if (cal.description) event.push(`DESCRIPTION:${escapeContentText(cal.description)}`);
+
+  if (cal.allDay) {
+    // All-day events are dates without a time zone
+    if (cal.startDate) event.push(`DTSTART;VALUE=DATE:${formatDate(cal.startDate)}`);
+    if (cal.endDate) event.push(`DTEND;VALUE=DATE:${getNextDay(cal.endDate)}`);
+  } else {
+    if (cal.startDate) event.push(formatDateTime('DTSTART', cal.startDate));
+    if (cal.endDate) event.push(formatDateTime('DTEND', cal.endDate));
+  }
+
+  if (cal.repeat !== 'none') {
+    const rule = [`FREQ=${cal.repeat}`];
+    const count = parseInt(cal.repeatCount, 10);
+    if (cal.repeatEnd === 'count' && count > 0) rule.push(`COUNT=${count}`);
+    if (cal.repeatEnd === 'until' && /^\d{4}-\d{2}-\d{2}$/.test(cal.repeatUntil)) {
+      // UNTIL has the type of DTSTART, and is in UTC for zoned times
+      const until = cal.allDay ? null : zonedToUtc(`${cal.repeatUntil}T23:59`, timeZone);
+      rule.push(`UNTIL=${until ? formatUtc(until) : formatDate(cal.repeatUntil)}`);
+    }
+    event.push(`RRULE:${rule.join(';')}`);
+  }
+
+  if (cal.url.trim()) event.push(`URL:${cal.url.trim()}`);
+  if (cal.organizerEmail.trim()) {
+    const name = cal.organizerName.trim() ? `;CN=${quoteParameterValue(cal.organizerName.trim())}` : '';
+    event.push(`ORGANIZER${name}:mailto:${cal.organizerEmail.trim()}`);
+  }
+
+  const reminder = parseInt(cal.reminder, 10);
+  if (reminder >= 0) {
+    event.push('BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeContentText(cal.title)}`,
+      `TRIGGER:${formatTrigger(reminder)}`, 'END:VALARM');
+  }
+  event.push('END:VEVENT');
+
+  if (cal.format === 'vevent') return joinContentLines(event.filter((line) => line));
+
+  const year = Number(cal.startDate.slice(0, 4));
+  const zoned = !useUTC && !cal.allDay && year > 0;
+  return joinContentLines([
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    ...(zoned ? createVTimezone(timeZone, year) : []),
+    ...event.filter((line) => line),
+    'END:VCALENDAR',
+  ]);
+};
+
+// Date or date-time as written, with the zone it was written in
+interface CalendarTime {
+  value: string;
+  timeZone: string;
+  dateOnly: boolean;
+}
+
+const readCalendarTime = ({ value, parameters }: ContentLine): CalendarTime => ({
+  value,
+  timeZone: parameters.TZID || '',
+  dateOnly: parameters.VALUE?.toUpperCase() === 'DATE' || /^\d{8}$/.test(value),
+});
+
+// iCalendar date or date-time to the "YYYY-MM-DD" / "YYYY-MM-DDTHH:MM" values of the form,
+// as wall time in the time zone of the form
+const toFormTime = (time: CalendarTime, timeZone: string): string => {
+  const match = time.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{0,2}(Z)?)?$/);
+  if (!match) return '';
+  const [, year, month, day, hours = '00', minutes = '00', utc] = match;
+  if (time.dateOnly) return `${year}-${month}-${day}`;
+  const wallTime = `${year}-${month}-${day}T${hours}:${minutes}`;
+  if (utc) return utcToZoned(new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes)), timeZone);
+  if (time.timeZone && time.timeZone !== timeZone && isTimeZone(time.timeZone)) {
+    const date = zonedToUtc(wallTime, time.timeZone);
+    return date ? utcToZoned(date, timeZone) : wallTime;
+  }
+  return wallTime;
+};
+
+// TRIGGER duration before the start to minutes, or null for other triggers
+const parseTrigger = ({ value, parameters }: ContentLine): number | null => {
+  if (parameters.VALUE?.toUpperCase() === 'DATE-TIME' || parameters.RELATED?.toUpperCase() === 'END') return null;
+  const match = value.match(/^(-|\+)?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:\d+S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks = '0', days = '0', hours = '0', minutes = '0'] = match;
+  const total = ((+weeks * 7 + +days) * 24 + +hours) * 60 + +minutes;
+  return sign === '-' || total === 0 ? total : null;
+};
+
+export const parseCalendarPayload = (payload: string): CalendarData | null => {
+  const data: CalendarData = {
+    ...getDefaultCalendarData(),
+    allDay: false,
+    format: /^BEGIN:VEVENT/i.test(payload.trim()) ? 'vevent' : 'vcalendar',
+  };
+  let start: CalendarTime | null = null;
+  let end: CalendarTime | null = null;
+  let rule: Record<string, string> | null = null;
+  let inEvent = !/BEGIN:VEVENT/i.test(payload);
+  let inAlarm = false;
+  for (const line of parseContentLines(payload)) {
+    const { name, value } = line;
+    if (name === 'BEGIN' && value.toUpperCase() === 'VEVENT') inEvent = true;
+    if (name === 'END' && value.toUpperCase() === 'VEVENT') break;
+    if (!inEvent) continue;
+    if (name === 'BEGIN' && value.toUpperCase() === 'VALARM') inAlarm = true;
+    if (name === 'END' && value.toUpperCase() === 'VALARM') inAlarm = false;
+    if (inAlarm) {
+      // Only the first reminder is kept
+      const reminder = name === 'TRIGGER' ? parseTrigger(line) : null;
+      if (reminder !== null && !data.reminder) data.reminder = String(reminder);
+      continue;
+    }
+    switch (name) {
+      case 'SUMMARY': data.title = unescapeContentText(value); break;
+      case 'LOCATION': data.location = unescapeContentText(value); break;
+      case 'DESCRIPTION': data.description = unescapeContentText(value); break;
+      case 'DTSTART': start = readCalendarTime(line); break;
+      case 'DTEND': end = readCalendarTime(line); break;
+      case 'URL': data.url = value; break;
+      case 'ORGANIZER':
+        data.organizerName = line.parameters.CN || '';
+        data.organizerEmail = value.replace(/^mailto:/i, '');
+        break;
+      case 'RRULE':
+        rule = Object.fromEntries(value.split(';').map((part) => {
+          const [key, ...rest] = part.split('=');
+          return [key.toUpperCase(), rest.join('=')];
+        }));
+        break;
+    }
+  }
+
+  if (start) {
+    data.allDay = start.dateOnly;
+    if (!start.dateOnly) {
+      if (isTimeZone(start.timeZone)) data.timeZone = start.timeZone;
+      data.useUTC = start.value.toUpperCase().endsWith('Z');
+    }
+    data.startDate = toFormTime(start, data.timeZone);
+  }
+  if (end) {
+    const endTime = toFormTime(end, data.timeZone);
+    if (end.dateOnly && endTime) {
+      // DTEND of all-day events is exclusive, the form holds the last day
+      const lastDay = new Date(`${endTime}T00:00:00Z`);
+      lastDay.setUTCDate(lastDay.getUTCDate() - 1);
+      data.endDate = lastDay.toISOString().slice(0, 10);
+    } else {
+      data.endDate = endTime;
+    }
+  }
+
+  const repeat = REPEATS.find((frequency) => frequency === rule?.FREQ?.toUpperCase());
+  if (rule && repeat) {
+    data.repeat = repeat;
+    if (rule.COUNT) {
+      data.repeatEnd = 'count';
+      data.repeatCount = rule.COUNT;
+    } else if (rule.UNTIL) {
+      const until = toFormTime({ value: rule.UNTIL, timeZone: '', dateOnly: /^\d{8}$/.test(rule.UNTIL) }, data.timeZone);
+      data.repeatEnd = until ? 'until' : 'never';
+      data.repeatUntil = until.slice(0, 10);
+    }
+  }
+  return data.title ? data : null;
+};
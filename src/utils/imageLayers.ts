@@ -0,0 +1,160 @@
+import type { ExtensionFunction } from 'qr-code-styling';
+import type { ImageLayer } from '../types/qr';
+import { relativeLuminance, type ImageOverlays } from './designLint';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Longest stored edge: sharp on print-size codes without filling browser storage
+const MAX_IMAGE_EDGE = 1024;
+// Edge of the thumbnail the luminance range is measured on
+const SAMPLE_EDGE = 64;
+// Share of pixels ignored at each end of the luminance range, so specks do not count
+const OUTLIER_SHARE = 0.05;
+// Pixels more transparent than this show the layer beneath and are not measured
+const MIN_ALPHA = 128;
+
+export type ImageLayerSource = Pick<ImageLayer, 'src' | 'width' | 'height' | 'darkLuminance' | 'lightLuminance'>;
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Image could not be loaded'));
+  image.src = src;
+});
+
+const drawScaled = (image: HTMLImageElement, width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')?.drawImage(image, 0, 0, width, height);
+  return canvas;
+};
+
+const toHex = (r: number, g: number, b: number) =>
+  `#${[r, g, b].map((v) => v.toString(16).padStart(2, '0')).join('')}`;
+
+// Luminance of the darkest and lightest opaque parts of an image
+const measureLuminance = (image: HTMLImageElement): Pick<ImageLayer, 'darkLuminance' | 'lightLuminance'> => {
+  const pixels = drawScaled(image, SAMPLE_EDGE, SAMPLE_EDGE).getContext('2d')?.getImageData(0, 0, SAMPLE_EDGE, SAMPLE_EDGE).data;
+  const luminances: number[] = [];
+  for (let i = 0; pixels && i < pixels.length; i += 4) {
+    if (pixels[i + 3] >= MIN_ALPHA) luminances.push(relativeLuminance(toHex(pixels[i], pixels[i + 1], pixels[i + 2])));
+  }
+  // A fully transparent image hides nothing
+  if (luminances.length === 0) return { darkLuminance: 1, lightLuminance: 0 };
+  luminances.sort((a, b) => a - b);
+  const outliers = Math.floor(luminances.length * OUTLIER_SHARE);
+  return { darkLuminance: luminances[outliers], lightLuminance: luminances[luminances.length - 1 - outliers] };
+};
+
+// Read an image file for a layer: scaled down for storage, with its luminance range measured
+export const readImageLayer = async (file: File): Promise<ImageLayerSource> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(url);
+    // SVGs without intrinsic dimensions report zero
+    const naturalWidth = image.naturalWidth || MAX_IMAGE_EDGE;
+    const naturalHeight = image.naturalHeight || MAX_IMAGE_EDGE;
+    const scale = Math.min(1, MAX_IMAGE_EDGE / Math.max(naturalWidth, naturalHeight));
+    const width = Math.max(1, Math.round(naturalWidth * scale));
+    const height = Math.max(1, Math.round(naturalHeight * scale));
+    const canvas = drawScaled(image, width, height);
+    // JPEG keeps photos small; everything else may have transparency worth keeping
+    const src = file.type === 'image/jpeg' ? canvas.toDataURL('image/jpeg', 0.85) : canvas.toDataURL('image/png');
+    return { src, width, height, ...measureLuminance(image) };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const createElement = (doc: Document, name: string, attributes: Record<string, string | number>) => {
+  const element = doc.createElementNS(SVG_NS, name);
+  Object.entries(attributes).forEach(([key, value]) => element.setAttribute(key, String(value)));
+  return element;
+};
+
+// Pattern ids must be unique across every code on the page
+let patternCount = 0;
+
+// The image laid over an area as its fit asks
+const createImageFill = (doc: Document, defs: Element, layer: ImageLayer, x: number, y: number, size: number) => {
+  const image = (width: number, height: number, fit: string) => createElement(doc, 'image', {
+    href: layer.src,
+    'xlink:href': layer.src,
+    width,
+    height,
+    preserveAspectRatio: fit,
+  });
+
+  if (layer.fit === 'tile' && layer.width > 0) {
+    const id = `image-layer-pattern-${++patternCount}`;
+    const tileWidth = size * layer.tileSize;
+    const tileHeight = tileWidth * (layer.height / layer.width);
+    const pattern = createElement(doc, 'pattern', { id, patternUnits: 'userSpaceOnUse', x, y, width: tileWidth, height: tileHeight });
+    pattern.appendChild(image(tileWidth, tileHeight, 'none'));
+    defs.appendChild(pattern);
+    return createElement(doc, 'rect', { x, y, width: size, height: size, fill: `url(#${id})` });
+  }
+
+  const fill = image(size, size, layer.fit === 'contain' ? 'xMidYMid meet' : 'xMidYMid slice');
+  fill.setAttribute('x', String(x));
+  fill.setAttribute('y', String(y));
+  return fill;
+};
+
+// A layer at its opacity, with a veil over it at full strength
+const createLayerGroup = (
+  doc: Document,
+  defs: Element,
+  layer: ImageLayer,
+  area: { x: number; y: number; size: number },
+  veil: { color: string; opacity: number },
+) => {
+  const group = createElement(doc, 'g', {});
+  const image = createElement(doc, 'g', { opacity: layer.opacity });
+  image.appendChild(createImageFill(doc, defs, layer, area.x, area.y, area.size));
+  group.appendChild(image);
+  if (veil.opacity > 0) {
+    group.appendChild(createElement(doc, 'rect', {
+      x: area.x,
+      y: area.y,
+      width: area.size,
+      height: area.size,
+      fill: veil.color,
+      'fill-opacity': veil.opacity,
+    }));
+  }
+  return group;
+};
+
+// Draw the background image over the background colour, and the module image inside the dots.
+// Finder patterns keep their colours, so scanners still lock on to the code.
+export const createImageLayersExtension = (
+  backgroundImage: ImageLayer | null,
+  moduleImage: ImageLayer | null,
+  overlays: ImageOverlays,
+): ExtensionFunction => (svg, options) => {
+  const doc = svg.ownerDocument;
+  const size = Math.min(options.width ?? 0, options.height ?? 0);
+  const margin = options.margin ?? 0;
+  const defs = svg.querySelector('defs') ?? svg.insertBefore(createElement(doc, 'defs', {}), svg.firstChild);
+
+  if (backgroundImage) {
+    const layer = createLayerGroup(doc, defs, backgroundImage, { x: 0, y: 0, size }, {
+      color: '#ffffff',
+      opacity: overlays.background,
+    });
+    const background = svg.querySelector('rect[clip-path*="clip-path-background-color-"]') ?? defs;
+    background.after(layer);
+  }
+
+  const dots = svg.querySelector('rect[clip-path*="clip-path-dot-color-"]');
+  if (moduleImage && dots) {
+    const layer = createLayerGroup(doc, defs, moduleImage, { x: margin, y: margin, size: size - margin * 2 }, {
+      color: '#000000',
+      opacity: overlays.modules,
+    });
+    layer.setAttribute('clip-path', dots.getAttribute('clip-path') ?? '');
+    dots.after(layer);
+  }
+};
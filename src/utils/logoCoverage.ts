@@ -0,0 +1,122 @@
+import type { ErrorCorrectionLevel } from 'qr-code-styling';
+import { getBlockLayout, getCodewordModules } from './qrDecoder';
+import { getQRVersion } from './qrEncoding';
+
+const LEVELS: ErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H'];
+
+// qr-code-styling scales the image area by these shares of the module count
+const RENDERER_COVER_LEVELS: Record<ErrorCorrectionLevel, number> = { L: 0.07, M: 0.15, Q: 0.25, H: 0.3 };
+
+// Share of each block's correctable errors the logo may use, leaving the rest
+// for print defects, glare and camera blur
+export const MAX_LOGO_ERROR_BUDGET = 0.75;
+
+// Range of the logo size control
+export const MIN_LOGO_SIZE = 0.1;
+export const MAX_LOGO_SIZE = 0.3;
+
+export interface LogoCoverage {
+  version: number;
+  moduleCount: number;
+  // Modules cleared for the logo, and their share of the symbol
+  hiddenModules: number;
+  share: number;
+  // Largest share of a block's correctable errors taken by the logo (above 1 is unreadable)
+  errorBudget: number;
+}
+
+// Image size for qr-code-styling so that the logo hides `imageSize` of the modules whatever the level
+export const toRendererImageSize = (imageSize: number, level: ErrorCorrectionLevel) =>
+  imageSize / RENDERER_COVER_LEVELS[level];
+
+// Share of the modules hidden by a logo sized before coverage was modelled, when the renderer
+// was given `imageSize / 0.3` whatever the level
+export const fromLegacyImageSize = (imageSize: number, level: ErrorCorrectionLevel) =>
+  (imageSize * RENDERER_COVER_LEVELS[level]) / RENDERER_COVER_LEVELS.H;
+
+// Side in modules of the square qr-code-styling clears behind a square image (the largest area
+// for a given size). The image margin is drawn inside this square, so it hides no extra modules.
+const hiddenSide = (moduleCount: number, imageSize: number) => {
+  let side = Math.max(1, Math.floor(Math.sqrt(Math.floor(imageSize * moduleCount * moduleCount))));
+  side = Math.min(side, moduleCount - 14);
+  return side % 2 === 0 ? side - 1 : side;
+};
+
+// Modules a centred logo hides at one level, and how much of the error correction that costs
+export const getLogoCoverage = (data: string, level: ErrorCorrectionLevel, imageSize: number): LogoCoverage | null => {
+  const version = getQRVersion(data, level);
+  if (version === null) return null;
+  const moduleCount = 17 + 4 * version;
+  const side = hiddenSide(moduleCount, imageSize);
+  const start = (moduleCount - side) / 2;
+  const isHidden = (x: number, y: number) => x >= start && x < start + side && y >= start && y < start + side;
+
+  // Codewords are interleaved: data codewords round-robin over the blocks, then the error correction ones
+  const { ecPerBlock, dataPerBlock } = getBlockLayout(version, level);
+  const blockOf: number[] = [];
+  for (let i = 0; i < Math.max(...dataPerBlock); i++) {
+    dataPerBlock.forEach((count, block) => i < count && blockOf.push(block));
+  }
+  for (let i = 0; i < ecPerBlock; i++) dataPerBlock.forEach((_, block) => blockOf.push(block));
+
+  // Any codeword touched by the logo counts as an error
+  const errors = dataPerBlock.map(() => 0);
+  getCodewordModules(version).forEach((modules, index) => {
+    if (index < blockOf.length && modules.some(({ x, y }) => isHidden(x, y))) errors[blockOf[index]]++;
+  });
+  const correctable = Math.floor(ecPerBlock / 2);
+
+  return {
+    version,
+    moduleCount,
+    hiddenModules: side * side,
+    share: (side * side) / (moduleCount * moduleCount),
+    errorBudget: Math.max(...errors) / correctable,
+  };
+};
+
+// Lowest level at which the logo stays within the error budget, or null when even H is not enough
+export const getRequiredLevelForLogo = (data: string, imageSize: number): ErrorCorrectionLevel | null =>
+  LEVELS.find((level) => {
+    const coverage = getLogoCoverage(data, level, imageSize);
+    return coverage !== null && coverage.errorBudget <= MAX_LOGO_ERROR_BUDGET;
+  }) ?? null;
+
+export interface LogoCheck {
+  // Level the code is rendered at
+  level: ErrorCorrectionLevel;
+  // Whether the level was raised above the chosen one for the logo
+  raised: boolean;
+  coverage: LogoCoverage;
+  // Whether the logo stays within the error budget at that level
+  safe: boolean;
+  // Largest logo size that is safe at that level, when the current one is not
+  maxSafeSize: number | null;
+}
+
+// Raise the chosen level as far as the logo needs, unless the template fixes it
+export const checkLogo = (
+  data: string,
+  chosenLevel: ErrorCorrectionLevel,
+  imageSize: number,
+  levelFixed: boolean
+): LogoCheck | null => {
+  const required = levelFixed ? chosenLevel : getRequiredLevelForLogo(data, imageSize) ?? 'H';
+  const level = LEVELS.indexOf(required) > LEVELS.indexOf(chosenLevel) ? required : chosenLevel;
+  const coverage = getLogoCoverage(data, level, imageSize);
+  if (!coverage) return null;
+
+  const safe = coverage.errorBudget <= MAX_LOGO_ERROR_BUDGET;
+  let maxSafeSize: number | null = null;
+  if (!safe) {
+    // Sizes in the 1% steps of the size control
+    for (let percent = Math.round(imageSize * 100) - 1; percent >= MIN_LOGO_SIZE * 100; percent--) {
+      const smaller = getLogoCoverage(data, level, percent / 100);
+      if (smaller && smaller.errorBudget <= MAX_LOGO_ERROR_BUDGET) {
+        maxSafeSize = percent / 100;
+        break;
+      }
+    }
+  }
+  return { level, raised: level !== chosenLevel, coverage, safe, maxSafeSize };
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ExtensionFunction } from 'qr-code-styling';
+import {
+  NEIGHBOUR_BOTTOM,
+  NEIGHBOUR_BOTTOM_RIGHT,
+  NEIGHBOUR_LEFT,
+  NEIGHBOUR_RIGHT,
+  NEIGHBOUR_TOP,
+  NEIGHBOUR_TOP_LEFT,
+  createModuleShapeExtension,
+  getDotTypes,
+  getModuleShape,
+  getNeighbours,
+  isModuleShape,
+  registerModuleShape,
+  type ModuleShape,
+} from './moduleShapes';
+
+// 3x3 sample:  X X .
+//              . X X
+//              . . X
+const GRID = [
+  [1, 1, 0],
+  [0, 1, 1],
+  [0, 0, 1],
+];
+const isDark = (row: number, col: number) => GRID[row]?.[col] === 1;
+
+const draw = (type: string, neighbours = 0) => getModuleShape(type)?.(0, 0, 10, neighbours);
+
+describe('module shapes', () => {
+  it('sets a bit for each dark neighbour', () => {
+    expect(getNeighbours(isDark, 1, 1)).toBe(NEIGHBOUR_TOP | NEIGHBOUR_RIGHT | NEIGHBOUR_TOP_LEFT | NEIGHBOUR_BOTTOM_RIGHT);
+    expect(getNeighbours(isDark, 0, 0)).toBe(NEIGHBOUR_RIGHT | NEIGHBOUR_BOTTOM_RIGHT);
+    expect(getNeighbours(isDark, 2, 2)).toBe(NEIGHBOUR_TOP | NEIGHBOUR_TOP_LEFT);
+  });
+
+  it('draws shapes inside their module', () => {
+    expect(draw('diamond')).toBe('M5 0L10 5L5 10L0 5Z');
+    expect(draw('star')).toMatch(/^M5 0L/);
+    expect(draw('heart')).toMatch(/^M5 9.5C/);
+  });
+
+  it('runs bars on through neighbours along their axis', () => {
+    expect(draw('vertical-bars')).toBe('M5 0H5A4 4 0 0 1 9 4V6A4 4 0 0 1 5 10H5A4 4 0 0 1 1 6V4A4 4 0 0 1 5 0Z');
+    expect(draw('vertical-bars', NEIGHBOUR_TOP | NEIGHBOUR_BOTTOM))
+      .toBe('M1 0H9A0 0 0 0 1 9 0V10A0 0 0 0 1 9 10H1A0 0 0 0 1 1 10V0A0 0 0 0 1 1 0Z');
+    expect(draw('horizontal-bars', NEIGHBOUR_LEFT | NEIGHBOUR_RIGHT))
+      .toBe('M0 1H10A0 0 0 0 1 10 1V9A0 0 0 0 1 10 9H0A0 0 0 0 1 0 9V1A0 0 0 0 1 0 1Z');
+  });
+
+  it('rounds open corners of liquid modules and fills the inner corner of an L', () => {
+    expect(draw('liquid')).toBe('M5 0H5A5 5 0 0 1 10 5V5A5 5 0 0 1 5 10H5A5 5 0 0 1 0 5V5A5 5 0 0 1 5 0Z');
+    const bend = draw('liquid', NEIGHBOUR_RIGHT | NEIGHBOUR_BOTTOM);
+    expect(bend).toMatch(/^M5 0H10A0 0 0 0 1 10 0V10/);
+    expect(bend).toContain('M10 10L12.5 10A2.5 2.5 0 0 0 10 12.5Z');
+  });
+
+  it('offers registered shapes alongside the built-in ones', () => {
+    const square: ModuleShape = (x, y, size) => `M${x} ${y}h${size}v${size}h${-size}Z`;
+    registerModuleShape('test-square', square);
+    expect(isModuleShape('test-square')).toBe(true);
+    expect(getDotTypes()).toEqual(expect.arrayContaining(['square', 'liquid', 'test-square']));
+    expect(draw('test-square')).toBe('M0 0h10v10h-10Z');
+    expect(() => registerModuleShape('rounded', square)).toThrow();
+  });
+
+  it('keeps the rendered squares when the renderer markup is not found', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const svg = { querySelector: () => null } as unknown as Parameters<ExtensionFunction>[0];
+    expect(() => createModuleShapeExtension('diamond')(svg, {})).not.toThrow();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
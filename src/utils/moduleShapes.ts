@@ -0,0 +1,188 @@
+import type { DotType, ExtensionFunction } from 'qr-code-styling';
+import type { QRDotType } from '../types/qr';
+import { dotTypes } from '../types/qr';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Bits of the neighbour mask, set when that neighbouring module is dark
+export const NEIGHBOUR_TOP = 1;
+export const NEIGHBOUR_RIGHT = 2;
+export const NEIGHBOUR_BOTTOM = 4;
+export const NEIGHBOUR_LEFT = 8;
+export const NEIGHBOUR_TOP_RIGHT = 16;
+export const NEIGHBOUR_BOTTOM_RIGHT = 32;
+export const NEIGHBOUR_BOTTOM_LEFT = 64;
+export const NEIGHBOUR_TOP_LEFT = 128;
+
+// Outline of one dark module whose top-left corner is at (x, y). Shapes may reach into
+// neighbouring cells, as long as they stay clear of light modules.
+export type ModuleShape = (x: number, y: number, size: number, neighbours: number) => string;
+
+// Share of the module width that bars keep
+const BAR_WIDTH = 0.8;
+// Star points reach the cell edge; the inner corners sit at this share of that radius
+const STAR_INNER_RADIUS = 0.5;
+// Radius of the fillets joining liquid modules at an inner corner, as a share of the module
+const LIQUID_FILLET = 0.25;
+
+// Two decimals keep paths short without visible steps at print sizes
+const n = (value: number) => +value.toFixed(2);
+
+const has = (neighbours: number, bit: number) => (neighbours & bit) !== 0;
+
+// Rectangle with its own radius at each corner: top-left, top-right, bottom-right, bottom-left
+const roundedRect = (x: number, y: number, width: number, height: number, [tl, tr, br, bl]: number[]) =>
+  `M${n(x + tl)} ${n(y)}H${n(x + width - tr)}A${n(tr)} ${n(tr)} 0 0 1 ${n(x + width)} ${n(y + tr)}`
+  + `V${n(y + height - br)}A${n(br)} ${n(br)} 0 0 1 ${n(x + width - br)} ${n(y + height)}`
+  + `H${n(x + bl)}A${n(bl)} ${n(bl)} 0 0 1 ${n(x)} ${n(y + height - bl)}`
+  + `V${n(y + tl)}A${n(tl)} ${n(tl)} 0 0 1 ${n(x + tl)} ${n(y)}Z`;
+
+const diamond: ModuleShape = (x, y, size) => {
+  const half = size / 2;
+  return `M${n(x + half)} ${n(y)}L${n(x + size)} ${n(y + half)}L${n(x + half)} ${n(y + size)}L${n(x)} ${n(y + half)}Z`;
+};
+
+const star: ModuleShape = (x, y, size) => {
+  const radius = size / 2;
+  const points = Array.from({ length: 10 }, (_, i) => {
+    const r = i % 2 === 0 ? radius : radius * STAR_INNER_RADIUS;
+    const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+    return `${n(x + radius + r * Math.cos(angle))} ${n(y + radius + r * Math.sin(angle))}`;
+  });
+  return `M${points.join('L')}Z`;
+};
+
+// Control points of a heart on a unit cell, from the bottom tip round the left lobe and back
+const HEART: number[][] = [
+  [0.5, 0.95],
+  [0.2, 0.75, 0, 0.55, 0, 0.32],
+  [0, 0.13, 0.15, 0.02, 0.3, 0.02],
+  [0.4, 0.02, 0.47, 0.08, 0.5, 0.18],
+  [0.53, 0.08, 0.6, 0.02, 0.7, 0.02],
+  [0.85, 0.02, 1, 0.13, 1, 0.32],
+  [1, 0.55, 0.8, 0.75, 0.5, 0.95],
+];
+
+const heart: ModuleShape = (x, y, size) => {
+  const point = (values: number[]) =>
+    values.map((value, i) => n((i % 2 === 0 ? x : y) + value * size)).join(' ');
+  return `M${point(HEART[0])}${HEART.slice(1).map((curve) => `C${point(curve)}`).join('')}Z`;
+};
+
+// Bars run on through dark neighbours along their axis and end in round caps
+const verticalBars: ModuleShape = (x, y, size, neighbours) => {
+  const width = size * BAR_WIDTH;
+  const top = has(neighbours, NEIGHBOUR_TOP) ? 0 : width / 2;
+  const bottom = has(neighbours, NEIGHBOUR_BOTTOM) ? 0 : width / 2;
+  return roundedRect(x + (size - width) / 2, y, width, size, [top, top, bottom, bottom]);
+};
+
+const horizontalBars: ModuleShape = (x, y, size, neighbours) => {
+  const height = size * BAR_WIDTH;
+  const left = has(neighbours, NEIGHBOUR_LEFT) ? 0 : height / 2;
+  const right = has(neighbours, NEIGHBOUR_RIGHT) ? 0 : height / 2;
+  return roundedRect(x, y + (size - height) / 2, size, height, [left, right, right, left]);
+};
+
+// Corners of a module with the sides meeting there and the diagonal between them
+const CORNERS = [
+  { sides: [NEIGHBOUR_TOP, NEIGHBOUR_LEFT], diagonal: NEIGHBOUR_TOP_LEFT, dx: -1, dy: -1 },
+  { sides: [NEIGHBOUR_TOP, NEIGHBOUR_RIGHT], diagonal: NEIGHBOUR_TOP_RIGHT, dx: 1, dy: -1 },
+  { sides: [NEIGHBOUR_BOTTOM, NEIGHBOUR_RIGHT], diagonal: NEIGHBOUR_BOTTOM_RIGHT, dx: 1, dy: 1 },
+  { sides: [NEIGHBOUR_BOTTOM, NEIGHBOUR_LEFT], diagonal: NEIGHBOUR_BOTTOM_LEFT, dx: -1, dy: 1 },
+];
+
+// Modules melt into their neighbours: open corners are rounded, and inner corners get a fillet.
+// Only the module at the bend of an L draws its fillet, so each is drawn once.
+const liquid: ModuleShape = (x, y, size, neighbours) => {
+  const radii = CORNERS.map(({ sides }) => (sides.some((side) => has(neighbours, side)) ? 0 : size / 2));
+  const fillet = size * LIQUID_FILLET;
+  const fillets = CORNERS
+    .filter(({ sides, diagonal }) => sides.every((side) => has(neighbours, side)) && !has(neighbours, diagonal))
+    .map(({ dx, dy }) => {
+      const cornerX = x + (dx > 0 ? size : 0);
+      const cornerY = y + (dy > 0 ? size : 0);
+      return `M${n(cornerX)} ${n(cornerY)}L${n(cornerX + dx * fillet)} ${n(cornerY)}`
+        + `A${n(fillet)} ${n(fillet)} 0 0 ${dx * dy > 0 ? 0 : 1} ${n(cornerX)} ${n(cornerY + dy * fillet)}Z`;
+    });
+  return roundedRect(x, y, size, size, radii) + fillets.join('');
+};
+
+const builtInModuleShapes = {
+  diamond,
+  star,
+  heart,
+  'vertical-bars': verticalBars,
+  'horizontal-bars': horizontalBars,
+  liquid,
+};
+
+// Names of the shapes drawn by the app: the built-in ones, and those registered at run time
+export type ModuleShapeType = keyof typeof builtInModuleShapes | (string & {});
+
+const moduleShapes = new Map<ModuleShapeType, ModuleShape>(Object.entries(builtInModuleShapes));
+
+// Add a shape to the style picker, the preview and every export. Register it before the saved
+// settings load, or a design using it falls back to the default dot style.
+export const registerModuleShape = (name: string, shape: ModuleShape) => {
+  if (dotTypes.includes(name as DotType)) throw new Error(`"${name}" is drawn by the renderer and cannot be replaced`);
+  moduleShapes.set(name, shape);
+};
+
+export const getModuleShape = (type: ModuleShapeType): ModuleShape | undefined => moduleShapes.get(type);
+
+// Dot types in the style picker: the renderer's, then the registered shapes
+export const getDotTypes = (): QRDotType[] => [...dotTypes, ...moduleShapes.keys()];
+
+// Whether the app draws a dot type, rather than the renderer
+export const isModuleShape = (type: QRDotType): type is ModuleShapeType => moduleShapes.has(type);
+
+const NEIGHBOUR_OFFSETS: [number, number, number][] = [
+  [-1, 0, NEIGHBOUR_TOP],
+  [0, 1, NEIGHBOUR_RIGHT],
+  [1, 0, NEIGHBOUR_BOTTOM],
+  [0, -1, NEIGHBOUR_LEFT],
+  [-1, 1, NEIGHBOUR_TOP_RIGHT],
+  [1, 1, NEIGHBOUR_BOTTOM_RIGHT],
+  [1, -1, NEIGHBOUR_BOTTOM_LEFT],
+  [-1, -1, NEIGHBOUR_TOP_LEFT],
+];
+
+// Neighbour mask of the module at a row and column
+export const getNeighbours = (isDark: (row: number, col: number) => boolean, row: number, col: number): number =>
+  NEIGHBOUR_OFFSETS.reduce((mask, [dRow, dCol, bit]) => (isDark(row + dRow, col + dCol) ? mask | bit : mask), 0);
+
+// Redraw the data modules in a shape. The renderer draws them as plain squares in the dot
+// clip path, without the finder patterns and the modules under the logo; the squares give
+// the module grid back, and each is swapped for the shape. This relies on how qr-code-styling
+// builds its SVG: when that markup is not found, the squares are kept so the code still scans.
+export const createModuleShapeExtension = (type: ModuleShapeType): ExtensionFunction => (svg) => {
+  const shape = getModuleShape(type);
+  const clipPath = svg.querySelector('clipPath[id^="clip-path-dot-color-"]');
+  const squares = Array.from(clipPath?.querySelectorAll('rect') ?? []);
+  const modules = squares.map((square) => ({
+    x: Number(square.getAttribute('x')),
+    y: Number(square.getAttribute('y')),
+    size: Number(square.getAttribute('width')),
+  }));
+  if (!shape || !clipPath || modules.length === 0 || modules.some((module) => !(module.size > 0))) {
+    console.warn(`Module shape "${type}" not drawn: the rendered code has no module grid to redraw`);
+    return;
+  }
+
+  const size = modules[0].size;
+  const left = Math.min(...modules.map((module) => module.x));
+  const top = Math.min(...modules.map((module) => module.y));
+  const key = (row: number, col: number) => `${row},${col}`;
+  const cell = (module: { x: number; y: number }) =>
+    [Math.round((module.y - top) / size), Math.round((module.x - left) / size)] as const;
+  const dark = new Set(modules.map((module) => key(...cell(module))));
+  const isDark = (row: number, col: number) => dark.has(key(row, col));
+
+  squares.forEach((square) => square.remove());
+  modules.forEach((module) => {
+    const path = svg.ownerDocument.createElementNS(SVG_NS, 'path');
+    path.setAttribute('d', shape(module.x, module.y, module.size, getNeighbours(isDark, ...cell(module))));
+    clipPath.appendChild(path);
+  });
+};
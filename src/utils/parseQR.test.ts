@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { parseQRPayload } from './parseQR';
+
+describe('parseQRPayload', () => {
+  it.each(['tel:50%', 'mailto:a%ZZ@b.c', 'https://instagram.com/%E0'])(
+    'keeps malformed percent-escapes in %s as written',
+    (payload) => {
+      expect(() => parseQRPayload(payload)).not.toThrow();
+      expect(parseQRPayload(payload)).not.toBeNull();
+    },
+  );
+
+  it('still decodes well-formed escapes', () => {
+    expect(parseQRPayload('mailto:a%2Bb@c.d')?.data).toMatchObject({ email: 'a+b@c.d' });
+  });
+});
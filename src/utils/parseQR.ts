@@ -0,0 +1,266 @@
+import { parsePhoneNumberFromString } from 'libphonenumber-js';
+import type {
+  QRTemplateType,
+  QRTemplateData,
+  WiFiData,
+  EPCData,
+} from '../types/qr';
+import {
+  defaultSMSData,
+  defaultPhoneData,
+  defaultWhatsAppData,
+  defaultPayPalData,
+  defaultEPCData,
+} from '../types/qr';
+import { parseSwissQRPayload } from './swissQR';
+import { parsePixPayload, parsePayNowPayload, parsePromptPayPayload } from './emvco';
+import { decodeWiFiValue, unescapeContentText, splitUnescaped } from './payloadEscaping';
+import { parseVCardPayload, parseMeCardPayload } from './vCard';
+import { parseCalendarPayload } from './iCalendar';
+
+export interface ParsedQRPayload {
+  type: QRTemplateType;
+  data: QRTemplateData;
+}
+
+// Malformed percent-escapes are kept as written rather than failing the whole import
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// Parameters of a URI query string, tolerating "+" as a literal character
+const getParams = (query: string): URLSearchParams =>
+  new URLSearchParams(query.replace(/\+/g, '%2B'));
+
+// Split an international number into the calling code and national number used by the forms
+const splitPhone = (value: string, fallbackCountryCode: string) => {
+  const raw = value.trim();
+  const digits = raw.replace(/\D/g, '');
+  const international = raw.startsWith('+') || raw.startsWith('00')
+    ? parsePhoneNumberFromString(`+${digits.replace(/^00/, '')}`)
+    : undefined;
+  if (international) {
+    return { countryCode: `+${international.countryCallingCode}`, phone: international.nationalNumber };
+  }
+  return { countryCode: fallbackCountryCode, phone: digits };
+};
+
+const parseWiFi = (payload: string): WiFiData | null => {
+  const fields: Record<string, string> = {};
+  for (const part of splitUnescaped(payload.slice('WIFI:'.length), ';')) {
+    const colon = part.indexOf(':');
+    if (colon > 0) fields[part.slice(0, colon).toUpperCase()] = decodeWiFiValue(part.slice(colon + 1));
+  }
+  if (!fields.S) return null;
+  const type = (fields.T || '').toUpperCase();
+  return {
+    ssid: fields.S,
+    password: fields.P || '',
+    encryption: type === 'WEP' ? 'WEP' : !type || type === 'NOPASS' ? 'nopass' : 'WPA',
+    hidden: fields.H?.toLowerCase() === 'true',
+  };
+};
+
+const parseEPC = (payload: string): EPCData | null => {
+  const lines = payload.split(/\r?\n/);
+  if (lines[0] !== 'BCD' || lines[3] !== 'SCT' || !lines[5] || !lines[6]) return null;
+  const amount = lines[7]?.match(/^EUR(\d+(?:\.\d{1,2})?)$/);
+  return {
+    ...defaultEPCData,
+    bic: lines[4] || '',
+    name: lines[5],
+    iban: lines[6],
+    amount: amount ? amount[1] : '',
+    purpose: lines[8] || '',
+    remittanceType: lines[9] ? 'structured' : 'unstructured',
+    reference: lines[9] || '',
+    text: lines[10] || '',
+  };
+};
+
+const parseMailto = (payload: string): ParsedQRPayload => {
+  const [address, query = ''] = payload.slice('mailto:'.length).split('?');
+  const params = new URLSearchParams(query);
+  return {
+    type: 'email',
+    data: {
+      email: safeDecode(address),
+      subject: params.get('subject') || '',
+      body: params.get('body') || '',
+    },
+  };
+};
+
+// "MATMSG:TO:..;SUB:..;BODY:..;;"
+const parseMatMsg = (payload: string): ParsedQRPayload => {
+  const fields: Record<string, string> = {};
+  for (const part of splitUnescaped(payload.slice('MATMSG:'.length), ';')) {
+    const colon = part.indexOf(':');
+    if (colon > 0) fields[part.slice(0, colon).toUpperCase()] = unescapeContentText(part.slice(colon + 1));
+  }
+  return { type: 'email', data: { email: fields.TO || '', subject: fields.SUB || '', body: fields.BODY || '' } };
+};
+
+// "sms:+391234?body=..", "SMSTO:+391234:message"
+const parseSMS = (payload: string): ParsedQRPayload => {
+  const smsto = /^smsto:/i.test(payload);
+  const rest = payload.slice(smsto ? 'SMSTO:'.length : 'sms:'.length);
+  let number: string;
+  let message = '';
+  if (smsto) {
+    const colon = rest.indexOf(':');
+    number = colon < 0 ? rest : rest.slice(0, colon);
+    message = colon < 0 ? '' : rest.slice(colon + 1);
+  } else {
+    const [target, query = ''] = rest.split('?');
+    number = safeDecode(target);
+    message = getParams(query).get('body') || '';
+  }
+  return { type: 'sms', data: { ...splitPhone(number, defaultSMSData.countryCode), message } };
+};
+
+const parseGeo = (payload: string): ParsedQRPayload | null => {
+  const match = payload.match(/^geo:(-?[\d.]+),(-?[\d.]+)[^?]*(?:\?(.*))?$/i);
+  if (!match) return null;
+  const label = new URLSearchParams(match[3] || '').get('q') || '';
+  return { type: 'location', data: { latitude: match[1], longitude: match[2], label } };
+};
+
+const parseBitcoin = (payload: string): ParsedQRPayload => {
+  const [address, query = ''] = payload.slice('bitcoin:'.length).split('?');
+  const params = new URLSearchParams(query);
+  return {
+    type: 'bitcoin',
+    data: { address, amount: params.get('amount') || '', label: params.get('label') || '' },
+  };
+};
+
+const parseUPI = (payload: string): ParsedQRPayload | null => {
+  const query = payload.slice(payload.indexOf('?') + 1);
+  const params = getParams(query);
+  const vpa = params.get('pa');
+  if (!vpa) return null;
+  return {
+    type: 'upi',
+    data: {
+      vpa,
+      name: params.get('pn') || '',
+      amount: params.get('am') || '',
+      note: params.get('tn') || '',
+      reference: params.get('tr') || '',
+    },
+  };
+};
+
+// Social profile URLs: the first path segment is the username unless a prefix is expected
+const socialHosts: { hosts: string[]; type: QRTemplateType; prefix?: string }[] = [
+  { hosts: ['instagram.com', 'instagr.am'], type: 'instagram' },
+  { hosts: ['twitter.com', 'x.com'], type: 'twitter' },
+  { hosts: ['linkedin.com'], type: 'linkedin', prefix: 'in' },
+  { hosts: ['tiktok.com'], type: 'tiktok' },
+  { hosts: ['youtube.com'], type: 'youtube' },
+  { hosts: ['facebook.com', 'fb.com'], type: 'facebook' },
+  { hosts: ['snapchat.com'], type: 'snapchat', prefix: 'add' },
+];
+
+const parseWebURL = (payload: string): ParsedQRPayload => {
+  let url: URL;
+  try {
+    url = new URL(payload);
+  } catch {
+    return { type: 'url', data: { url: payload } };
+  }
+  const host = url.hostname.toLowerCase().replace(/^(www|m|mobile)\./, '');
+  const segments = url.pathname.split('/').filter(Boolean).map(safeDecode);
+
+  if (host === 'wa.me' || (host === 'api.whatsapp.com' && segments[0] === 'send')) {
+    const number = host === 'wa.me' ? segments[0] : url.searchParams.get('phone');
+    if (number) {
+      return {
+        type: 'whatsapp',
+        data: { ...splitPhone(`+${number}`, defaultWhatsAppData.countryCode), message: url.searchParams.get('text') || '' },
+      };
+    }
+  }
+
+  if ((host === 't.me' || host === 'telegram.me') && segments[0]) {
+    return { type: 'telegram', data: { username: segments[0], message: url.searchParams.get('text') || '' } };
+  }
+
+  if (host === 'paypal.me' || (host === 'paypal.com' && segments[0] === 'paypalme')) {
+    const [username, amountWithCurrency = ''] = host === 'paypal.me' ? segments : segments.slice(1);
+    const amount = amountWithCurrency.match(/^(\d+(?:[.,]\d+)?)([A-Za-z]{3})?$/);
+    if (username) {
+      return {
+        type: 'paypal',
+        data: {
+          ...defaultPayPalData,
+          username,
+          amount: amount ? amount[1] : '',
+          currency: amount?.[2] ? amount[2].toUpperCase() : defaultPayPalData.currency,
+        },
+      };
+    }
+  }
+
+  const social = socialHosts.find(({ hosts }) => hosts.includes(host));
+  if (social) {
+    const username = social.prefix
+      ? segments[0] === social.prefix ? segments[1] : undefined
+      : segments.length === 1 ? segments[0].replace(/^@/, '') : undefined;
+    if (username) return { type: social.type, data: { username } };
+  }
+
+  return { type: 'url', data: { url: payload } };
+};
+
+// Detect the template of a raw QR payload and recover its form data, or null when unrecognised
+export const parseQRPayload = (input: string): ParsedQRPayload | null => {
+  const payload = input.trim();
+  if (!payload) return null;
+  const lower = payload.toLowerCase();
+
+  if (lower.startsWith('wifi:')) {
+    const data = parseWiFi(payload);
+    return data && { type: 'wifi', data };
+  }
+  if (lower.startsWith('begin:vcard')) return { type: 'vcard', data: parseVCardPayload(payload) };
+  if (lower.startsWith('mecard:')) return { type: 'vcard', data: parseMeCardPayload(payload) };
+  if (lower.startsWith('begin:vcalendar') || lower.startsWith('begin:vevent')) {
+    const data = parseCalendarPayload(payload);
+    return data && { type: 'calendar', data };
+  }
+  if (lower.startsWith('mailto:')) return parseMailto(payload);
+  if (lower.startsWith('matmsg:')) return parseMatMsg(payload);
+  if (lower.startsWith('sms:') || lower.startsWith('smsto:')) return parseSMS(payload);
+  if (lower.startsWith('tel:')) {
+    return { type: 'phone', data: splitPhone(safeDecode(payload.slice('tel:'.length)), defaultPhoneData.countryCode) };
+  }
+  if (lower.startsWith('geo:')) return parseGeo(payload);
+  if (lower.startsWith('bitcoin:')) return parseBitcoin(payload);
+  if (lower.startsWith('upi://pay')) return parseUPI(payload);
+  if (payload.startsWith('BCD\n') || payload.startsWith('BCD\r\n')) {
+    const data = parseEPC(payload);
+    return data && { type: 'epc', data };
+  }
+  if (payload.startsWith('SPC\n') || payload.startsWith('SPC\r\n')) {
+    const data = parseSwissQRPayload(payload);
+    return data && { type: 'swissqr', data };
+  }
+  if (payload.startsWith('000201')) {
+    const pix = parsePixPayload(payload);
+    if (pix) return { type: 'pix', data: pix };
+    const payNow = parsePayNowPayload(payload);
+    if (payNow) return { type: 'paynow', data: payNow };
+    const promptPay = parsePromptPayPayload(payload);
+    if (promptPay) return { type: 'promptpay', data: promptPay };
+    return null;
+  }
+  if (/^https?:\/\//i.test(payload)) return parseWebURL(payload);
+  if (/^[a-z0-9-]+(\.[a-z0-9-]+)+(\/\S*)?$/i.test(payload)) return { type: 'url', data: { url: `https://${payload}` } };
+  return null;
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import type { WiFiData } from '../types/qr';
+import { generateQRString } from './qrPayload';
+import { parseQRPayload } from './parseQR';
+import {
+  escapeContentText,
+  unescapeContentText,
+  foldContentLine,
+  parseContentLines,
+  escapeMeCardValue,
+  unescapeMeCardValue,
+  splitUnescaped,
+} from './payloadEscaping';
+
+const octets = (line: string) => new TextEncoder().encode(line).length;
+
+const roundTripWiFi = (wifi: WiFiData) => {
+  const payload = generateQRString('wifi', wifi);
+  return { payload, parsed: parseQRPayload(payload) };
+};
+
+describe('WiFi fields', () => {
+  it('escapes field delimiters in the SSID and password', () => {
+    const wifi: WiFiData = { ssid: 'Cafe;Guest', password: 'a\\b;c,d:e"f', encryption: 'WPA', hidden: false };
+    const { payload, parsed } = roundTripWiFi(wifi);
+    expect(payload).toBe(String.raw`WIFI:T:WPA;S:Cafe\;Guest;P:a\\b\;c\,d\:e\"f;H:false;;`);
+    expect(parsed).toEqual({ type: 'wifi', data: wifi });
+  });
+
+  it('quotes values made only of hex digits', () => {
+    const wifi: WiFiData = { ssid: 'CAFE', password: '0123456789', encryption: 'WEP', hidden: true };
+    const { payload, parsed } = roundTripWiFi(wifi);
+    expect(payload).toBe('WIFI:T:WEP;S:"CAFE";P:"0123456789";H:true;;');
+    expect(parsed).toEqual({ type: 'wifi', data: wifi });
+  });
+
+  it('keeps open networks without a password', () => {
+    const wifi: WiFiData = { ssid: 'Free, "fast" WiFi', password: '', encryption: 'nopass', hidden: false };
+    expect(roundTripWiFi(wifi).parsed).toEqual({ type: 'wifi', data: wifi });
+  });
+});
+
+describe('MeCard values', () => {
+  it('round-trips delimiters through escaping and splitting', () => {
+    const values = ['Rossi, Mario', 'a;b', 'c:d', 'back\\slash'];
+    const joined = values.map(escapeMeCardValue).join(';');
+    expect(splitUnescaped(joined, ';').map(unescapeMeCardValue)).toEqual(values);
+  });
+});
+
+describe('vCard and iCalendar text', () => {
+  it('round-trips commas, semicolons, backslashes and line breaks', () => {
+    const value = 'Via Roma 1, Milano; 2nd floor\\back\nsecond line';
+    expect(escapeContentText(value)).toBe(String.raw`Via Roma 1\, Milano\; 2nd floor\\back\nsecond line`);
+    expect(unescapeContentText(escapeContentText(value))).toBe(value);
+  });
+
+  it('folds lines longer than 75 octets and unfolds them back', () => {
+    const line = `NOTE:${'lorem ipsum '.repeat(20)}`;
+    const folded = foldContentLine(line);
+    const physical = folded.split('\r\n');
+    expect(physical.length).toBeGreaterThan(1);
+    physical.forEach((part, i) => {
+      expect(octets(part)).toBeLessThanOrEqual(75);
+      if (i > 0) expect(part.startsWith(' ')).toBe(true);
+    });
+    expect(parseContentLines(folded)).toEqual([{ name: 'NOTE', params: '', parameters: {}, value: line.slice(5) }]);
+  });
+
+  it('never splits a multi-byte character when folding', () => {
+    const line = `SUMMARY:${'città è già 🎉 '.repeat(10)}`;
+    const physical = foldContentLine(line).split('\r\n');
+    physical.forEach((part) => expect(octets(part)).toBeLessThanOrEqual(75));
+    expect(physical.map((part, i) => (i > 0 ? part.slice(1) : part)).join('')).toBe(line);
+  });
+});
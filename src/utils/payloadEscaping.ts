@@ -0,0 +1,123 @@
+// Escaping for the text formats embedded in QR payloads, and the matching decoders
+// used by the payload parser
+
+// ZXing "WIFI:" fields: backslash-escape the characters that delimit fields
+const WIFI_SPECIAL_CHARACTERS = /[\\;,:"]/g;
+
+export const escapeWiFiValue = (value: string) => value.replace(WIFI_SPECIAL_CHARACTERS, '\\$&');
+
+// SSIDs and passwords made only of hex digits are quoted, or readers may take them for raw bytes
+export const encodeWiFiValue = (value: string) => {
+  const escaped = escapeWiFiValue(value);
+  return /^[0-9A-Fa-f]+$/.test(value) && value.length % 2 === 0 ? `"${escaped}"` : escaped;
+};
+
+// Drop the quotes unless the closing one is escaped, then unescape
+export const decodeWiFiValue = (value: string) => {
+  const quoted = /^"(?:[^\\"]|\\.)*"$/s.test(value);
+  return (quoted ? value.slice(1, -1) : value).replace(/\\(.)/gs, '$1');
+};
+
+// MeCard fields use the same backslash escaping for their own delimiters
+export const escapeMeCardValue = (value: string) => value.replace(/[\\;,:]/g, '\\$&');
+
+export const unescapeMeCardValue = (value: string) => value.replace(/\\(.)/gs, '$1');
+
+// Split on a separator that is not escaped with a backslash
+export const splitUnescaped = (value: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+// vCard 3.0/4.0 and iCalendar TEXT values (RFC 6350 3.4, RFC 5545 3.3.11)
+export const escapeContentText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+
+export const unescapeContentText = (value: string) =>
+  value.replace(/\\([nN]|.)/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Content lines are limited to 75 octets; longer ones continue on lines starting with a space
+const MAX_LINE_OCTETS = 75;
+
+const utf8Length = (char: string) => {
+  const code = char.codePointAt(0) ?? 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+// Fold between characters, so multi-byte UTF-8 sequences are never split
+export const foldContentLine = (line: string): string => {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const length = utf8Length(char);
+    if (octets + length > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += length;
+  }
+  lines.push(current);
+  return lines.join('\r\n');
+};
+
+// Fold every content line and join them with the CRLF both formats require
+export const joinContentLines = (lines: string[]) => lines.map(foldContentLine).join('\r\n');
+
+const unfoldContentLines = (payload: string) => payload.replace(/\r?\n[ \t]/g, '');
+
+// Parameter values containing separators are quoted; quotes cannot be escaped, so they are dropped
+export const quoteParameterValue = (value: string) => {
+  const plain = value.replace(/"/g, '');
+  return /[;:,]/.test(plain) ? `"${plain}"` : plain;
+};
+
+export interface ContentLine {
+  name: string; // Upper case
+  params: string; // Upper case parameters as written, without the name
+  parameters: Record<string, string>; // Parameter values by upper case name, unquoted
+  value: string;
+}
+
+// Read "NAME;PARAM=..:value" content lines, unfolding continuation lines first
+export const parseContentLines = (payload: string): ContentLine[] =>
+  unfoldContentLines(payload)
+    .split(/\r?\n/)
+    .map((line) => {
+      // The value starts at the first colon outside a quoted parameter value
+      let quoted = false;
+      let colon = -1;
+      for (let i = 0; i < line.length && colon < 0; i++) {
+        if (line[i] === '"') quoted = !quoted;
+        else if (line[i] === ':' && !quoted) colon = i;
+      }
+      if (colon < 0) return null;
+      const [name = '', ...params] = line.slice(0, colon).match(/(?:[^;"]|"[^"]*")+/g) ?? [];
+      const parameters = Object.fromEntries(params.map((param) => {
+        const equals = param.indexOf('=');
+        return equals < 0
+          ? [param.toUpperCase(), '']
+          : [param.slice(0, equals).toUpperCase(), param.slice(equals + 1).replace(/^"(.*)"$/, '$1')];
+      }));
+      return { name: name.toUpperCase(), params: params.join(';').toUpperCase(), parameters, value: line.slice(colon + 1) };
+    })
+    .filter((line) => line !== null);
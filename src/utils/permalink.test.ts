@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { defaultQROptions } from '../types/qr';
+import { MAX_PERMALINK_LENGTH, createPermalink, readPermalink } from './permalink';
+
+const BASE_URL = 'https://example.com/';
+
+// Random characters do not compress, so the link grows with them
+const noise = (length: number) => Array.from({ length }, () => Math.random().toString(36).slice(2, 3)).join('');
+
+describe('permalinks', () => {
+  it('opens the design it was created from', async () => {
+    const link = await createPermalink(defaultQROptions, BASE_URL);
+    expect(link?.imagesDropped).toBe(false);
+    const result = await readPermalink(new URL(link!.url).hash);
+    expect(result).toMatchObject({ ok: true });
+  });
+
+  it('drops embedded images that do not fit', async () => {
+    const options = { ...defaultQROptions, image: `data:image/png;base64,${noise(2 * MAX_PERMALINK_LENGTH)}` };
+    const link = await createPermalink(options, BASE_URL);
+    expect(link?.imagesDropped).toBe(true);
+    expect(link!.url.length).toBeLessThanOrEqual(MAX_PERMALINK_LENGTH);
+  });
+
+  it('gives no link when the design does not fit even without images', async () => {
+    const options = {
+      ...defaultQROptions,
+      image: `data:image/png;base64,${noise(100)}`,
+      templateData: { ...defaultQROptions.templateData, url: { url: `https://example.com/${noise(2 * MAX_PERMALINK_LENGTH)}` } },
+    };
+    expect(await createPermalink(options, BASE_URL)).toBeNull();
+  });
+});
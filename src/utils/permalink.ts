@@ -0,0 +1,68 @@
+import type { QROptions } from '../types/qr';
+import { PROJECT_FORMAT, PROJECT_VERSION, readProject, type ProjectResult } from './project';
+
+// Links carry the design as #design=<deflated project document, base64url>
+const FRAGMENT_PREFIX = '#design=';
+
+// Longer links get cut off by chat apps, mail clients and URL shorteners
+export const MAX_PERMALINK_LENGTH = 8000;
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(stream)).arrayBuffer());
+
+// Only the form of the current template is shared: the others may hold unrelated private data
+const getSharedOptions = (options: QROptions, includeImages: boolean) => ({
+  ...options,
+  templateData: { [options.templateType]: options.templateData[options.templateType] },
+  image: includeImages || !options.image.startsWith('data:') ? options.image : '',
+  backgroundImage: includeImages ? options.backgroundImage : { ...options.backgroundImage, src: '' },
+  moduleImage: includeImages ? options.moduleImage : { ...options.moduleImage, src: '' },
+});
+
+const encodeDesign = async (options: ReturnType<typeof getSharedOptions>, baseUrl: string) => {
+  const json = new TextEncoder().encode(JSON.stringify({ format: PROJECT_FORMAT, version: PROJECT_VERSION, options }));
+  return `${baseUrl}${FRAGMENT_PREFIX}${toBase64Url(await transform(json, new CompressionStream('deflate-raw')))}`;
+};
+
+export interface Permalink {
+  url: string;
+  // The embedded logo and image layers made the link too long and were left out
+  imagesDropped: boolean;
+}
+
+// A link to the design, or null when it does not fit in a link even without its images
+export const createPermalink = async (options: QROptions, baseUrl: string): Promise<Permalink | null> => {
+  const url = await encodeDesign(getSharedOptions(options, true), baseUrl);
+  if (url.length <= MAX_PERMALINK_LENGTH) return { url, imagesDropped: false };
+  // Logos linked by URL are short; embedded images are dropped when they do not fit
+  const hasEmbeddedImages = options.image.startsWith('data:') || !!options.backgroundImage.src || !!options.moduleImage.src;
+  if (!hasEmbeddedImages) return null;
+  const withoutImages = await encodeDesign(getSharedOptions(options, false), baseUrl);
+  return withoutImages.length <= MAX_PERMALINK_LENGTH ? { url: withoutImages, imagesDropped: true } : null;
+};
+
+export const hasPermalink = (hash: string) => hash.startsWith(FRAGMENT_PREFIX);
+
+// The design in a link fragment, or null when the fragment holds none
+export const readPermalink = async (hash: string): Promise<ProjectResult | null> => {
+  if (!hasPermalink(hash)) return null;
+  try {
+    const json = await transform(fromBase64Url(hash.slice(FRAGMENT_PREFIX.length)), new DecompressionStream('deflate-raw'));
+    return readProject(JSON.parse(new TextDecoder().decode(json)));
+  } catch {
+    return { ok: false, error: 'invalidJson' };
+  }
+};
@@ -0,0 +1,320 @@
+import { jsPDF } from 'jspdf';
+import type { QROptions, GradientConfig, PrintSettings, PrintUnit, PageSizeId, PrintLayoutId } from '../types/qr';
+import { getLastStop } from '../types/qr';
+import { createStyledQRCode } from './qrStyling';
+import { renderPNG, blobToDataUrl } from './qrExport';
+import { getFrameLayout } from './frames';
+
+// All lengths in millimetres
+const MM_PER_INCH = 25.4;
+const PT_TO_MM = MM_PER_INCH / 72;
+
+export const PAGE_SIZES: Record<PageSizeId, { width: number; height: number }> = {
+  a4: { width: 210, height: 297 },
+  letter: { width: 215.9, height: 279.4 },
+};
+
+interface LabelSheet {
+  page: PageSizeId;
+  columns: number;
+  rows: number;
+  width: number;
+  height: number;
+  top: number;
+  left: number;
+  // Distance between the top left corners of neighbouring labels
+  pitchX: number;
+  pitchY: number;
+}
+
+// Manufacturer templates
+const LABEL_SHEETS: Record<Exclude<PrintLayoutId, 'single' | 'grid'>, LabelSheet> = {
+  // 21 labels of 63.5 x 38.1 mm
+  'avery-l7160': { page: 'a4', columns: 3, rows: 7, width: 63.5, height: 38.1, top: 15.15, left: 7.25, pitchX: 66.04, pitchY: 38.1 },
+  // 30 labels of 2.625 x 1 in
+  'avery-5160': { page: 'letter', columns: 3, rows: 10, width: 66.675, height: 25.4, top: 12.7, left: 4.7625, pitchX: 69.85, pitchY: 25.4 },
+};
+
+export const PRINT_LAYOUTS: PrintLayoutId[] = ['single', 'grid', 'avery-l7160', 'avery-5160'];
+
+const CROP_MARK_LENGTH = 5;
+// Gap between the bleed edge and the crop marks, so they never print on the trimmed piece
+const CROP_MARK_OFFSET = 2;
+const GRID_MARGIN = 10;
+const GRID_GAP = 5;
+// Space around the code on a label, kept clear of the die cut
+const LABEL_PADDING = 2;
+
+export const toMillimetres = (value: number, unit: PrintUnit) => (unit === 'in' ? value * MM_PER_INCH : value);
+export const fromMillimetres = (value: number, unit: PrintUnit) => (unit === 'in' ? value / MM_PER_INCH : value);
+
+export const formatLength = (mm: number, unit: PrintUnit) => {
+  const value = fromMillimetres(mm, unit);
+  return `${unit === 'in' ? value.toFixed(2) : value.toFixed(1)} ${unit}`;
+};
+
+export const isLabelSheet = (layout: PrintLayoutId) => layout !== 'single' && layout !== 'grid';
+
+// Physical edge of the exported code, quiet zone included
+export const getOutputSize = ({ size, output }: Pick<QROptions, 'size' | 'output'>) => (size / output.dpi) * MM_PER_INCH;
+
+export const toPixels = (mm: number, dpi: number) => Math.round((mm / MM_PER_INCH) * dpi);
+
+// Print settings with the printed edge and raster resolution of the code, which come from the output size
+export interface PrintSpec extends PrintSettings {
+  codeSize: number;
+  dpi: number;
+}
+
+export const getPrintSpec = (options: QROptions): PrintSpec => ({
+  ...options.print,
+  codeSize: getOutputSize(options),
+  dpi: options.output.dpi,
+});
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Where the code and its caption go inside a cell
+interface CellContent {
+  code: Rect;
+  caption: Rect | null;
+}
+
+export interface PrintPage {
+  width: number;
+  height: number;
+  // Trimmed cells, in the order they are filled
+  cells: Rect[];
+}
+
+const captionFontSize = (codeSize: number) => Math.min(14, Math.max(6, codeSize * 0.25));
+const captionLineHeight = (fontSize: number) => fontSize * PT_TO_MM * 1.2;
+// Caption band below a free-standing code: two lines
+const captionBand = (codeSize: number) => captionLineHeight(captionFontSize(codeSize)) * 2 + 1;
+
+// Code and caption placement inside a cell
+const layoutCell = (settings: PrintSpec, cell: Rect, hasCaption: boolean): CellContent => {
+  if (!isLabelSheet(settings.layout)) {
+    const band = hasCaption ? captionBand(settings.codeSize) : 0;
+    return {
+      code: { x: cell.x, y: cell.y, width: cell.width, height: cell.height - band },
+      caption: hasCaption ? { x: cell.x, y: cell.y + cell.height - band, width: cell.width, height: band } : null,
+    };
+  }
+  const inner = { x: cell.x + LABEL_PADDING, y: cell.y + LABEL_PADDING, width: cell.width - 2 * LABEL_PADDING, height: cell.height - 2 * LABEL_PADDING };
+  if (!hasCaption) {
+    const size = Math.min(inner.width, inner.height);
+    return { code: { x: cell.x + (cell.width - size) / 2, y: cell.y + (cell.height - size) / 2, width: size, height: size }, caption: null };
+  }
+  // Wide labels put the caption beside the code, others below it
+  if (inner.width >= inner.height * 1.5) {
+    const size = inner.height;
+    return {
+      code: { x: inner.x, y: inner.y, width: size, height: size },
+      caption: { x: inner.x + size + LABEL_PADDING, y: inner.y, width: inner.width - size - LABEL_PADDING, height: size },
+    };
+  }
+  const band = captionBand(inner.height);
+  const size = Math.min(inner.width, inner.height - band);
+  return {
+    code: { x: cell.x + (cell.width - size) / 2, y: inner.y, width: size, height: size },
+    caption: { x: inner.x, y: inner.y + size, width: inner.width, height: inner.height - size },
+  };
+};
+
+const cellSize = (settings: PrintSpec, hasCaption: boolean) => ({
+  width: settings.codeSize,
+  height: settings.codeSize + (hasCaption ? captionBand(settings.codeSize) : 0),
+});
+
+// Page size and trimmed cell positions of the layout
+export const getPrintPage = (settings: PrintSpec, hasCaption: boolean): PrintPage => {
+  const { layout, bleed, cropMarks } = settings;
+  const markSpace = cropMarks ? CROP_MARK_OFFSET + CROP_MARK_LENGTH : 0;
+
+  if (layout === 'single') {
+    // A page the size of the trimmed code, plus bleed and room for the crop marks
+    const cell = cellSize(settings, hasCaption);
+    const margin = bleed + markSpace;
+    return {
+      width: cell.width + 2 * margin,
+      height: cell.height + 2 * margin,
+      cells: [{ x: margin, y: margin, ...cell }],
+    };
+  }
+
+  if (layout === 'grid') {
+    const page = PAGE_SIZES[settings.pageSize];
+    const cell = cellSize(settings, hasCaption);
+    const margin = Math.max(GRID_MARGIN, bleed + markSpace);
+    const gap = Math.max(GRID_GAP, 2 * bleed);
+    const columns = Math.max(1, Math.floor((page.width - 2 * margin + gap) / (cell.width + gap)));
+    const rows = Math.max(1, Math.floor((page.height - 2 * margin + gap) / (cell.height + gap)));
+    // Centre the grid on the page
+    const left = (page.width - (columns * cell.width + (columns - 1) * gap)) / 2;
+    const top = (page.height - (rows * cell.height + (rows - 1) * gap)) / 2;
+    const cells: Rect[] = [];
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        cells.push({ x: left + column * (cell.width + gap), y: top + row * (cell.height + gap), ...cell });
+      }
+    }
+    return { ...page, cells };
+  }
+
+  const sheet = LABEL_SHEETS[layout];
+  const cells: Rect[] = [];
+  for (let row = 0; row < sheet.rows; row++) {
+    for (let column = 0; column < sheet.columns; column++) {
+      cells.push({ x: sheet.left + column * sheet.pitchX, y: sheet.top + row * sheet.pitchY, width: sheet.width, height: sheet.height });
+    }
+  }
+  return { ...PAGE_SIZES[sheet.page], cells };
+};
+
+// Printed edge of the code, which sets its raster resolution
+export const getPrintCodeSize = (settings: PrintSpec, hasCaption: boolean) => {
+  const page = getPrintPage(settings, hasCaption);
+  return layoutCell(settings, page.cells[0], hasCaption).code.width;
+};
+
+// Rasterize the code for print at the chosen DPI; a frame shrinks the code so the whole frame fits the printed size
+export const renderPrintCode = async (options: QROptions, hasCaption: boolean): Promise<string> => {
+  const pixels = toPixels(getPrintCodeSize(getPrintSpec(options), hasCaption), options.output.dpi);
+  const frame = getFrameLayout(options.frame, pixels);
+  const size = Math.round((pixels * pixels) / Math.max(frame.width, frame.height));
+  const qrCode = createStyledQRCode({
+    ...options,
+    size,
+    imageMargin: Math.round(options.imageMargin * (size / options.size)),
+  });
+  return blobToDataUrl(await renderPNG(qrCode, { ...options, size }));
+};
+
+// Short marks along the trim lines, outside the bleed
+const drawCropMarks = (pdf: jsPDF, page: PrintPage, bleed: number) => {
+  const bounds = {
+    left: Math.min(...page.cells.map((c) => c.x)),
+    top: Math.min(...page.cells.map((c) => c.y)),
+    right: Math.max(...page.cells.map((c) => c.x + c.width)),
+    bottom: Math.max(...page.cells.map((c) => c.y + c.height)),
+  };
+  const start = bleed + CROP_MARK_OFFSET;
+  const xs = [...new Set(page.cells.flatMap((c) => [c.x, c.x + c.width]))];
+  const ys = [...new Set(page.cells.flatMap((c) => [c.y, c.y + c.height]))];
+  pdf.setDrawColor(0, 0, 0);
+  pdf.setLineWidth(0.1);
+  for (const x of xs) {
+    pdf.line(x, Math.max(0, bounds.top - start - CROP_MARK_LENGTH), x, Math.max(0, bounds.top - start));
+    pdf.line(x, Math.min(page.height, bounds.bottom + start), x, Math.min(page.height, bounds.bottom + start + CROP_MARK_LENGTH));
+  }
+  for (const y of ys) {
+    pdf.line(Math.max(0, bounds.left - start - CROP_MARK_LENGTH), y, Math.max(0, bounds.left - start), y);
+    pdf.line(Math.min(page.width, bounds.right + start), y, Math.min(page.width, bounds.right + start + CROP_MARK_LENGTH), y);
+  }
+};
+
+export interface PrintCell {
+  // PNG data URL of the code
+  image: string;
+  caption?: string;
+}
+
+export interface PrintColors {
+  // Fill of each cell and its bleed, null for a transparent background
+  background: string | null;
+  text: string;
+}
+
+// Captions take the corner colour; PDF fills are solid, so a gradient gives its last stop
+const solidColor = (color: string, gradient: GradientConfig) => (gradient.enabled ? getLastStop(gradient).color : color);
+
+export const getPrintColors = (options: QROptions): PrintColors => ({
+  background: options.transparentBackground ? null : solidColor(options.backgroundColor, options.backgroundGradient),
+  text: solidColor(options.cornerSquareColor, options.cornerSquareGradient),
+});
+
+// Lay the codes out over as many pages as needed
+export const createPrintPDF = (settings: PrintSpec, items: PrintCell[], colors: PrintColors): jsPDF => {
+  const hasCaption = items.some((item) => item.caption?.trim());
+  const page = getPrintPage(settings, hasCaption);
+  const pdf = new jsPDF({
+    orientation: page.width > page.height ? 'landscape' : 'portrait',
+    unit: 'mm',
+    format: [page.width, page.height],
+  });
+  // Identical images are embedded once
+  const aliases = new Map<string, string>();
+
+  items.forEach((item, index) => {
+    const slot = index % page.cells.length;
+    if (index > 0 && slot === 0) pdf.addPage([page.width, page.height], page.width > page.height ? 'landscape' : 'portrait');
+    const cell = page.cells[slot];
+
+    if (colors.background) {
+      pdf.setFillColor(colors.background);
+      pdf.rect(cell.x - settings.bleed, cell.y - settings.bleed, cell.width + 2 * settings.bleed, cell.height + 2 * settings.bleed, 'F');
+    }
+
+    const content = layoutCell(settings, cell, hasCaption);
+    if (!aliases.has(item.image)) aliases.set(item.image, `qr-${aliases.size}`);
+    // Framed codes are taller than wide, so the image is centred in the code area at its own proportions
+    const { width, height } = pdf.getImageProperties(item.image);
+    const scale = Math.min(content.code.width / width, content.code.height / height);
+    pdf.addImage(
+      item.image,
+      'PNG',
+      content.code.x + (content.code.width - width * scale) / 2,
+      content.code.y + (content.code.height - height * scale) / 2,
+      width * scale,
+      height * scale,
+      aliases.get(item.image),
+    );
+
+    if (content.caption && item.caption) {
+      const fontSize = captionFontSize(isLabelSheet(settings.layout) ? content.code.width * 0.4 : settings.codeSize);
+      const lineHeight = captionLineHeight(fontSize);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setFontSize(fontSize);
+      pdf.setTextColor(colors.text);
+      const maxLines = Math.max(1, Math.floor(content.caption.height / lineHeight));
+      const lines: string[] = item.caption
+        .split('\n')
+        .flatMap((line) => pdf.splitTextToSize(line, content.caption!.width) as string[])
+        .slice(0, maxLines);
+      const beside = content.caption.x > content.code.x + content.code.width;
+      // Beside the code the caption is centred vertically, below it starts at the top
+      const top = beside
+        ? content.caption.y + (content.caption.height - lines.length * lineHeight) / 2
+        : content.caption.y;
+      lines.forEach((line, i) => {
+        pdf.text(line, beside ? content.caption!.x : content.caption!.x + content.caption!.width / 2, top + (i + 0.8) * lineHeight, {
+          align: beside ? 'left' : 'center',
+        });
+      });
+    }
+
+    const isLastOnPage = slot === page.cells.length - 1 || index === items.length - 1;
+    if (settings.cropMarks && isLastOnPage) drawCropMarks(pdf, page, settings.bleed);
+  });
+
+  return pdf;
+};
+
+// Number of cells on one page, e.g. to fill a sheet with copies of one code
+export const getCellsPerPage = (settings: PrintSpec, hasCaption: boolean) =>
+  getPrintPage(settings, hasCaption).cells.length;
+
+// PDF of one code: a single page, or a sheet filled with copies of it
+export const renderPrintPDF = async (options: QROptions): Promise<Blob> => {
+  const print = getPrintSpec(options);
+  const hasCaption = print.caption.trim() !== '';
+  const image = await renderPrintCode(options, hasCaption);
+  const cells = Array.from({ length: getCellsPerPage(print, hasCaption) }, () => ({ image, caption: print.caption }));
+  return createPrintPDF(print, cells, getPrintColors(options)).output('blob');
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { defaultQROptions } from '../types/qr';
+import { migrateOptions, parseProject, serializeProject } from './project';
+
+describe('project migrations', () => {
+  it('keeps the printed size of version 3 projects', () => {
+    const migrated = migrateOptions({ data: 'https://example.com', size: 300, print: { codeSize: 50.8, dpi: 200 } }, 3);
+    expect(migrated.size).toBe(400);
+    expect(migrated.output).toMatchObject({ dpi: 200 });
+    expect(migrated.print).toEqual({});
+  });
+
+  it.each([
+    ['L', 0.1],
+    ['M', 0.15],
+    ['H', 0.3],
+  ] as const)('keeps the modules hidden by a logo saved at level %s before coverage was modelled', (level, imageSize) => {
+    expect(migrateOptions({ errorCorrectionLevel: level, imageSize: 0.3 }, 0).imageSize).toBeCloseTo(imageSize);
+  });
+
+  it('leaves the logo size of versioned documents alone', () => {
+    const options = { ...defaultQROptions, errorCorrectionLevel: 'L' as const, imageSize: 0.25 };
+    const project = parseProject(serializeProject(options));
+    expect(project.ok && project.options.imageSize).toBe(0.25);
+  });
+});
@@ -0,0 +1,221 @@
+import type { GradientConfig, ImageLayer, QROptions, QRTemplateType, TemplateDataMap } from '../types/qr';
+import {
+  defaultQROptions,
+  getDefaultTemplateDataMap,
+  templateDefinitions,
+  cornerSquareTypes,
+  cornerDotTypes,
+  gradientTypes,
+  imageFits,
+  frameStyles,
+  frameFonts,
+  frameIcons,
+  errorCorrectionLevels,
+  sizeUnits,
+} from '../types/qr';
+import { parseQRPayload } from './parseQR';
+import { getQRVersion } from './qrEncoding';
+import { toPixels } from './printLayout';
+import { getDotTypes } from './moduleShapes';
+import { fromLegacyImageSize, MAX_LOGO_SIZE, MIN_LOGO_SIZE } from './logoCoverage';
+
+// Portable document holding the whole generator state. Saved settings use the
+// same document, so both go through the same migrations.
+export const PROJECT_FORMAT = 'qr-generator-project';
+export const PROJECT_VERSION = 4;
+
+export interface QRProject {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string; // ISO date
+  options: QROptions;
+}
+
+export type ProjectError = 'invalidJson' | 'notAProject' | 'newerVersion';
+
+export type ProjectResult =
+  | { ok: true; options: QROptions }
+  | { ok: false; error: ProjectError };
+
+type SavedOptions = Record<string, unknown>;
+
+const isOneOf = <T>(values: readonly T[], value: unknown): value is T => values.includes(value as T);
+
+const levels = errorCorrectionLevels.map((level) => level.value);
+
+// Each migration upgrades options from the version before its index + 1
+const migrations: ((options: SavedOptions) => SavedOptions)[] = [
+  // 0 -> 1: the logo size became the share of modules it hides, within 10%-30%. It was a share of
+  // the code, or pixels before that, and the modules it hid also depended on the level.
+  (options) => {
+    if (typeof options.imageSize !== 'number') return options;
+    const share = options.imageSize > 1 ? options.imageSize / 300 : options.imageSize;
+    const level = isOneOf(levels, options.errorCorrectionLevel) ? options.errorCorrectionLevel : 'M';
+    const imageSize = fromLegacyImageSize(share, level);
+    return { ...options, imageSize: Math.max(MIN_LOGO_SIZE, Math.min(MAX_LOGO_SIZE, imageSize)) };
+  },
+  // 1 -> 2: template form data is saved; recover the form of the current template from its payload
+  (options) => {
+    if (options.templateData || typeof options.data !== 'string' || !options.data) return options;
+    const recovered = parseQRPayload(options.data);
+    return recovered && recovered.type === options.templateType
+      ? { ...options, templateData: { [recovered.type]: recovered.data } }
+      : options;
+  },
+  // 2 -> 3: the contact card holds lists of typed phone numbers and email addresses
+  (options) => {
+    const templateData = options.templateData as Record<string, Record<string, unknown>> | undefined;
+    const vcard = templateData?.vcard;
+    if (!vcard || typeof vcard !== 'object' || Array.isArray(vcard.phones)) return options;
+    const { phone, email, ...rest } = vcard;
+    return {
+      ...options,
+      templateData: {
+        ...templateData,
+        vcard: {
+          ...rest,
+          phones: typeof phone === 'string' && phone ? [{ type: 'cell', value: phone }] : [],
+          emails: typeof email === 'string' && email ? [{ type: 'work', value: email }] : [],
+        },
+      },
+    };
+  },
+  // 3 -> 4: the margin became a quiet zone in modules, and the print resolution the output's
+  (options) => {
+    const { margin, ...rest } = options;
+    const print = options.print as Record<string, unknown> | undefined;
+    const size = typeof options.size === 'number' ? options.size : defaultQROptions.size;
+    const dpi = typeof print?.dpi === 'number' ? print.dpi : defaultQROptions.output.dpi;
+    const migrated: SavedOptions = { ...rest, output: { ...defaultQROptions.output, dpi } };
+    // The printed size becomes the output size, so saved PDFs keep their physical size
+    if (typeof print?.codeSize === 'number' && print.codeSize > 0) migrated.size = toPixels(print.codeSize, dpi);
+    if (typeof margin === 'number') {
+      const level = isOneOf(levels, options.errorCorrectionLevel) ? options.errorCorrectionLevel : 'M';
+      const data = typeof options.data === 'string' && options.data ? options.data : ' ';
+      const version = getQRVersion(data, level) ?? 40;
+      const modulePixels = Math.max(1, size - 2 * margin) / (17 + 4 * version);
+      migrated.quietZone = Math.min(10, Math.round(margin / modulePixels));
+    }
+    if (print) {
+      const layout = { ...print };
+      delete layout.codeSize;
+      delete layout.dpi;
+      migrated.print = layout;
+    }
+    return migrated;
+  },
+];
+
+export const migrateOptions = (options: SavedOptions, version: number): SavedOptions =>
+  migrations.slice(version).reduce((migrated, migrate) => migrate(migrated), options);
+
+// Saved form data over the defaults, so fields added since it was saved are filled in
+const mergeTemplateData = (saved: unknown): TemplateDataMap => {
+  const savedData = saved && typeof saved === 'object' ? saved as Partial<TemplateDataMap> : {};
+  return Object.fromEntries(Object.entries(getDefaultTemplateDataMap()).map(([type, data]) => {
+    const form = savedData[type as QRTemplateType];
+    return [type, form && typeof form === 'object' ? { ...data, ...form } : data];
+  })) as unknown as TemplateDataMap;
+};
+
+// A gradient needs a known type and at least two well-formed colour stops
+const normalizeGradient = (gradient: GradientConfig, fallback: GradientConfig): GradientConfig => {
+  const colorStops = Array.isArray(gradient.colorStops)
+    ? gradient.colorStops.filter((stop) => typeof stop?.color === 'string' && typeof stop.offset === 'number')
+    : [];
+  return {
+    ...fallback,
+    ...gradient,
+    type: isOneOf(gradientTypes, gradient.type) ? gradient.type : fallback.type,
+    colorStops: colorStops.length >= 2 ? colorStops : fallback.colorStops,
+  };
+};
+
+// Layers keep only well-typed fields, and a known fit
+const normalizeImageLayer = (layer: ImageLayer, fallback: ImageLayer): ImageLayer => {
+  const fields = Object.fromEntries(Object.entries(fallback).map(([key, value]) => {
+    const saved = (layer as unknown as Record<string, unknown>)[key];
+    return [key, typeof saved === typeof value ? saved : value];
+  })) as unknown as ImageLayer;
+  return { ...fields, fit: isOneOf(imageFits, fields.fit) ? fields.fit : fallback.fit };
+};
+
+// Fill missing or mistyped options from the defaults and drop unknown ones
+const normalizeOptions = (saved: SavedOptions): QROptions => {
+  const options = Object.fromEntries(Object.entries(defaultQROptions).map(([key, fallback]) => {
+    const value = saved[key];
+    return [key, typeof value === typeof fallback && value !== null ? value : fallback];
+  })) as unknown as QROptions;
+  return {
+    ...options,
+    templateType: isOneOf(templateDefinitions.map((def) => def.type), options.templateType)
+      ? options.templateType : defaultQROptions.templateType,
+    templateData: mergeTemplateData(saved.templateData),
+    errorCorrectionLevel: isOneOf(levels, options.errorCorrectionLevel)
+      ? options.errorCorrectionLevel : defaultQROptions.errorCorrectionLevel,
+    dotType: isOneOf(getDotTypes(), options.dotType) ? options.dotType : defaultQROptions.dotType,
+    cornerSquareType: isOneOf(cornerSquareTypes, options.cornerSquareType)
+      ? options.cornerSquareType : defaultQROptions.cornerSquareType,
+    cornerDotType: isOneOf(cornerDotTypes, options.cornerDotType) ? options.cornerDotType : defaultQROptions.cornerDotType,
+    dotGradient: normalizeGradient(options.dotGradient, defaultQROptions.dotGradient),
+    cornerSquareGradient: normalizeGradient(options.cornerSquareGradient, defaultQROptions.cornerSquareGradient),
+    cornerDotGradient: normalizeGradient(options.cornerDotGradient, defaultQROptions.cornerDotGradient),
+    backgroundGradient: normalizeGradient(options.backgroundGradient, defaultQROptions.backgroundGradient),
+    backgroundImage: normalizeImageLayer(options.backgroundImage, defaultQROptions.backgroundImage),
+    moduleImage: normalizeImageLayer(options.moduleImage, defaultQROptions.moduleImage),
+    output: {
+      ...defaultQROptions.output,
+      ...options.output,
+      unit: isOneOf(sizeUnits, options.output.unit) ? options.output.unit : defaultQROptions.output.unit,
+      dpi: options.output.dpi > 0 ? options.output.dpi : defaultQROptions.output.dpi,
+    },
+    frame: {
+      ...defaultQROptions.frame,
+      ...options.frame,
+      style: isOneOf(frameStyles, options.frame.style) ? options.frame.style : defaultQROptions.frame.style,
+      font: isOneOf(frameFonts, options.frame.font) ? options.frame.font : defaultQROptions.frame.font,
+      icon: isOneOf(frameIcons, options.frame.icon) ? options.frame.icon : defaultQROptions.frame.icon,
+    },
+    print: { ...defaultQROptions.print, ...options.print },
+  };
+};
+
+// Read a project document, or saved options from before documents were versioned
+export const readProject = (value: unknown): ProjectResult => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return { ok: false, error: 'notAProject' };
+  const document = value as Record<string, unknown>;
+
+  if (document.format === undefined && document.options === undefined) {
+    // Bare options as saved before version 1; recognized by their styling fields
+    if (typeof document.dotColor !== 'string' && typeof document.data !== 'string') {
+      return { ok: false, error: 'notAProject' };
+    }
+    return { ok: true, options: normalizeOptions(migrateOptions(document, 0)) };
+  }
+
+  if (document.format !== PROJECT_FORMAT || typeof document.version !== 'number'
+    || !document.options || typeof document.options !== 'object') {
+    return { ok: false, error: 'notAProject' };
+  }
+  if (document.version > PROJECT_VERSION) return { ok: false, error: 'newerVersion' };
+  return { ok: true, options: normalizeOptions(migrateOptions(document.options as SavedOptions, document.version)) };
+};
+
+export const parseProject = (text: string): ProjectResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'invalidJson' };
+  }
+  return readProject(parsed);
+};
+
+export const createProject = (options: QROptions): QRProject => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  savedAt: new Date().toISOString(),
+  options,
+});
+
+export const serializeProject = (options: QROptions) => JSON.stringify(createProject(options), null, 2);
@@ -0,0 +1,91 @@
+import type { ErrorCorrectionLevel } from 'qr-code-styling';
+import {
+  type EncodingMode,
+  getEncodingMode,
+  getCharacterCount,
+  characterCountBits,
+  payloadBits,
+  getDataCodewordCount,
+} from './qrEncoding';
+
+const MAX_VERSION = 40;
+const MODE_INDICATOR_BITS = 4;
+
+// Smallest module phone cameras read reliably at arm's length, in millimetres
+export const MIN_MODULE_SIZE = 0.4;
+
+export interface QRSegment {
+  mode: EncodingMode;
+  // Digits, characters or bytes, as the mode counts them
+  characters: number;
+  // Mode indicator, character count and data
+  bits: number;
+}
+
+export interface QRAnalysis {
+  // qr-code-styling writes the whole payload as one segment
+  segments: QRSegment[];
+  mode: EncodingMode;
+  bits: number;
+  // Smallest version that fits, or null when the payload is too long even for version 40
+  version: number | null;
+  moduleCount: number | null;
+  // Data bits of the chosen version (of version 40 when nothing fits)
+  capacityBits: number;
+  // Characters of the same mode that still fit in the chosen version, and in version 40
+  remainingInVersion: number;
+  remaining: number;
+  // Characters of the mode version 40 holds at this level
+  maxCharacters: number;
+}
+
+// Most characters of the mode that fit in the given number of data bits
+const charactersInBits = (bits: number, mode: EncodingMode) => {
+  if (bits <= 0) return 0;
+  switch (mode) {
+    case 'Numeric':
+      return Math.floor(bits / 10) * 3 + (bits % 10 >= 7 ? 2 : bits % 10 >= 4 ? 1 : 0);
+    case 'Alphanumeric':
+      return Math.floor(bits / 11) * 2 + (bits % 11 >= 6 ? 1 : 0);
+    default:
+      return Math.floor(bits / 8);
+  }
+};
+
+// Characters of the mode a version holds, limited by the width of the character count field
+const versionCapacity = (version: number, level: ErrorCorrectionLevel, mode: EncodingMode) => {
+  const countBits = characterCountBits(mode, version);
+  const available = getDataCodewordCount(version, level) * 8 - MODE_INDICATOR_BITS - countBits;
+  return Math.min(charactersInBits(available, mode), 2 ** countBits - 1);
+};
+
+// How the renderer encodes the payload, and the room left at the given level
+export const analyzeQRData = (data: string, level: ErrorCorrectionLevel): QRAnalysis => {
+  const mode = getEncodingMode(data);
+  const characters = getCharacterCount(data, mode);
+  const dataBits = payloadBits(characters, mode);
+  const segmentBits = (version: number) => MODE_INDICATOR_BITS + characterCountBits(mode, version) + dataBits;
+
+  let version: number | null = null;
+  for (let candidate = 1; candidate <= MAX_VERSION && version === null; candidate++) {
+    if (characters <= versionCapacity(candidate, level, mode)) version = candidate;
+  }
+  const bits = segmentBits(version ?? MAX_VERSION);
+  const maxCharacters = versionCapacity(MAX_VERSION, level, mode);
+
+  return {
+    segments: [{ mode, characters, bits }],
+    mode,
+    bits,
+    version,
+    moduleCount: version === null ? null : 17 + 4 * version,
+    capacityBits: getDataCodewordCount(version ?? MAX_VERSION, level) * 8,
+    remainingInVersion: version === null ? 0 : versionCapacity(version, level, mode) - characters,
+    remaining: Math.max(0, maxCharacters - characters),
+    maxCharacters,
+  };
+};
+
+// Smallest printed edge, quiet zone included, that keeps modules at MIN_MODULE_SIZE
+export const getMinimumPrintSize = (moduleCount: number, quietZone: number) =>
+  MIN_MODULE_SIZE * (moduleCount + 2 * quietZone);
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import qrcode from 'qrcode-generator';
+import type { ErrorCorrectionLevel } from 'qr-code-styling';
+import { decodeQR, type QRImage } from './qrDecoder';
+import { getEncodingMode } from './qrEncoding';
+
+// Pixels per module and quiet zone in modules of the test images
+const SCALE = 4;
+const QUIET_ZONE = 4;
+
+// Render a code as RGBA pixels, optionally flipping some modules to damage it
+const renderCode = (text: string, level: ErrorCorrectionLevel, damaged: (row: number, col: number) => boolean = () => false) => {
+  const code = qrcode(0, level);
+  code.addData(text, getEncodingMode(text));
+  code.make();
+  const modules = code.getModuleCount();
+  const width = (modules + 2 * QUIET_ZONE) * SCALE;
+  const data = new Uint8ClampedArray(width * width * 4).fill(255);
+  for (let y = 0; y < width; y++) {
+    for (let x = 0; x < width; x++) {
+      const row = Math.floor(y / SCALE) - QUIET_ZONE;
+      const col = Math.floor(x / SCALE) - QUIET_ZONE;
+      const inside = row >= 0 && col >= 0 && row < modules && col < modules;
+      if (inside && code.isDark(row, col) !== damaged(row, col)) data.fill(0, (y * width + x) * 4, (y * width + x) * 4 + 3);
+    }
+  }
+  return { image: { data, width, height: width } satisfies QRImage, version: (modules - 17) / 4 };
+};
+
+describe('decodeQR', () => {
+  it.each(['L', 'M', 'Q', 'H'] as const)('reads back a code encoded at level %s', (level) => {
+    const text = 'https://example.com/menu?table=12&lang=it';
+    const { image, version } = renderCode(text, level);
+    expect(decodeQR(image)).toEqual({ text, version, errorCorrectionLevel: level, correctedErrors: 0 });
+  });
+
+  it('reads back numeric, alphanumeric and multi-block codes', () => {
+    for (const text of ['0123456789012345', 'HELLO WORLD $%*+-./:', 'x'.repeat(300)]) {
+      expect(decodeQR(renderCode(text, 'Q').image)?.text).toBe(text);
+    }
+  });
+
+  it('repairs damaged modules with Reed-Solomon error correction', () => {
+    const text = 'Reed-Solomon';
+    // A block of flipped modules in the data area, clear of the finder and timing patterns
+    const { image } = renderCode(text, 'H', (row, col) => row >= 10 && row < 14 && col >= 10 && col < 14);
+    const decoded = decodeQR(image);
+    expect(decoded?.text).toBe(text);
+    expect(decoded?.correctedErrors).toBeGreaterThan(0);
+  });
+
+  it('gives up on codes damaged beyond repair', () => {
+    const { image } = renderCode('Reed-Solomon', 'L', (row, col) => row >= 9 && col >= 9);
+    expect(decodeQR(image)).toBeNull();
+  });
+});
@@ -0,0 +1,1004 @@
+import type { ErrorCorrectionLevel } from 'qr-code-styling';
+
+// Pure TypeScript QR code reader: binarization, finder pattern detection,
+// perspective sampling, Reed-Solomon error correction and bitstream decoding.
+
+export interface DecodedQR {
+  text: string;
+  version: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  // Codewords repaired by error correction, a rough measure of damage
+  correctedErrors: number;
+}
+
+// Grayscale or RGBA pixels, as found in ImageData
+export interface QRImage {
+  data: Uint8ClampedArray | Uint8Array;
+  width: number;
+  height: number;
+}
+
+interface BitGrid {
+  width: number;
+  height: number;
+  bits: Uint8Array; // 1 = dark
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+interface FinderPattern extends Point {
+  moduleSize: number;
+  count: number;
+}
+
+const createGrid = (width: number, height = width): BitGrid =>
+  ({ width, height, bits: new Uint8Array(width * height) });
+
+const isDark = (grid: BitGrid, x: number, y: number) => grid.bits[y * grid.width + x] === 1;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// ---------------------------------------------------------------------------
+// Version tables (ISO/IEC 18004)
+// ---------------------------------------------------------------------------
+
+// Per version, for levels L, M, Q, H: [EC codewords per block, blocks, data codewords(, blocks, data codewords)]
+const EC_BLOCKS: number[][][] = [
+  [[7, 1, 19], [10, 1, 16], [13, 1, 13], [17, 1, 9]], // 1
+  [[10, 1, 34], [16, 1, 28], [22, 1, 22], [28, 1, 16]], // 2
+  [[15, 1, 55], [26, 1, 44], [18, 2, 17], [22, 2, 13]], // 3
+  [[20, 1, 80], [18, 2, 32], [26, 2, 24], [16, 4, 9]], // 4
+  [[26, 1, 108], [24, 2, 43], [18, 2, 15, 2, 16], [22, 2, 11, 2, 12]], // 5
+  [[18, 2, 68], [16, 4, 27], [24, 4, 19], [28, 4, 15]], // 6
+  [[20, 2, 78], [18, 4, 31], [18, 2, 14, 4, 15], [26, 4, 13, 1, 14]], // 7
+  [[24, 2, 97], [22, 2, 38, 2, 39], [22, 4, 18, 2, 19], [26, 4, 14, 2, 15]], // 8
+  [[30, 2, 116], [22, 3, 36, 2, 37], [20, 4, 16, 4, 17], [24, 4, 12, 4, 13]], // 9
+  [[18, 2, 68, 2, 69], [26, 4, 43, 1, 44], [24, 6, 19, 2, 20], [28, 6, 15, 2, 16]], // 10
+  [[20, 4, 81], [30, 1, 50, 4, 51], [28, 4, 22, 4, 23], [24, 3, 12, 8, 13]], // 11
+  [[24, 2, 92, 2, 93], [22, 6, 36, 2, 37], [26, 4, 20, 6, 21], [28, 7, 14, 4, 15]], // 12
+  [[26, 4, 107], [22, 8, 37, 1, 38], [24, 8, 20, 4, 21], [22, 12, 11, 4, 12]], // 13
+  [[30, 3, 115, 1, 116], [24, 4, 40, 5, 41], [20, 11, 16, 5, 17], [24, 11, 12, 5, 13]], // 14
+  [[22, 5, 87, 1, 88], [24, 5, 41, 5, 42], [30, 5, 24, 7, 25], [24, 11, 12, 7, 13]], // 15
+  [[24, 5, 98, 1, 99], [28, 7, 45, 3, 46], [24, 15, 19, 2, 20], [30, 3, 15, 13, 16]], // 16
+  [[28, 1, 107, 5, 108], [28, 10, 46, 1, 47], [28, 1, 22, 15, 23], [28, 2, 14, 17, 15]], // 17
+  [[30, 5, 120, 1, 121], [26, 9, 43, 4, 44], [28, 17, 22, 1, 23], [28, 2, 14, 19, 15]], // 18
+  [[28, 3, 113, 4, 114], [26, 3, 44, 11, 45], [26, 17, 21, 4, 22], [26, 9, 13, 16, 14]], // 19
+  [[28, 3, 107, 5, 108], [26, 3, 41, 13, 42], [30, 15, 24, 5, 25], [28, 15, 15, 10, 16]], // 20
+  [[28, 4, 116, 4, 117], [26, 17, 42], [28, 17, 22, 6, 23], [30, 19, 16, 6, 17]], // 21
+  [[28, 2, 111, 7, 112], [28, 17, 46], [30, 7, 24, 16, 25], [24, 34, 13]], // 22
+  [[30, 4, 121, 5, 122], [28, 4, 47, 14, 48], [30, 11, 24, 14, 25], [30, 16, 15, 14, 16]], // 23
+  [[30, 6, 117, 4, 118], [28, 6, 45, 14, 46], [30, 11, 24, 16, 25], [30, 30, 16, 2, 17]], // 24
+  [[26, 8, 106, 4, 107], [28, 8, 47, 13, 48], [30, 7, 24, 22, 25], [30, 22, 15, 13, 16]], // 25
+  [[28, 10, 114, 2, 115], [28, 19, 46, 4, 47], [28, 28, 22, 6, 23], [30, 33, 16, 4, 17]], // 26
+  [[30, 8, 122, 4, 123], [28, 22, 45, 3, 46], [30, 8, 23, 26, 24], [30, 12, 15, 28, 16]], // 27
+  [[30, 3, 117, 10, 118], [28, 3, 45, 23, 46], [30, 4, 24, 31, 25], [30, 11, 15, 31, 16]], // 28
+  [[30, 7, 116, 7, 117], [28, 21, 45, 7, 46], [30, 1, 23, 37, 24], [30, 19, 15, 26, 16]], // 29
+  [[30, 5, 115, 10, 116], [28, 19, 47, 10, 48], [30, 15, 24, 25, 25], [30, 23, 15, 25, 16]], // 30
+  [[30, 13, 115, 3, 116], [28, 2, 46, 29, 47], [30, 42, 24, 1, 25], [30, 23, 15, 28, 16]], // 31
+  [[30, 17, 115], [28, 10, 46, 23, 47], [30, 10, 24, 35, 25], [30, 19, 15, 35, 16]], // 32
+  [[30, 17, 115, 1, 116], [28, 14, 46, 21, 47], [30, 29, 24, 19, 25], [30, 11, 15, 46, 16]], // 33
+  [[30, 13, 115, 6, 116], [28, 14, 46, 23, 47], [30, 44, 24, 7, 25], [30, 59, 16, 1, 17]], // 34
+  [[30, 12, 121, 7, 122], [28, 12, 47, 26, 48], [30, 39, 24, 14, 25], [30, 22, 15, 41, 16]], // 35
+  [[30, 6, 121, 14, 122], [28, 6, 47, 34, 48], [30, 46, 24, 10, 25], [30, 2, 15, 64, 16]], // 36
+  [[30, 17, 122, 4, 123], [28, 29, 46, 14, 47], [30, 49, 24, 10, 25], [30, 24, 15, 46, 16]], // 37
+  [[30, 4, 122, 18, 123], [28, 13, 46, 32, 47], [30, 48, 24, 14, 25], [30, 42, 15, 32, 16]], // 38
+  [[30, 20, 117, 4, 118], [28, 40, 47, 7, 48], [30, 43, 24, 22, 25], [30, 10, 15, 67, 16]], // 39
+  [[30, 19, 118, 6, 119], [28, 18, 47, 31, 48], [30, 34, 24, 34, 25], [30, 20, 15, 61, 16]], // 40
+];
+
+// Format information stores the level as two bits in this order
+const FORMAT_LEVELS: ErrorCorrectionLevel[] = ['M', 'L', 'H', 'Q'];
+const LEVEL_INDEX: Record<ErrorCorrectionLevel, number> = { L: 0, M: 1, Q: 2, H: 3 };
+
+const dimensionForVersion = (version: number) => 17 + 4 * version;
+
+export const alignmentPatternPositions = (version: number): number[] => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const positions = [6];
+  for (let pos = dimensionForVersion(version) - 7; positions.length < count; pos -= step) {
+    positions.splice(1, 0, pos);
+  }
+  return positions;
+};
+
+// Remainder of a BCH code over GF(2)
+const bchRemainder = (value: number, generator: number, generatorBits: number) => {
+  let remainder = value << (generatorBits - 1);
+  for (let bit = 31 - Math.clz32(remainder); bit >= generatorBits - 1; bit--) {
+    if (remainder & (1 << bit)) remainder ^= generator << (bit - generatorBits + 1);
+  }
+  return remainder;
+};
+
+const FORMAT_MASK = 0x5412;
+const FORMAT_CODES = Array.from({ length: 32 }, (_, data) =>
+  ((data << 10) | bchRemainder(data, 0x537, 11)) ^ FORMAT_MASK);
+const VERSION_CODES = Array.from({ length: 34 }, (_, i) =>
+  ((i + 7) << 12) | bchRemainder(i + 7, 0x1f25, 13));
+
+const bitCount = (value: number) => {
+  let count = 0;
+  for (let v = value; v; v &= v - 1) count++;
+  return count;
+};
+
+// Index of the closest code within a Hamming distance of 3, or -1
+const closestCode = (codes: number[], ...candidates: number[]) => {
+  let best = -1;
+  let bestDistance = 4;
+  codes.forEach((code, index) => {
+    for (const candidate of candidates) {
+      const d = bitCount(code ^ candidate);
+      if (d < bestDistance) {
+        best = index;
+        bestDistance = d;
+      }
+    }
+  });
+  return best;
+};
+
+// ---------------------------------------------------------------------------
+// Binarization
+// ---------------------------------------------------------------------------
+
+const BLOCK_SIZE = 8;
+const MIN_DYNAMIC_RANGE = 24;
+
+const toLuminance = (image: QRImage): Uint8Array => {
+  const { data, width, height } = image;
+  const pixels = width * height;
+  if (data.length === pixels) return Uint8Array.from(data);
+  const luminance = new Uint8Array(pixels);
+  for (let i = 0; i < pixels; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const alpha = data[i * 4 + 3] / 255;
+    // Transparent pixels are read as if placed on white paper
+    luminance[i] = Math.round((0.299 * r + 0.587 * g + 0.114 * b) * alpha + 255 * (1 - alpha));
+  }
+  return luminance;
+};
+
+// Local thresholding over 8x8 blocks, smoothed across a 5x5 block neighbourhood
+const binarize = (luminance: Uint8Array, width: number, height: number): BitGrid => {
+  const blocksX = Math.ceil(width / BLOCK_SIZE);
+  const blocksY = Math.ceil(height / BLOCK_SIZE);
+  const blackPoints = new Float32Array(blocksX * blocksY);
+
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      let sum = 0;
+      let count = 0;
+      let min = 255;
+      let max = 0;
+      for (let y = by * BLOCK_SIZE; y < Math.min(height, (by + 1) * BLOCK_SIZE); y++) {
+        for (let x = bx * BLOCK_SIZE; x < Math.min(width, (bx + 1) * BLOCK_SIZE); x++) {
+          const value = luminance[y * width + x];
+          sum += value;
+          count++;
+          if (value < min) min = value;
+          if (value > max) max = value;
+        }
+      }
+      let average = sum / count;
+      if (max - min <= MIN_DYNAMIC_RANGE) {
+        // Flat blocks are assumed light unless their neighbours say otherwise
+        average = min / 2;
+        if (bx > 0 && by > 0) {
+          const neighbours = (blackPoints[(by - 1) * blocksX + bx]
+            + 2 * blackPoints[by * blocksX + bx - 1]
+            + blackPoints[(by - 1) * blocksX + bx - 1]) / 4;
+          if (min < neighbours) average = neighbours;
+        }
+      }
+      blackPoints[by * blocksX + bx] = average;
+    }
+  }
+
+  const grid = createGrid(width, height);
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      let sum = 0;
+      let count = 0;
+      for (let ny = Math.max(0, by - 2); ny <= Math.min(blocksY - 1, by + 2); ny++) {
+        for (let nx = Math.max(0, bx - 2); nx <= Math.min(blocksX - 1, bx + 2); nx++) {
+          sum += blackPoints[ny * blocksX + nx];
+          count++;
+        }
+      }
+      const threshold = sum / count;
+      for (let y = by * BLOCK_SIZE; y < Math.min(height, (by + 1) * BLOCK_SIZE); y++) {
+        for (let x = bx * BLOCK_SIZE; x < Math.min(width, (bx + 1) * BLOCK_SIZE); x++) {
+          grid.bits[y * width + x] = luminance[y * width + x] <= threshold ? 1 : 0;
+        }
+      }
+    }
+  }
+  return grid;
+};
+
+// Single Otsu threshold for the whole image, better suited to clean low-contrast renderings
+const binarizeGlobal = (luminance: Uint8Array, width: number, height: number): BitGrid => {
+  const histogram = new Array(256).fill(0);
+  for (const value of luminance) histogram[value]++;
+  const total = luminance.length;
+  const sumAll = histogram.reduce((sum, count, value) => sum + count * value, 0);
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = 0;
+  let threshold = 127;
+  for (let value = 0; value < 256; value++) {
+    weightBackground += histogram[value];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += value * histogram[value];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = value;
+    }
+  }
+  const grid = createGrid(width, height);
+  for (let i = 0; i < luminance.length; i++) grid.bits[i] = luminance[i] <= threshold ? 1 : 0;
+  return grid;
+};
+
+const invertGrid = (grid: BitGrid): BitGrid => ({ ...grid, bits: grid.bits.map((bit) => bit ^ 1) });
+
+// ---------------------------------------------------------------------------
+// Finder pattern detection (1:1:3:1:1 dark/light runs)
+// ---------------------------------------------------------------------------
+
+const isFinderRatio = (counts: number[]) => {
+  const total = counts.reduce((a, b) => a + b, 0);
+  if (total < 7) return false;
+  const moduleSize = total / 7;
+  const variance = moduleSize / 2;
+  return Math.abs(moduleSize - counts[0]) < variance
+    && Math.abs(moduleSize - counts[1]) < variance
+    && Math.abs(3 * moduleSize - counts[2]) < 3 * variance
+    && Math.abs(moduleSize - counts[3]) < variance
+    && Math.abs(moduleSize - counts[4]) < variance;
+};
+
+const centerFromEnd = (counts: number[], end: number) => end - counts[4] - counts[3] - counts[2] / 2;
+
+// Re-measure the pattern along one axis through (x, y); returns the centre on that axis or NaN
+const crossCheck = (
+  grid: BitGrid,
+  x: number,
+  y: number,
+  vertical: boolean,
+  maxCount: number,
+  originalTotal: number,
+): number => {
+  const limit = vertical ? grid.height : grid.width;
+  const start = vertical ? y : x;
+  const dark = (pos: number) => (vertical ? isDark(grid, x, pos) : isDark(grid, pos, y));
+  const counts = [0, 0, 0, 0, 0];
+
+  let pos = start;
+  while (pos >= 0 && dark(pos)) { counts[2]++; pos--; }
+  if (pos < 0) return NaN;
+  while (pos >= 0 && !dark(pos) && counts[1] <= maxCount) { counts[1]++; pos--; }
+  if (pos < 0 || counts[1] > maxCount) return NaN;
+  while (pos >= 0 && dark(pos) && counts[0] <= maxCount) { counts[0]++; pos--; }
+  if (counts[0] > maxCount) return NaN;
+
+  pos = start + 1;
+  while (pos < limit && dark(pos)) { counts[2]++; pos++; }
+  if (pos === limit) return NaN;
+  while (pos < limit && !dark(pos) && counts[3] < maxCount) { counts[3]++; pos++; }
+  if (pos === limit || counts[3] >= maxCount) return NaN;
+  while (pos < limit && dark(pos) && counts[4] < maxCount) { counts[4]++; pos++; }
+  if (counts[4] >= maxCount) return NaN;
+
+  const total = counts.reduce((a, b) => a + b, 0);
+  if (5 * Math.abs(total - originalTotal) >= 2 * originalTotal) return NaN;
+  return isFinderRatio(counts) ? centerFromEnd(counts, pos) : NaN;
+};
+
+const findFinderCandidates = (grid: BitGrid): FinderPattern[] => {
+  const candidates: FinderPattern[] = [];
+
+  const handlePossibleCenter = (counts: number[], y: number, endX: number) => {
+    const total = counts.reduce((a, b) => a + b, 0);
+    const centerX = centerFromEnd(counts, endX);
+    const centerY = crossCheck(grid, Math.floor(centerX), y, true, counts[2], total);
+    if (Number.isNaN(centerY)) return false;
+    const refinedX = crossCheck(grid, Math.floor(centerX), Math.floor(centerY), false, counts[2], total);
+    if (Number.isNaN(refinedX)) return false;
+    const moduleSize = total / 7;
+    const existing = candidates.find((c) =>
+      Math.abs(centerY - c.y) <= moduleSize
+      && Math.abs(refinedX - c.x) <= moduleSize
+      && (Math.abs(moduleSize - c.moduleSize) <= 1 || Math.abs(moduleSize - c.moduleSize) <= c.moduleSize));
+    if (existing) {
+      const n = existing.count;
+      existing.x = (existing.x * n + refinedX) / (n + 1);
+      existing.y = (existing.y * n + centerY) / (n + 1);
+      existing.moduleSize = (existing.moduleSize * n + moduleSize) / (n + 1);
+      existing.count++;
+    } else {
+      candidates.push({ x: refinedX, y: centerY, moduleSize, count: 1 });
+    }
+    return true;
+  };
+
+  for (let y = 0; y < grid.height; y++) {
+    let counts = [0, 0, 0, 0, 0];
+    let state = 0;
+    for (let x = 0; x < grid.width; x++) {
+      if (isDark(grid, x, y)) {
+        // Dark pixel after a light run moves on to the next run
+        if (state & 1) state++;
+        counts[state]++;
+      } else if (state & 1) {
+        counts[state]++;
+      } else if (state === 0 && counts[0] === 0) {
+        // Leading light pixels are not part of any pattern
+        continue;
+      } else if (state === 4) {
+        if (isFinderRatio(counts) && handlePossibleCenter(counts, y, x)) {
+          counts = [0, 0, 0, 0, 0];
+          state = 0;
+        } else {
+          counts = [counts[2], counts[3], counts[4], 1, 0];
+          state = 3;
+        }
+      } else {
+        state++;
+        counts[state]++;
+      }
+    }
+    if (state === 4 && isFinderRatio(counts)) handlePossibleCenter(counts, y, grid.width);
+  }
+  return candidates;
+};
+
+// Pick the three patterns closest to an isosceles right triangle with consistent module sizes
+const selectFinderPatterns = (candidates: FinderPattern[]): FinderPattern[] | null => {
+  const confirmed = candidates.filter((c) => c.count >= 2);
+  const pool = (confirmed.length >= 3 ? confirmed : candidates)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 12);
+  if (pool.length < 3) return null;
+
+  let best: FinderPattern[] | null = null;
+  let bestScore = Infinity;
+  for (let i = 0; i < pool.length - 2; i++) {
+    for (let j = i + 1; j < pool.length - 1; j++) {
+      for (let k = j + 1; k < pool.length; k++) {
+        const triple = [pool[i], pool[j], pool[k]];
+        const sizes = triple.map((p) => p.moduleSize);
+        if (Math.max(...sizes) > 1.4 * Math.min(...sizes)) continue;
+        const [a, b, c] = [
+          distance(pool[i], pool[j]) ** 2,
+          distance(pool[j], pool[k]) ** 2,
+          distance(pool[i], pool[k]) ** 2,
+        ].sort((x, y) => x - y);
+        const minSize = Math.min(...sizes);
+        // Finder centres are at least 14 modules apart in any real symbol
+        if (a < (14 * minSize) ** 2) continue;
+        const score = (Math.abs(c - 2 * b) + Math.abs(c - 2 * a)) / c;
+        if (score < bestScore) {
+          bestScore = score;
+          best = triple;
+        }
+      }
+    }
+  }
+  return best && bestScore < 0.5 ? best : null;
+};
+
+// Order as [bottomLeft, topLeft, topRight]: top-left sits opposite the longest side
+const orderFinderPatterns = ([p0, p1, p2]: FinderPattern[]) => {
+  const d01 = distance(p0, p1);
+  const d12 = distance(p1, p2);
+  const d02 = distance(p0, p2);
+  const [a, b, c] = d12 >= d01 && d12 >= d02 ? [p1, p0, p2] : d02 >= d01 ? [p0, p1, p2] : [p0, p2, p1];
+  // Cross product decides which of the other two is bottom-left
+  const clockwise = (c.x - b.x) * (a.y - b.y) - (c.y - b.y) * (a.x - b.x) >= 0;
+  return clockwise ? { bottomLeft: a, topLeft: b, topRight: c } : { bottomLeft: c, topLeft: b, topRight: a };
+};
+
+// ---------------------------------------------------------------------------
+// Sampling
+// ---------------------------------------------------------------------------
+
+type Homography = number[];
+
+// Solve the eight coefficients mapping module coordinates onto image coordinates
+const solveHomography = (from: Point[], to: Point[]): Homography | null => {
+  const rows: number[][] = [];
+  from.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -x * u, -y * u, u]);
+    rows.push([0, 0, 0, x, y, 1, -x * v, -y * v, v]);
+  });
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) {
+      if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-10) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const factor = rows[r][col] / rows[col][col];
+      for (let c = col; c < 9; c++) rows[r][c] -= factor * rows[col][c];
+    }
+  }
+  return rows.map((row, i) => row[8] / row[i]);
+};
+
+const project = (h: Homography, x: number, y: number): Point => {
+  const w = h[6] * x + h[7] * y + 1;
+  return { x: (h[0] * x + h[1] * y + h[2]) / w, y: (h[3] * x + h[4] * y + h[5]) / w };
+};
+
+// Locate the bottom-right alignment pattern by matching its 5x5 module template near an estimate
+const findAlignmentPattern = (grid: BitGrid, estimate: Point, moduleSize: number, allowance: number): Point | null => {
+  const radius = Math.ceil(allowance * moduleSize);
+  const sample = (x: number, y: number) => {
+    const px = Math.round(x);
+    const py = Math.round(y);
+    if (px < 0 || py < 0 || px >= grid.width || py >= grid.height) return -1;
+    return grid.bits[py * grid.width + px];
+  };
+  let bestScore = 0;
+  let matches: Point[] = [];
+  for (let y = Math.round(estimate.y) - radius; y <= Math.round(estimate.y) + radius; y++) {
+    for (let x = Math.round(estimate.x) - radius; x <= Math.round(estimate.x) + radius; x++) {
+      let score = 0;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          const expected = Math.max(Math.abs(dx), Math.abs(dy)) === 1 ? 0 : 1;
+          if (sample(x + dx * moduleSize, y + dy * moduleSize) === expected) score++;
+        }
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        matches = [{ x, y }];
+      } else if (score === bestScore) {
+        matches.push({ x, y });
+      }
+    }
+  }
+  if (bestScore < 23) return null;
+  // Keep the plateau of best matches closest to the estimate and use its centroid
+  const nearest = matches.reduce((a, b) => (distance(a, estimate) <= distance(b, estimate) ? a : b));
+  const plateau = matches.filter((p) => distance(p, nearest) <= moduleSize);
+  return {
+    x: plateau.reduce((sum, p) => sum + p.x, 0) / plateau.length,
+    y: plateau.reduce((sum, p) => sum + p.y, 0) / plateau.length,
+  };
+};
+
+const sampleGrid = (
+  grid: BitGrid,
+  finders: ReturnType<typeof orderFinderPatterns>,
+  dimension: number,
+  moduleSize: number,
+): BitGrid | null => {
+  const { topLeft, topRight, bottomLeft } = finders;
+  const from: Point[] = [
+    { x: 3.5, y: 3.5 },
+    { x: dimension - 3.5, y: 3.5 },
+    { x: 3.5, y: dimension - 3.5 },
+  ];
+  const to: Point[] = [topLeft, topRight, bottomLeft];
+
+  const bottomRight = { x: topRight.x - topLeft.x + bottomLeft.x, y: topRight.y - topLeft.y + bottomLeft.y };
+  let alignment: Point | null = null;
+  if (dimension > 21) {
+    const correction = 1 - 3 / (dimension - 7);
+    const estimate = {
+      x: topLeft.x + correction * (bottomRight.x - topLeft.x),
+      y: topLeft.y + correction * (bottomRight.y - topLeft.y),
+    };
+    for (const allowance of [2, 4, 8]) {
+      alignment = findAlignmentPattern(grid, estimate, moduleSize, allowance);
+      if (alignment) break;
+    }
+  }
+  if (alignment) {
+    from.push({ x: dimension - 6.5, y: dimension - 6.5 });
+    to.push(alignment);
+  } else {
+    from.push({ x: dimension - 3.5, y: dimension - 3.5 });
+    to.push(bottomRight);
+  }
+
+  const h = solveHomography(from, to);
+  if (!h) return null;
+  const result = createGrid(dimension);
+  for (let y = 0; y < dimension; y++) {
+    for (let x = 0; x < dimension; x++) {
+      const p = project(h, x + 0.5, y + 0.5);
+      const px = Math.floor(p.x);
+      const py = Math.floor(p.y);
+      if (px < 0 || py < 0 || px >= grid.width || py >= grid.height) return null;
+      result.bits[y * dimension + x] = grid.bits[py * grid.width + px];
+    }
+  }
+  return result;
+};
+
+// ---------------------------------------------------------------------------
+// Reed-Solomon over GF(256), primitive polynomial 0x11D
+// ---------------------------------------------------------------------------
+
+const GF_EXP = new Uint8Array(512);
+const GF_LOG = new Uint8Array(256);
+{
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    GF_EXP[i] = x;
+    GF_LOG[x] = i;
+    x <<= 1;
+    if (x & 0x100) x ^= 0x11d;
+  }
+  for (let i = 255; i < 512; i++) GF_EXP[i] = GF_EXP[i - 255];
+}
+
+const gfMul = (a: number, b: number) => (a === 0 || b === 0 ? 0 : GF_EXP[GF_LOG[a] + GF_LOG[b]]);
+const gfInverse = (a: number) => GF_EXP[255 - GF_LOG[a]];
+
+// Polynomials are coefficient arrays, highest degree first, without leading zeros
+type Poly = number[];
+
+const trimPoly = (p: Poly): Poly => {
+  const first = p.findIndex((c) => c !== 0);
+  return first < 0 ? [0] : p.slice(first);
+};
+const degree = (p: Poly) => p.length - 1;
+const isZeroPoly = (p: Poly) => p[0] === 0;
+const coefficient = (p: Poly, deg: number) => p[p.length - 1 - deg];
+const evaluate = (p: Poly, x: number) => p.reduce((acc, c) => gfMul(acc, x) ^ c, 0);
+const addPoly = (a: Poly, b: Poly): Poly => {
+  const [longer, shorter] = a.length >= b.length ? [a, b] : [b, a];
+  const offset = longer.length - shorter.length;
+  return trimPoly(longer.map((c, i) => (i < offset ? c : c ^ shorter[i - offset])));
+};
+const mulPoly = (a: Poly, b: Poly): Poly => {
+  const product = new Array(a.length + b.length - 1).fill(0);
+  a.forEach((ca, i) => b.forEach((cb, j) => { product[i + j] ^= gfMul(ca, cb); }));
+  return trimPoly(product);
+};
+const scalePoly = (p: Poly, scalar: number): Poly => trimPoly(p.map((c) => gfMul(c, scalar)));
+const monomial = (deg: number, coef: number): Poly => (coef === 0 ? [0] : [coef, ...new Array(deg).fill(0)]);
+
+// Correct a block in place; returns the number of corrected codewords, or -1 when uncorrectable
+const correctErrors = (block: number[], ecCount: number): number => {
+  const received = trimPoly(block);
+  const syndromes = new Array(ecCount).fill(0);
+  let hasError = false;
+  for (let i = 0; i < ecCount; i++) {
+    syndromes[ecCount - 1 - i] = evaluate(received, GF_EXP[i]);
+    if (syndromes[ecCount - 1 - i]) hasError = true;
+  }
+  if (!hasError) return 0;
+
+  // Euclidean algorithm for the error locator (sigma) and evaluator (omega)
+  let rLast = monomial(ecCount, 1);
+  let r = trimPoly(syndromes);
+  let tLast: Poly = [0];
+  let t: Poly = [1];
+  while (2 * degree(r) >= ecCount) {
+    const rLastLast = rLast;
+    const tLastLast = tLast;
+    rLast = r;
+    tLast = t;
+    if (isZeroPoly(rLast)) return -1;
+    r = rLastLast;
+    let q: Poly = [0];
+    const dltInverse = gfInverse(coefficient(rLast, degree(rLast)));
+    while (degree(r) >= degree(rLast) && !isZeroPoly(r)) {
+      const degreeDiff = degree(r) - degree(rLast);
+      const scale = gfMul(coefficient(r, degree(r)), dltInverse);
+      q = addPoly(q, monomial(degreeDiff, scale));
+      r = addPoly(r, mulPoly(rLast, monomial(degreeDiff, scale)));
+    }
+    t = addPoly(mulPoly(q, tLast), tLastLast);
+    if (degree(r) >= degree(rLast)) return -1;
+  }
+  const sigmaAtZero = coefficient(t, 0);
+  if (sigmaAtZero === 0) return -1;
+  const sigma = scalePoly(t, gfInverse(sigmaAtZero));
+  const omega = scalePoly(r, gfInverse(sigmaAtZero));
+
+  // Chien search: roots of sigma are the inverses of the error locations
+  const errorCount = degree(sigma);
+  const locations: number[] = [];
+  if (errorCount === 1) {
+    locations.push(coefficient(sigma, 1));
+  } else {
+    for (let i = 1; i < 256 && locations.length < errorCount; i++) {
+      if (evaluate(sigma, i) === 0) locations.push(gfInverse(i));
+    }
+  }
+  if (locations.length !== errorCount) return -1;
+
+  // Forney algorithm for the error magnitudes
+  for (let i = 0; i < errorCount; i++) {
+    const xiInverse = gfInverse(locations[i]);
+    let denominator = 1;
+    for (let j = 0; j < errorCount; j++) {
+      if (i !== j) denominator = gfMul(denominator, 1 ^ gfMul(locations[j], xiInverse));
+    }
+    const magnitude = gfMul(evaluate(omega, xiInverse), gfInverse(denominator));
+    const position = block.length - 1 - GF_LOG[locations[i]];
+    if (position < 0) return -1;
+    block[position] ^= magnitude;
+  }
+  return errorCount;
+};
+
+// ---------------------------------------------------------------------------
+// Symbol structure
+// ---------------------------------------------------------------------------
+
+const buildFunctionPattern = (version: number): BitGrid => {
+  const dimension = dimensionForVersion(version);
+  const grid = createGrid(dimension);
+  const setRegion = (left: number, top: number, width: number, height: number) => {
+    for (let y = top; y < top + height; y++) {
+      for (let x = left; x < left + width; x++) grid.bits[y * dimension + x] = 1;
+    }
+  };
+  // Finder patterns with separators and format information
+  setRegion(0, 0, 9, 9);
+  setRegion(dimension - 8, 0, 8, 9);
+  setRegion(0, dimension - 8, 9, 8);
+  const positions = alignmentPatternPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((row, i) => {
+    positions.forEach((col, j) => {
+      // Alignment patterns never overlap the finder patterns
+      if ((i === 0 && (j === 0 || j === last)) || (i === last && j === 0)) return;
+      setRegion(col - 2, row - 2, 5, 5);
+    });
+  });
+  // Timing patterns
+  setRegion(6, 9, 1, dimension - 17);
+  setRegion(9, 6, dimension - 17, 1);
+  if (version > 6) {
+    // Version information
+    setRegion(dimension - 11, 0, 3, 6);
+    setRegion(0, dimension - 11, 6, 3);
+  }
+  return grid;
+};
+
+const MASKS: ((row: number, col: number) => boolean)[] = [
+  (i, j) => (i + j) % 2 === 0,
+  (i) => i % 2 === 0,
+  (_, j) => j % 3 === 0,
+  (i, j) => (i + j) % 3 === 0,
+  (i, j) => (Math.floor(i / 2) + Math.floor(j / 3)) % 2 === 0,
+  (i, j) => ((i * j) % 2) + ((i * j) % 3) === 0,
+  (i, j) => (((i * j) % 2) + ((i * j) % 3)) % 2 === 0,
+  (i, j) => (((i + j) % 2) + ((i * j) % 3)) % 2 === 0,
+];
+
+const readFormatInformation = (matrix: BitGrid) => {
+  const dimension = matrix.width;
+  const bit = (x: number, y: number) => (isDark(matrix, x, y) ? 1 : 0);
+  let copy1 = 0;
+  for (let x = 0; x < 6; x++) copy1 = (copy1 << 1) | bit(x, 8);
+  copy1 = (copy1 << 1) | bit(7, 8);
+  copy1 = (copy1 << 1) | bit(8, 8);
+  copy1 = (copy1 << 1) | bit(8, 7);
+  for (let y = 5; y >= 0; y--) copy1 = (copy1 << 1) | bit(8, y);
+  let copy2 = 0;
+  for (let y = dimension - 1; y >= dimension - 7; y--) copy2 = (copy2 << 1) | bit(8, y);
+  for (let x = dimension - 8; x < dimension; x++) copy2 = (copy2 << 1) | bit(x, 8);
+
+  const data = closestCode(FORMAT_CODES, copy1, copy2);
+  if (data < 0) return null;
+  return { level: FORMAT_LEVELS[data >> 3], mask: data & 7 };
+};
+
+const readVersion = (matrix: BitGrid): number => {
+  const dimension = matrix.width;
+  const provisional = (dimension - 17) / 4;
+  if (provisional <= 6) return provisional;
+  let topRight = 0;
+  let bottomLeft = 0;
+  for (let j = 5; j >= 0; j--) {
+    for (let i = dimension - 9; i >= dimension - 11; i--) {
+      topRight = (topRight << 1) | (isDark(matrix, i, j) ? 1 : 0);
+      bottomLeft = (bottomLeft << 1) | (isDark(matrix, j, i) ? 1 : 0);
+    }
+  }
+  const index = closestCode(VERSION_CODES, topRight, bottomLeft);
+  return index < 0 ? -1 : index + 7;
+};
+
+// Modules of every codeword in placement order: upwards and downwards through
+// two-column strips from the bottom right, skipping function patterns
+export const getCodewordModules = (version: number): Point[][] => {
+  const dimension = dimensionForVersion(version);
+  const functionPattern = buildFunctionPattern(version);
+  const codewords: Point[][] = [];
+  let current: Point[] = [];
+  let readingUp = true;
+  for (let j = dimension - 1; j > 0; j -= 2) {
+    if (j === 6) j--;
+    for (let count = 0; count < dimension; count++) {
+      const i = readingUp ? dimension - 1 - count : count;
+      for (let col = 0; col < 2; col++) {
+        const x = j - col;
+        if (isDark(functionPattern, x, i)) continue;
+        current.push({ x, y: i });
+        if (current.length === 8) {
+          codewords.push(current);
+          current = [];
+        }
+      }
+    }
+    readingUp = !readingUp;
+  }
+  return codewords;
+};
+
+const readCodewords = (matrix: BitGrid, version: number, mask: number): number[] =>
+  getCodewordModules(version).map((modules) =>
+    modules.reduce((codeword, { x, y }) => (codeword << 1) | (isDark(matrix, x, y) !== MASKS[mask](y, x) ? 1 : 0), 0));
+
+// Error correction codewords per block and data codewords of each block, in interleaving order
+export const getBlockLayout = (version: number, level: ErrorCorrectionLevel) => {
+  const [ecPerBlock, ...groups] = EC_BLOCKS[version - 1][LEVEL_INDEX[level]];
+  const dataPerBlock: number[] = [];
+  for (let g = 0; g < groups.length; g += 2) {
+    for (let i = 0; i < groups[g]; i++) dataPerBlock.push(groups[g + 1]);
+  }
+  return { ecPerBlock, dataPerBlock };
+};
+
+// De-interleave the codewords into blocks, correct them and concatenate their data
+const correctCodewords = (codewords: number[], version: number, level: ErrorCorrectionLevel) => {
+  const { ecPerBlock, dataPerBlock } = getBlockLayout(version, level);
+  const blocks = dataPerBlock.map((data) => ({ data, codewords: [] as number[] }));
+  const total = blocks.reduce((sum, b) => sum + b.data + ecPerBlock, 0);
+  if (codewords.length < total) return null;
+
+  let offset = 0;
+  const maxData = Math.max(...blocks.map((b) => b.data));
+  for (let i = 0; i < maxData; i++) {
+    for (const block of blocks) {
+      if (i < block.data) block.codewords.push(codewords[offset++]);
+    }
+  }
+  for (let i = 0; i < ecPerBlock; i++) {
+    for (const block of blocks) block.codewords.push(codewords[offset++]);
+  }
+
+  const data: number[] = [];
+  let correctedErrors = 0;
+  for (const block of blocks) {
+    const corrected = correctErrors(block.codewords, ecPerBlock);
+    if (corrected < 0) return null;
+    correctedErrors += corrected;
+    data.push(...block.codewords.slice(0, block.data));
+  }
+  return { data, correctedErrors };
+};
+
+// ---------------------------------------------------------------------------
+// Bitstream decoding
+// ---------------------------------------------------------------------------
+
+const ALPHANUMERIC = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+// Character sets designated by ECI assignment numbers
+const ECI_CHARSETS: Record<number, string> = {
+  1: 'iso-8859-1', 3: 'iso-8859-1', 4: 'iso-8859-2', 5: 'iso-8859-3', 6: 'iso-8859-4', 7: 'iso-8859-5',
+  8: 'iso-8859-6', 9: 'iso-8859-7', 10: 'iso-8859-8', 11: 'windows-874', 12: 'iso-8859-10', 13: 'iso-8859-13',
+  15: 'iso-8859-15', 17: 'iso-8859-15', 18: 'iso-8859-16', 20: 'shift_jis', 21: 'windows-1250',
+  22: 'windows-1251', 23: 'windows-1252', 24: 'windows-1256', 25: 'utf-16be', 26: 'utf-8', 27: 'us-ascii',
+  28: 'big5', 29: 'gb18030', 30: 'euc-kr',
+};
+
+// Without an ECI, byte segments are read as UTF-8 when valid, otherwise as ISO-8859-1
+const decodeBytes = (bytes: number[], charset?: string) => {
+  const buffer = Uint8Array.from(bytes);
+  if (charset) return new TextDecoder(charset).decode(buffer);
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('iso-8859-1').decode(buffer);
+  }
+};
+
+const characterCountBits = (mode: number, version: number) => {
+  const range = version <= 9 ? 0 : version <= 26 ? 1 : 2;
+  switch (mode) {
+    case 1: return [10, 12, 14][range];
+    case 2: return [9, 11, 13][range];
+    case 4: return [8, 16, 16][range];
+    default: return [8, 10, 12][range];
+  }
+};
+
+const decodeBitstream = (bytes: number[], version: number): string | null => {
+  let bitOffset = 0;
+  const available = () => bytes.length * 8 - bitOffset;
+  const readBits = (count: number) => {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const byte = bytes[bitOffset >> 3];
+      value = (value << 1) | ((byte >> (7 - (bitOffset & 7))) & 1);
+      bitOffset++;
+    }
+    return value;
+  };
+
+  let text = '';
+  let charset: string | undefined;
+  while (available() >= 4) {
+    const mode = readBits(4);
+    if (mode === 0) break;
+    if (mode === 3) {
+      // Structured append header: symbol sequence and parity
+      if (available() < 16) return null;
+      readBits(16);
+      continue;
+    }
+    if (mode === 5 || mode === 9) {
+      // FNC1 markers carry no text of their own
+      if (mode === 9) readBits(8);
+      continue;
+    }
+    if (mode === 7) {
+      const first = readBits(8);
+      const eci = (first & 0x80) === 0 ? first
+        : (first & 0xc0) === 0x80 ? ((first & 0x3f) << 8) | readBits(8)
+          : ((first & 0x1f) << 16) | readBits(16);
+      charset = ECI_CHARSETS[eci];
+      continue;
+    }
+    if (mode !== 1 && mode !== 2 && mode !== 4 && mode !== 8) return null;
+
+    let count = readBits(characterCountBits(mode, version));
+    if (mode === 1) {
+      while (count >= 3) {
+        if (available() < 10) return null;
+        const value = readBits(10);
+        if (value >= 1000) return null;
+        text += String(value).padStart(3, '0');
+        count -= 3;
+      }
+      if (count === 2) {
+        const value = readBits(7);
+        if (value >= 100) return null;
+        text += String(value).padStart(2, '0');
+      } else if (count === 1) {
+        const value = readBits(4);
+        if (value >= 10) return null;
+        text += value;
+      }
+    } else if (mode === 2) {
+      while (count > 1) {
+        if (available() < 11) return null;
+        const value = readBits(11);
+        text += ALPHANUMERIC[Math.floor(value / 45)] + ALPHANUMERIC[value % 45];
+        count -= 2;
+      }
+      if (count === 1) text += ALPHANUMERIC[readBits(6)];
+    } else if (mode === 4) {
+      if (available() < count * 8) return null;
+      const segment: number[] = [];
+      for (let i = 0; i < count; i++) segment.push(readBits(8));
+      text += decodeBytes(segment, charset);
+    } else {
+      // Kanji: 13-bit values expanded back into Shift JIS byte pairs
+      if (available() < count * 13) return null;
+      const segment: number[] = [];
+      for (let i = 0; i < count; i++) {
+        const value = readBits(13);
+        let assembled = ((Math.floor(value / 0xc0)) << 8) | (value % 0xc0);
+        assembled += assembled < 0x1f00 ? 0x8140 : 0xc140;
+        segment.push(assembled >> 8, assembled & 0xff);
+      }
+      text += decodeBytes(segment, 'shift_jis');
+    }
+  }
+  return text;
+};
+
+const transpose = (matrix: BitGrid): BitGrid => {
+  const result = createGrid(matrix.width);
+  for (let y = 0; y < matrix.width; y++) {
+    for (let x = 0; x < matrix.width; x++) result.bits[x * matrix.width + y] = matrix.bits[y * matrix.width + x];
+  }
+  return result;
+};
+
+// Decode a sampled module matrix, also trying its mirror image
+const decodeMatrix = (matrix: BitGrid): DecodedQR | null => {
+  for (const candidate of [matrix, transpose(matrix)]) {
+    const version = readVersion(candidate);
+    const format = readFormatInformation(candidate);
+    if (version < 1 || version > 40 || dimensionForVersion(version) !== candidate.width || !format) continue;
+    const codewords = readCodewords(candidate, version, format.mask);
+    const corrected = correctCodewords(codewords, version, format.level);
+    if (!corrected) continue;
+    const text = decodeBitstream(corrected.data, version);
+    if (text === null) continue;
+    return { text, version, errorCorrectionLevel: format.level, correctedErrors: corrected.correctedErrors };
+  }
+  return null;
+};
+
+const decodeGrid = (grid: BitGrid): DecodedQR | null => {
+  const selected = selectFinderPatterns(findFinderCandidates(grid));
+  if (!selected) return null;
+  const finders = orderFinderPatterns(selected);
+  const { topLeft, topRight, bottomLeft } = finders;
+  const moduleSize = (topLeft.moduleSize + topRight.moduleSize + bottomLeft.moduleSize) / 3;
+  const estimated = Math.round((distance(topLeft, topRight) + distance(topLeft, bottomLeft)) / (2 * moduleSize)) + 7;
+  // Snap to a valid dimension (4v + 17), then try its neighbours in case the module size was off
+  const base = Math.round((estimated - 17) / 4);
+  for (const version of [base, base - 1, base + 1]) {
+    if (version < 1 || version > 40) continue;
+    const matrix = sampleGrid(grid, finders, dimensionForVersion(version), moduleSize);
+    const result = matrix && decodeMatrix(matrix);
+    if (result) return result;
+  }
+  return null;
+};
+
+// Decode the first QR code found in an image, including light-on-dark codes
+export const decodeQR = (image: QRImage): DecodedQR | null => {
+  const luminance = toLuminance(image);
+  for (const binarizer of [binarize, binarizeGlobal]) {
+    const grid = binarizer(luminance, image.width, image.height);
+    const result = decodeGrid(grid) ?? decodeGrid(invertGrid(grid));
+    if (result) return result;
+  }
+  return null;
+};
+
+// Largest side images are scaled down to before decoding
+const MAX_DECODE_SIZE = 1024;
+// Size SVG files without intrinsic dimensions are rasterized at
+const DEFAULT_SVG_SIZE = 512;
+
+// Rasterize an image URL (data URL, blob URL or same-origin URL) and decode it
+export const decodeQRFromImageUrl = (src: string): Promise<DecodedQR | null> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const width = img.naturalWidth || DEFAULT_SVG_SIZE;
+      const height = img.naturalHeight || DEFAULT_SVG_SIZE;
+      const scale = Math.min(1, MAX_DECODE_SIZE / Math.max(width, height));
+      // A white border keeps the quiet zone of tightly cropped images
+      const border = Math.round(Math.max(width, height) * scale * 0.05);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale) + 2 * border;
+      canvas.height = Math.round(height * scale) + 2 * border;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) {
+        reject(new Error('Canvas 2D context is not available'));
+        return;
+      }
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, border, border, canvas.width - 2 * border, canvas.height - 2 * border);
+      resolve(decodeQR(ctx.getImageData(0, 0, canvas.width, canvas.height)));
+    };
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = src;
+  });
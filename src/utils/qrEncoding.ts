@@ -0,0 +1,58 @@
+import type { ErrorCorrectionLevel, Mode } from 'qr-code-styling';
+import { getBlockLayout } from './qrDecoder';
+
+// Modes qr-code-styling chooses from; Kanji needs Shift JIS input
+export type EncodingMode = Exclude<Mode, 'Kanji'>;
+
+// Mode qr-code-styling picks for the whole payload
+export const getEncodingMode = (data: string): EncodingMode => {
+  if (/^[0-9]*$/.test(data)) return 'Numeric';
+  if (/^[0-9A-Z $%*+\-./:]*$/.test(data)) return 'Alphanumeric';
+  return 'Byte';
+};
+
+// qr-code-styling writes one byte per character code, so text goes in as its UTF-8 bytes
+export const toByteString = (data: string) =>
+  Array.from(new TextEncoder().encode(data), (byte) => String.fromCharCode(byte)).join('');
+
+// Width of the character count field for versions 1-9, 10-26 and 27-40
+const CHARACTER_COUNT_BITS: Record<Mode, [number, number, number]> = {
+  Numeric: [10, 12, 14],
+  Alphanumeric: [9, 11, 13],
+  Byte: [8, 16, 16],
+  Kanji: [8, 10, 12],
+};
+
+export const characterCountBits = (mode: Mode, version: number) =>
+  CHARACTER_COUNT_BITS[mode][version < 10 ? 0 : version < 27 ? 1 : 2];
+
+// Characters the mode counts: digits, characters or UTF-8 bytes
+export const getCharacterCount = (data: string, mode: Mode) =>
+  mode === 'Byte' ? new TextEncoder().encode(data).length : data.length;
+
+// Bits of the encoded characters, without mode indicator and character count
+export const payloadBits = (count: number, mode: Mode) => {
+  switch (mode) {
+    case 'Numeric':
+      return Math.floor(count / 3) * 10 + [0, 4, 7][count % 3];
+    case 'Alphanumeric':
+      return Math.floor(count / 2) * 11 + (count % 2) * 6;
+    case 'Kanji':
+      return count * 13;
+    default:
+      return count * 8;
+  }
+};
+
+export const getDataCodewordCount = (version: number, level: ErrorCorrectionLevel) =>
+  getBlockLayout(version, level).dataPerBlock.reduce((sum, count) => sum + count, 0);
+
+// Smallest version the renderer fits the payload into, or null when it is too long for version 40
+export const getQRVersion = (data: string, level: ErrorCorrectionLevel): number | null => {
+  const mode = getEncodingMode(data);
+  const bits = payloadBits(getCharacterCount(data, mode), mode);
+  for (let version = 1; version <= 40; version++) {
+    if (4 + characterCountBits(mode, version) + bits <= getDataCodewordCount(version, level) * 8) return version;
+  }
+  return null;
+};
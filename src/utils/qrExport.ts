@@ -0,0 +1,114 @@
+import type QRCodeStyling from 'qr-code-styling';
+import type { QROptions } from '../types/qr';
+import { crc32 } from './zip';
+import { createFrameSVG, getFrameLayout, svgToDataUrl } from './frames';
+
+export type ExportFormat = 'png' | 'svg' | 'pdf';
+
+// Size and resolution that exports carry, so they print at the chosen physical size, and the frame around the code
+export type ExportSettings = Pick<QROptions, 'size' | 'output' | 'frame'>;
+
+const MM_PER_INCH = 25.4;
+const PNG_SIGNATURE_LENGTH = 8;
+const IHDR_CHUNK_LENGTH = 25;
+
+// PNG with a pHYs chunk after the header, giving its resolution in pixels per metre
+const setPNGResolution = async (png: Blob, dpi: number): Promise<Blob> => {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  const pixelsPerMetre = Math.round((dpi / MM_PER_INCH) * 1000);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMetre);
+  view.setUint32(12, pixelsPerMetre);
+  chunk[16] = 1; // Unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+  const headerEnd = PNG_SIGNATURE_LENGTH + IHDR_CHUNK_LENGTH;
+  return new Blob([bytes.subarray(0, headerEnd), chunk, bytes.subarray(headerEnd)], { type: 'image/png' });
+};
+
+// Width and height attributes in the chosen unit; pixel sizes stay as the renderer wrote them
+const setSVGSize = (svg: SVGSVGElement, width: number, height: number, output: ExportSettings['output']) => {
+  if (output.unit === 'px') return;
+  const length = (pixels: number) => {
+    const inches = pixels / output.dpi;
+    return output.unit === 'in' ? `${+inches.toFixed(4)}in` : `${+(inches * MM_PER_INCH).toFixed(3)}mm`;
+  };
+  if (!svg.hasAttribute('viewBox')) svg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  svg.setAttribute('width', length(width));
+  svg.setAttribute('height', length(height));
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Frame could not be drawn'));
+  image.src = src;
+});
+
+// Code raster drawn into the open slot of its frame
+const drawFramedPNG = async (code: Blob, { size, frame }: ExportSettings): Promise<Blob> => {
+  const layout = getFrameLayout(frame, size);
+  const canvas = document.createElement('canvas');
+  canvas.width = layout.width;
+  canvas.height = layout.height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('PNG rendering is not available');
+  context.drawImage(await loadImage(svgToDataUrl(createFrameSVG(frame, size))), 0, 0, layout.width, layout.height);
+  context.drawImage(await createImageBitmap(code), layout.code.x, layout.code.y, layout.code.size, layout.code.size);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG rendering is not available'))), 'image/png');
+  });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const renderPNG = async (qrCode: QRCodeStyling, settings?: ExportSettings): Promise<Blob> => {
+  const data = await qrCode.getRawData('png');
+  if (!(data instanceof Blob)) throw new Error('PNG rendering is not available');
+  if (!settings) return data;
+  const image = settings.frame.style === 'none' ? data : await drawFramedPNG(data, settings);
+  return setPNGResolution(image, settings.output.dpi);
+};
+
+export const renderSVG = async (qrCode: QRCodeStyling, settings?: ExportSettings): Promise<Blob> => {
+  const data = await qrCode.getRawData('svg');
+  if (!(data instanceof Blob)) throw new Error('SVG rendering is not available');
+  // Create a clean SVG by parsing and re-serializing
+  const doc = new DOMParser().parseFromString(await data.text(), 'image/svg+xml');
+  const svg = doc.querySelector('svg');
+  if (!svg) throw new Error('SVG rendering produced no image');
+  // Remove any unnecessary attributes or metadata
+  svg.removeAttribute('xmlns:xlink');
+  if (!settings) return new Blob([new XMLSerializer().serializeToString(svg)], { type: 'image/svg+xml' });
+  // Frames are drawn as vector shapes around the nested code
+  const framed = settings.frame.style === 'none' ? svg : createFrameSVG(settings.frame, settings.size, svg);
+  const layout = getFrameLayout(settings.frame, settings.size);
+  setSVGSize(framed, layout.width, layout.height, settings.output);
+  return new Blob([new XMLSerializer().serializeToString(framed)], { type: 'image/svg+xml' });
+};
+
+// PDF exports are laid out for print, see printLayout
+export const renderExport = (
+  qrCode: QRCodeStyling,
+  format: Exclude<ExportFormat, 'pdf'>,
+  settings?: ExportSettings,
+): Promise<Blob> => (format === 'png' ? renderPNG(qrCode, settings) : renderSVG(qrCode, settings));
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { EPCData } from '../types/qr';
+import { defaultEPCData } from '../types/qr';
+import { generateQRString } from './qrPayload';
+import { parseQRPayload } from './parseQR';
+import { parseDecimalAmount } from './amount';
+import { validateTemplateData } from './validation';
+
+const transfer: EPCData = {
+  ...defaultEPCData,
+  name: 'Red Cross Belgium',
+  iban: 'BE72 0000 0000 1616',
+  bic: 'bpot beb1',
+  amount: '10.5',
+  purpose: 'char',
+  remittanceType: 'unstructured',
+  text: 'Donation, thank you',
+};
+
+describe('EPC payloads', () => {
+  it('writes one field per line in the EPC069-12 order', () => {
+    expect(generateQRString('epc', transfer).split('\n')).toEqual([
+      'BCD',
+      '002',
+      '1',
+      'SCT',
+      'BPOTBEB1',
+      'Red Cross Belgium',
+      'BE72000000001616',
+      'EUR10.50',
+      'CHAR',
+      '',
+      'Donation, thank you',
+    ]);
+  });
+
+  it('drops trailing empty fields and keeps structured and unstructured remittance exclusive', () => {
+    const structured = { ...transfer, remittanceType: 'structured' as const, reference: 'RF18 5390 0754 7034' };
+    expect(generateQRString('epc', structured).split('\n').slice(-2)).toEqual(['CHAR', 'RF18539007547034']);
+    expect(generateQRString('epc', { ...transfer, purpose: '', text: '' }).split('\n')).toHaveLength(8);
+  });
+
+  it.each([
+    ['1.234,56', 'EUR1234.56'],
+    ['1,234.56', 'EUR1234.56'],
+    ['1 234,5', 'EUR1234.50'],
+    ['0,01', 'EUR0.01'],
+    ['999999999.99', 'EUR999999999.99'],
+  ])('reads the amount %s in either notation', (amount, field) => {
+    const payload = generateQRString('epc', { ...transfer, amount });
+    expect(payload.split('\n')[7]).toBe(field);
+    expect(validateTemplateData('epc', { ...transfer, amount })).toEqual({});
+  });
+
+  it.each(['0', '0.001', '1000000000', '1.234.56', '1,2,3', 'ten'])(
+    'leaves out and reports the amount %s',
+    (amount) => {
+      expect(generateQRString('epc', { ...transfer, amount }).split('\n')[7]).toBe('');
+      expect(validateTemplateData('epc', { ...transfer, amount })).toEqual({ amount: 'amountRange' });
+    },
+  );
+
+  it('reads its own payloads back', () => {
+    expect(parseQRPayload(generateQRString('epc', transfer))).toMatchObject({
+      type: 'epc',
+      data: { name: transfer.name, iban: 'BE72000000001616', bic: 'BPOTBEB1', amount: '10.50', text: transfer.text },
+    });
+  });
+});
+
+describe('parseDecimalAmount', () => {
+  it('takes the last separator before one or two digits as the decimal point', () => {
+    expect(parseDecimalAmount('1.234.567,8')).toBe(1234567.8);
+    expect(parseDecimalAmount("1'234.50")).toBe(1234.5);
+    expect(parseDecimalAmount('1.234')).toBe(1234);
+  });
+});
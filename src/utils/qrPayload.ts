@@ -0,0 +1,214 @@
+import type {
+  QRTemplateType,
+  URLData,
+  VCardData,
+  WiFiData,
+  EmailData,
+  SMSData,
+  CalendarData,
+  LocationData,
+  PhoneData,
+  WhatsAppData,
+  TelegramData,
+  SocialMediaData,
+  PayPalData,
+  BitcoinData,
+  EPCData,
+  SwissQRData,
+  PixData,
+  PayNowData,
+  PromptPayData,
+  UPIData,
+  QRTemplateData
+} from '../types/qr';
+import { getDefaultTemplateDataMap, EPC_LIMITS } from '../types/qr';
+import { parseDecimalAmount } from './amount';
+import { generateSwissQRPayload } from './swissQR';
+import { generateCalendarPayload } from './iCalendar';
+import { generatePixPayload, generatePayNowPayload, generatePromptPayPayload, formatEMVAmount } from './emvco';
+import { encodeWiFiValue } from './payloadEscaping';
+import { generateVCardPayload } from './vCard';
+
+// Convert template data to the QR payload string
+export const generateQRString = (type: QRTemplateType, data: QRTemplateData): string => {
+  switch (type) {
+    case 'url':
+      return (data as URLData).url || '';
+
+    case 'vcard':
+      return generateVCardPayload(data as VCardData);
+
+    case 'wifi': {
+      const wifi = data as WiFiData;
+      if (!wifi.ssid) return '';
+      return `WIFI:T:${wifi.encryption};S:${encodeWiFiValue(wifi.ssid)};P:${encodeWiFiValue(wifi.password)};H:${wifi.hidden ? 'true' : 'false'};;`;
+    }
+
+    case 'email': {
+      const email = data as EmailData;
+      if (!email.email) return '';
+      return `mailto:${email.email}?subject=${encodeURIComponent(email.subject)}&body=${encodeURIComponent(email.body)}`;
+    }
+
+    case 'sms': {
+      const sms = data as SMSData;
+      if (!sms.phone) return '';
+      const fullPhone = `${sms.countryCode}${sms.phone.replace(/[^0-9]/g, '')}`;
+      return `sms:${fullPhone}${sms.message ? `?body=${encodeURIComponent(sms.message)}` : ''}`;
+    }
+
+    case 'phone': {
+      const phone = data as PhoneData;
+      if (!phone.phone) return '';
+      const fullPhone = `${phone.countryCode}${phone.phone.replace(/[^0-9]/g, '')}`;
+      return `tel:${fullPhone}`;
+    }
+
+    case 'calendar':
+      return generateCalendarPayload(data as CalendarData);
+
+    case 'location': {
+      const loc = data as LocationData;
+      if (!loc.latitude || !loc.longitude) return '';
+      return `geo:${loc.latitude},${loc.longitude}${loc.label ? `?q=${encodeURIComponent(loc.label)}` : ''}`;
+    }
+
+    case 'whatsapp': {
+      const wa = data as WhatsAppData;
+      if (!wa.phone) return '';
+      // Combine country code and phone, remove all non-digits
+      const fullPhone = `${wa.countryCode}${wa.phone}`.replace(/[^0-9]/g, '');
+      return `https://wa.me/${fullPhone}${wa.message ? `?text=${encodeURIComponent(wa.message)}` : ''}`;
+    }
+
+    case 'telegram': {
+      const tg = data as TelegramData;
+      if (!tg.username) return '';
+      const username = tg.username.replace('@', '');
+      // Use t.me link with ?text parameter for prefilled message
+      if (tg.message) {
+        return `https://t.me/${username}?text=${encodeURIComponent(tg.message)}`;
+      }
+      return `https://t.me/${username}`;
+    }
+
+    case 'instagram': {
+      const ig = data as SocialMediaData;
+      if (!ig.username) return '';
+      return `https://instagram.com/${ig.username.replace('@', '')}`;
+    }
+
+    case 'twitter': {
+      const tw = data as SocialMediaData;
+      if (!tw.username) return '';
+      return `https://twitter.com/${tw.username.replace('@', '')}`;
+    }
+
+    case 'linkedin': {
+      const li = data as SocialMediaData;
+      if (!li.username) return '';
+      return `https://linkedin.com/in/${li.username}`;
+    }
+
+    case 'tiktok': {
+      const tt = data as SocialMediaData;
+      if (!tt.username) return '';
+      return `https://tiktok.com/@${tt.username.replace('@', '')}`;
+    }
+
+    case 'youtube': {
+      const yt = data as SocialMediaData;
+      if (!yt.username) return '';
+      return `https://youtube.com/@${yt.username.replace('@', '')}`;
+    }
+
+    case 'facebook': {
+      const fb = data as SocialMediaData;
+      if (!fb.username) return '';
+      return `https://facebook.com/${fb.username}`;
+    }
+
+    case 'snapchat': {
+      const sc = data as SocialMediaData;
+      if (!sc.username) return '';
+      return `https://snapchat.com/add/${sc.username}`;
+    }
+
+    case 'paypal': {
+      const pp = data as PayPalData;
+      if (!pp.username) return '';
+      let url = `https://paypal.me/${pp.username}`;
+      if (pp.amount) {
+        url += `/${pp.amount}${pp.currency ? pp.currency : ''}`;
+      }
+      return url;
+    }
+
+    case 'bitcoin': {
+      const btc = data as BitcoinData;
+      if (!btc.address) return '';
+      let url = `bitcoin:${btc.address}`;
+      const params: string[] = [];
+      if (btc.amount) params.push(`amount=${btc.amount}`);
+      if (btc.label) params.push(`label=${encodeURIComponent(btc.label)}`);
+      if (params.length > 0) url += `?${params.join('&')}`;
+      return url;
+    }
+
+    case 'epc': {
+      const epc = data as EPCData;
+      const iban = epc.iban.replace(/\s/g, '').toUpperCase();
+      if (!epc.name.trim() || !iban) return '';
+      const amount = parseDecimalAmount(epc.amount);
+      const hasAmount = amount >= EPC_LIMITS.minAmount && amount <= EPC_LIMITS.maxAmount;
+      // EPC069-12: one field per line, structured and unstructured remittance are exclusive
+      const lines = [
+        'BCD',
+        '002', // Version 002: BIC is optional within the EEA
+        '1', // Character set: UTF-8
+        'SCT',
+        epc.bic.replace(/\s/g, '').toUpperCase(),
+        epc.name.trim().slice(0, EPC_LIMITS.name),
+        iban,
+        hasAmount ? `EUR${amount.toFixed(2)}` : '',
+        epc.purpose.trim().toUpperCase(),
+        epc.remittanceType === 'structured' ? epc.reference.replace(/\s/g, '').toUpperCase() : '',
+        epc.remittanceType === 'unstructured' ? epc.text.trim().slice(0, EPC_LIMITS.text) : '',
+      ];
+      // Trailing empty fields may be omitted
+      while (lines[lines.length - 1] === '') lines.pop();
+      return lines.join('\n');
+    }
+
+    case 'swissqr':
+      return generateSwissQRPayload(data as SwissQRData);
+
+    case 'pix':
+      return generatePixPayload(data as PixData);
+
+    case 'paynow':
+      return generatePayNowPayload(data as PayNowData);
+
+    case 'promptpay':
+      return generatePromptPayPayload(data as PromptPayData);
+
+    case 'upi': {
+      const upi = data as UPIData;
+      if (!upi.vpa.trim()) return '';
+      let url = `upi://pay?pa=${encodeURIComponent(upi.vpa.trim())}`;
+      if (upi.name) url += `&pn=${encodeURIComponent(upi.name)}`;
+      const amount = formatEMVAmount(upi.amount);
+      if (amount) url += `&am=${amount}`;
+      url += '&cu=INR';
+      if (upi.note) url += `&tn=${encodeURIComponent(upi.note)}`;
+      if (upi.reference) url += `&tr=${encodeURIComponent(upi.reference)}`;
+      return url;
+    }
+
+    default:
+      return '';
+  }
+};
+
+// Empty form data of a template
+export const getDefaultTemplateData = (type: QRTemplateType): QRTemplateData => getDefaultTemplateDataMap()[type];
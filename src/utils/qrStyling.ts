@@ -0,0 +1,106 @@
+import QRCodeStyling from 'qr-code-styling';
+import type { ExtensionFunction, Gradient, Options } from 'qr-code-styling';
+import type { GradientConfig, ImageLayer, QROptions } from '../types/qr';
+import { swissCrossExtension } from './swissQR';
+import { getImageOverlays, type ImageOverlays } from './designLint';
+import { createImageLayersExtension } from './imageLayers';
+import { createModuleShapeExtension, isModuleShape, type ModuleShapeType } from './moduleShapes';
+import { toRendererImageSize } from './logoCoverage';
+import { getQRVersion, toByteString } from './qrEncoding';
+
+// Margin in pixels that makes the quiet zone as many modules wide as chosen, at the version the data needs
+export const getMarginPixels = (options: Pick<QROptions, 'data' | 'errorCorrectionLevel' | 'size' | 'quietZone'>) => {
+  const moduleCount = 17 + 4 * (getQRVersion(options.data || ' ', options.errorCorrectionLevel) ?? 40);
+  return Math.round((options.size * options.quietZone) / (moduleCount + 2 * options.quietZone));
+};
+
+// Solid colour or gradient; qr-code-styling takes the rotation in radians and the stops in order.
+// Updates merge into the previous options, so a solid colour clears the gradient explicitly.
+const fill = (color: string, gradient: GradientConfig): { color?: string; gradient?: Gradient } => (gradient.enabled
+  ? {
+      gradient: {
+        type: gradient.type,
+        rotation: (gradient.rotation * Math.PI) / 180,
+        colorStops: [...gradient.colorStops].sort((a, b) => a.offset - b.offset),
+      },
+    }
+  : { color, gradient: undefined });
+
+// Build qr-code-styling options from our state
+export const buildStylingOptions = (options: QROptions): Options => {
+  const qrOptions: Options = {
+    width: options.size,
+    height: options.size,
+    margin: getMarginPixels(options),
+    data: toByteString(options.data || ' '), // Use space as fallback to prevent crash
+    qrOptions: {
+      errorCorrectionLevel: options.errorCorrectionLevel,
+    },
+    dotsOptions: {
+      // Shapes of our own are drawn over plain squares by the styling extension
+      type: isModuleShape(options.dotType) ? 'square' : options.dotType,
+      ...fill(options.dotColor, options.dotGradient),
+    },
+    cornersSquareOptions: {
+      type: options.cornerSquareType,
+      ...fill(options.cornerSquareColor, options.cornerSquareGradient),
+    },
+    cornersDotOptions: {
+      type: options.cornerDotType,
+      ...fill(options.cornerDotColor, options.cornerDotGradient),
+    },
+    backgroundOptions: options.transparentBackground
+      ? undefined
+      : fill(options.backgroundColor, options.backgroundGradient),
+    imageOptions: {
+      crossOrigin: 'anonymous',
+      margin: options.imageMargin,
+      // The logo clears the same share of modules at every level
+      imageSize: toRendererImageSize(options.imageSize, options.errorCorrectionLevel),
+    },
+    // Only include image if it exists
+    image: (options.templateType !== 'swissqr' && options.image) || undefined,
+  };
+
+  return qrOptions;
+};
+
+// What the SVG extension draws on top of the renderer's output
+export interface StylingLayers {
+  // Dot shape drawn by the app in place of the renderer's squares
+  moduleShape: ModuleShapeType | null;
+  // QR-bills carry the Swiss cross in place of a user logo
+  swissCross: boolean;
+  backgroundImage: ImageLayer | null;
+  moduleImage: ImageLayer | null;
+  imageOverlays: ImageOverlays;
+}
+
+export const getStylingLayers = (options: QROptions): StylingLayers => ({
+  moduleShape: isModuleShape(options.dotType) ? options.dotType : null,
+  swissCross: options.templateType === 'swissqr',
+  backgroundImage: options.backgroundImage.src && !options.transparentBackground ? options.backgroundImage : null,
+  moduleImage: options.moduleImage.src ? options.moduleImage : null,
+  imageOverlays: getImageOverlays(options),
+});
+
+// The renderer takes a single extension, so the layers are drawn by one function
+export const createStylingExtension = (layers: StylingLayers): ExtensionFunction | undefined => {
+  const extensions: ExtensionFunction[] = [];
+  // Shapes replace the plain squares before anything is drawn over the modules
+  if (layers.moduleShape) extensions.push(createModuleShapeExtension(layers.moduleShape));
+  if (layers.backgroundImage || layers.moduleImage) {
+    extensions.push(createImageLayersExtension(layers.backgroundImage, layers.moduleImage, layers.imageOverlays));
+  }
+  if (layers.swissCross) extensions.push(swissCrossExtension);
+  if (extensions.length <= 1) return extensions[0];
+  return (svg, options) => extensions.forEach((extension) => extension(svg, options));
+};
+
+// Standalone styled code, with its image layers and the overlays required by its template
+export const createStyledQRCode = (options: QROptions): QRCodeStyling => {
+  const qrCode = new QRCodeStyling(buildStylingOptions(options));
+  const extension = createStylingExtension(getStylingLayers(options));
+  if (extension) qrCode.applyExtension(extension);
+  return qrCode;
+};
@@ -0,0 +1,112 @@
+import { decodeQR } from './qrDecoder';
+
+// Simulated capture conditions the rendered code is decoded under
+export type ScanCheck = 'original' | 'small' | 'blur' | 'noise';
+
+export interface ScanReport {
+  passed: ScanCheck[];
+  failed: ScanCheck[];
+}
+
+export type ScanConfidence = 'high' | 'medium' | 'fail';
+
+// Pixels per module for the stressed checks: small print / distant camera, and a sharper base for blur and noise
+const SMALL_MODULE_PX = 3;
+const STRESS_MODULE_PX = 6;
+// Largest side the original rendering is checked at
+const MAX_CHECK_SIZE = 1024;
+
+interface Luminance {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// Draw the code on white paper at the given width and keep the luminance only
+const rasterize = (bitmap: ImageBitmap, width: number): Luminance | null => {
+  const size = Math.max(1, Math.round(width));
+  const height = Math.max(1, Math.round((bitmap.height / bitmap.width) * size));
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, size, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, size, height);
+  const { data } = ctx.getImageData(0, 0, size, height);
+  const luminance = new Uint8Array(size * height);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+  }
+  return { data: luminance, width: size, height };
+};
+
+// Three box blur passes approximate a Gaussian blur (out of focus camera)
+const blur = ({ data, width, height }: Luminance, radius: number): Luminance => {
+  let current = Float32Array.from(data);
+  const pass = (source: Float32Array, horizontal: boolean) => {
+    const result = new Float32Array(source.length);
+    const length = horizontal ? width : height;
+    const lines = horizontal ? height : width;
+    for (let line = 0; line < lines; line++) {
+      const index = (pos: number) => (horizontal ? line * width + pos : pos * width + line);
+      for (let pos = 0; pos < length; pos++) {
+        let sum = 0;
+        let count = 0;
+        for (let k = Math.max(0, pos - radius); k <= Math.min(length - 1, pos + radius); k++) {
+          sum += source[index(k)];
+          count++;
+        }
+        result[index(pos)] = sum / count;
+      }
+    }
+    return result;
+  };
+  for (let i = 0; i < 3; i++) current = pass(pass(current, true), false);
+  return { data: Uint8Array.from(current, Math.round), width, height };
+};
+
+// Reduced contrast plus sensor noise (dim light, cheap camera), from a fixed seed for stable results
+const degrade = ({ data, width, height }: Luminance, contrast: number, amplitude: number): Luminance => {
+  let seed = 1;
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+  const result = data.map((value) =>
+    Math.max(0, Math.min(255, Math.round(128 + (value - 128) * contrast + (random() - 0.5) * 2 * amplitude))));
+  return { data: result, width, height };
+};
+
+const decodesTo = (image: Luminance | null, expected: string) => !!image && decodeQR(image)?.text === expected;
+
+// Decode the rendered code back under several simulated conditions and compare with the expected content
+export const verifyScannability = async (image: Blob, expected: string, margin: number): Promise<ScanReport> => {
+  const bitmap = await createImageBitmap(image);
+  const report: ScanReport = { passed: [], failed: [] };
+  const record = (check: ScanCheck, ok: boolean) => (ok ? report.passed : report.failed).push(check);
+
+  try {
+    const original = rasterize(bitmap, Math.min(bitmap.width, MAX_CHECK_SIZE));
+    const decoded = original && decodeQR(original);
+    record('original', decoded?.text === expected);
+    if (!decoded || decoded.text !== expected) {
+      report.failed.push('small', 'blur', 'noise');
+      return report;
+    }
+
+    // Scale relative to the module size so every version is stressed alike
+    const dimension = 17 + 4 * decoded.version;
+    const widthAt = (modulePx: number) => bitmap.width * modulePx / ((bitmap.width - 2 * margin) / dimension);
+
+    record('small', decodesTo(rasterize(bitmap, widthAt(SMALL_MODULE_PX)), expected));
+    const base = rasterize(bitmap, widthAt(STRESS_MODULE_PX));
+    record('blur', decodesTo(base && blur(base, Math.round(STRESS_MODULE_PX / 3)), expected));
+    record('noise', decodesTo(base && degrade(base, 0.5, 32), expected));
+  } finally {
+    bitmap.close();
+  }
+  return report;
+};
+
+export const getScanConfidence = (report: ScanReport): ScanConfidence =>
+  report.failed.includes('original') ? 'fail' : report.failed.length === 0 ? 'high' : 'medium';
@@ -0,0 +1,55 @@
+import type { QROptions, StyleOptions, StylePreset } from '../types/qr';
+import { defaultQROptions, PRESETS_KEY, STYLE_OPTION_KEYS } from '../types/qr';
+
+export const getStyleOptions = (options: QROptions): StyleOptions =>
+  Object.fromEntries(STYLE_OPTION_KEYS.map((key) => [key, options[key]])) as unknown as StyleOptions;
+
+const createPresetId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createStylePreset = (name: string, options: QROptions): StylePreset => ({
+  id: createPresetId(),
+  name: name.trim(),
+  style: getStyleOptions(options),
+});
+
+const isStylePreset = (value: unknown): value is StylePreset => {
+  const preset = value as StylePreset;
+  return !!preset && typeof preset.id === 'string' && typeof preset.name === 'string'
+    && !!preset.style && typeof preset.style === 'object';
+};
+
+// Saved presets, with style options added since they were saved taken from the defaults
+// and those since removed dropped
+export const loadStylePresets = (): StylePreset[] => {
+  try {
+    const saved = localStorage.getItem(PRESETS_KEY);
+    const parsed: unknown = saved ? JSON.parse(saved) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(isStylePreset).map((preset) => ({
+      ...preset,
+      style: getStyleOptions({ ...defaultQROptions, ...preset.style }),
+    }));
+  } catch {
+    console.warn('Failed to load style presets');
+    return [];
+  }
+};
+
+// Returns false when the presets do not fit in storage, e.g. because of large logos
+export const saveStylePresets = (presets: StylePreset[]): boolean => {
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+    return true;
+  } catch {
+    console.warn('Failed to save style presets');
+    return false;
+  }
+};
+
+export const moveStylePreset = (presets: StylePreset[], index: number, offset: number): StylePreset[] => {
+  const target = index + offset;
+  if (target < 0 || target >= presets.length) return presets;
+  const moved = [...presets];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { defaultSwissQRData } from '../types/qr';
+import { formatSwissReference } from './swissQR';
+import { validateTemplateData } from './validation';
+
+const validateReference = (reference: string, referenceType: 'QRR' | 'SCOR' = 'QRR') =>
+  validateTemplateData('swissqr', { ...defaultSwissQRData, referenceType, reference }).reference;
+
+describe('Swiss QR references', () => {
+  it('completes short QR references with their check digit', () => {
+    expect(formatSwissReference('QRR', '21 00000 00003 13947 14300 0901')).toBe('210000000003139471430009017');
+    expect(validateReference('21 00000 00003 13947 14300 0901')).toBeUndefined();
+  });
+
+  it('keeps complete QR references with a valid check digit', () => {
+    expect(formatSwissReference('QRR', '210000000003139471430009017')).toBe('210000000003139471430009017');
+    expect(validateReference('210000000003139471430009017')).toBeUndefined();
+  });
+
+  it('reports a complete QR reference with a wrong check digit instead of rewriting it', () => {
+    expect(formatSwissReference('QRR', '210000000003139471430009018')).toBe('210000000003139471430009018');
+    expect(validateReference('210000000003139471430009018')).toBe('invalidReference');
+  });
+
+  it('completes creditor references with their check digits', () => {
+    expect(formatSwissReference('SCOR', '5390 0754 7034')).toBe('RF18539007547034');
+    expect(validateReference('5390 0754 7034', 'SCOR')).toBeUndefined();
+  });
+
+  it('keeps complete creditor references with valid check digits', () => {
+    expect(formatSwissReference('SCOR', 'rf18 5390 0754 7034')).toBe('RF18539007547034');
+    expect(validateReference('RF18 5390 0754 7034', 'SCOR')).toBeUndefined();
+  });
+
+  it('reports a creditor reference with wrong check digits instead of rewriting it', () => {
+    expect(formatSwissReference('SCOR', 'RF19 5390 0754 7034')).toBe('RF19539007547034');
+    expect(validateReference('RF19 5390 0754 7034', 'SCOR')).toBe('invalidReference');
+  });
+});
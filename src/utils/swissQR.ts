@@ -0,0 +1,305 @@
+import type { ExtensionFunction } from 'qr-code-styling';
+import type { jsPDF } from 'jspdf';
+import type { SwissQRAddress, SwissQRData } from '../types/qr';
+import type { Translations } from '../i18n';
+import { SWISS_QR_LIMITS, defaultSwissQRData } from '../types/qr';
+import { parseDecimalAmount } from './amount';
+
+// Recursive mod-10 table used by QR references (QRR)
+const MOD10_TABLE = [0, 9, 4, 6, 8, 2, 7, 1, 3, 5];
+
+const compact = (value: string) => value.replace(/\s/g, '').toUpperCase();
+
+// QR-IBANs use an institution identifier (IID) in the range 30000-31999
+export const isQRIBAN = (iban: string): boolean => {
+  const normalized = compact(iban);
+  if (!/^(CH|LI)\d{7}/.test(normalized)) return false;
+  const iid = Number(normalized.slice(4, 9));
+  return iid >= 30000 && iid <= 31999;
+};
+
+// Check digit for a numeric QR reference (mod 10, recursive)
+export const qrReferenceCheckDigit = (digits: string): number => {
+  let carry = 0;
+  for (const digit of digits) {
+    carry = MOD10_TABLE[(carry + Number(digit)) % 10];
+  }
+  return (10 - carry) % 10;
+};
+
+// ISO 7064 mod 97-10 over an alphanumeric string (letters map to 10-35)
+const mod97 = (value: string): number => {
+  let remainder = 0;
+  for (const char of value) {
+    const code = parseInt(char, 36);
+    const chunk = code > 9 ? String(code) : char;
+    for (const digit of chunk) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder;
+};
+
+// ISO 11649 check digits for a creditor reference base
+export const creditorReferenceCheckDigits = (base: string): string =>
+  String(98 - mod97(`${base}RF00`)).padStart(2, '0');
+
+const isValidQRReference = (reference: string): boolean =>
+  /^\d{27}$/.test(reference)
+  && qrReferenceCheckDigit(reference.slice(0, 26)) === Number(reference[26]);
+
+const isValidCreditorReference = (reference: string): boolean =>
+  /^RF\d{2}[A-Z0-9]{1,21}$/.test(reference)
+  && mod97(`${reference.slice(4)}${reference.slice(0, 4)}`) === 1;
+
+// Whether the reference was typed with its check digits: a QR reference longer than its
+// 26 digits, or a creditor reference starting with RF and two digits
+const hasCheckDigits = (type: SwissQRData['referenceType'], reference: string) =>
+  type === 'QRR' ? reference.replace(/\D/g, '').length > SWISS_QR_LIMITS.qrReference : /^RF\d{2}/.test(reference);
+
+// A reference typed with check digits that do not match, which is reported rather than rewritten
+export const hasWrongCheckDigits = (type: SwissQRData['referenceType'], input: string): boolean => {
+  const reference = compact(input);
+  if (type === 'NON' || !hasCheckDigits(type, reference)) return false;
+  return type === 'QRR' ? !isValidQRReference(reference.replace(/\D/g, '')) : !isValidCreditorReference(reference);
+};
+
+// Complete a reference with its check digits. References typed with their check digits are
+// kept as typed, so a wrong one is left for validation to report.
+export const formatSwissReference = (type: SwissQRData['referenceType'], input: string): string => {
+  const reference = compact(input);
+  if (!reference || type === 'NON') return '';
+
+  if (type === 'QRR') {
+    const digits = reference.replace(/\D/g, '');
+    if (hasCheckDigits(type, reference)) return digits;
+    const padded = digits.padStart(SWISS_QR_LIMITS.qrReference, '0');
+    return `${padded}${qrReferenceCheckDigit(padded)}`;
+  }
+
+  if (hasCheckDigits(type, reference)) return reference;
+  const base = reference.replace(/^RF\d{0,2}/, '').replace(/[^A-Z0-9]/g, '').slice(0, SWISS_QR_LIMITS.creditorReference);
+  return base ? `RF${creditorReferenceCheckDigits(base)}${base}` : '';
+};
+
+// Group a reference for display: QRR in blocks of 5 from the right, SCOR in blocks of 4
+export const groupSwissReference = (reference: string): string => {
+  if (/^\d{27}$/.test(reference)) {
+    return `${reference.slice(0, 2)} ${reference.slice(2).replace(/(\d{5})(?=\d)/g, '$1 ')}`;
+  }
+  return reference.replace(/(.{4})(?=.)/g, '$1 ');
+};
+
+const parseAmount = (amount: string): number | null => {
+  const value = parseDecimalAmount(amount);
+  return value >= SWISS_QR_LIMITS.minAmount && value <= SWISS_QR_LIMITS.maxAmount ? value : null;
+};
+
+const hasAddress = (address: SwissQRAddress) => !!address.name.trim();
+
+// Structured address block: type "S" followed by six fields, or seven empty lines
+const addressLines = (address: SwissQRAddress): string[] => {
+  if (!hasAddress(address)) return ['', '', '', '', '', '', ''];
+  return [
+    'S',
+    address.name.trim().slice(0, SWISS_QR_LIMITS.name),
+    address.street.trim().slice(0, SWISS_QR_LIMITS.street),
+    address.buildingNumber.trim().slice(0, SWISS_QR_LIMITS.buildingNumber),
+    address.postalCode.trim().slice(0, SWISS_QR_LIMITS.postalCode),
+    address.town.trim().slice(0, SWISS_QR_LIMITS.town),
+    compact(address.country),
+  ];
+};
+
+// Build the Swiss Payments Code payload (SPC version 0200)
+export const generateSwissQRPayload = (data: SwissQRData): string => {
+  const iban = compact(data.iban);
+  if (!iban || !hasAddress(data.creditor)) return '';
+
+  const amount = parseAmount(data.amount);
+  const lines = [
+    'SPC',
+    '0200',
+    '1', // Coding type: UTF-8 restricted to the Latin character set
+    iban,
+    ...addressLines(data.creditor),
+    '', '', '', '', '', '', '', // Ultimate creditor: reserved, must stay empty
+    amount !== null ? amount.toFixed(2) : '',
+    data.currency,
+    ...addressLines(data.debtor),
+    data.referenceType,
+    formatSwissReference(data.referenceType, data.reference),
+    data.message.trim().slice(0, SWISS_QR_LIMITS.message),
+    'EPD',
+  ];
+  return lines.join('\n');
+};
+
+const readAddress = (lines: string[], start: number): SwissQRAddress => ({
+  name: lines[start + 1] ?? '',
+  street: lines[start + 2] ?? '',
+  buildingNumber: lines[start + 3] ?? '',
+  postalCode: lines[start + 4] ?? '',
+  town: lines[start + 5] ?? '',
+  country: lines[start + 6] ?? '',
+});
+
+// Read a Swiss Payments Code payload back into its fields
+export const parseSwissQRPayload = (payload: string): SwissQRData | null => {
+  const lines = payload.split(/\r?\n/);
+  if (lines[0] !== 'SPC' || lines.length < 31) return null;
+
+  const referenceType = lines[27];
+  if (referenceType !== 'QRR' && referenceType !== 'SCOR' && referenceType !== 'NON') return null;
+
+  return {
+    ...defaultSwissQRData,
+    iban: lines[3],
+    creditor: readAddress(lines, 4),
+    amount: lines[18],
+    currency: lines[19] === 'EUR' ? 'EUR' : 'CHF',
+    debtor: readAddress(lines, 20),
+    referenceType,
+    reference: lines[28],
+    message: lines[29],
+  };
+};
+
+// Draw the mandatory Swiss cross (7 x 7 mm on a 46 x 46 mm code) over the centre of the code
+export const swissCrossExtension: ExtensionFunction = (svg, options) => {
+  const width = options.width ?? 0;
+  const height = options.height ?? 0;
+  const codeSize = Math.min(width, height) - (options.margin ?? 0) * 2;
+  const size = codeSize * (7 / 46);
+  const x = (width - size) / 2;
+  const y = (height - size) / 2;
+
+  const doc = svg.ownerDocument;
+  const group = doc.createElementNS('http://www.w3.org/2000/svg', 'g');
+  const rect = (rx: number, ry: number, rw: number, rh: number, fill: string) => {
+    const element = doc.createElementNS('http://www.w3.org/2000/svg', 'rect');
+    element.setAttribute('x', String(rx));
+    element.setAttribute('y', String(ry));
+    element.setAttribute('width', String(rw));
+    element.setAttribute('height', String(rh));
+    element.setAttribute('fill', fill);
+    group.appendChild(element);
+  };
+
+  // White border, black square, then the white cross with the flag's 6:20 proportions
+  const border = size / 14;
+  const inner = size - border * 2;
+  const armWidth = inner * (6 / 32);
+  const armLength = inner * (20 / 32);
+  rect(x, y, size, size, '#ffffff');
+  rect(x + border, y + border, inner, inner, '#000000');
+  rect(x + (size - armWidth) / 2, y + (size - armLength) / 2, armWidth, armLength, '#ffffff');
+  rect(x + (size - armLength) / 2, y + (size - armWidth) / 2, armLength, armWidth, '#ffffff');
+
+  svg.appendChild(group);
+};
+
+// Amounts are printed with a space as thousands separator, e.g. "1 949.75"
+const formatBillAmount = (amount: number) =>
+  amount.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ' ');
+
+const formatAddress = (address: SwissQRAddress): string[] => [
+  address.name,
+  [address.street, address.buildingNumber].filter(Boolean).join(' '),
+  [address.country && address.country !== 'CH' ? `${address.country}-` : '', address.postalCode, ' ', address.town]
+    .join('').trim(),
+].filter(Boolean);
+
+// Corner marks framing a blank field to be filled in by hand
+const drawCornerMarks = (pdf: jsPDF, x: number, y: number, width: number, height: number) => {
+  const mark = 3;
+  pdf.setLineWidth(0.2);
+  pdf.setLineDashPattern([], 0);
+  pdf.lines([[0, mark], [0, -mark], [mark, 0]], x, y + mark, [1, 1], 'S', false);
+  pdf.lines([[mark, 0], [0, mark]], x + width - mark, y, [1, 1], 'S', false);
+  pdf.lines([[0, mark], [-mark, 0]], x + width, y + height - mark, [1, 1], 'S', false);
+  pdf.lines([[0, -mark], [mark, 0]], x, y + height - mark, [1, 1], 'S', false);
+};
+
+/**
+ * Lay out the QR-bill payment part with its receipt on a 210 x 105 mm page,
+ * following the Swiss Implementation Guidelines style guide.
+ */
+export const drawSwissQRBill = (
+  pdf: jsPDF,
+  data: SwissQRData,
+  qrImage: string,
+  labels: Translations['qrPreview']['swissBill'],
+) => {
+  const reference = formatSwissReference(data.referenceType, data.reference);
+  const amount = parseAmount(data.amount);
+  const account = groupSwissReference(compact(data.iban));
+  const debtor = hasAddress(data.debtor) ? formatAddress(data.debtor) : null;
+
+  // Writes a heading followed by its value lines, returning the next y position
+  const block = (x: number, y: number, heading: string, lines: string[], headingSize: number, valueSize: number, width: number) => {
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(headingSize);
+    pdf.text(heading, x, y);
+    y += headingSize * 0.3528 + 0.8;
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(valueSize);
+    for (const line of lines) {
+      const wrapped: string[] = pdf.splitTextToSize(line, width);
+      pdf.text(wrapped, x, y);
+      y += wrapped.length * valueSize * 0.3528 * 1.15;
+    }
+    return y + 2.5;
+  };
+
+  // Separator between receipt and payment part
+  pdf.setLineWidth(0.2);
+  pdf.setLineDashPattern([1, 1], 0);
+  pdf.line(62, 0, 62, 105);
+
+  // Receipt
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(11);
+  pdf.text(labels.receipt, 5, 9);
+  let y = 15;
+  y = block(5, y, labels.account, [account, ...formatAddress(data.creditor)], 6, 8, 52);
+  if (reference) y = block(5, y, labels.reference, [groupSwissReference(reference)], 6, 8, 52);
+  if (debtor) {
+    block(5, y, labels.payableBy, debtor, 6, 8, 52);
+  } else {
+    block(5, y, labels.payableByBlank, [], 6, 8, 52);
+    drawCornerMarks(pdf, 5, y + 3, 52, 20);
+  }
+  block(5, 70, labels.currency, [data.currency], 6, 8, 12);
+  if (amount !== null) {
+    block(18, 70, labels.amount, [formatBillAmount(amount)], 6, 8, 39);
+  } else {
+    block(18, 70, labels.amount, [], 6, 8, 39);
+    drawCornerMarks(pdf, 27, 68, 30, 10);
+  }
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(6);
+  pdf.text(labels.acceptancePoint, 57, 84, { align: 'right' });
+
+  // Payment part
+  pdf.setFontSize(11);
+  pdf.text(labels.paymentPart, 67, 9);
+  pdf.addImage(qrImage, 'PNG', 67, 17, 46, 46);
+  block(67, 70, labels.currency, [data.currency], 8, 10, 15);
+  if (amount !== null) {
+    block(87, 70, labels.amount, [formatBillAmount(amount)], 8, 10, 26);
+  } else {
+    block(87, 70, labels.amount, [], 8, 10, 26);
+    drawCornerMarks(pdf, 78, 73, 40, 15);
+  }
+  y = 9;
+  y = block(118, y, labels.account, [account, ...formatAddress(data.creditor)], 8, 10, 87);
+  if (reference) y = block(118, y, labels.reference, [groupSwissReference(reference)], 8, 10, 87);
+  if (data.message.trim()) y = block(118, y, labels.additionalInfo, [data.message.trim()], 8, 10, 87);
+  if (debtor) {
+    block(118, y, labels.payableBy, debtor, 8, 10, 87);
+  } else {
+    block(118, y, labels.payableByBlank, [], 8, 10, 87);
+    drawCornerMarks(pdf, 118, y + 3, 65, 25);
+  }
+};
@@ -0,0 +1,97 @@
+// IANA time zone arithmetic on top of Intl, which knows the zone rules of the browser
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+export interface TimeZoneTransition {
+  at: number; // Milliseconds since the epoch
+  offsetFrom: number; // Minutes east of UTC before the transition
+  offsetTo: number; // Minutes east of UTC after it
+}
+
+// Every zone the browser knows, UTC first
+export const getTimeZones = (): string[] => {
+  const zones = Intl.supportedValuesOf('timeZone');
+  return zones.includes('UTC') ? zones : ['UTC', ...zones];
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Wall clock of an instant in a zone, read back as if it were UTC
+const getWallTime = (timeZone: string, at: number) => {
+  const parts = Object.fromEntries(getFormatter(timeZone).formatToParts(new Date(at))
+    .map((part) => [part.type, Number(part.value)]));
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+};
+
+// Minutes east of UTC in effect at an instant
+export const getTimeZoneOffset = (timeZone: string, at: number): number => {
+  const second = Math.floor(at / 1000) * 1000;
+  return Math.round((getWallTime(timeZone, second) - second) / MINUTE);
+};
+
+// "YYYY-MM-DDTHH:MM" as it is read in a zone. Times skipped by a DST change move forward.
+export const zonedToUtc = (wallTime: string, timeZone: string): Date | null => {
+  const match = wallTime.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes] = match.map(Number);
+  const wall = Date.UTC(year, month - 1, day, hours, minutes);
+  const guess = wall - getTimeZoneOffset(timeZone, wall) * MINUTE;
+  return new Date(wall - getTimeZoneOffset(timeZone, guess) * MINUTE);
+};
+
+export const utcToZoned = (date: Date, timeZone: string): string =>
+  new Date(getWallTime(timeZone, date.getTime())).toISOString().slice(0, 16);
+
+// Offset changes during a calendar year, to the minute
+export const getTimeZoneTransitions = (timeZone: string, year: number): TimeZoneTransition[] => {
+  const transitions: TimeZoneTransition[] = [];
+  const end = Date.UTC(year + 1, 0, 1);
+  let day = Date.UTC(year, 0, 1);
+  let offset = getTimeZoneOffset(timeZone, day);
+  while (day < end) {
+    const next = day + DAY;
+    const nextOffset = getTimeZoneOffset(timeZone, next);
+    if (nextOffset !== offset) {
+      // The change happens after low and at or before high
+      let low = day;
+      let high = next;
+      while (high - low > MINUTE) {
+        const middle = low + Math.floor((high - low) / 2 / MINUTE) * MINUTE;
+        if (getTimeZoneOffset(timeZone, middle) === offset) low = middle;
+        else high = middle;
+      }
+      transitions.push({ at: high, offsetFrom: offset, offsetTo: nextOffset });
+    }
+    day = next;
+    offset = nextOffset;
+  }
+  return transitions;
+};
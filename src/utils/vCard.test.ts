@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { VCardData } from '../types/qr';
+import { defaultVCardData } from '../types/qr';
+import { generateVCardPayload, parseMeCardPayload, parseVCardPayload } from './vCard';
+
+const card: VCardData = {
+  ...defaultVCardData,
+  firstName: 'Anna; Maria',
+  lastName: 'Rossi, Bianchi',
+  organization: 'Caffè Roma, S.r.l.',
+  title: 'Head of Sales; EMEA',
+  phones: [{ type: 'cell', value: '+39 333 1234567' }, { type: 'work', value: '+39 02 7654321' }],
+  emails: [{ type: 'work', value: 'anna@example.com' }],
+  website: 'https://example.com',
+  address: 'Via Roma 1, Scala B',
+  city: 'Milano',
+  state: 'MI',
+  zip: '20121',
+  country: 'Italia',
+  birthday: '1985-04-12',
+  note: `Met at the fair; ask about pricing, delivery\nand ${'a very long follow-up note '.repeat(5)}`,
+  socialProfiles: ['https://www.linkedin.com/in/anna-rossi'],
+};
+
+describe('vCard payloads', () => {
+  it.each(['vcard3', 'vcard4'] as const)('round-trips escaped and folded %s values', (format) => {
+    const payload = generateVCardPayload({ ...card, format });
+    payload.split('\r\n').forEach((line) => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+    expect(payload).toContain('ADR:;;Via Roma 1\\, Scala B;Milano;MI;20121;Italia');
+
+    const parsed = parseVCardPayload(payload);
+    expect(parsed).toEqual({
+      ...card,
+      // tel: URIs of vCard 4.0 carry hyphens in place of spaces
+      phones: format === 'vcard4'
+        ? card.phones.map((phone) => ({ ...phone, value: phone.value.replace(/ /g, '-') }))
+        : card.phones,
+      format,
+    });
+  });
+
+  it('round-trips MeCard values with delimiters', () => {
+    const mecard: VCardData = { ...card, title: '', note: 'Met at the fair; ask about pricing', format: 'mecard' };
+    const parsed = parseMeCardPayload(generateVCardPayload(mecard));
+    expect(parsed).toEqual({
+      ...mecard,
+      // MeCard has no entry types
+      phones: mecard.phones.map((phone) => ({ ...phone, type: 'cell' })),
+    });
+  });
+});
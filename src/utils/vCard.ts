@@ -0,0 +1,259 @@
+import type { VCardData, VCardEntry, VCardEntryType } from '../types/qr';
+import { defaultVCardData } from '../types/qr';
+import {
+  escapeContentText,
+  unescapeContentText,
+  escapeMeCardValue,
+  unescapeMeCardValue,
+  joinContentLines,
+  parseContentLines,
+  quoteParameterValue,
+  splitUnescaped,
+} from './payloadEscaping';
+
+// Embedded photos are tiny: every byte makes the code denser
+const PHOTO_SIZE = 48;
+const PHOTO_QUALITY = 0.6;
+
+// Service names used by the SOCIALPROFILE property, by host
+const SOCIAL_NETWORKS: [RegExp, string][] = [
+  [/(^|\.)linkedin\.com$/, 'LinkedIn'],
+  [/(^|\.)(twitter|x)\.com$/, 'Twitter'],
+  [/(^|\.)facebook\.com$/, 'Facebook'],
+  [/(^|\.)instagram\.com$/, 'Instagram'],
+  [/(^|\.)github\.com$/, 'GitHub'],
+  [/(^|\.)youtube\.com$/, 'YouTube'],
+  [/(^|\.)tiktok\.com$/, 'TikTok'],
+];
+
+const getSocialNetwork = (url: string) => {
+  let host = '';
+  try {
+    host = new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+  return SOCIAL_NETWORKS.find(([pattern]) => pattern.test(host))?.[1] ?? host;
+};
+
+const filledEntries = (entries: VCardEntry[]) => entries.filter((entry) => entry.value.trim());
+
+// TYPE parameter of a phone number or email address in either vCard version
+const phoneType = (type: VCardEntryType, v4: boolean) => {
+  if (type === 'cell') return v4 ? 'cell' : 'CELL';
+  return v4 ? `"voice,${type}"` : `${type.toUpperCase()},VOICE`;
+};
+
+const emailType = (type: VCardEntryType, v4: boolean) => {
+  const kind = type === 'work' ? 'work' : 'home';
+  return v4 ? kind : `INTERNET,${kind.toUpperCase()}`;
+};
+
+// tel: URIs allow only digits and visual separators; spaces become hyphens
+const toTelUri = (phone: string) => phone.trim().replace(/\s+/g, '-').replace(/[^\d+\-.()]/g, '');
+
+const photoLine = (photo: string, v4: boolean) => {
+  if (!photo) return '';
+  // vCard 4.0 takes data URIs as they are; 3.0 has its own inline encoding
+  if (v4) return `PHOTO:${photo}`;
+  const embedded = photo.match(/^data:image\/([\w+.-]+);base64,(.*)$/);
+  return embedded ? `PHOTO;ENCODING=b;TYPE=${embedded[1].toUpperCase()}:${embedded[2]}` : `PHOTO;VALUE=uri:${photo}`;
+};
+
+const hasAddress = (vcard: VCardData) =>
+  !!(vcard.address || vcard.city || vcard.state || vcard.zip || vcard.country);
+
+// MeCard has no types, titles or photos, in exchange for a much shorter payload
+const generateMeCardPayload = (vcard: VCardData): string => {
+  const value = escapeMeCardValue;
+  const fields = [
+    vcard.firstName || vcard.lastName ? `N:${value(vcard.lastName)},${value(vcard.firstName)}` : '',
+    vcard.organization ? `ORG:${value(vcard.organization)}` : '',
+    ...filledEntries(vcard.phones).map((phone) => `TEL:${value(phone.value.trim())}`),
+    ...filledEntries(vcard.emails).map((email) => `EMAIL:${value(email.value.trim())}`),
+    vcard.birthday ? `BDAY:${vcard.birthday.replace(/-/g, '')}` : '',
+    // PO box, room, street, city, region, postal code, country
+    hasAddress(vcard)
+      ? `ADR:${['', '', vcard.address, vcard.city, vcard.state, vcard.zip, vcard.country].map(value).join(',')}`
+      : '',
+    // Readers end fields at line breaks
+    vcard.note ? `NOTE:${value(vcard.note.replace(/\s*\r?\n\s*/g, ' '))}` : '',
+    ...[vcard.website, ...vcard.socialProfiles].filter(Boolean).map((url) => `URL:${value(url)}`),
+  ].filter((field) => field);
+  return fields.length ? `MECARD:${fields.join(';')};;` : '';
+};
+
+export const generateVCardPayload = (vcard: VCardData): string => {
+  if (vcard.format === 'mecard') return generateMeCardPayload(vcard);
+  const v4 = vcard.format === 'vcard4';
+  const text = escapeContentText;
+  const fullName = `${vcard.firstName} ${vcard.lastName}`.trim();
+  const hasName = !!(vcard.firstName || vcard.lastName);
+  const lines = [
+    'BEGIN:VCARD',
+    v4 ? 'VERSION:4.0' : 'VERSION:3.0',
+    hasName ? `N:${text(vcard.lastName)};${text(vcard.firstName)};;;` : '',
+    // FN is required by vCard 4.0, so cards without a name use the organization
+    hasName || v4 ? `FN:${text(fullName || vcard.organization)}` : '',
+    vcard.organization ? `ORG:${text(vcard.organization)}` : '',
+    vcard.title ? `TITLE:${text(vcard.title)}` : '',
+    ...filledEntries(vcard.phones).map((phone) => (v4
+      ? `TEL;VALUE=uri;TYPE=${phoneType(phone.type, v4)}:tel:${toTelUri(phone.value)}`
+      : `TEL;TYPE=${phoneType(phone.type, v4)}:${phone.value.trim()}`)),
+    ...filledEntries(vcard.emails).map((email) => `EMAIL;TYPE=${emailType(email.type, v4)}:${text(email.value.trim())}`),
+    vcard.website ? `URL:${vcard.website}` : '',
+    hasAddress(vcard)
+      ? `ADR:;;${[vcard.address, vcard.city, vcard.state, vcard.zip, vcard.country].map(text).join(';')}`
+      : '',
+    vcard.birthday ? `BDAY:${v4 ? vcard.birthday.replace(/-/g, '') : vcard.birthday}` : '',
+    vcard.note ? `NOTE:${text(vcard.note)}` : '',
+    // SOCIALPROFILE is standard since RFC 9554; 3.0 readers know the X- form
+    ...vcard.socialProfiles.filter(Boolean).map((url) => {
+      const network = getSocialNetwork(url);
+      if (v4) return `SOCIALPROFILE${network ? `;SERVICE-TYPE=${quoteParameterValue(network)}` : ''}:${url}`;
+      return `X-SOCIALPROFILE${network ? `;TYPE=${quoteParameterValue(network.toLowerCase())}` : ''}:${url}`;
+    }),
+    photoLine(vcard.photo, v4),
+    'END:VCARD',
+  ].filter(line => line);
+  return joinContentLines(lines);
+};
+
+// Shrink an image to a square JPEG small enough to embed in a card
+export const createContactPhoto = async (file: Blob): Promise<string> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = PHOTO_SIZE;
+    canvas.height = PHOTO_SIZE;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+    // Crop the centre of the image to a square
+    const side = Math.min(bitmap.width, bitmap.height);
+    ctx.drawImage(bitmap, (bitmap.width - side) / 2, (bitmap.height - side) / 2, side, side, 0, 0, PHOTO_SIZE, PHOTO_SIZE);
+    return canvas.toDataURL('image/jpeg', PHOTO_QUALITY);
+  } finally {
+    bitmap.close();
+  }
+};
+
+const entryType = (params: string, fallback: VCardEntryType): VCardEntryType => {
+  if (/CELL|MOBILE/.test(params)) return 'cell';
+  if (params.includes('WORK')) return 'work';
+  if (params.includes('HOME')) return 'home';
+  return fallback;
+};
+
+// "1990-05-01", "19900501" or a date-time to the YYYY-MM-DD of the form
+const parseBirthday = (value: string) => {
+  const match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : '';
+};
+
+export const parseVCardPayload = (payload: string): VCardData => {
+  const data: VCardData = { ...defaultVCardData, phones: [], emails: [], socialProfiles: [] };
+  let fullName = '';
+  for (const { name, params, parameters, value } of parseContentLines(payload)) {
+    const parts = splitUnescaped(value, ';').map(unescapeContentText);
+    switch (name) {
+      case 'VERSION':
+        data.format = value.startsWith('4') ? 'vcard4' : 'vcard3';
+        break;
+      case 'N':
+        data.lastName = parts[0] || '';
+        data.firstName = parts[1] || '';
+        break;
+      case 'FN':
+        fullName = unescapeContentText(value);
+        break;
+      case 'ORG':
+        data.organization = parts[0] || '';
+        break;
+      case 'TITLE':
+        data.title = unescapeContentText(value);
+        break;
+      case 'TEL':
+        data.phones.push({ type: entryType(params, 'cell'), value: value.replace(/^tel:/i, '') });
+        break;
+      case 'EMAIL':
+        data.emails.push({ type: entryType(params, 'work') === 'home' ? 'home' : 'work', value: unescapeContentText(value) });
+        break;
+      case 'URL':
+        if (!data.website) data.website = value;
+        break;
+      case 'ADR':
+        if (!data.address) {
+          data.address = parts.slice(0, 3).filter(Boolean).join(', ');
+          data.city = parts[3] || '';
+          data.state = parts[4] || '';
+          data.zip = parts[5] || '';
+          data.country = parts[6] || '';
+        }
+        break;
+      case 'BDAY':
+        data.birthday = parseBirthday(value);
+        break;
+      case 'NOTE':
+        data.note = unescapeContentText(value);
+        break;
+      case 'SOCIALPROFILE':
+      case 'X-SOCIALPROFILE':
+        // Apple also writes usernames here; only links fit the form
+        if (/^https?:\/\//i.test(value)) data.socialProfiles.push(value);
+        break;
+      case 'PHOTO': {
+        const encoding = parameters.ENCODING?.toUpperCase();
+        data.photo = encoding === 'B' || encoding === 'BASE64'
+          ? `data:image/${(parameters.TYPE || 'jpeg').toLowerCase()};base64,${value}`
+          : value;
+        break;
+      }
+    }
+  }
+  if (!data.firstName && !data.lastName && fullName && fullName !== data.organization) {
+    const [first, ...rest] = fullName.split(' ');
+    data.firstName = first;
+    data.lastName = rest.join(' ');
+  }
+  return data;
+};
+
+// MeCard ("MECARD:N:Last,First;TEL:...;;") maps onto the same vCard fields
+export const parseMeCardPayload = (payload: string): VCardData => {
+  const data: VCardData = { ...defaultVCardData, phones: [], emails: [], socialProfiles: [], format: 'mecard' };
+  for (const part of splitUnescaped(payload.slice('MECARD:'.length), ';')) {
+    const colon = part.indexOf(':');
+    if (colon < 0) continue;
+    const raw = part.slice(colon + 1);
+    const value = unescapeMeCardValue(raw);
+    switch (part.slice(0, colon).toUpperCase()) {
+      case 'N': {
+        const [last, first] = splitUnescaped(raw, ',').map(unescapeMeCardValue);
+        data.lastName = last || '';
+        data.firstName = first || '';
+        break;
+      }
+      case 'ORG': data.organization = value; break;
+      case 'TEL': data.phones.push({ type: 'cell', value }); break;
+      case 'EMAIL': data.emails.push({ type: 'work', value }); break;
+      case 'URL':
+        if (!data.website) data.website = value;
+        else data.socialProfiles.push(value);
+        break;
+      case 'BDAY': data.birthday = parseBirthday(value); break;
+      case 'NOTE': data.note = value; break;
+      case 'ADR': {
+        if (data.address) break;
+        const fields = splitUnescaped(raw, ',').map(unescapeMeCardValue);
+        if (fields.length < 7) {
+          data.address = value;
+          break;
+        }
+        data.address = fields.slice(0, 3).filter(Boolean).join(', ');
+        [data.city, data.state, data.zip, data.country] = fields.slice(3, 7);
+        break;
+      }
+    }
+  }
+  return data;
+};
@@ -0,0 +1,190 @@
+import { parsePhoneNumberFromString } from 'libphonenumber-js';
+import type {
+  QRTemplateType,
+  QRTemplateData,
+  URLData,
+  VCardData,
+  EmailData,
+  SMSData,
+  CalendarData,
+  LocationData,
+  PhoneData,
+  WhatsAppData,
+  PayPalData,
+  BitcoinData,
+  EPCData,
+  SwissQRData,
+  PixData,
+} from '../types/qr';
+import { EPC_LIMITS, PIX_LIMITS, SWISS_QR_LIMITS } from '../types/qr';
+import { parseDecimalAmount } from './amount';
+import { getPixDescriptionLimit } from './emvco';
+import { hasWrongCheckDigits, isQRIBAN } from './swissQR';
+import { isValidBitcoinAddress } from './bitcoinAddress';
+
+export type ValidationError =
+  | 'invalidUrl'
+  | 'unsupportedScheme'
+  | 'invalidEmail'
+  | 'invalidPhone'
+  | 'latitudeRange'
+  | 'longitudeRange'
+  | 'invalidBitcoinAddress'
+  | 'invalidAmount'
+  | 'amountRange'
+  | 'referenceMismatch'
+  | 'invalidReference'
+  | 'tooLong'
+  | 'endBeforeStart'
+  | 'untilBeforeStart';
+
+// Errors by form field; repeated fields are keyed "phones.0", "phones.1", ...
+export type FieldErrors = Partial<Record<string, ValidationError>>;
+
+const WEB_SCHEMES = ['http:', 'https:'];
+
+// RFC 5322 addr-spec: dot-atom or quoted local part, host name or address literal
+const EMAIL_PATTERN = new RegExp(
+  '^(?:[\\p{L}\\p{N}!#$%&\'*+/=?^_`{|}~-]+(?:\\.[\\p{L}\\p{N}!#$%&\'*+/=?^_`{|}~-]+)*|"(?:[^"\\\\\\r\\n]|\\\\.)*")'
+  + '@(?:(?:[\\p{L}\\p{N}](?:[\\p{L}\\p{N}-]{0,61}[\\p{L}\\p{N}])?\\.)+[\\p{L}]{2,}|\\[[^\\[\\]\\\\\\s]+\\])$',
+  'u',
+);
+
+// Empty fields are never errors here: required fields are reported by the preview
+const checkUrl = (value: string): ValidationError | null => {
+  if (!value.trim()) return null;
+  try {
+    return WEB_SCHEMES.includes(new URL(value.trim()).protocol) ? null : 'unsupportedScheme';
+  } catch {
+    return 'invalidUrl';
+  }
+};
+
+const checkEmail = (value: string): ValidationError | null => {
+  const email = value.trim();
+  if (!email) return null;
+  const local = email.slice(0, email.lastIndexOf('@'));
+  return EMAIL_PATTERN.test(email) && local.length <= 64 && email.length <= 254 ? null : 'invalidEmail';
+};
+
+// Numbers must be complete international (E.164) numbers
+const checkPhone = (value: string): ValidationError | null => {
+  if (!value.trim()) return null;
+  return parsePhoneNumberFromString(value.trim())?.isValid() ? null : 'invalidPhone';
+};
+
+const checkNationalPhone = ({ countryCode, phone }: { countryCode: string; phone: string }) =>
+  phone.trim() ? checkPhone(`${countryCode}${phone.replace(/\D/g, '')}`) : null;
+
+const checkCoordinate = (value: string, limit: number, error: ValidationError): ValidationError | null => {
+  if (!value.trim()) return null;
+  const number = Number(value.trim());
+  return /^[-+]?\d+(\.\d+)?$/.test(value.trim()) && Math.abs(number) <= limit ? null : error;
+};
+
+// Positive amounts with at most the given number of decimals
+const checkAmount = (value: string | undefined, decimals: number): ValidationError | null => {
+  if (!value?.trim()) return null;
+  const pattern = new RegExp(`^\\d+(\\.\\d{1,${decimals}})?$`);
+  return pattern.test(value.trim()) && Number(value) > 0 ? null : 'invalidAmount';
+};
+
+const checkAmountRange = (value: string, limits: { minAmount: number; maxAmount: number }): ValidationError | null => {
+  if (value === '') return null;
+  const amount = parseDecimalAmount(value);
+  return amount >= limits.minAmount && amount <= limits.maxAmount ? null : 'amountRange';
+};
+
+// Drop the fields without an error
+const collect = (errors: [string, ValidationError | null][]): FieldErrors =>
+  Object.fromEntries(errors.filter((entry): entry is [string, ValidationError] => entry[1] !== null));
+
+export const validateTemplateData = (type: QRTemplateType, data: QRTemplateData): FieldErrors => {
+  switch (type) {
+    case 'url':
+      return collect([['url', checkUrl((data as URLData).url)]]);
+
+    case 'vcard': {
+      const vcard = data as VCardData;
+      return collect([
+        ...vcard.phones.map((phone, i): [string, ValidationError | null] => [`phones.${i}`, checkPhone(phone.value)]),
+        ...vcard.emails.map((email, i): [string, ValidationError | null] => [`emails.${i}`, checkEmail(email.value)]),
+        ['website', checkUrl(vcard.website)],
+        ...vcard.socialProfiles.map((url, i): [string, ValidationError | null] => [`socialProfiles.${i}`, checkUrl(url)]),
+      ]);
+    }
+
+    case 'email': {
+      // mailto: takes several comma-separated recipients
+      const { email } = data as EmailData;
+      return collect([['email', email.split(',').map(checkEmail).find((error) => error) ?? null]]);
+    }
+
+    case 'sms':
+    case 'phone':
+    case 'whatsapp':
+      return collect([['phone', checkNationalPhone(data as SMSData | PhoneData | WhatsAppData)]]);
+
+    case 'calendar': {
+      const cal = data as CalendarData;
+      // Both fields hold ISO dates or date-times of the same kind, which sort as text
+      const start = cal.allDay ? cal.startDate.slice(0, 10) : cal.startDate;
+      const end = cal.allDay ? cal.endDate.slice(0, 10) : cal.endDate;
+      const untilSet = cal.repeat !== 'none' && cal.repeatEnd === 'until' && !!cal.repeatUntil;
+      return collect([
+        ['endDate', start && end && end < start ? 'endBeforeStart' : null],
+        ['repeatUntil', untilSet && cal.repeatUntil < start.slice(0, 10) ? 'untilBeforeStart' : null],
+        ['organizerEmail', checkEmail(cal.organizerEmail)],
+        ['url', checkUrl(cal.url)],
+      ]);
+    }
+
+    case 'location': {
+      const loc = data as LocationData;
+      return collect([
+        ['latitude', checkCoordinate(loc.latitude, 90, 'latitudeRange')],
+        ['longitude', checkCoordinate(loc.longitude, 180, 'longitudeRange')],
+      ]);
+    }
+
+    case 'paypal':
+      return collect([['amount', checkAmount((data as PayPalData).amount, 2)]]);
+
+    case 'bitcoin': {
+      const btc = data as BitcoinData;
+      return collect([
+        ['address', btc.address.trim() && !isValidBitcoinAddress(btc.address) ? 'invalidBitcoinAddress' : null],
+        ['amount', checkAmount(btc.amount, 8)],
+      ]);
+    }
+
+    case 'epc':
+      return collect([['amount', checkAmountRange((data as EPCData).amount, EPC_LIMITS)]]);
+
+    case 'swissqr': {
+      const swiss = data as SwissQRData;
+      // QR-IBANs require a QR reference, and QR references require a QR-IBAN
+      const qrIban = isQRIBAN(swiss.iban);
+      const mismatch = swiss.iban.trim() !== '' && (qrIban ? swiss.referenceType !== 'QRR' : swiss.referenceType === 'QRR');
+      return collect([
+        ['iban', mismatch ? 'referenceMismatch' : null],
+        // Partial references are completed with their check digits, complete ones must carry the right ones
+        ['reference', hasWrongCheckDigits(swiss.referenceType, swiss.reference) ? 'invalidReference' : null],
+        ['amount', checkAmountRange(swiss.amount, SWISS_QR_LIMITS)],
+      ]);
+    }
+
+    case 'pix': {
+      const pix = data as PixData;
+      return collect([
+        ['key', pix.key.trim().length > PIX_LIMITS.key ? 'tooLong' : null],
+        ['description', pix.description.trim().length > getPixDescriptionLimit(pix.key) ? 'tooLong' : null],
+      ]);
+    }
+
+    default:
+      return {};
+  }
+};
+
+export const hasValidationErrors = (errors: FieldErrors) => Object.keys(errors).length > 0;
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip } from './zip';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe('createZip', () => {
+  it('computes the standard CRC-32', () => {
+    expect(crc32(bytes('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+
+  it('writes local headers, a central directory and an end record that agree', async () => {
+    const entries = [
+      { name: 'codes/città.svg', data: bytes('<svg/>') },
+      { name: 'b.txt', data: bytes('hello') },
+    ];
+    const zip = new DataView(await createZip(entries, new Date(2026, 9, 19, 14, 30, 10)).arrayBuffer());
+    const decoder = new TextDecoder();
+
+    const end = zip.byteLength - 22;
+    expect(zip.getUint32(end, true)).toBe(0x06054b50);
+    expect(zip.getUint16(end + 10, true)).toBe(entries.length);
+    let central = zip.getUint32(end + 16, true);
+    expect(central + zip.getUint32(end + 12, true)).toBe(end);
+
+    for (const entry of entries) {
+      expect(zip.getUint32(central, true)).toBe(0x02014b50);
+      const nameLength = zip.getUint16(central + 28, true);
+      const local = zip.getUint32(central + 42, true);
+      expect(decoder.decode(new Uint8Array(zip.buffer, central + 46, nameLength))).toBe(entry.name);
+
+      expect(zip.getUint32(local, true)).toBe(0x04034b50);
+      expect(zip.getUint16(local + 6, true)).toBe(0x0800);
+      expect(zip.getUint16(local + 10, true)).toBe((14 << 11) | (30 << 5) | 5);
+      expect(zip.getUint16(local + 12, true)).toBe((46 << 9) | (10 << 5) | 19);
+      expect(zip.getUint32(local + 14, true)).toBe(crc32(entry.data));
+      expect(zip.getUint32(central + 16, true)).toBe(crc32(entry.data));
+      expect(zip.getUint32(local + 18, true)).toBe(entry.data.length);
+      const data = new Uint8Array(zip.buffer, local + 30 + zip.getUint16(local + 26, true), entry.data.length);
+      expect(data).toEqual(entry.data);
+      central += 46 + nameLength;
+    }
+  });
+});